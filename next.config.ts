@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  // pdf-parse reads a bundled test file when it can't see its parent module, which breaks under webpack.
+  serverExternalPackages: ["pdf-parse"],
   typescript: {
     tsconfigPath: "./tsconfig.json",
   },
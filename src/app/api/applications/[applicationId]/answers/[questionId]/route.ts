@@ -0,0 +1,24 @@
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { getAnswerFile } from "@/lib/applications";
+import { attachmentDisposition, errorResponse } from "@/lib/http";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ applicationId: string; questionId: string }> }
+) {
+  try {
+    const user = await requireUser();
+    const { applicationId, questionId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    const { file, data } = await getAnswerFile(user.companyId, applicationId, questionId);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(data.length),
+        "Content-Disposition": attachmentDisposition(file.fileName),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { createBookingLink } from "@/lib/interviews/booking";
+
+export async function POST(request: Request, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    const link = await createBookingLink(user, applicationId, await readJson(request));
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { listApplicationEmails, parseEmailRequest, queueApplicationEmail } from "@/lib/mail";
+
+interface RouteContext {
+  params: Promise<{ applicationId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    return NextResponse.json({ emails: await listApplicationEmails(user.companyId, applicationId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    const { template, note } = parseEmailRequest(await readJson(request));
+    const email = await queueApplicationEmail(user.companyId, applicationId, template, note);
+    return NextResponse.json({ email }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { scheduleInterview } from "@/lib/interviews";
+
+export async function POST(request: Request, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    const interview = await scheduleInterview(user, applicationId, await readJson(request));
+    return NextResponse.json({ interview }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { screenApplication } from "@/lib/screening";
+
+export async function POST(_request: Request, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    return NextResponse.json({ application: await screenApplication(user.companyId, applicationId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { changeApplicationStage } from "@/lib/applications";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function POST(request: Request, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { applicationId } = await params;
+    await requireRecordAccess(user, "applications", applicationId);
+    const { stageId } = await readJson(request);
+    return NextResponse.json({ application: await changeApplicationStage(user, applicationId, stageId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { authenticate, startSession } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function POST(request: Request) {
+  try {
+    const body = await readJson<Record<string, string>>(request);
+    const user = await authenticate(body.email ?? "", body.password ?? "");
+    await startSession(user.id);
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
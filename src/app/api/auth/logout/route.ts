@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { endSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+
+export async function POST() {
+  try {
+    await endSession();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
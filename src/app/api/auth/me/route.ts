@@ -0,0 +1,19 @@
+import { NextResponse, after } from "next/server";
+import { releaseHeldApplications } from "@/lib/applications";
+import { requireUser } from "@/lib/auth";
+import { settleSubscription } from "@/lib/billing";
+import { getCompany } from "@/lib/companies";
+import { errorResponse } from "@/lib/http";
+import { screenReleasedApplications } from "@/lib/screening";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    await settleSubscription(user.companyId);
+    const released = await releaseHeldApplications(user.companyId);
+    if (released.length > 0) after(() => screenReleasedApplications(released));
+    return NextResponse.json({ user, company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { createAccount, startSession } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function POST(request: Request) {
+  try {
+    const body = await readJson<Record<string, string>>(request);
+    const user = await createAccount({
+      email: body.email ?? "",
+      password: body.password ?? "",
+      confirmPassword: body.confirmPassword ?? "",
+      companyName: body.companyName ?? "",
+    });
+    await startSession(user.id);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
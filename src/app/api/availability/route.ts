@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { listAvailability, replaceAvailability } from "@/lib/interviews/availability";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ availability: await listAvailability(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser("settings:manage");
+    return NextResponse.json({ availability: await replaceAvailability(user.companyId, await readJson(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
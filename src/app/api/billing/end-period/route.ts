@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { endPeriodNow } from "@/lib/billing";
+import { getCompany } from "@/lib/companies";
+import { errorResponse } from "@/lib/http";
+
+export async function POST() {
+  try {
+    const user = await requireUser("billing:manage");
+    const billing = await endPeriodNow(user.companyId);
+    return NextResponse.json({ billing, company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { updatePaymentMethod } from "@/lib/billing";
+import { getCompany } from "@/lib/companies";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser("billing:manage");
+    const billing = await updatePaymentMethod(user.companyId, await readJson(request));
+    return NextResponse.json({ billing, company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
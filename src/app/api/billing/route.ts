@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { getBilling, settleSubscription } from "@/lib/billing";
+import { errorResponse } from "@/lib/http";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    await settleSubscription(user.companyId);
+    return NextResponse.json({ billing: await getBilling(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
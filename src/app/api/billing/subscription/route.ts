@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { cancelSubscription, changePlan } from "@/lib/billing";
+import { getCompany } from "@/lib/companies";
+import { errorResponse, readJson } from "@/lib/http";
+
+// The company comes back too, since its plan changes with the subscription.
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser("billing:manage");
+    const billing = await changePlan(user.companyId, await readJson(request));
+    return NextResponse.json({ billing, company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE() {
+  try {
+    const user = await requireUser("billing:manage");
+    const billing = await cancelSubscription(user.companyId);
+    return NextResponse.json({ billing, company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
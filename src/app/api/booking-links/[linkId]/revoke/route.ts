@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { revokeBookingLink } from "@/lib/interviews/booking";
+
+export async function POST(_request: Request, { params }: { params: Promise<{ linkId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { linkId } = await params;
+    await requireRecordAccess(user, "bookingLinks", linkId);
+    return NextResponse.json({ link: await revokeBookingLink(user.companyId, linkId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { listBookingLinks } from "@/lib/interviews/booking";
+import { canViewJob } from "@/lib/permissions";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const links = (await listBookingLinks(user.companyId)).filter((link) => canViewJob(user, link.jobId));
+    return NextResponse.json({ links });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
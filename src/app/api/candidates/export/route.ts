@@ -0,0 +1,13 @@
+import { requireUser } from "@/lib/auth";
+import { exportCandidates, exportResponse } from "@/lib/export";
+import { errorResponse } from "@/lib/http";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    return exportResponse(await exportCandidates(user, searchParams));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
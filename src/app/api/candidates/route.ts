@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { listCandidates } from "@/lib/applications";
+import { errorResponse } from "@/lib/http";
+import { canViewJob } from "@/lib/permissions";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const candidates = (await listCandidates(user.companyId)).filter((candidate) => canViewJob(user, candidate.jobId));
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
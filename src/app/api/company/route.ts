@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { getCompany, parseCompanyInput, updateCompany } from "@/lib/companies";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ company: await getCompany(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser("settings:manage");
+    const input = parseCompanyInput(await readJson(request));
+    return NextResponse.json({ company: await updateCompany(user.companyId, input) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
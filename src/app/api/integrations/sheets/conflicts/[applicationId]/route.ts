@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { requireFeature } from "@/lib/entitlements";
+import { HttpError, errorResponse, readJson } from "@/lib/http";
+import { resolveSheetConflict } from "@/lib/sheets";
+
+interface RouteContext {
+  params: Promise<{ applicationId: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("sheets:sync");
+    await requireFeature(user.companyId, "sheets_integration");
+    const { applicationId } = await params;
+    const { keep } = await readJson<{ keep?: unknown }>(request);
+    if (keep !== "sheet" && keep !== "app") {
+      throw new HttpError(400, 'keep must be "sheet" or "app"');
+    }
+    return NextResponse.json({ connection: await resolveSheetConflict(user.companyId, applicationId, keep) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { requireFeature } from "@/lib/entitlements";
+import { errorResponse, readJson } from "@/lib/http";
+import { disconnectSheets, getSheetsStatus, parseSheetsInput, saveSheetsConnection } from "@/lib/sheets";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json(await getSheetsStatus(user.companyId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser("settings:manage");
+    await requireFeature(user.companyId, "sheets_integration");
+    const input = parseSheetsInput(await readJson(request));
+    return NextResponse.json({ connection: await saveSheetsConnection(user.companyId, input) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE() {
+  try {
+    const user = await requireUser("settings:manage");
+    await disconnectSheets(user.companyId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { requireFeature } from "@/lib/entitlements";
+import { errorResponse } from "@/lib/http";
+import { syncSheets } from "@/lib/sheets";
+
+export async function POST() {
+  try {
+    const user = await requireUser("sheets:sync");
+    await requireFeature(user.companyId, "sheets_integration");
+    return NextResponse.json({ connection: await syncSheets(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { cancelInterview } from "@/lib/interviews";
+
+export async function POST(_request: Request, { params }: { params: Promise<{ interviewId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { interviewId } = await params;
+    await requireRecordAccess(user, "interviews", interviewId);
+    return NextResponse.json({ interview: await cancelInterview(user, interviewId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { getInterviewIcs } from "@/lib/interviews";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ interviewId: string }> }) {
+  try {
+    const user = await requireUser();
+    const { interviewId } = await params;
+    await requireRecordAccess(user, "interviews", interviewId);
+    const ics = await getInterviewIcs(user.companyId, interviewId);
+    return new Response(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="interview.ics"',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
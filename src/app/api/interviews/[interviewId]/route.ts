@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireRecordAccess, requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { rescheduleInterview } from "@/lib/interviews";
+
+export async function PUT(request: Request, { params }: { params: Promise<{ interviewId: string }> }) {
+  try {
+    const user = await requireUser("candidates:manage");
+    const { interviewId } = await params;
+    await requireRecordAccess(user, "interviews", interviewId);
+    return NextResponse.json({ interview: await rescheduleInterview(user, interviewId, await readJson(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
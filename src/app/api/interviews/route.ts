@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { listInterviews } from "@/lib/interviews";
+import { canViewJob } from "@/lib/permissions";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const params = new URL(request.url).searchParams;
+    const interviews = await listInterviews(user.companyId, {
+      applicationId: params.get("applicationId") ?? undefined,
+      upcoming: params.get("upcoming") === "true",
+    });
+    return NextResponse.json({ interviews: interviews.filter((interview) => canViewJob(user, interview.jobId)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { requireJobAccess, requireUser } from "@/lib/auth";
+import { exportApplications, exportResponse } from "@/lib/export";
+import { errorResponse } from "@/lib/http";
+
+export async function GET(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const user = await requireUser();
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    const { searchParams } = new URL(request.url);
+    return exportResponse(await exportApplications(user.companyId, jobId, searchParams));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse, after } from "next/server";
+import { requireJobAccess, requireUser } from "@/lib/auth";
+import { listApplications, submitApplication } from "@/lib/applications";
+import { HttpError, errorResponse } from "@/lib/http";
+import { notifyScreeningComplete } from "@/lib/notifications";
+import { screenApplication } from "@/lib/screening";
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    return NextResponse.json({ applications: await listApplications(user.companyId, jobId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { jobId } = await params;
+    const form = await request.formData().catch(() => {
+      throw new HttpError(400, "Request body must be multipart/form-data");
+    });
+    const application = await submitApplication(jobId, form);
+    // Screening can take a while with a hosted model, so the applicant isn't kept waiting on it.
+    after(() =>
+      screenApplication(application.companyId, application.id).then(notifyScreeningComplete).catch(console.error)
+    );
+    return NextResponse.json({ application: { id: application.id } }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireJobAccess, requireUser } from "@/lib/auth";
+import { closeJob } from "@/lib/jobs";
+import { errorResponse } from "@/lib/http";
+
+export async function POST(_request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const user = await requireUser("jobs:manage");
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    return NextResponse.json({ job: await closeJob(user.companyId, jobId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
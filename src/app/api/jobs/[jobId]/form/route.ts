@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireJobAccess, requireUser } from "@/lib/auth";
+import { updateJobForm } from "@/lib/jobs";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function PUT(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const user = await requireUser("jobs:manage");
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    return NextResponse.json({ job: await updateJobForm(user.companyId, jobId, await readJson(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requireJobAccess, requireUser } from "@/lib/auth";
+import { deleteJob, getJob, parseJobInput, updateJob } from "@/lib/jobs";
+import { errorResponse, readJson } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    return NextResponse.json({ job: await getJob(user.companyId, jobId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("jobs:manage");
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    const input = parseJobInput(await readJson(request));
+    return NextResponse.json({ job: await updateJob(user.companyId, jobId, input) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("jobs:delete");
+    const { jobId } = await params;
+    requireJobAccess(user, jobId);
+    await deleteJob(user.companyId, jobId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { createJob, listJobs, parseJobInput } from "@/lib/jobs";
+import { errorResponse, readJson } from "@/lib/http";
+import { canViewJob } from "@/lib/permissions";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const jobs = (await listJobs(user.companyId)).filter((job) => canViewJob(user, job.id));
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("jobs:manage");
+    const input = parseJobInput(await readJson(request));
+    const job = await createJob(user.companyId, input);
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { markNotificationRead } from "@/lib/notifications";
+
+interface RouteContext {
+  params: Promise<{ notificationId: string }>;
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { notificationId } = await params;
+    return NextResponse.json(await markNotificationRead(user.id, notificationId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
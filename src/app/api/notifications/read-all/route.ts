@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { markAllNotificationsRead } from "@/lib/notifications";
+
+export async function POST() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json(await markAllNotificationsRead(user.id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { listNotifications } from "@/lib/notifications";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json(await listNotifications(user));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { notificationStream } from "@/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    return new Response(notificationStream(user, request.signal), {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
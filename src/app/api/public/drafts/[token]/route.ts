@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getDraft, updateDraft } from "@/lib/drafts";
+import { errorResponse, readJson } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    return NextResponse.json({ draft: await getDraft(token) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    return NextResponse.json({ draft: await updateDraft(token, await readJson(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { startSession } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { acceptInvitation, getInvitation } from "@/lib/team";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    return NextResponse.json({ invitation: await getInvitation(token) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const user = await acceptInvitation(token, await readJson(request));
+    await startSession(user.id);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
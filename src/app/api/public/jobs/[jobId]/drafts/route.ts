@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { saveDraft } from "@/lib/drafts";
+import { errorResponse, readJson } from "@/lib/http";
+
+export async function POST(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const { jobId } = await params;
+    await saveDraft(jobId, await readJson(request));
+    return NextResponse.json({ sent: true }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
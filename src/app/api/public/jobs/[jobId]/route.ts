@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getPublicJob } from "@/lib/jobs";
+import { errorResponse } from "@/lib/http";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const { jobId } = await params;
+    return NextResponse.json({ job: await getPublicJob(jobId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { errorResponse, readJson } from "@/lib/http";
+import { bookSlot, getBooking } from "@/lib/interviews/booking";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    return NextResponse.json(await getBooking(token));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const interview = await bookSlot(token, await readJson(request));
+    return NextResponse.json({ interview: { startsAt: interview.startsAt } }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
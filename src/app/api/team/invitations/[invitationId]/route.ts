@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { revokeInvitation } from "@/lib/team";
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ invitationId: string }> }) {
+  try {
+    const user = await requireUser("team:manage");
+    const { invitationId } = await params;
+    await revokeInvitation(user, invitationId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { inviteMember } from "@/lib/team";
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("team:manage");
+    const invitation = await inviteMember(user, await readJson(request));
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, readJson } from "@/lib/http";
+import { removeMember, updateMember } from "@/lib/team";
+
+interface RouteContext {
+  params: Promise<{ memberId: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("team:manage");
+    const { memberId } = await params;
+    return NextResponse.json({ member: await updateMember(user, memberId, await readJson(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser("team:manage");
+    const { memberId } = await params;
+    await removeMember(user, memberId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/http";
+import { listTeam } from "@/lib/team";
+
+export async function GET() {
+  try {
+    const user = await requireUser("team:manage");
+    return NextResponse.json(await listTeam(user.companyId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
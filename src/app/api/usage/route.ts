@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { settleSubscription } from "@/lib/billing";
+import { errorResponse } from "@/lib/http";
+import { getUsage } from "@/lib/usage";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    await settleSubscription(user.companyId);
+    return NextResponse.json({ usage: await getUsage(user.companyId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,103 +1,176 @@
 "use client";
 
-import { useState } from "react";
-import { DashboardLayout, Button, Badge, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow, Input } from "@/components";
+import { use, useEffect, useState } from "react";
+import { DashboardLayout, Button, Badge, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow, Input, ExportMenu, ApplicationEmails, PipelineBoard, PipelineEditor, UpgradePrompt } from "@/components";
 import { EyeIcon } from "@/components/Icons";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { IMPORTANCE_LABELS } from "@/lib/criteria";
+import { applicationColumns, filterApplications, type ApplicationFilter } from "@/lib/export/definitions";
+import { formatAnswer, isStoredFile } from "@/lib/forms";
+import { jobPipeline, stageOf } from "@/lib/pipeline";
+import { usePermission } from "@/lib/useWorkspace";
+import type { Application, EmailTemplate, JobSummary, OutboxMessage, PipelineStage, UsageSummary } from "@/types";
 
-interface Application {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  decision: "qualified" | "not_qualified" | "pending";
-  reason: string;
-  appliedAt: string;
-  cvFile?: string;
-  cvName?: string;
-  reactExperience: string;
-  yearsExperience: string;
-  missingRequirements?: string[];
-}
-
-const mockApplications: Application[] = [
-  {
-    id: "1",
-    name: "Sarah Chen",
-    email: "sarah@example.com",
-    phone: "+1 (555) 123-4567",
-    decision: "qualified",
-    reason: "Meets all technical requirements",
-    appliedAt: "2024-12-20",
-    cvFile: "sarah_chen_resume.pdf",
-    cvName: "Sarah Chen Resume",
-    reactExperience: "8 years of experience building complex React applications with TypeScript and modern tooling.",
-    yearsExperience: "8",
-    missingRequirements: [],
-  },
-  {
-    id: "2",
-    name: "Michael Johnson",
-    email: "michael@example.com",
-    phone: "+1 (555) 234-5678",
-    decision: "qualified",
-    reason: "5+ years experience, matches role",
-    appliedAt: "2024-12-19",
-    cvFile: "michael_johnson_resume.pdf",
-    cvName: "Michael Johnson Resume",
-    reactExperience: "6 years working with React, Redux, and backend integration.",
-    yearsExperience: "6",
-    missingRequirements: [],
-  },
-  {
-    id: "3",
-    name: "Emma Davis",
-    email: "emma@example.com",
-    phone: "+1 (555) 345-6789",
-    decision: "not_qualified",
-    reason: "Lacks required Python experience",
-    appliedAt: "2024-12-19",
-    cvFile: "emma_davis_resume.pdf",
-    cvName: "Emma Davis Resume",
-    reactExperience: "3 years with React, primarily frontend UI work.",
-    yearsExperience: "3",
-    missingRequirements: ["Insufficient React experience (3 years vs required 5+)", "Missing advanced TypeScript proficiency", "No experience with performance optimization"],
-  },
-  {
-    id: "4",
-    name: "James Wilson",
-    email: "james@example.com",
-    phone: "+1 (555) 456-7890",
-    decision: "pending",
-    reason: "Under review",
-    appliedAt: "2024-12-18",
-    cvFile: "james_wilson_resume.pdf",
-    cvName: "James Wilson Resume",
-    reactExperience: "5 years with React and Vue.js, good overall frontend skills.",
-    yearsExperience: "5",
-    missingRequirements: [],
-  },
-];
+const fetchEmails = (applicationId: string) =>
+  apiFetch<{ emails: OutboxMessage[] }>(`/api/applications/${applicationId}/emails`).then((data) => data.emails);
 
 export default function ApplicationsPage({
   params,
 }: {
   params: Promise<{ jobId: string }>;
 }) {
-  const [filter, setFilter] = useState<"all" | "qualified" | "not_qualified">("all");
+  const { jobId } = use(params);
+  // Set by notification links so they open straight onto the candidate.
+  const linkedApplicationId = useSearchParams().get("application");
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<ApplicationFilter>("all");
   const [selectedApp, setSelectedApp] = useState<Application | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [isScreening, setIsScreening] = useState(false);
+  const [emails, setEmails] = useState<OutboxMessage[]>([]);
+  const [isSendingEmail, setIsSendingEmail] = useState(false);
+  const [emailErrors, setEmailErrors] = useState<Record<string, string>>({});
+  const [view, setView] = useState<"table" | "board">("table");
+  const [stageDraft, setStageDraft] = useState<PipelineStage[] | null>(null);
+  const [stageError, setStageError] = useState("");
+  const [isSavingStages, setIsSavingStages] = useState(false);
+  const [isScreeningPaused, setIsScreeningPaused] = useState(false);
+  const canManageJobs = usePermission("jobs:manage");
+  const canManageCandidates = usePermission("candidates:manage");
 
-  const filteredApps =
-    filter === "all"
-      ? mockApplications
-      : mockApplications.filter((app) => app.decision === filter);
+  useEffect(() => {
+    Promise.all([
+      apiFetch<{ job: JobSummary }>(`/api/jobs/${jobId}`),
+      apiFetch<{ applications: Application[] }>(`/api/jobs/${jobId}/applications`),
+    ])
+      .then(([jobData, applicationData]) => {
+        setJob(jobData.job);
+        setApplications(applicationData.applications);
+      })
+      .catch((err) => console.error("Failed to load applications:", err))
+      .finally(() => setIsLoading(false));
+  }, [jobId]);
 
-  const searchFilteredApps = filteredApps.filter((app) =>
-    app.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    app.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    app.phone.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  useEffect(() => {
+    apiFetch<{ usage: UsageSummary }>("/api/usage")
+      .then(({ usage }) =>
+        setIsScreeningPaused(
+          usage.metrics.some(({ metric, used, limit }) => metric === "ai_screenings" && limit !== null && used >= limit)
+        )
+      )
+      .catch((err) => console.error("Failed to load usage:", err));
+  }, []);
+
+  useEffect(() => {
+    const linked = applications.find((app) => app.id === linkedApplicationId);
+    if (linked) setSelectedApp(linked);
+  }, [linkedApplicationId, applications]);
+
+  const selectedAppId = selectedApp?.id;
+  useEffect(() => {
+    setEmails([]);
+    setEmailErrors({});
+    if (!selectedAppId) return;
+    fetchEmails(selectedAppId)
+      .then(setEmails)
+      .catch((err) => console.error("Failed to load emails:", err));
+  }, [selectedAppId]);
+
+  // Checks back while any email is still waiting to go out.
+  useEffect(() => {
+    const hasPending = emails.some((email) => email.status === "queued" || email.status === "sending");
+    if (!selectedAppId || !hasPending) return;
+    const timeout = setTimeout(() => {
+      fetchEmails(selectedAppId)
+        .then(setEmails)
+        .catch((err) => console.error("Failed to load emails:", err));
+    }, 3000);
+    return () => clearTimeout(timeout);
+  }, [selectedAppId, emails]);
+
+  const handleRescreen = async (applicationId: string) => {
+    setIsScreening(true);
+    try {
+      const { application } = await apiFetch<{ application: Application }>(
+        `/api/applications/${applicationId}/screen`,
+        { method: "POST" }
+      );
+      setApplications((prev) => prev.map((app) => (app.id === application.id ? application : app)));
+      setSelectedApp(application);
+    } catch (err) {
+      console.error("Failed to re-run screening:", err);
+    } finally {
+      setIsScreening(false);
+    }
+  };
+
+  const handleSendEmail = async (template: EmailTemplate, note: string) => {
+    if (!selectedApp) return false;
+    setIsSendingEmail(true);
+    setEmailErrors({});
+    try {
+      const { email } = await apiFetch<{ email: OutboxMessage }>(`/api/applications/${selectedApp.id}/emails`, {
+        method: "POST",
+        body: JSON.stringify({ template, note }),
+      });
+      setEmails((prev) => [email, ...prev]);
+      return true;
+    } catch (err) {
+      setEmailErrors(err instanceof ApiError ? { template: err.message, ...err.fieldErrors } : {});
+      console.error("Failed to send email:", err);
+      return false;
+    } finally {
+      setIsSendingEmail(false);
+    }
+  };
+
+  const pipeline = job ? jobPipeline(job) : [];
+
+  const replaceApplication = (application: Application) => {
+    setApplications((prev) => prev.map((app) => (app.id === application.id ? application : app)));
+    setSelectedApp((current) => (current?.id === application.id ? application : current));
+  };
+
+  const handleMoveStage = async (applicationId: string, stageId: string) => {
+    const previous = applications.find((app) => app.id === applicationId);
+    if (!previous || stageOf(previous, pipeline).id === stageId) return;
+    // Moves show up on the board straight away and are undone if the server rejects them.
+    replaceApplication({ ...previous, stageId });
+    try {
+      const { application } = await apiFetch<{ application: Application }>(
+        `/api/applications/${applicationId}/stage`,
+        { method: "POST", body: JSON.stringify({ stageId }) }
+      );
+      replaceApplication(application);
+    } catch (err) {
+      replaceApplication(previous);
+      console.error("Failed to move application:", err);
+    }
+  };
+
+  const handleSaveStages = async () => {
+    if (!stageDraft) return;
+    setIsSavingStages(true);
+    setStageError("");
+    try {
+      const { job: updated } = await apiFetch<{ job: JobSummary }>(`/api/jobs/${jobId}/pipeline`, {
+        method: "PUT",
+        body: JSON.stringify({ stages: stageDraft }),
+      });
+      setJob((current) => (current ? { ...current, ...updated } : current));
+      setStageDraft(null);
+    } catch (err) {
+      setStageError(err instanceof ApiError ? err.fieldErrors.stages ?? err.message : "Couldn't save the stages");
+    } finally {
+      setIsSavingStages(false);
+    }
+  };
+
+  const searchFilteredApps = filterApplications(applications, { filter, search: searchTerm });
 
   const getDecisionBadge = (decision: string) => {
     switch (decision) {
@@ -116,15 +189,38 @@ export default function ApplicationsPage({
     <DashboardLayout>
       <div className={`space-y-8 transition-all duration-300 ${selectedApp ? "blur-sm pointer-events-none" : ""}`}>
         {/* Page Header */}
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">
-            Senior Frontend Developer
-          </h1>
-          <p className="text-gray-600 mt-1">
-            {mockApplications.length} applications received
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {job?.title ?? (isLoading ? "Loading..." : "Job not found")}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {applications.length} applications received
+            </p>
+          </div>
+          {job && (
+            <ExportMenu
+              endpoint={`/api/jobs/${jobId}/applications/export`}
+              columns={applicationColumns(job.form.questions)}
+              query={{ filter, search: searchTerm }}
+            />
+          )}
         </div>
 
+        {job && job.heldCount > 0 && (
+          <UpgradePrompt
+            title={`${job.heldCount} ${job.heldCount === 1 ? "application is" : "applications are"} on hold`}
+            message="Your plan's application reviews for this billing period are used up. Candidates can still apply, and their applications appear here and are screened once you upgrade or the period resets."
+          />
+        )}
+
+        {isScreeningPaused && (
+          <UpgradePrompt
+            title="AI screening is paused"
+            message="Your plan's AI screenings for this billing period are used up, so new applications wait as Pending. Re-run screening on them once you've upgraded."
+          />
+        )}
+
         {/* Search */}
         <div>
           <Input
@@ -145,7 +241,7 @@ export default function ApplicationsPage({
                 : "text-gray-600 border-transparent hover:text-gray-900"
             }`}
           >
-            All ({mockApplications.length})
+            All ({applications.length})
           </button>
           <button
             onClick={() => setFilter("qualified")}
@@ -155,7 +251,7 @@ export default function ApplicationsPage({
                 : "text-gray-600 border-transparent hover:text-gray-900"
             }`}
           >
-            Qualified ({mockApplications.filter((a) => a.decision === "qualified").length})
+            Qualified ({applications.filter((a) => a.decision === "qualified").length})
           </button>
           <button
             onClick={() => setFilter("not_qualified")}
@@ -165,53 +261,120 @@ export default function ApplicationsPage({
                 : "text-gray-600 border-transparent hover:text-gray-900"
             }`}
           >
-            Not Qualified ({mockApplications.filter((a) => a.decision === "not_qualified").length})
+            Not Qualified ({applications.filter((a) => a.decision === "not_qualified").length})
           </button>
+          <div className="ml-auto flex items-center gap-2 pb-2">
+            {(["table", "board"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  view === option ? "bg-primary text-white" : "text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {option === "table" ? "Table" : "Board"}
+              </button>
+            ))}
+          </div>
         </div>
 
+        {/* Pipeline Stages */}
+        {view === "board" && job && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">Pipeline Stages</h2>
+                {stageDraft ? (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => {
+                        setStageDraft(null);
+                        setStageError("");
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button variant="primary" size="sm" onClick={handleSaveStages} isLoading={isSavingStages}>
+                      Save Stages
+                    </Button>
+                  </div>
+                ) : (
+                  canManageJobs && (
+                    <Button variant="secondary" size="sm" onClick={() => setStageDraft(pipeline)}>
+                      Edit Stages
+                    </Button>
+                  )
+                )}
+              </div>
+            </CardHeader>
+            {stageDraft && (
+              <CardBody>
+                <PipelineEditor stages={stageDraft} onChange={setStageDraft} error={stageError} />
+              </CardBody>
+            )}
+          </Card>
+        )}
+
+        {view === "board" && job && (
+          <PipelineBoard
+            stages={pipeline}
+            applications={searchFilteredApps}
+            onMove={canManageCandidates ? handleMoveStage : undefined}
+            onSelect={setSelectedApp}
+          />
+        )}
+
         {/* Applications Table */}
-        <Card>
-          <CardBody className="p-0">
-            <Table>
-              <TableHead>
-                <TableRow>
-                  <TableCell isHeader>Name</TableCell>
-                  <TableCell isHeader>Email</TableCell>
-                  <TableCell isHeader>Decision</TableCell>
-                  <TableCell isHeader>Reason</TableCell>
-                  <TableCell isHeader>Applied</TableCell>
-                  <TableCell isHeader>Action</TableCell>
-                </TableRow>
-              </TableHead>
-              <TableBody>
-                {searchFilteredApps.map((app) => (
-                  <TableRow key={app.id}>
-                    <TableCell>
-                      <span className="font-medium text-gray-900">{app.name}</span>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-gray-600">{app.email}</span>
-                    </TableCell>
-                    <TableCell>{getDecisionBadge(app.decision)}</TableCell>
-                    <TableCell>
-                      <span className="text-sm text-gray-600">{app.reason}</span>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-gray-600">{app.appliedAt}</span>
-                    </TableCell>
-                    <TableCell>
-                      <button onClick={() => setSelectedApp(app)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
-                        <EyeIcon className="w-5 h-5" />
-                      </button>
-                    </TableCell>
+        {view === "table" && (
+          <Card>
+            <CardBody className="p-0">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell isHeader>Name</TableCell>
+                    <TableCell isHeader>Email</TableCell>
+                    <TableCell isHeader>Decision</TableCell>
+                    <TableCell isHeader>Stage</TableCell>
+                    <TableCell isHeader>Reason</TableCell>
+                    <TableCell isHeader>Applied</TableCell>
+                    <TableCell isHeader>Action</TableCell>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </CardBody>
-        </Card>
+                </TableHead>
+                <TableBody>
+                  {searchFilteredApps.map((app) => (
+                    <TableRow key={app.id}>
+                      <TableCell>
+                        <span className="font-medium text-gray-900">{app.name}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{app.email}</span>
+                      </TableCell>
+                      <TableCell>{getDecisionBadge(app.decision)}</TableCell>
+                      <TableCell>
+                        <span className="text-sm text-gray-900">{pipeline.length > 0 && stageOf(app, pipeline).name}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-gray-600">{app.reason}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{new Date(app.appliedAt).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell>
+                        <button onClick={() => setSelectedApp(app)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+                          <EyeIcon className="w-5 h-5" />
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
 
-        {filteredApps.length === 0 && (
+        {!isLoading && searchFilteredApps.length === 0 && (
           <Card>
             <CardBody className="text-center py-12">
               <p className="text-gray-600">No applications found for this filter.</p>
@@ -245,7 +408,7 @@ export default function ApplicationsPage({
                 {/* Basic Info */}
                 <div>
                   <h3 className="text-xl font-bold text-gray-900">{selectedApp.name}</h3>
-                  <p className="text-gray-600 mt-1">{selectedApp.decision === "qualified" ? "✓ " : ""}Software Developer</p>
+                  <p className="text-gray-600 mt-1">{selectedApp.decision === "qualified" ? "✓ " : ""}{job?.title}</p>
                 </div>
 
                 {/* Contact Information */}
@@ -288,27 +451,144 @@ export default function ApplicationsPage({
                     )}
                   </div>
                 </div>
+
+                {/* Pipeline Stage */}
+                {pipeline.length > 0 && (
+                  <div className="space-y-3 pt-6 border-t border-gray-200">
+                    <label className="label">Stage</label>
+                    <select
+                      className="input cursor-pointer"
+                      value={stageOf(selectedApp, pipeline).id}
+                      onChange={(e) => handleMoveStage(selectedApp.id, e.target.value)}
+                      disabled={!canManageCandidates}
+                    >
+                      {pipeline.map((stage) => (
+                        <option key={stage.id} value={stage.id}>
+                          {stage.name}
+                        </option>
+                      ))}
+                    </select>
+                    {selectedApp.stageHistory && selectedApp.stageHistory.length > 0 && (
+                      <ul className="space-y-1">
+                        {[...selectedApp.stageHistory].reverse().map((transition, idx) => (
+                          <li key={idx} className="text-xs text-gray-500">
+                            {transition.from ? "Moved to" : "Entered"}{" "}
+                            {pipeline.find((stage) => stage.id === transition.to)?.name ?? "a removed stage"}
+                            {transition.actor ? ` by ${transition.actor.email}` : " automatically"}
+                            {" · "}
+                            {new Date(transition.at).toLocaleString()}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </CardBody>
             </Card>
 
-            {/* Experience & Answers */}
+            {/* Candidate Emails */}
             <Card>
               <CardHeader>
-                <h3 className="text-lg font-semibold text-gray-900">Experience & Answers</h3>
+                <h3 className="text-lg font-semibold text-gray-900">Emails</h3>
               </CardHeader>
-              <CardBody className="space-y-6">
-                <div>
-                  <p className="text-sm text-gray-600 font-semibold mb-2">Years of Experience</p>
-                  <p className="text-gray-900">{selectedApp.yearsExperience} years</p>
-                </div>
-
-                <div>
-                  <p className="text-sm text-gray-600 font-semibold mb-2">React Experience</p>
-                  <p className="text-gray-900 whitespace-pre-wrap text-sm">{selectedApp.reactExperience}</p>
-                </div>
+              <CardBody>
+                <ApplicationEmails
+                  emails={emails}
+                  onSend={handleSendEmail}
+                  isSending={isSendingEmail}
+                  errors={emailErrors}
+                  readOnly={!canManageCandidates}
+                />
               </CardBody>
             </Card>
 
+            {/* Criteria Breakdown */}
+            {selectedApp.screening && selectedApp.screening.criteria.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-900">Criteria Breakdown</h3>
+                    <span className="text-sm font-semibold text-gray-700">Score {selectedApp.screening.score}%</span>
+                  </div>
+                </CardHeader>
+                <CardBody className="space-y-3">
+                  {selectedApp.screening.criteria.map((item) => (
+                    <div key={item.criterionId} className="flex gap-3">
+                      <div
+                        className={`w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                          item.passed ? "bg-green-100" : "bg-red-100"
+                        }`}
+                      >
+                        <span className={`text-xs font-bold ${item.passed ? "text-green-600" : "text-red-600"}`}>
+                          {item.passed ? "✓" : "✕"}
+                        </span>
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-900">
+                          {item.skill}
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {IMPORTANCE_LABELS[item.importance]}
+                          </span>
+                        </p>
+                        {item.detail && <p className="text-sm text-gray-600">{item.detail}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+            )}
+
+            {/* Knockout Questions */}
+            {selectedApp.screening?.knockouts && selectedApp.screening.knockouts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <h3 className="text-lg font-semibold text-gray-900">Knockout Questions</h3>
+                </CardHeader>
+                <CardBody className="space-y-3">
+                  {selectedApp.screening.knockouts.map((item) => (
+                    <div key={item.questionId} className="flex gap-3">
+                      <div
+                        className={`w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                          item.passed ? "bg-green-100" : "bg-red-100"
+                        }`}
+                      >
+                        <span className={`text-xs font-bold ${item.passed ? "text-green-600" : "text-red-600"}`}>
+                          {item.passed ? "✓" : "✕"}
+                        </span>
+                      </div>
+                      <p className="flex-1 text-sm text-gray-900">{item.detail}</p>
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+            )}
+
+            {/* Screening Answers */}
+            {selectedApp.answers.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <h3 className="text-lg font-semibold text-gray-900">Screening Answers</h3>
+                </CardHeader>
+                <CardBody className="space-y-6">
+                  {selectedApp.answers.map((item) => (
+                    <div key={item.questionId}>
+                      <p className="text-sm text-gray-600 font-semibold mb-2">{item.question}</p>
+                      {isStoredFile(item.value) ? (
+                        <a
+                          href={`/api/applications/${selectedApp.id}/answers/${item.questionId}`}
+                          className="text-primary hover:underline text-sm font-medium"
+                        >
+                          {item.value.fileName}
+                        </a>
+                      ) : (
+                        <p className="text-gray-900 whitespace-pre-wrap text-sm">{formatAnswer(item)}</p>
+                      )}
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+            )}
+
             {/* CV Section */}
             <Card>
               <CardHeader>
@@ -317,19 +597,109 @@ export default function ApplicationsPage({
               <CardBody className="space-y-4">
                 <div className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
                   <div className="w-10 h-10 bg-red-100 rounded flex items-center justify-center flex-shrink-0">
-                    <span className="text-red-600 font-bold text-sm">PDF</span>
+                    <span className="text-red-600 font-bold text-sm">
+                      {selectedApp.cv.fileName.split(".").pop()?.toUpperCase()}
+                    </span>
                   </div>
                   <div className="flex-1 min-w-0">
-                    <p className="font-medium text-gray-900 truncate">{selectedApp.cvName || selectedApp.cvFile}</p>
-                    <p className="text-sm text-gray-600">Document</p>
+                    <p className="font-medium text-gray-900 truncate">{selectedApp.cv.fileName}</p>
+                    <p className="text-sm text-gray-600">{Math.max(1, Math.round(selectedApp.cv.size / 1024))} KB</p>
                   </div>
-                  <Button variant="secondary" size="sm">
-                    Download
-                  </Button>
+                  <a href={`/api/applications/${selectedApp.id}/cv`}>
+                    <Button variant="secondary" size="sm">
+                      Download
+                    </Button>
+                  </a>
                 </div>
               </CardBody>
             </Card>
 
+            {/* Parsed Resume */}
+            {selectedApp.resume && (
+              <Card>
+                <CardHeader>
+                  <h3 className="text-lg font-semibold text-gray-900">Resume Profile</h3>
+                </CardHeader>
+                <CardBody className="space-y-6">
+                  {selectedApp.resume.links.length > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-semibold mb-2">Links</p>
+                      <div className="space-y-1">
+                        {selectedApp.resume.links.map((link) => (
+                          <a
+                            key={link.url}
+                            href={link.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-sm text-primary hover:underline truncate"
+                          >
+                            {link.url}
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {selectedApp.resume.skills.length > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-semibold mb-2">Skills</p>
+                      <div className="flex flex-wrap gap-2">
+                        {selectedApp.resume.skills.map((skill) => (
+                          <Badge key={skill} variant="info">{skill}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {selectedApp.resume.experience.length > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-semibold mb-2">Experience</p>
+                      <div className="space-y-4">
+                        {selectedApp.resume.experience.map((item, idx) => (
+                          <div key={idx}>
+                            <p className="font-medium text-gray-900">
+                              {item.title}
+                              {item.company && <span className="text-gray-600 font-normal"> · {item.company}</span>}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {item.startDate ?? "?"} – {item.current ? "Present" : item.endDate ?? "?"}
+                            </p>
+                            {item.description && (
+                              <p className="text-sm text-gray-700 whitespace-pre-wrap mt-1">{item.description}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {selectedApp.resume.education.length > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-semibold mb-2">Education</p>
+                      <div className="space-y-3">
+                        {selectedApp.resume.education.map((item, idx) => (
+                          <div key={idx}>
+                            <p className="font-medium text-gray-900">{item.degree || item.institution}</p>
+                            {item.degree && item.institution && (
+                              <p className="text-sm text-gray-600">{item.institution}</p>
+                            )}
+                            {item.endDate && (
+                              <p className="text-xs text-gray-500">
+                                {item.startDate ? `${item.startDate} – ` : ""}
+                                {item.endDate}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {selectedApp.resume.skills.length === 0 &&
+                    selectedApp.resume.experience.length === 0 &&
+                    selectedApp.resume.education.length === 0 && (
+                      <p className="text-sm text-gray-600">No structured details could be read from this CV.</p>
+                    )}
+                </CardBody>
+              </Card>
+            )}
+
             {/* Missing Requirements (for not qualified) */}
             {selectedApp.decision === "not_qualified" && selectedApp.missingRequirements && selectedApp.missingRequirements.length > 0 && (
               <Card className="border-red-200 bg-red-50">
@@ -352,33 +722,43 @@ export default function ApplicationsPage({
             )}
 
             {/* Action Buttons */}
-            <div className="space-y-3 pb-8">
-              {selectedApp.decision === "qualified" && (
-                <>
-                  <Button variant="primary" className="w-full">
-                    Schedule Interview
-                  </Button>
+            {canManageCandidates && (
+              <div className="space-y-3 pb-8">
+                {selectedApp.decision === "qualified" && (
+                  <>
+                    <Button variant="primary" className="w-full">
+                      Schedule Interview
+                    </Button>
+                    <Button variant="secondary" className="w-full">
+                      Send Offer
+                    </Button>
+                  </>
+                )}
+                {selectedApp.decision === "not_qualified" && (
                   <Button variant="secondary" className="w-full">
-                    Send Offer
+                    Send Rejection
                   </Button>
-                </>
-              )}
-              {selectedApp.decision === "not_qualified" && (
-                <Button variant="secondary" className="w-full">
-                  Send Rejection
+                )}
+                {selectedApp.decision === "pending" && (
+                  <>
+                    <Button variant="primary" className="w-full">
+                      Mark as Qualified
+                    </Button>
+                    <Button variant="secondary" className="w-full">
+                      Mark as Not Qualified
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="secondary"
+                  className="w-full"
+                  isLoading={isScreening}
+                  onClick={() => handleRescreen(selectedApp.id)}
+                >
+                  Re-run Screening
                 </Button>
-              )}
-              {selectedApp.decision === "pending" && (
-                <>
-                  <Button variant="primary" className="w-full">
-                    Mark as Qualified
-                  </Button>
-                  <Button variant="secondary" className="w-full">
-                    Mark as Not Qualified
-                  </Button>
-                </>
-              )}
-            </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,99 +1,131 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Button, Input, Card, CardBody, CardHeader } from "@/components";
+import { use, useState, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { Button, Input, Card, CardBody, CardHeader, FormQuestionField } from "@/components";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { formatDepartment } from "@/lib/departments";
+import {
+  type AnswerInput,
+  answerField,
+  formatAnswer,
+  toAnswerValue,
+  validateAnswer,
+  visibleQuestions,
+} from "@/lib/forms";
+import { closesAt, formatJobTime, jobTimeZone, opensAt, scheduledStatus } from "@/lib/job-schedule";
+import { validateCV, validateEmail, validateFullName, validatePhone } from "@/lib/validation";
+import type { DraftData, FormQuestion, FormSection, JobStatus, PublicJob } from "@/types";
 
 interface FormData {
   fullName: string;
   email: string;
   phone: string;
   cv: File | null;
-  answer1: string;
-  answer2: string;
-  answer3: string;
-  answer4: string;
 }
 
 interface JobInfo {
   title: string;
   company: string;
+  companyEmail: string;
   department: string;
   location: string;
   requirements: string;
-  question1?: string;
-  question2?: string;
-  question3?: string;
-  question4?: string;
+  questions: FormQuestion[];
+  sections: FormSection[];
+  applicationOpenDate: string;
+  applicationOpenTime: string;
   applicationCloseDate: string;
   applicationCloseTime: string;
+  timeZone: string;
+  status: PublicJob["status"];
 }
 
+const toJobInfo = (job: PublicJob): JobInfo => ({
+  title: job.title,
+  company: job.company.name,
+  companyEmail: job.company.email,
+  department: formatDepartment(job),
+  location: job.location,
+  requirements: job.requirements,
+  questions: job.form.questions,
+  sections: job.form.sections ?? [],
+  applicationOpenDate: job.applicationOpenDate,
+  applicationOpenTime: job.applicationOpenTime,
+  applicationCloseDate: job.applicationCloseDate,
+  applicationCloseTime: job.applicationCloseTime,
+  timeZone: jobTimeZone(job),
+  status: job.status,
+});
+
+interface QuestionStep {
+  title: string;
+  description?: string;
+  questions: FormQuestion[];
+}
+
+// Unassigned questions form the main questions step; extra steps follow in order and are
+// skipped while all of their questions are hidden.
+const buildSteps = (jobInfo: JobInfo | null, visible: FormQuestion[]): QuestionStep[] => {
+  const sections = jobInfo?.sections ?? [];
+  const main = visible.filter((q) => !sections.some((section) => section.id === q.sectionId));
+  return [
+    { title: "Screening Questions", questions: main },
+    ...sections
+      .map((section) => ({ ...section, questions: visible.filter((q) => q.sectionId === section.id) }))
+      .filter((section) => section.questions.length > 0),
+  ];
+};
+
+const displayAnswer = (question: FormQuestion, value: AnswerInput | undefined) => {
+  if (value instanceof File) return value.name;
+  if (!value || value.length === 0) return "—";
+  return formatAnswer({ type: question.type, value: toAnswerValue(question, value) });
+};
+
+const draftKey = (jobId: string) => `recruitai:draft:${jobId}`;
+
+// Files can't be serialized, so drafts only keep typed and chosen answers.
+const toDraft = (formData: FormData, answers: Record<string, AnswerInput>, step: number): DraftData => ({
+  fullName: formData.fullName,
+  email: formData.email,
+  phone: formData.phone,
+  answers: Object.fromEntries(
+    Object.entries(answers).filter((entry): entry is [string, string | string[]] =>
+      typeof entry[1] === "string" || Array.isArray(entry[1])
+    )
+  ),
+  step,
+});
+
 export default function PublicApplicationFormPage({
   params,
 }: {
   params: Promise<{ jobId: string }>;
 }) {
+  const { jobId } = use(params);
+  // Set when the applicant arrives through an emailed "continue later" link.
+  const draftToken = useSearchParams().get("draft");
   const [step, setStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
-  const [isClosed, setIsClosed] = useState(false);
+  // Whether applications are open yet, or still open, going by the job's dates.
+  const [availability, setAvailability] = useState<JobStatus>("Open");
   const [isLoading, setIsLoading] = useState(true);
-  const [jobInfo, setJobInfo] = useState<JobInfo>({
-    title: "Senior Frontend Developer",
-    company: "Acme Corporation",
-    department: "Engineering",
-    location: "San Francisco, CA",
-    requirements: "5+ years React experience, TypeScript, strong communication skills",
-    question1: "What's your experience with React and state management?",
-    question2: "Describe your experience leading a project from design to deployment",
-    question3: "How do you approach testing in your frontend projects?",
-    question4: "Tell us about your experience with TypeScript",
-    applicationCloseDate: "2026-12-31",
-    applicationCloseTime: "23:59",
-  });
+  const [jobInfo, setJobInfo] = useState<JobInfo | null>(null);
   const [formData, setFormData] = useState<FormData>({
     fullName: "",
     email: "",
     phone: "",
     cv: null,
-    answer1: "",
-    answer2: "",
-    answer3: "",
-    answer4: "",
   });
+  const [answers, setAnswers] = useState<Record<string, AnswerInput>>({});
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [touched, setTouched] = useState<{[key: string]: boolean}>({});
-
-  // Validation functions
-  const validateFullName = (name: string): string => {
-    if (!name.trim()) return "Full name is required";
-    if (name.trim().length < 2) return "Name must be at least 2 characters";
-    if (/[0-9]/.test(name)) return "Name cannot contain numbers";
-    return "";
-  };
-
-  const validateEmail = (email: string): string => {
-    if (!email.trim()) return "Email is required";
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) return "Please enter a valid email";
-    return "";
-  };
-
-  const validatePhone = (phone: string): string => {
-    if (!phone.trim()) return "Phone number is required";
-    const phoneRegex = /^[\d\s\-\+\(\)]+$/.test(phone) && phone.replace(/\D/g, "").length >= 10;
-    if (!phoneRegex) return "Please enter a valid phone number";
-    return "";
-  };
-
-  const validateCV = (cv: File | null): string => {
-    if (!cv) return "CV/Resume is required";
-    const validExtensions = [".pdf", ".doc", ".docx"];
-    const fileExtension = "." + cv.name.split(".").pop()?.toLowerCase();
-    if (!validExtensions.includes(fileExtension)) return "Only PDF, DOC, DOCX allowed";
-    if (cv.size > 10 * 1024 * 1024) return "File size must be less than 10MB";
-    return "";
-  };
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+  const [draftNotice, setDraftNotice] = useState("");
+  const [isSavingForLater, setIsSavingForLater] = useState(false);
+  const [savedForLaterTo, setSavedForLaterTo] = useState("");
 
   const isFieldValid = (fieldName: string): boolean => {
     if (fieldName === "fullName") return !validateFullName(formData.fullName);
@@ -114,32 +146,121 @@ export default function PublicApplicationFormPage({
     return !Object.values(newErrors).some(err => err !== "");
   };
 
-  const validateStep2 = (): boolean => {
-    if (!formData.answer1 && jobInfo.question1) return false;
-    if (!formData.answer2 && jobInfo.question2) return false;
-    if (!formData.answer3 && jobInfo.question3) return false;
-    if (!formData.answer4 && jobInfo.question4) return false;
-    return true;
+  // Steps 2..n hold the questions; the last step is the review.
+  const visible = visibleQuestions(jobInfo?.questions ?? [], (questionId) => answers[questionId]);
+  const questionSteps = buildSteps(jobInfo, visible);
+  const currentStep = step >= 2 ? questionSteps[step - 2] : undefined;
+  const reviewStep = questionSteps.length + 2;
+  const stepOf = (errorField: string) =>
+    2 + Math.max(0, questionSteps.findIndex((s) => s.questions.some((q) => answerField(q) === errorField)));
+
+  const validateQuestions = (questions: FormQuestion[]): boolean => {
+    const newErrors: {[key: string]: string} = {};
+    for (const question of questions) {
+      newErrors[answerField(question)] = validateAnswer(question, answers[question.id] ?? null);
+    }
+    setErrors((prev) => ({ ...prev, ...newErrors }));
+    return !Object.values(newErrors).some(err => err !== "");
   };
 
-  // Check if application is still open
+  const handleAnswerChange = (question: FormQuestion, value: AnswerInput) => {
+    setAnswers((prev) => ({ ...prev, [question.id]: value }));
+    if (errors[answerField(question)]) {
+      setErrors((prev) => ({ ...prev, [answerField(question)]: validateAnswer(question, value) }));
+    }
+  };
+
+  // Load the job and check if applications are open
   useEffect(() => {
-    const checkIfClosed = () => {
-      if (jobInfo.applicationCloseDate && jobInfo.applicationCloseTime) {
-        const closeDateTime = new Date(`${jobInfo.applicationCloseDate}T${jobInfo.applicationCloseTime}`);
-        const now = new Date();
-        if (now > closeDateTime) {
-          setIsClosed(true);
-        }
+    apiFetch<{ job: PublicJob }>(`/api/public/jobs/${jobId}`)
+      .then(({ job }) => {
+        const info = toJobInfo(job);
+        setJobInfo(info);
+        setAvailability(info.status === "Closed" ? "Closed" : scheduledStatus(info));
+      })
+      .catch((err) => console.error("Failed to load job:", err))
+      .finally(() => setIsLoading(false));
+  }, [jobId]);
+
+  // Restore saved progress: a magic link wins over what this browser autosaved.
+  useEffect(() => {
+    const restore = (draft: DraftData, notice: string) => {
+      setFormData((prev) => ({ ...prev, fullName: draft.fullName, email: draft.email, phone: draft.phone }));
+      setAnswers(draft.answers);
+      setStep(draft.step);
+      setDraftNotice(notice);
+    };
+    const restoreLocal = () => {
+      try {
+        const saved = localStorage.getItem(draftKey(jobId));
+        if (saved) restore(JSON.parse(saved), "We restored the progress saved in this browser.");
+      } catch (err) {
+        console.error("Failed to restore draft:", err);
       }
-      setIsLoading(false);
     };
 
-    // Simulate fetching job info
-    setTimeout(() => {
-      checkIfClosed();
-    }, 500);
-  }, [jobInfo]);
+    (draftToken
+      ? apiFetch<{ draft: { data: DraftData } }>(`/api/public/drafts/${draftToken}`)
+          .then(({ draft }) => restore(draft.data, "Welcome back! We restored your saved application."))
+          .catch((err) => {
+            console.error("Failed to load draft:", err);
+            restoreLocal();
+          })
+      : Promise.resolve(restoreLocal())
+    ).finally(() => setIsDraftLoaded(true));
+  }, [jobId, draftToken]);
+
+  // Autosave to this browser on every change, and to the server (debounced) for magic-link drafts.
+  useEffect(() => {
+    if (!isDraftLoaded || isSuccess) return;
+    const draft = toDraft(formData, answers, step);
+    localStorage.setItem(draftKey(jobId), JSON.stringify(draft));
+    if (!draftToken) return;
+    const timer = setTimeout(() => {
+      apiFetch(`/api/public/drafts/${draftToken}`, { method: "PUT", body: JSON.stringify(draft) }).catch((err) =>
+        console.error("Failed to autosave draft:", err)
+      );
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [formData, answers, step, isDraftLoaded, isSuccess, draftToken, jobId]);
+
+  // A restored step can point past the end if the form changed since it was saved.
+  useEffect(() => {
+    if (jobInfo && step > reviewStep) setStep(reviewStep);
+  }, [jobInfo, step, reviewStep]);
+
+  const handleStartOver = () => {
+    localStorage.removeItem(draftKey(jobId));
+    setFormData({ fullName: "", email: "", phone: "", cv: null });
+    setAnswers({});
+    setErrors({});
+    setTouched({});
+    setStep(1);
+    setDraftNotice("");
+  };
+
+  const handleSaveForLater = async () => {
+    const emailError = validateEmail(formData.email);
+    if (emailError) {
+      setErrors((prev) => ({ ...prev, email: emailError }));
+      setTouched((prev) => ({ ...prev, email: true }));
+      setStep(1);
+      return;
+    }
+    setIsSavingForLater(true);
+    try {
+      await apiFetch(`/api/public/jobs/${jobId}/drafts`, {
+        method: "POST",
+        body: JSON.stringify(toDraft(formData, answers, step)),
+      });
+      setSavedForLaterTo(formData.email);
+    } catch (err) {
+      console.error("Failed to save draft:", err);
+      alert(err instanceof ApiError && err.status === 429 ? err.message : "We couldn't save your progress. Please try again.");
+    } finally {
+      setIsSavingForLater(false);
+    }
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -175,18 +296,52 @@ export default function PublicApplicationFormPage({
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!validateStep2()) {
-      alert("Please answer all questions");
+    // Restored drafts come back without the CV.
+    if (!validateStep1()) {
+      setStep(1);
+      return;
+    }
+    if (!validateQuestions(visible)) {
+      const invalid = visible.find((question) => validateAnswer(question, answers[question.id] ?? null));
+      setStep(invalid ? stepOf(answerField(invalid)) : 2);
       return;
     }
+    const body = new FormData();
+    body.append("fullName", formData.fullName);
+    body.append("email", formData.email);
+    body.append("phone", formData.phone);
+    if (formData.cv) body.append("cv", formData.cv);
+    for (const question of visible) {
+      const value = answers[question.id];
+      if (Array.isArray(value)) value.forEach((option) => body.append(answerField(question), option));
+      else if (value) body.append(answerField(question), value);
+    }
+
     setIsSubmitting(true);
-    // Simulate API call
-    setTimeout(() => {
-      setIsSubmitting(false);
+    try {
+      await apiFetch(`/api/jobs/${jobId}/applications`, { method: "POST", body });
+      localStorage.removeItem(draftKey(jobId));
       setIsSuccess(true);
-    }, 1000);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        setAvailability(jobInfo && scheduledStatus(jobInfo) === "Scheduled" ? "Scheduled" : "Closed");
+      } else if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) {
+        setErrors(err.fieldErrors);
+        setTouched({ fullName: true, email: true, phone: true, cv: true });
+        if (["fullName", "email", "phone", "cv"].some((name) => err.fieldErrors[name])) {
+          setStep(1);
+        } else {
+          setStep(stepOf(Object.keys(err.fieldErrors)[0]));
+        }
+      } else {
+        console.error("Failed to submit application:", err);
+        alert("We couldn't submit your application. Please try again.");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   if (isLoading) {
@@ -200,7 +355,51 @@ export default function PublicApplicationFormPage({
     );
   }
 
-  if (isClosed) {
+  if (!jobInfo) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 flex items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md text-center">
+          <Card>
+            <CardBody className="py-12">
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                Job Not Found
+              </h1>
+              <p className="text-gray-600">
+                This application link is invalid or the job posting has been removed.
+              </p>
+            </CardBody>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability === "Scheduled") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 flex items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md text-center">
+          <Card>
+            <CardBody className="py-12">
+              <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <span className="text-2xl">🗓️</span>
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                Not Yet Open
+              </h1>
+              <p className="text-gray-600 mb-6">
+                Applications for the <span className="font-semibold">{jobInfo.title}</span> position open on {formatJobTime(opensAt(jobInfo), jobInfo.timeZone)} and close on {formatJobTime(closesAt(jobInfo), jobInfo.timeZone)}.
+              </p>
+              <p className="text-sm text-gray-500">
+                Please come back once applications open, or reach out to the recruiter at <span className="font-semibold">{jobInfo.companyEmail}</span> with any questions about this position.
+              </p>
+            </CardBody>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability === "Closed") {
     return (
       <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 flex items-center justify-center px-4 py-8">
         <div className="w-full max-w-md text-center">
@@ -213,10 +412,10 @@ export default function PublicApplicationFormPage({
                 Application Closed
               </h1>
               <p className="text-gray-600 mb-6">
-                Unfortunately, the application period for the <span className="font-semibold">{jobInfo.title}</span> position has ended. The deadline was {new Date(`${jobInfo.applicationCloseDate}T${jobInfo.applicationCloseTime}`).toLocaleDateString()} at {new Date(`${jobInfo.applicationCloseDate}T${jobInfo.applicationCloseTime}`).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+                Unfortunately, the application period for the <span className="font-semibold">{jobInfo.title}</span> position has ended. The deadline was {formatJobTime(closesAt(jobInfo), jobInfo.timeZone)}.
               </p>
               <p className="text-sm text-gray-500 mb-6">
-                Please reach out to the recruiter at <span className="font-semibold">careers@acmecorp.com</span> for more information about this position or similar opportunities.
+                Please reach out to the recruiter at <span className="font-semibold">{jobInfo.companyEmail}</span> for more information about this position or similar opportunities.
               </p>
               <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm text-blue-900">
@@ -246,7 +445,7 @@ export default function PublicApplicationFormPage({
                 Thank you for applying to the {jobInfo.title} position. Our team will review your application and get back to you within 3-5 business days.
               </p>
               <p className="text-sm text-gray-500">
-                A confirmation email has been sent to {formData.email}
+                A confirmation email is on its way to {formData.email}
               </p>
             </CardBody>
           </Card>
@@ -277,24 +476,37 @@ export default function PublicApplicationFormPage({
           <Card className="mb-8 border-blue-200 bg-blue-50">
             <CardBody>
               <p className="text-sm text-blue-900">
-                <span className="font-semibold">Application Deadline:</span> {new Date(`${jobInfo.applicationCloseDate}T${jobInfo.applicationCloseTime}`).toLocaleDateString()} at {new Date(`${jobInfo.applicationCloseDate}T${jobInfo.applicationCloseTime}`).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                <span className="font-semibold">Application Deadline:</span> {formatJobTime(closesAt(jobInfo), jobInfo.timeZone)}
               </p>
             </CardBody>
           </Card>
         )}
 
+        {draftNotice && (
+          <div className="mb-8 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start justify-between gap-4">
+            <p className="text-sm text-blue-900">
+              {draftNotice} Attached files aren&apos;t saved, so please upload your CV again before submitting.
+            </p>
+            <button
+              type="button"
+              onClick={handleStartOver}
+              className="text-sm font-medium text-primary hover:underline flex-shrink-0"
+            >
+              Start over
+            </button>
+          </div>
+        )}
+
         {/* Progress Indicator */}
         <div className="flex gap-2 mb-8">
-          {[1, 2, 3].map((s) => (
-            <div key={s} className="flex-1">
+          {["Personal Info", "Questions", ...questionSteps.slice(1).map((s) => s.title), "Review"].map((label, idx) => (
+            <div key={idx} className="flex-1">
               <div
                 className={`h-2 rounded-full transition-colors ${
-                  step >= s ? "bg-primary" : "bg-gray-200"
+                  step >= idx + 1 ? "bg-primary" : "bg-gray-200"
                 }`}
               ></div>
-              <p className="text-xs text-gray-600 mt-1">
-                {s === 1 ? "Personal Info" : s === 2 ? "Questions" : "Review"}
-              </p>
+              <p className="text-xs text-gray-600 mt-1">{label}</p>
             </div>
           ))}
         </div>
@@ -427,81 +639,30 @@ export default function PublicApplicationFormPage({
                 </div>
               )}
 
-              {step === 2 && (
+              {currentStep && (
                 <div className="space-y-6">
-                  <h2 className="text-xl font-semibold text-gray-900">Screening Questions</h2>
-
-                  {jobInfo.question1 && (
-                    <div>
-                      <label className="label">
-                        {jobInfo.question1}
-                      </label>
-                      <textarea
-                        name="answer1"
-                        value={formData.answer1}
-                        onChange={handleInputChange}
-                        placeholder="Your answer..."
-                        className="input resize-vertical min-h-28"
-                        required
-                      />
-                    </div>
-                  )}
-
-                  {jobInfo.question2 && (
-                    <div>
-                      <label className="label">
-                        {jobInfo.question2}
-                      </label>
-                      <textarea
-                        name="answer2"
-                        value={formData.answer2}
-                        onChange={handleInputChange}
-                        placeholder="Your answer..."
-                        className="input resize-vertical min-h-28"
-                        required
-                      />
-                    </div>
-                  )}
-
-                  {jobInfo.question3 && (
-                    <div>
-                      <label className="label">
-                        {jobInfo.question3}
-                      </label>
-                      <textarea
-                        name="answer3"
-                        value={formData.answer3}
-                        onChange={handleInputChange}
-                        placeholder="Your answer..."
-                        className="input resize-vertical min-h-28"
-                        required
-                      />
-                    </div>
-                  )}
-
-                  {jobInfo.question4 && (
-                    <div>
-                      <label className="label">
-                        {jobInfo.question4}
-                      </label>
-                      <textarea
-                        name="answer4"
-                        value={formData.answer4}
-                        onChange={handleInputChange}
-                        placeholder="Your answer..."
-                        className="input resize-vertical min-h-28"
-                        required
-                      />
-                    </div>
-                  )}
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">{currentStep.title}</h2>
+                    {currentStep.description && <p className="text-gray-600 mt-1">{currentStep.description}</p>}
+                  </div>
 
-                  {!jobInfo.question1 && !jobInfo.question2 && !jobInfo.question3 && !jobInfo.question4 && (
+                  {currentStep.questions.map((question) => (
+                    <FormQuestionField
+                      key={question.id}
+                      question={question}
+                      value={answers[question.id] ?? null}
+                      onChange={(value) => handleAnswerChange(question, value)}
+                      error={errors[answerField(question)]}
+                    />
+                  ))}
+
+                  {currentStep.questions.length === 0 && (
                     <p className="text-gray-500 italic">No custom screening questions added for this position.</p>
                   )}
                 </div>
               )}
 
-              {step === 3 && (
+              {step === reviewStep && (
                 <div className="space-y-6">
                   <h2 className="text-xl font-semibold text-gray-900">Review Your Application</h2>
 
@@ -524,34 +685,18 @@ export default function PublicApplicationFormPage({
                     </div>
                   </div>
 
-                  {(jobInfo.question1 || jobInfo.question2 || jobInfo.question3 || jobInfo.question4) && (
+                  {visible.length > 0 && (
                     <div>
                       <h3 className="font-semibold text-gray-900 mb-3">Screening Answers</h3>
                       <div className="space-y-4">
-                        {jobInfo.question1 && (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm text-gray-600 font-medium mb-2">{jobInfo.question1}</p>
-                            <p className="text-gray-900 whitespace-pre-wrap">{formData.answer1}</p>
-                          </div>
-                        )}
-                        {jobInfo.question2 && (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm text-gray-600 font-medium mb-2">{jobInfo.question2}</p>
-                            <p className="text-gray-900 whitespace-pre-wrap">{formData.answer2}</p>
-                          </div>
-                        )}
-                        {jobInfo.question3 && (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm text-gray-600 font-medium mb-2">{jobInfo.question3}</p>
-                            <p className="text-gray-900 whitespace-pre-wrap">{formData.answer3}</p>
+                        {visible.map((question) => (
+                          <div key={question.id} className="p-4 bg-gray-50 rounded-lg">
+                            <p className="text-sm text-gray-600 font-medium mb-2">{question.label}</p>
+                            <p className="text-gray-900 whitespace-pre-wrap">
+                              {displayAnswer(question, answers[question.id])}
+                            </p>
                           </div>
-                        )}
-                        {jobInfo.question4 && (
-                          <div className="p-4 bg-gray-50 rounded-lg">
-                            <p className="text-sm text-gray-600 font-medium mb-2">{jobInfo.question4}</p>
-                            <p className="text-gray-900 whitespace-pre-wrap">{formData.answer4}</p>
-                          </div>
-                        )}
+                        ))}
                       </div>
                     </div>
                   )}
@@ -575,16 +720,20 @@ export default function PublicApplicationFormPage({
                     Back
                   </Button>
                 )}
-                {step < 3 ? (
+                <button
+                  type="button"
+                  onClick={handleSaveForLater}
+                  disabled={isSavingForLater}
+                  className="text-sm font-medium text-primary hover:underline disabled:opacity-50 ml-auto"
+                >
+                  {isSavingForLater ? "Saving..." : "Save and continue later"}
+                </button>
+                {step < reviewStep ? (
                   <Button
                     type="button"
                     variant="primary"
                     onClick={() => {
-                      if (step === 1) {
-                        if (validateStep1()) {
-                          setStep(step + 1);
-                        }
-                      } else {
+                      if (step === 1 ? validateStep1() : validateQuestions(currentStep?.questions ?? [])) {
                         setStep(step + 1);
                       }
                     }}
@@ -603,6 +752,11 @@ export default function PublicApplicationFormPage({
                   </Button>
                 )}
               </div>
+              {savedForLaterTo && (
+                <p className="text-sm text-green-700">
+                  We&apos;ve emailed a link to {savedForLaterTo}. Use it to pick up where you left off, on any device.
+                </p>
+              )}
             </form>
           </CardBody>
         </Card>
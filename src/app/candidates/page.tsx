@@ -1,72 +1,122 @@
 "use client";
 
-import { useState } from "react";
-import { DashboardLayout, Button, Badge, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow, Input } from "@/components";
+import { useEffect, useState } from "react";
+import { DashboardLayout, Button, Badge, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow, Input, ExportMenu, InterviewScheduler, LockedFeature } from "@/components";
+import type { InterviewFormInput } from "@/components/InterviewScheduler";
 import { EyeIcon } from "@/components/Icons";
 import Link from "next/link";
-
-interface Candidate {
-  id: string;
-  name: string;
-  email: string;
-  jobRole: string;
-  decision: "qualified" | "not_qualified";
-  addedDate: string;
-}
-
-const mockCandidates: Candidate[] = [
-  {
-    id: "1",
-    name: "Sarah Chen",
-    email: "sarah@example.com",
-    jobRole: "Senior Frontend Developer",
-    decision: "qualified",
-    addedDate: "2024-12-20",
-  },
-  {
-    id: "2",
-    name: "Michael Johnson",
-    email: "michael@example.com",
-    jobRole: "Senior Frontend Developer",
-    decision: "qualified",
-    addedDate: "2024-12-19",
-  },
-  {
-    id: "3",
-    name: "Alex Kumar",
-    email: "alex@example.com",
-    jobRole: "Product Manager",
-    decision: "qualified",
-    addedDate: "2024-12-18",
-  },
-  {
-    id: "4",
-    name: "Jessica Lee",
-    email: "jessica@example.com",
-    jobRole: "Product Manager",
-    decision: "qualified",
-    addedDate: "2024-12-17",
-  },
-];
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { CANDIDATE_COLUMNS, filterCandidates } from "@/lib/export/definitions";
+import { useFeature, usePermission } from "@/lib/useWorkspace";
+import type { Candidate, Interview, InterviewSummary, PublicBookingLink, PublicSheetsConnection, SheetsStatus } from "@/types";
 
 export default function CandidatesPage() {
   const [isSyncing, setIsSyncing] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
+  const [connection, setConnection] = useState<PublicSheetsConnection | null>(null);
+  const [syncError, setSyncError] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [interviews, setInterviews] = useState<InterviewSummary[]>([]);
+  const [bookingLinks, setBookingLinks] = useState<PublicBookingLink[]>([]);
+  const [scheduling, setScheduling] = useState<{ candidate: Candidate; interview?: Interview } | null>(null);
+  const [isSavingInterview, setIsSavingInterview] = useState(false);
+  const [interviewErrors, setInterviewErrors] = useState<Record<string, string>>({});
+  const canManageCandidates = usePermission("candidates:manage");
+  const canSync = usePermission("sheets:sync");
+  const canManageSettings = usePermission("settings:manage");
+  const hasSheets = useFeature("sheets_integration");
 
-  const filteredCandidates = mockCandidates.filter((candidate) =>
-    candidate.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    candidate.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    candidate.jobRole.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const loadInterviews = () =>
+    apiFetch<{ interviews: InterviewSummary[] }>("/api/interviews?upcoming=true")
+      .then((data) => setInterviews(data.interviews))
+      .catch((err) => console.error("Failed to load interviews:", err));
+
+  const loadBookingLinks = () =>
+    apiFetch<{ links: PublicBookingLink[] }>("/api/booking-links")
+      .then((data) => setBookingLinks(data.links))
+      .catch((err) => console.error("Failed to load booking links:", err));
+
+  useEffect(() => {
+    apiFetch<{ candidates: Candidate[] }>("/api/candidates")
+      .then((data) => setCandidates(data.candidates))
+      .catch((err) => console.error("Failed to load candidates:", err));
+    apiFetch<SheetsStatus>("/api/integrations/sheets")
+      .then((status) => setConnection(status.connection))
+      .catch((err) => console.error("Failed to load Google Sheets status:", err));
+    loadInterviews();
+    loadBookingLinks();
+  }, []);
+
+  const isConnected = connection !== null;
+
+  const filteredCandidates = filterCandidates(candidates, searchTerm);
+
+  // Interviews come soonest first, so the first match is the next one.
+  const nextInterview = (candidate: Candidate) => interviews.find((interview) => interview.applicationId === candidate.id);
+  const openBookingLink = (candidate: Candidate) => bookingLinks.find((link) => link.applicationId === candidate.id);
+
+  const handleSaveInterview = async (input: InterviewFormInput, sendBookingLink: boolean) => {
+    if (!scheduling) return;
+    setIsSavingInterview(true);
+    setInterviewErrors({});
+    try {
+      if (sendBookingLink) {
+        await apiFetch<{ link: PublicBookingLink }>(`/api/applications/${scheduling.candidate.id}/booking-links`, {
+          method: "POST",
+          body: JSON.stringify(input),
+        });
+      } else {
+        await apiFetch<{ interview: Interview }>(
+          scheduling.interview
+            ? `/api/interviews/${scheduling.interview.id}`
+            : `/api/applications/${scheduling.candidate.id}/interviews`,
+          { method: scheduling.interview ? "PUT" : "POST", body: JSON.stringify(input) }
+        );
+      }
+      setScheduling(null);
+      await Promise.all([loadInterviews(), loadBookingLinks()]);
+    } catch (err) {
+      setInterviewErrors(
+        err instanceof ApiError ? { form: err.message, ...err.fieldErrors } : { form: "Couldn't save the interview" }
+      );
+    } finally {
+      setIsSavingInterview(false);
+    }
+  };
 
-  const handleGoogleSheetsSync = () => {
+  const handleCancelInterview = async (interview: InterviewSummary) => {
+    if (!confirm(`Cancel the interview with ${interview.candidateName}? Everyone invited will be notified.`)) return;
+    try {
+      await apiFetch(`/api/interviews/${interview.id}/cancel`, { method: "POST" });
+      await loadInterviews();
+    } catch (err) {
+      console.error("Failed to cancel interview:", err);
+    }
+  };
+
+  const handleRevokeBookingLink = async (link: PublicBookingLink) => {
+    try {
+      await apiFetch(`/api/booking-links/${link.id}/revoke`, { method: "POST" });
+      await loadBookingLinks();
+    } catch (err) {
+      console.error("Failed to revoke booking link:", err);
+    }
+  };
+
+  const handleGoogleSheetsSync = async () => {
     setIsSyncing(true);
-    // Simulate API call
-    setTimeout(() => {
+    setSyncError("");
+    try {
+      const data = await apiFetch<{ connection: PublicSheetsConnection }>("/api/integrations/sheets/sync", {
+        method: "POST",
+      });
+      setConnection(data.connection);
+    } catch (err) {
+      setSyncError(err instanceof ApiError ? err.message : "Sync failed");
+      console.error("Failed to sync to Google Sheets:", err);
+    } finally {
       setIsSyncing(false);
-      setIsConnected(true);
-    }, 1500);
+    }
   };
 
   return (
@@ -91,41 +141,68 @@ export default function CandidatesPage() {
           />
         </div>
 
-        {/* Sync Button */}
-        <div className="flex justify-end">
-          <Button
-            variant="primary"
-            onClick={handleGoogleSheetsSync}
-            isLoading={isSyncing}
-          >
-            {isConnected ? "Sync to Google Sheets" : "Sync to Google Sheets"}
-          </Button>
+        {/* Export and Sync Buttons */}
+        <div className="flex justify-end gap-3">
+          <ExportMenu endpoint="/api/candidates/export" columns={CANDIDATE_COLUMNS} query={{ search: searchTerm }} />
+          {hasSheets &&
+            (isConnected
+              ? canSync && (
+                  <Button
+                    variant="primary"
+                    onClick={handleGoogleSheetsSync}
+                    isLoading={isSyncing}
+                  >
+                    Sync to Google Sheets
+                  </Button>
+                )
+              : canManageSettings && (
+                  <Link href="/profile">
+                    <Button variant="primary">Connect Google Sheets</Button>
+                  </Link>
+                ))}
         </div>
 
         {/* Google Sheets Status */}
-        <Card className={isConnected ? "border-green-200 bg-green-50" : "border-amber-200 bg-amber-50"}>
-          <CardBody>
-            <div className="flex gap-3">
-              <div className={`w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 ${
-                isConnected ? "bg-green-200" : "bg-amber-200"
-              }`}>
-                <span className={`text-xs font-bold ${isConnected ? "text-green-700" : "text-amber-700"}`}>
-                  {isConnected ? "✓" : "!"}
-                </span>
-              </div>
-              <div>
-                <h3 className={`font-semibold ${isConnected ? "text-green-900" : "text-amber-900"}`}>
-                  {isConnected ? "Google Sheets Connected" : "Not Connected to Google Sheets"}
-                </h3>
-                <p className={`text-sm mt-1 ${isConnected ? "text-green-800" : "text-amber-800"}`}>
-                  {isConnected
-                    ? "Your shortlisted candidates are being synced to Google Sheets."
-                    : "Connect your Google Sheets account to automatically sync candidates."}
-                </p>
+        {hasSheets === false && (
+          <LockedFeature
+            feature="sheets_integration"
+            description="Sync shortlisted candidates to a spreadsheet your hiring managers already use."
+          />
+        )}
+        {hasSheets && (
+          <Card className={isConnected ? "border-green-200 bg-green-50" : "border-amber-200 bg-amber-50"}>
+            <CardBody>
+              <div className="flex gap-3">
+                <div className={`w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                  isConnected ? "bg-green-200" : "bg-amber-200"
+                }`}>
+                  <span className={`text-xs font-bold ${isConnected ? "text-green-700" : "text-amber-700"}`}>
+                    {isConnected ? "✓" : "!"}
+                  </span>
+                </div>
+                <div>
+                  <h3 className={`font-semibold ${isConnected ? "text-green-900" : "text-amber-900"}`}>
+                    {isConnected ? "Google Sheets Connected" : "Not Connected to Google Sheets"}
+                  </h3>
+                  <p className={`text-sm mt-1 ${isConnected ? "text-green-800" : "text-amber-800"}`}>
+                    {!connection
+                      ? "Connect a spreadsheet in Account Settings to sync shortlisted candidates."
+                      : !connection.lastSync
+                        ? `Syncing to the "${connection.sheetName}" sheet. Run a sync to send your shortlisted candidates.`
+                        : connection.lastSync.status === "success"
+                          ? `Last synced ${new Date(connection.lastSync.at).toLocaleString()}: ${connection.lastSync.inserted} added, ${connection.lastSync.updated} updated.${
+                              connection.conflicts?.length
+                                ? ` ${connection.conflicts.length} status conflicts need review in Account Settings.`
+                                : ""
+                            }`
+                          : `The last sync failed: ${connection.lastSync.error}. See Account Settings for the error log.`}
+                  </p>
+                  {syncError && <p className="text-sm mt-1 text-red-600">{syncError}</p>}
+                </div>
               </div>
-            </div>
-          </CardBody>
-        </Card>
+            </CardBody>
+          </Card>
+        )}
 
         {/* Candidates Table */}
         <Card>
@@ -141,39 +218,101 @@ export default function CandidatesPage() {
                   <TableCell isHeader>Job Role</TableCell>
                   <TableCell isHeader>AI Decision</TableCell>
                   <TableCell isHeader>Added Date</TableCell>
+                  <TableCell isHeader>Interview</TableCell>
                   <TableCell isHeader>Action</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
-                {filteredCandidates.map((candidate) => (
-                  <TableRow key={candidate.id}>
-                    <TableCell>
-                      <span className="font-medium text-gray-900">{candidate.name}</span>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-gray-600">{candidate.email}</span>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-gray-600">{candidate.jobRole}</span>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="success">Qualified</Badge>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-gray-600">{candidate.addedDate}</span>
-                    </TableCell>
-                    <TableCell>
-                      <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
-                        <EyeIcon className="w-5 h-5" />
-                      </button>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {filteredCandidates.map((candidate) => {
+                  const interview = nextInterview(candidate);
+                  const bookingLink = openBookingLink(candidate);
+                  return (
+                    <TableRow key={candidate.id}>
+                      <TableCell>
+                        <span className="font-medium text-gray-900">{candidate.name}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{candidate.email}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{candidate.jobRole}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="success">Qualified</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{new Date(candidate.addedDate).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell>
+                        {interview ? (
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium text-gray-900">{new Date(interview.startsAt).toLocaleString()}</p>
+                            {canManageCandidates && (
+                              <div className="flex gap-3 text-xs font-medium">
+                                <button
+                                  onClick={() => setScheduling({ candidate, interview })}
+                                  className="text-primary hover:text-blue-900"
+                                >
+                                  Reschedule
+                                </button>
+                                <button
+                                  onClick={() => handleCancelInterview(interview)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        ) : bookingLink ? (
+                          <div className="space-y-1">
+                            <p className="text-sm text-gray-600">Booking link sent</p>
+                            {canManageCandidates && (
+                              <button
+                                onClick={() => handleRevokeBookingLink(bookingLink)}
+                                className="text-xs font-medium text-red-600 hover:text-red-700"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </div>
+                        ) : canManageCandidates ? (
+                          <Button variant="secondary" size="sm" onClick={() => setScheduling({ candidate })}>
+                            Schedule
+                          </Button>
+                        ) : (
+                          <span className="text-sm text-gray-500">Not scheduled</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/applications/${candidate.jobId}?application=${candidate.id}`}>
+                          <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+                            <EyeIcon className="w-5 h-5" />
+                          </button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </CardBody>
         </Card>
       </div>
+
+      {scheduling && (
+        <InterviewScheduler
+          candidateName={scheduling.candidate.name}
+          interview={scheduling.interview}
+          onSubmit={handleSaveInterview}
+          onClose={() => {
+            setScheduling(null);
+            setInterviewErrors({});
+          }}
+          isSaving={isSavingInterview}
+          errors={interviewErrors}
+        />
+      )}
     </DashboardLayout>
   );
 }
@@ -1,40 +1,36 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { DashboardLayout, Button, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow } from "@/components";
 import { EyeIcon } from "@/components/Icons";
 import Link from "next/link";
+import { apiFetch } from "@/lib/api-client";
+import { usePermission, useWorkspace } from "@/lib/useWorkspace";
+import type { InterviewSummary, JobSummary } from "@/types";
 
-const mockJobs = [
-  {
-    id: "1",
-    title: "Senior Frontend Developer",
-    applications: 24,
-    status: "Open",
-    createdAt: "2024-12-15",
-  },
-  {
-    id: "2",
-    title: "Product Manager",
-    applications: 18,
-    status: "Open",
-    createdAt: "2024-12-10",
-  },
-  {
-    id: "3",
-    title: "DevOps Engineer",
-    applications: 12,
-    status: "Closed",
-    createdAt: "2024-12-01",
-  },
-];
+export default function DashboardPage() {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [interviews, setInterviews] = useState<InterviewSummary[]>([]);
+  const workspace = useWorkspace();
+  const canManageJobs = usePermission("jobs:manage");
 
-const mockStats = [
-  { label: "Active Jobs", value: "2", color: "text-blue-700" },
-  { label: "Total Applications", value: "54", color: "text-green-700" },
-  { label: "Shortlisted Candidates", value: "12", color: "text-purple-700" },
-];
+  useEffect(() => {
+    apiFetch<{ jobs: JobSummary[] }>("/api/jobs")
+      .then((data) => setJobs(data.jobs))
+      .catch((err) => console.error("Failed to load jobs:", err))
+      .finally(() => setIsLoading(false));
+    apiFetch<{ interviews: InterviewSummary[] }>("/api/interviews?upcoming=true")
+      .then((data) => setInterviews(data.interviews))
+      .catch((err) => console.error("Failed to load interviews:", err));
+  }, []);
+
+  const stats = [
+    { label: "Active Jobs", value: jobs.filter((job) => job.status === "Open").length, color: "text-blue-700" },
+    { label: "Total Applications", value: jobs.reduce((sum, job) => sum + job.applicationCount, 0), color: "text-green-700" },
+    { label: "Shortlisted Candidates", value: jobs.reduce((sum, job) => sum + job.qualifiedCount, 0), color: "text-purple-700" },
+  ];
 
-export default function DashboardPage() {
   return (
     <DashboardLayout>
       <div className="space-y-8">
@@ -42,16 +38,18 @@ export default function DashboardPage() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-            <p className="text-gray-600 mt-1">Welcome back, Acme Corp</p>
+            <p className="text-gray-600 mt-1">Welcome back{workspace ? `, ${workspace.company.name}` : ""}</p>
           </div>
-          <Link href="/jobs/new">
-            <Button variant="primary">Create New Job</Button>
-          </Link>
+          {canManageJobs && (
+            <Link href="/jobs/new">
+              <Button variant="primary">Create New Job</Button>
+            </Link>
+          )}
         </div>
 
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {mockStats.map((stat) => (
+          {stats.map((stat) => (
             <Card key={stat.label}>
               <CardBody className="text-center py-6">
                 <p className="text-gray-600 text-sm font-medium">{stat.label}</p>
@@ -61,6 +59,57 @@ export default function DashboardPage() {
           ))}
         </div>
 
+        {/* Upcoming Interviews */}
+        {interviews.length > 0 && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-gray-900">Upcoming Interviews</h2>
+            </CardHeader>
+            <CardBody className="p-0">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell isHeader>Candidate</TableCell>
+                    <TableCell isHeader>Job</TableCell>
+                    <TableCell isHeader>When</TableCell>
+                    <TableCell isHeader>Interviewers</TableCell>
+                    <TableCell isHeader>Calendar</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {interviews.slice(0, 5).map((interview) => (
+                    <TableRow key={interview.id}>
+                      <TableCell>
+                        <Link
+                          href={`/applications/${interview.jobId}?application=${interview.applicationId}`}
+                          className="font-medium text-gray-900 hover:text-primary"
+                        >
+                          {interview.candidateName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{interview.jobTitle}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-900">{new Date(interview.startsAt).toLocaleString()}</span>
+                        <span className="block text-xs text-gray-500">{interview.durationMinutes} minutes</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-gray-600">{interview.interviewers.join(", ")}</span>
+                      </TableCell>
+                      <TableCell>
+                        <a href={`/api/interviews/${interview.id}/ics`} className="text-sm text-primary hover:underline">
+                          Add to calendar
+                        </a>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
+
         {/* Recent Jobs Table */}
         <Card>
           <CardHeader>
@@ -78,19 +127,21 @@ export default function DashboardPage() {
                 </TableRow>
               </TableHead>
               <TableBody>
-                {mockJobs.map((job) => (
+                {jobs.slice(0, 5).map((job) => (
                   <TableRow key={job.id}>
                     <TableCell>
                       <span className="font-medium text-gray-900">{job.title}</span>
                     </TableCell>
                     <TableCell>
-                      <span className="text-gray-600">{job.applications}</span>
+                      <span className="text-gray-600">{job.applicationCount}</span>
                     </TableCell>
                     <TableCell>
                       <span
                         className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${
                           job.status === "Open"
                             ? "bg-green-100 text-green-800"
+                            : job.status === "Scheduled"
+                            ? "bg-blue-100 text-blue-800"
                             : "bg-gray-100 text-gray-800"
                         }`}
                       >
@@ -98,7 +149,7 @@ export default function DashboardPage() {
                       </span>
                     </TableCell>
                     <TableCell>
-                      <span className="text-gray-600">{job.createdAt}</span>
+                      <span className="text-gray-600">{new Date(job.createdAt).toLocaleDateString()}</span>
                     </TableCell>
                     <TableCell>
                       <Link href={`/applications/${job.id}`}>
@@ -109,6 +160,13 @@ export default function DashboardPage() {
                     </TableCell>
                   </TableRow>
                 ))}
+                {!isLoading && jobs.length === 0 && (
+                  <TableRow>
+                    <TableCell className="text-center text-gray-600" colSpan={5}>
+                      No jobs yet. Create your first job to start receiving applications.
+                    </TableCell>
+                  </TableRow>
+                )}
               </TableBody>
             </Table>
           </CardBody>
@@ -0,0 +1,119 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { AuthLayout, Button, Input } from "@/components";
+import Link from "next/link";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from "@/lib/permissions";
+import type { Role } from "@/types";
+
+interface InvitationDetails {
+  email: string;
+  role: Role;
+  companyName: string;
+  invitedBy: string;
+}
+
+export default function AcceptInvitationPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [formData, setFormData] = useState({ password: "", confirmPassword: "" });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch<{ invitation: InvitationDetails }>(`/api/public/invitations/${token}`)
+      .then((data) => setInvitation(data.invitation))
+      .catch((err) => setLoadError(err instanceof ApiError ? err.message : "This invitation couldn't be loaded"));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    setFormError("");
+    setIsLoading(true);
+    try {
+      await apiFetch(`/api/public/invitations/${token}`, { method: "POST", body: JSON.stringify(formData) });
+      window.location.href = "/dashboard";
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setErrors(err.fieldErrors);
+        setFormError(err.message);
+      } else {
+        setFormError("Something went wrong. Please try again.");
+      }
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  return (
+    <AuthLayout>
+      <div className="card">
+        <div className="px-6 py-8 sm:px-8">
+          {loadError ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Invitation Not Available</h1>
+              <p className="text-gray-600 mb-6">{loadError}. Ask whoever invited you to send a new one.</p>
+              <Link href="/" className="text-primary font-medium hover:text-blue-900">
+                Go to sign in
+              </Link>
+            </>
+          ) : !invitation ? (
+            <p className="text-gray-600 text-center">Loading invitation...</p>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Join {invitation.companyName}</h1>
+              <p className="text-gray-600 mb-6">
+                {invitation.invitedBy} invited you as {ROLE_LABELS[invitation.role]}:{" "}
+                {ROLE_DESCRIPTIONS[invitation.role].toLowerCase()}.
+              </p>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {formError && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-700">{formError}</p>
+                  </div>
+                )}
+
+                <Input label="Email" type="email" value={invitation.email} disabled />
+
+                <Input
+                  label="Password"
+                  name="password"
+                  error={errors.password}
+                  type="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  placeholder="••••••••"
+                  required
+                />
+
+                <Input
+                  label="Confirm Password"
+                  name="confirmPassword"
+                  error={errors.confirmPassword}
+                  type="password"
+                  value={formData.confirmPassword}
+                  onChange={handleChange}
+                  placeholder="••••••••"
+                  required
+                />
+
+                <Button type="submit" variant="primary" className="w-full" isLoading={isLoading}>
+                  Accept Invitation
+                </Button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
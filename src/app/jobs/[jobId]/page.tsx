@@ -1,43 +1,146 @@
 "use client";
 
-import { useState } from "react";
-import { DashboardLayout, Button, Input, Card, CardBody, CardHeader, CardFooter } from "@/components";
+import { use, useEffect, useState } from "react";
+import {
+  DashboardLayout,
+  Button,
+  Input,
+  Card,
+  CardBody,
+  CardHeader,
+  KnockoutRuleEditor,
+  LockedFeature,
+  QuestionConditionEditor,
+} from "@/components";
 import Link from "next/link";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import {
+  MAX_FORM_QUESTIONS,
+  MAX_FORM_SECTIONS,
+  MAX_WORD_LIMIT,
+  QUESTION_TYPE_OPTIONS,
+  SCALE_MAX,
+  SCALE_MIN,
+  isChoiceQuestion,
+  newQuestion,
+  newSection,
+} from "@/lib/forms";
+import { useFeature } from "@/lib/useWorkspace";
+import type { FormQuestion, FormQuestionType, FormSection, Job } from "@/types";
 
-interface Question {
-  id: string;
-  label: string;
-  type: "text" | "number" | "email" | "file";
-  required: boolean;
-}
+// Blank option lines are kept while editing so the textarea doesn't fight the cursor.
+// Knockout choices that no longer match an option are dropped with them.
+const cleanQuestion = (question: FormQuestion): FormQuestion => {
+  if (!question.options) return question;
+  const options = question.options.map((option) => option.trim()).filter(Boolean);
+  const { knockout } = question;
+  if (knockout?.operator !== "one_of" && knockout?.operator !== "includes") return { ...question, options };
+  return {
+    ...question,
+    options,
+    knockout: { ...knockout, value: knockout.value.filter((option) => options.includes(option)) },
+  };
+};
 
-export default function FormBuilderPage() {
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [newQuestion, setNewQuestion] = useState<{
+export default function FormBuilderPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = use(params);
+  const hasCustomQuestions = useFeature("custom_questions");
+  const [job, setJob] = useState<Job | null>(null);
+  const [questions, setQuestions] = useState<FormQuestion[]>([]);
+  const [sections, setSections] = useState<FormSection[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState("");
+  const [error, setError] = useState("");
+  const [newQuestionDraft, setNewQuestionDraft] = useState<{
     label: string;
-    type: "text" | "number" | "email" | "file";
+    type: FormQuestionType;
   }>({
     label: "",
     type: "text",
   });
 
+  useEffect(() => {
+    apiFetch<{ job: Job }>(`/api/jobs/${jobId}`)
+      .then(({ job }) => {
+        setJob(job);
+        setQuestions(job.form.questions);
+        setSections(job.form.sections ?? []);
+      })
+      .catch((err) => console.error("Failed to load job:", err));
+  }, [jobId]);
+
+  const updateQuestion = (id: string, changes: Partial<FormQuestion>) => {
+    setQuestions((prev) => prev.map((q) => (q.id === id ? { ...q, ...changes } : q)));
+    setSaveMessage("");
+  };
+
   const addQuestion = () => {
-    if (newQuestion.label.trim()) {
-      setQuestions((prev) => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          label: newQuestion.label,
-          type: newQuestion.type,
-          required: true,
-        },
-      ]);
-      setNewQuestion({ label: "", type: "text" });
+    if (newQuestionDraft.label.trim()) {
+      setQuestions((prev) => [...prev, newQuestion(newQuestionDraft.label.trim(), newQuestionDraft.type)]);
+      setNewQuestionDraft({ label: "", type: "text" });
+      setSaveMessage("");
     }
   };
 
+  // Questions that were shown depending on the removed one become unconditional.
   const removeQuestion = (id: string) => {
-    setQuestions((prev) => prev.filter((q) => q.id !== id));
+    setQuestions((prev) =>
+      prev
+        .filter((q) => q.id !== id)
+        .map((q) => (q.showIf?.questionId === id ? { ...q, showIf: undefined } : q))
+    );
+    setSaveMessage("");
+  };
+
+  const updateSection = (id: string, changes: Partial<FormSection>) => {
+    setSections((prev) => prev.map((section) => (section.id === id ? { ...section, ...changes } : section)));
+    setSaveMessage("");
+  };
+
+  const addSection = () => {
+    setSections((prev) => [...prev, newSection("")]);
+    setSaveMessage("");
+  };
+
+  // Questions on a removed step move back to the main questions step.
+  const removeSection = (id: string) => {
+    setSections((prev) => prev.filter((section) => section.id !== id));
+    setQuestions((prev) => prev.map((q) => (q.sectionId === id ? { ...q, sectionId: undefined } : q)));
+    setSaveMessage("");
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions((prev) => {
+      const next = [...prev];
+      const [question] = next.splice(index, 1);
+      next.splice(index + offset, 0, question);
+      return next;
+    });
+    setSaveMessage("");
+  };
+
+  const handlePublish = async () => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const { job } = await apiFetch<{ job: Job }>(`/api/jobs/${jobId}/form`, {
+        method: "PUT",
+        body: JSON.stringify({ questions: questions.map(cleanQuestion), sections }),
+      });
+      setJob(job);
+      setQuestions(job.form.questions);
+      setSections(job.form.sections ?? []);
+      setSaveMessage("Form published. Applicants will see these questions.");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.fieldErrors.form || err.message : "Failed to save the form");
+      console.error("Failed to save form:", err);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -45,11 +148,13 @@ export default function FormBuilderPage() {
       <div className="max-w-3xl space-y-8">
         {/* Page Header */}
         <div>
-          <Link href="/dashboard" className="text-primary hover:text-blue-900 text-sm font-medium mb-4 inline-block">
-            ← Back to Dashboard
+          <Link href="/jobs" className="text-primary hover:text-blue-900 text-sm font-medium mb-4 inline-block">
+            ← Back to Jobs
           </Link>
           <h1 className="text-3xl font-bold text-gray-900">Build Application Form</h1>
-          <p className="text-gray-600 mt-1">Customize your job application form</p>
+          <p className="text-gray-600 mt-1">
+            {job ? `Customize the application form for ${job.title}` : "Customize your job application form"}
+          </p>
         </div>
 
         {/* Default Fields */}
@@ -77,100 +182,282 @@ export default function FormBuilderPage() {
           </CardBody>
         </Card>
 
-        {/* Custom Questions */}
-        <Card>
-          <CardHeader>
-            <h2 className="text-lg font-semibold text-gray-900">Custom Questions</h2>
-          </CardHeader>
-          <CardBody className="space-y-4">
-            {questions.length > 0 && (
-              <div className="space-y-2">
-                {questions.map((q, idx) => (
-                  <div key={q.id} className="flex items-center justify-between p-3 bg-blue-50 rounded-lg border border-blue-200">
-                    <div>
-                      <p className="font-medium text-gray-900">{idx + 1}. {q.label}</p>
-                      <p className="text-xs text-gray-600 mt-1">Type: {q.type}</p>
-                    </div>
-                    <button
-                      onClick={() => removeQuestion(q.id)}
-                      className="text-red-600 hover:text-red-700 text-sm font-medium"
+        {hasCustomQuestions === false ? (
+          <LockedFeature
+            feature="custom_questions"
+            description="Ask candidates your own questions, split the form into steps and reject those who fail knockout rules before screening."
+          />
+        ) : (
+          <>
+            {/* Custom Questions */}
+            <Card>
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900">Custom Questions</h2>
+              </CardHeader>
+              <CardBody className="space-y-4">
+                {questions.length > 0 && (
+                  <div className="space-y-2">
+                    {questions.map((q, idx) => (
+                      <div key={q.id} className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium text-gray-900">{idx + 1}.</span>
+                          <Input
+                            type="text"
+                            value={q.label}
+                            onChange={(e) => updateQuestion(q.id, { label: e.target.value })}
+                          />
+                        </div>
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <div className="flex items-center gap-4">
+                            <select
+                              className="input py-1 w-auto"
+                              value={q.type}
+                              onChange={(e) => {
+                                const type = e.target.value as FormQuestionType;
+                                updateQuestion(q.id, {
+                                  type,
+                                  knockout: undefined,
+                                  ...(isChoiceQuestion(type) && { options: q.options ?? [] }),
+                                });
+                              }}
+                            >
+                              {QUESTION_TYPE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={q.required}
+                                onChange={(e) => updateQuestion(q.id, { required: e.target.checked })}
+                              />
+                              Required
+                            </label>
+                            {sections.length > 0 && (
+                              <select
+                                className="input py-1 w-auto"
+                                value={q.sectionId ?? ""}
+                                onChange={(e) => updateQuestion(q.id, { sectionId: e.target.value || undefined })}
+                                aria-label="Step"
+                              >
+                                <option value="">Questions step</option>
+                                {sections.map((section, sectionIdx) => (
+                                  <option key={section.id} value={section.id}>
+                                    {section.title || `Step ${sectionIdx + 1}`}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3 text-sm font-medium">
+                            <button
+                              type="button"
+                              onClick={() => moveQuestion(idx, -1)}
+                              disabled={idx === 0}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-40"
+                              aria-label="Move up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => moveQuestion(idx, 1)}
+                              disabled={idx === questions.length - 1}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-40"
+                              aria-label="Move down"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => removeQuestion(q.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                        {isChoiceQuestion(q.type) && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Options (one per line)</label>
+                            <textarea
+                              className="input resize-vertical min-h-24"
+                              value={(q.options ?? []).join("\n")}
+                              onChange={(e) => updateQuestion(q.id, { options: e.target.value.split("\n") })}
+                              placeholder={"Full-time\nPart-time"}
+                            />
+                          </div>
+                        )}
+                        {q.type === "long_text" && (
+                          <Input
+                            label="Word Limit"
+                            type="number"
+                            min={1}
+                            max={MAX_WORD_LIMIT}
+                            value={q.maxWords ?? ""}
+                            onChange={(e) =>
+                              updateQuestion(q.id, { maxWords: e.target.value ? Number(e.target.value) : undefined })
+                            }
+                            placeholder="No limit"
+                          />
+                        )}
+                        {q.type === "scale" && (
+                          <div className="grid grid-cols-2 gap-3">
+                            <Input
+                              label={`Label for ${SCALE_MIN}`}
+                              value={q.scaleLabels?.[0] ?? ""}
+                              onChange={(e) => updateQuestion(q.id, { scaleLabels: [e.target.value, q.scaleLabels?.[1] ?? ""] })}
+                              placeholder="e.g., Beginner"
+                            />
+                            <Input
+                              label={`Label for ${SCALE_MAX}`}
+                              value={q.scaleLabels?.[1] ?? ""}
+                              onChange={(e) => updateQuestion(q.id, { scaleLabels: [q.scaleLabels?.[0] ?? "", e.target.value] })}
+                              placeholder="e.g., Expert"
+                            />
+                          </div>
+                        )}
+                        <KnockoutRuleEditor question={q} onChange={(knockout) => updateQuestion(q.id, { knockout })} />
+                        <QuestionConditionEditor
+                          question={q}
+                          earlier={questions.slice(0, idx)}
+                          onChange={(showIf) => updateQuestion(q.id, { showIf })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-3 pt-4 border-t border-gray-200">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Question</label>
+                    <Input
+                      type="text"
+                      placeholder="e.g., What's your experience with React?"
+                      value={newQuestionDraft.label}
+                      onChange={(e) =>
+                        setNewQuestionDraft((prev) => ({ ...prev, label: e.target.value }))
+                      }
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Question Type</label>
+                    <select
+                      className="input"
+                      value={newQuestionDraft.type}
+                      onChange={(e) =>
+                        setNewQuestionDraft((prev) => ({
+                          ...prev,
+                          type: e.target.value as FormQuestionType,
+                        }))
+                      }
                     >
-                      Remove
-                    </button>
+                      {QUESTION_TYPE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={addQuestion}
+                    className="w-full"
+                    disabled={questions.length >= MAX_FORM_QUESTIONS}
+                  >
+                    + Add Question
+                  </Button>
+                </div>
+              </CardBody>
+            </Card>
+
+            {/* Extra Steps */}
+            <Card>
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900">Extra Steps</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Split longer forms into steps. Each step is shown after the main questions, and skipped when all of its
+                  questions are hidden.
+                </p>
+              </CardHeader>
+              <CardBody className="space-y-4">
+                {sections.map((section, idx) => (
+                  <div key={section.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900">{idx + 1}.</span>
+                      <Input
+                        type="text"
+                        placeholder="Step title, e.g., Work Authorization"
+                        value={section.title}
+                        onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeSection(section.id)}
+                        className="text-red-600 hover:text-red-700 text-sm font-medium"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <Input
+                      type="text"
+                      placeholder="Optional description shown under the title"
+                      value={section.description ?? ""}
+                      onChange={(e) => updateSection(section.id, { description: e.target.value })}
+                    />
                   </div>
                 ))}
-              </div>
-            )}
-
-            <div className="space-y-3 pt-4 border-t border-gray-200">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Question</label>
-                <Input
-                  type="text"
-                  placeholder="e.g., What's your experience with React?"
-                  value={newQuestion.label}
-                  onChange={(e) =>
-                    setNewQuestion((prev) => ({ ...prev, label: e.target.value }))
-                  }
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Question Type</label>
-                <select
-                  className="input"
-                  value={newQuestion.type}
-                  onChange={(e) =>
-                    setNewQuestion((prev) => ({
-                      ...prev,
-                      type: e.target.value as "text" | "number" | "email" | "file",
-                    }))
-                  }
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={addSection}
+                  className="w-full"
+                  disabled={sections.length >= MAX_FORM_SECTIONS}
                 >
-                  <option value="text">Short Text</option>
-                  <option value="number">Number</option>
-                  <option value="email">Email</option>
-                  <option value="file">File Upload</option>
-                </select>
-              </div>
-
-              <Button
-                type="button"
-                variant="secondary"
-                onClick={addQuestion}
-                className="w-full"
-              >
-                + Add Question
-              </Button>
-            </div>
-          </CardBody>
-        </Card>
+                  + Add Step
+                </Button>
+              </CardBody>
+            </Card>
 
-        {/* Form Preview Notice */}
-        <Card className="border-green-200 bg-green-50">
-          <CardBody>
-            <div className="flex gap-3">
-              <div className="w-5 h-5 rounded-full bg-green-200 flex items-center justify-center flex-shrink-0 mt-0.5">
-                <span className="text-green-700 text-xs font-bold">✓</span>
-              </div>
-              <div>
-                <h3 className="font-semibold text-green-900">Form Preview Available</h3>
-                <p className="text-sm text-green-800 mt-1">
-                  You can preview how your form looks to applicants before publishing.
-                </p>
-              </div>
-            </div>
-          </CardBody>
-        </Card>
+            {/* Form Preview Notice */}
+            <Card className="border-green-200 bg-green-50">
+              <CardBody>
+                <div className="flex gap-3">
+                  <div className="w-5 h-5 rounded-full bg-green-200 flex items-center justify-center flex-shrink-0 mt-0.5">
+                    <span className="text-green-700 text-xs font-bold">✓</span>
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-green-900">Form Preview Available</h3>
+                    <p className="text-sm text-green-800 mt-1">
+                      Preview opens the live application form, so publish your changes first to see them as applicants will.
+                    </p>
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
 
-        {/* Actions */}
-        <div className="flex gap-3 justify-end">
-          <Link href="/dashboard">
-            <Button variant="secondary">Cancel</Button>
-          </Link>
-          <Button variant="primary">Preview Form</Button>
-          <Button variant="primary">Publish Form</Button>
-        </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {saveMessage && <p className="text-sm text-green-700">{saveMessage}</p>}
+
+            {/* Actions */}
+            <div className="flex gap-3 justify-end">
+              <Link href="/jobs">
+                <Button variant="secondary">Cancel</Button>
+              </Link>
+              <a href={`/apply/${jobId}`} target="_blank" rel="noopener noreferrer">
+                <Button variant="primary">Preview Form</Button>
+              </a>
+              <Button variant="primary" onClick={handlePublish} isLoading={isSaving} disabled={!job}>
+                Publish Form
+              </Button>
+            </div>
+          </>
+        )}
       </div>
     </DashboardLayout>
   );
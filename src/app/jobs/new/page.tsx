@@ -2,83 +2,126 @@
 
 import { useState, useEffect } from "react";
 import { useSearchParams } from "next/navigation";
-import { DashboardLayout, Button, Input, Select, Textarea, Card, CardBody, CardHeader, CardFooter } from "@/components";
+import { DashboardLayout, Button, Input, Select, Textarea, Card, CardBody, CardHeader, CardFooter, CriteriaEditor, LockedFeature, UpgradePrompt } from "@/components";
 import Link from "next/link";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { parseCriteria } from "@/lib/criteria";
+import { MAX_FORM_QUESTIONS, QUESTION_TYPE_OPTIONS, newQuestion } from "@/lib/forms";
+import { DEPARTMENT_OPTIONS, formatDepartment } from "@/lib/departments";
+import { timeZoneOptions } from "@/lib/interviews/format";
+import { closesAt, formatJobTime, jobTimeZone, opensAt } from "@/lib/job-schedule";
+import { useFeature, useWorkspace } from "@/lib/useWorkspace";
+import type { FormQuestion, FormSection, Job, JobCriterion } from "@/types";
+
+const emptyForm = {
+  title: "",
+  department: "",
+  customDepartment: "",
+  location: "",
+  positions: "",
+  requirements: "",
+  criteria: [] as JobCriterion[],
+  applicationOpenDate: "",
+  applicationOpenTime: "",
+  applicationCloseDate: "",
+  applicationCloseTime: "",
+  // Empty until chosen, which means the browser's own zone.
+  timeZone: "",
+  questions: [] as FormQuestion[],
+  sections: [] as FormSection[],
+};
+
+type JobForm = typeof emptyForm;
+
+const toForm = (job: Job): JobForm => ({
+  title: job.title,
+  department: job.department,
+  customDepartment: job.customDepartment,
+  location: job.location,
+  positions: String(job.positions),
+  requirements: job.requirements,
+  criteria: job.criteria ?? [],
+  applicationOpenDate: job.applicationOpenDate,
+  applicationOpenTime: job.applicationOpenTime,
+  applicationCloseDate: job.applicationCloseDate,
+  applicationCloseTime: job.applicationCloseTime,
+  timeZone: jobTimeZone(job),
+  questions: job.form.questions,
+  sections: job.form.sections ?? [],
+});
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const toPayload = (form: JobForm) => ({
+  title: form.title,
+  department: form.department,
+  customDepartment: form.customDepartment,
+  location: form.location,
+  positions: Number(form.positions),
+  requirements: form.requirements,
+  criteria: form.criteria,
+  applicationOpenDate: form.applicationOpenDate,
+  applicationOpenTime: form.applicationOpenTime,
+  applicationCloseDate: form.applicationCloseDate,
+  applicationCloseTime: form.applicationCloseTime,
+  timeZone: form.timeZone || browserTimeZone(),
+  form: { questions: form.questions.filter((question) => question.label.trim()), sections: form.sections },
+});
 
 export default function CreateJobPage() {
   const searchParams = useSearchParams();
   const editJobId = searchParams.get("edit");
   const isEditMode = !!editJobId;
+  const workspace = useWorkspace();
+  const hasCustomQuestions = useFeature("custom_questions");
+  const companyName = workspace?.company.name ?? "";
 
   const [isLoading, setIsLoading] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [jobLink, setJobLink] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState(false);
-  const [formData, setFormData] = useState({
-    title: "",
-    department: "",
-    customDepartment: "",
-    location: "",
-    positions: "",
-    requirements: "",
-    applicationOpenDate: "",
-    applicationOpenTime: "",
-    applicationCloseDate: "",
-    applicationCloseTime: "",
-    question1: "",
-    question2: "",
-    question3: "",
-    question4: "",
-  });
+  const [formData, setFormData] = useState<JobForm>(emptyForm);
+  const timeZone = formData.timeZone || browserTimeZone();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [quotaError, setQuotaError] = useState("");
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleQuestionLabelChange = (id: string, label: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      questions: prev.questions.map((question) => (question.id === id ? { ...question, label } : question)),
+    }));
+  };
+
+  const handleAddQuestion = () => {
+    setFormData((prev) => ({ ...prev, questions: [...prev.questions, newQuestion("", "text")] }));
+  };
+
+  const handleRemoveQuestion = (id: string) => {
+    setFormData((prev) => ({ ...prev, questions: prev.questions.filter((question) => question.id !== id) }));
+  };
+
+  const handleSuggestCriteria = () => {
+    setFormData((prev) => ({ ...prev, criteria: parseCriteria(prev.requirements) }));
+  };
+
+  // Offer a first set of criteria as soon as the requirements are written, without overwriting edits.
+  const handleRequirementsBlur = () => {
+    if (formData.criteria.length === 0 && formData.requirements.trim()) {
+      handleSuggestCriteria();
+    }
+  };
+
   // Load job data in edit mode
   useEffect(() => {
     if (isEditMode && editJobId) {
-      // Simulate fetching job data from API
-      const mockJobData = {
-        "1": {
-          title: "Senior Frontend Developer",
-          department: "engineering",
-          customDepartment: "",
-          location: "San Francisco, CA",
-          positions: "2",
-          requirements: "5+ years React experience, TypeScript, strong communication skills",
-          applicationOpenDate: "2024-12-15",
-          applicationOpenTime: "09:00",
-          applicationCloseDate: "2025-12-31",
-          applicationCloseTime: "23:59",
-          question1: "What's your experience with React and state management?",
-          question2: "Describe your experience leading a project from design to deployment",
-          question3: "How do you approach testing in your frontend projects?",
-          question4: "Tell us about your experience with TypeScript",
-        },
-        "2": {
-          title: "Product Manager",
-          department: "product",
-          customDepartment: "",
-          location: "New York, NY",
-          positions: "1",
-          requirements: "3+ years PM experience, strong analytical skills",
-          applicationOpenDate: "2024-12-10",
-          applicationOpenTime: "09:00",
-          applicationCloseDate: "2025-12-31",
-          applicationCloseTime: "23:59",
-          question1: "",
-          question2: "",
-          question3: "",
-          question4: "",
-        },
-      };
-
-      const jobData = mockJobData[editJobId as keyof typeof mockJobData];
-      if (jobData) {
-        setFormData(jobData);
-      }
+      apiFetch<{ job: Job }>(`/api/jobs/${editJobId}`)
+        .then((data) => setFormData(toForm(data.job)))
+        .catch((err) => console.error("Failed to load job:", err));
     }
   }, [isEditMode, editJobId]);
 
@@ -87,21 +130,28 @@ export default function CreateJobPage() {
     setShowPreview(true);
   };
 
-  const handleCreate = (e: React.FormEvent) => {
+  const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      if (isEditMode) {
-        // In edit mode, use existing job link
-        setJobLink(`${window.location.origin}/apply/${editJobId}`);
-      } else {
-        // In create mode, generate new job link
-        const jobId = Math.random().toString(36).substr(2, 9);
-        setJobLink(`${window.location.origin}/apply/${jobId}`);
+    setErrors({});
+    setQuotaError("");
+    try {
+      const { job } = await apiFetch<{ job: Job }>(isEditMode ? `/api/jobs/${editJobId}` : "/api/jobs", {
+        method: isEditMode ? "PUT" : "POST",
+        body: JSON.stringify(toPayload(formData)),
+      });
+      setJobLink(`${window.location.origin}/apply/${job.id}`);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setErrors(err.fieldErrors);
+        // 402: the plan's job postings for this billing period are used up.
+        if (err.status === 402) setQuotaError(err.message);
       }
+      console.error("Failed to save job:", err);
+      setShowPreview(false);
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
   };
 
   const handleBack = () => {
@@ -203,7 +253,7 @@ export default function CreateJobPage() {
               {/* Job Info */}
               <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
                 <p className="text-sm text-green-900">
-                  <span className="font-semibold">{isEditMode ? "Job Updated:" : "Job Created:"}</span> {formData.title} • {formData.department === "other" ? formData.customDepartment : formData.department}
+                  <span className="font-semibold">{isEditMode ? "Job Updated:" : "Job Created:"}</span> {formData.title} • {formatDepartment(formData)}
                 </p>
               </div>
 
@@ -239,22 +289,7 @@ export default function CreateJobPage() {
                       onClick={() => {
                         setJobLink(null);
                         setShowPreview(false);
-                        setFormData({
-                          title: "",
-                          department: "",
-                          customDepartment: "",
-                          location: "",
-                          positions: "",
-                          requirements: "",
-                          applicationOpenDate: "",
-                          applicationOpenTime: "",
-                          applicationCloseDate: "",
-                          applicationCloseTime: "",
-                          question1: "",
-                          question2: "",
-                          question3: "",
-                          question4: "",
-                        });
+                        setFormData(emptyForm);
                       }}
                       className="flex-1"
                     >
@@ -282,6 +317,8 @@ export default function CreateJobPage() {
               </p>
             </div>
 
+            {quotaError && <UpgradePrompt title="Job posting limit reached" message={quotaError} />}
+
             {/* Job Details Form */}
             <Card>
               <CardHeader>
@@ -291,6 +328,7 @@ export default function CreateJobPage() {
                 <Input
                   label="Job Title"
                   name="title"
+                  error={errors.title}
                   type="text"
                   value={formData.title}
                   onChange={handleChange}
@@ -302,17 +340,10 @@ export default function CreateJobPage() {
                   <Select
                     label="Department"
                     name="department"
+                    error={errors.department}
                     value={formData.department}
                     onChange={handleChange}
-                    options={[
-                      { value: "engineering", label: "Engineering" },
-                      { value: "product", label: "Product" },
-                      { value: "design", label: "Design" },
-                      { value: "sales", label: "Sales" },
-                      { value: "marketing", label: "Marketing" },
-                      { value: "hr", label: "Human Resources" },
-                      { value: "other", label: "Other" },
-                    ]}
+                    options={DEPARTMENT_OPTIONS}
                     required
                   />
 
@@ -320,6 +351,7 @@ export default function CreateJobPage() {
                     <Input
                       label="Specify Department"
                       name="customDepartment"
+                      error={errors.customDepartment}
                       type="text"
                       value={formData.customDepartment}
                       onChange={handleChange}
@@ -332,6 +364,7 @@ export default function CreateJobPage() {
                     <Input
                       label="Location"
                       name="location"
+                      error={errors.location}
                       type="text"
                       value={formData.location}
                       onChange={handleChange}
@@ -345,6 +378,7 @@ export default function CreateJobPage() {
                   <Input
                     label="Location"
                     name="location"
+                    error={errors.location}
                     type="text"
                     value={formData.location}
                     onChange={handleChange}
@@ -356,6 +390,7 @@ export default function CreateJobPage() {
                 <Input
                   label="Number of Positions"
                   name="positions"
+                  error={errors.positions}
                   type="number"
                   value={formData.positions}
                   onChange={handleChange}
@@ -366,12 +401,21 @@ export default function CreateJobPage() {
                 <Textarea
                   label="Job Requirements"
                   name="requirements"
+                  error={errors.requirements}
                   value={formData.requirements}
                   onChange={handleChange}
+                  onBlur={handleRequirementsBlur}
                   placeholder="List key requirements, skills, experience level, and education requirements..."
                   helperText="RecruitAI will evaluate candidates based on these requirements"
                   required
                 />
+
+                <CriteriaEditor
+                  criteria={formData.criteria}
+                  onChange={(criteria) => setFormData((prev) => ({ ...prev, criteria }))}
+                  onSuggest={handleSuggestCriteria}
+                  error={errors.criteria}
+                />
               </CardBody>
             </Card>
 
@@ -387,6 +431,7 @@ export default function CreateJobPage() {
                     <Input
                       label="Application Opens"
                       name="applicationOpenDate"
+                      error={errors.applicationOpenDate}
                       type="date"
                       value={formData.applicationOpenDate}
                       onChange={handleChange}
@@ -395,6 +440,7 @@ export default function CreateJobPage() {
                     <Input
                       label="Time"
                       name="applicationOpenTime"
+                      error={errors.applicationOpenTime}
                       type="time"
                       value={formData.applicationOpenTime}
                       onChange={handleChange}
@@ -406,6 +452,7 @@ export default function CreateJobPage() {
                     <Input
                       label="Application Closes"
                       name="applicationCloseDate"
+                      error={errors.applicationCloseDate}
                       type="date"
                       value={formData.applicationCloseDate}
                       onChange={handleChange}
@@ -414,58 +461,83 @@ export default function CreateJobPage() {
                     <Input
                       label="Time"
                       name="applicationCloseTime"
+                      error={errors.applicationCloseTime}
                       type="time"
                       value={formData.applicationCloseTime}
                       onChange={handleChange}
                       required
                     />
                   </div>
+
+                  <Select
+                    label="Time Zone"
+                    name="timeZone"
+                    error={errors.timeZone}
+                    value={timeZone}
+                    onChange={handleChange}
+                    options={timeZoneOptions(timeZone)}
+                    helperText="The job opens and closes at these times on this zone's clock, wherever candidates are."
+                  />
                 </CardBody>
               </Card>
 
               {/* Custom Screening Questions */}
-              <Card>
-                <CardHeader>
-                  <h2 className="text-lg font-semibold text-gray-900">Custom Screening Questions</h2>
-                </CardHeader>
-                <CardBody className="space-y-6">
-                  <p className="text-sm text-gray-600">Add custom questions to evaluate candidates more effectively.</p>
-                  <div className="grid grid-cols-1 gap-6">
-                    <Input
-                      label="Question 1"
-                      name="question1"
-                      type="text"
-                      value={formData.question1}
-                      onChange={handleChange}
-                      placeholder="e.g., Describe your most challenging project"
-                    />
-                    <Input
-                      label="Question 2"
-                      name="question2"
-                      type="text"
-                      value={formData.question2}
-                      onChange={handleChange}
-                      placeholder="e.g., How do you handle tight deadlines?"
-                    />
-                    <Input
-                      label="Question 3"
-                      name="question3"
-                      type="text"
-                      value={formData.question3}
-                      onChange={handleChange}
-                      placeholder="e.g., Tell us about your teamwork experience"
-                    />
-                    <Input
-                      label="Question 4"
-                      name="question4"
-                      type="text"
-                      value={formData.question4}
-                      onChange={handleChange}
-                      placeholder="e.g., What motivates you in this role?"
-                    />
-                  </div>
-                </CardBody>
-              </Card>
+              {hasCustomQuestions === false ? (
+                <LockedFeature
+                  feature="custom_questions"
+                  description="Ask candidates your own questions and reject those who fail knockout rules before screening."
+                />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <h2 className="text-lg font-semibold text-gray-900">Custom Screening Questions</h2>
+                  </CardHeader>
+                  <CardBody className="space-y-6">
+                    <p className="text-sm text-gray-600">Add custom questions to evaluate candidates more effectively.</p>
+                    <div className="grid grid-cols-1 gap-6">
+                      {formData.questions.map((question, idx) => (
+                        <div key={question.id} className="flex items-end gap-3">
+                          <Input
+                            label={`Question ${idx + 1}${
+                              question.type === "text"
+                                ? ""
+                                : ` (${QUESTION_TYPE_OPTIONS.find((option) => option.value === question.type)?.label})`
+                            }`}
+                            type="text"
+                            value={question.label}
+                            onChange={(e) => handleQuestionLabelChange(question.id, e.target.value)}
+                            placeholder="e.g., Describe your most challenging project"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveQuestion(question.id)}
+                            className="text-red-600 hover:text-red-700 text-sm font-medium pb-3"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    {errors.form && <p className="text-sm text-red-600">{errors.form}</p>}
+                    <div className="flex items-center justify-between">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={handleAddQuestion}
+                        disabled={formData.questions.length >= MAX_FORM_QUESTIONS}
+                      >
+                        + Add Question
+                      </Button>
+                      {isEditMode && (
+                        <Link href={`/jobs/${editJobId}`} className="text-primary hover:underline text-sm font-medium">
+                          Open Form Builder
+                        </Link>
+                      )}
+                    </div>
+                  </CardBody>
+                </Card>
+              )}
             </div>
 
             {/* AI Screening Notice */}
@@ -522,19 +594,19 @@ export default function CreateJobPage() {
               <div>
                 <div className="flex items-center gap-3 mb-4">
                   <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center text-white font-bold text-lg">
-                    {"Acme Corporation".charAt(0)}
+                    {companyName.charAt(0)}
                   </div>
-                  <span className="text-lg font-semibold text-gray-900">Acme Corporation</span>
+                  <span className="text-lg font-semibold text-gray-900">{companyName}</span>
                 </div>
                 <h3 className="text-2xl font-bold text-gray-900">{formData.title || "Job Title"}</h3>
-                <p className="text-gray-600 mt-1">{formData.department === "other" ? formData.customDepartment : formData.department} • {formData.location}</p>
+                <p className="text-gray-600 mt-1">{formatDepartment(formData)} • {formData.location}</p>
               </div>
 
               {/* Application Status */}
-              {formData.applicationOpenDate && formData.applicationCloseDate && (
+              {formData.applicationOpenDate && formData.applicationOpenTime && formData.applicationCloseDate && formData.applicationCloseTime && (
                 <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                   <p className="text-sm text-blue-900">
-                    <span className="font-semibold">Application Period:</span> {new Date(formData.applicationOpenDate).toLocaleDateString()} to {new Date(formData.applicationCloseDate).toLocaleDateString()}
+                    <span className="font-semibold">Application Period:</span> {formatJobTime(opensAt({ ...formData, timeZone }), timeZone)} to {formatJobTime(closesAt({ ...formData, timeZone }), timeZone)}. The job goes live at the open time and closes itself at the close time.
                   </p>
                 </div>
               )}
@@ -559,27 +631,14 @@ export default function CreateJobPage() {
               <div className="p-4 bg-gray-50 rounded-lg">
                 <h4 className="font-semibold text-gray-900 mb-4">Custom Screening Questions</h4>
                 <div className="space-y-3">
-                  {formData.question1 && (
-                    <div className="p-3 bg-white border border-gray-200 rounded-lg">
-                      <p className="text-sm text-gray-700">{formData.question1}</p>
-                    </div>
-                  )}
-                  {formData.question2 && (
-                    <div className="p-3 bg-white border border-gray-200 rounded-lg">
-                      <p className="text-sm text-gray-700">{formData.question2}</p>
-                    </div>
-                  )}
-                  {formData.question3 && (
-                    <div className="p-3 bg-white border border-gray-200 rounded-lg">
-                      <p className="text-sm text-gray-700">{formData.question3}</p>
-                    </div>
-                  )}
-                  {formData.question4 && (
-                    <div className="p-3 bg-white border border-gray-200 rounded-lg">
-                      <p className="text-sm text-gray-700">{formData.question4}</p>
-                    </div>
-                  )}
-                  {!formData.question1 && !formData.question2 && !formData.question3 && !formData.question4 && (
+                  {formData.questions
+                    .filter((question) => question.label.trim())
+                    .map((question) => (
+                      <div key={question.id} className="p-3 bg-white border border-gray-200 rounded-lg">
+                        <p className="text-sm text-gray-700">{question.label}</p>
+                      </div>
+                    ))}
+                  {!formData.questions.some((question) => question.label.trim()) && (
                     <p className="text-sm text-gray-500 italic">No custom screening questions added yet</p>
                   )}
                 </div>
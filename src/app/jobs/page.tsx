@@ -1,72 +1,60 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { DashboardLayout, Button, Card, CardBody, CardHeader, Table, TableBody, TableCell, TableHead, TableRow, Badge, Input } from "@/components";
 import { EyeIcon, TrashIcon } from "@/components/Icons";
 import Link from "next/link";
-
-const mockJobs = [
-  {
-    id: "1",
-    title: "Senior Frontend Developer",
-    department: "Engineering",
-    location: "San Francisco, CA",
-    applications: 24,
-    status: "Open",
-    createdAt: "2024-12-15",
-    positions: 2,
-  },
-  {
-    id: "2",
-    title: "Product Manager",
-    department: "Product",
-    location: "New York, NY",
-    applications: 18,
-    status: "Open",
-    createdAt: "2024-12-10",
-    positions: 1,
-  },
-  {
-    id: "3",
-    title: "UX Designer",
-    department: "Design",
-    location: "Remote",
-    applications: 12,
-    status: "Open",
-    createdAt: "2024-12-08",
-    positions: 1,
-  },
-  {
-    id: "4",
-    title: "DevOps Engineer",
-    department: "Engineering",
-    location: "San Francisco, CA",
-    applications: 8,
-    status: "Closed",
-    createdAt: "2024-12-01",
-    positions: 1,
-  },
-];
+import { apiFetch } from "@/lib/api-client";
+import { formatDepartment } from "@/lib/departments";
+import { closesAt, formatJobTime, jobTimeZone, opensAt } from "@/lib/job-schedule";
+import { usePermission } from "@/lib/useWorkspace";
+import type { Job, JobSummary } from "@/types";
 
 export default function ActiveJobsPage() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [jobs, setJobs] = useState(mockJobs);
-  const [selectedJob, setSelectedJob] = useState<typeof mockJobs[0] | null>(null);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [selectedJob, setSelectedJob] = useState<JobSummary | null>(null);
   const [jobTitle, setJobTitle] = useState("");
   const [jobDescription, setJobDescription] = useState("");
   const [copied, setCopied] = useState(false);
+  const canManageJobs = usePermission("jobs:manage");
+  const canDeleteJobs = usePermission("jobs:delete");
 
   const activeJobs = jobs.filter((job) => job.status === "Open");
+  const scheduledJobs = jobs.filter((job) => job.status === "Scheduled");
   const closedJobs = jobs.filter((job) => job.status === "Closed");
 
-  const handleCloseJob = (jobId: string) => {
-    setJobs(jobs.map(job => job.id === jobId ? { ...job, status: "Closed" } : job));
+  useEffect(() => {
+    apiFetch<{ jobs: JobSummary[] }>("/api/jobs")
+      .then((data) => setJobs(data.jobs))
+      .catch((err) => console.error("Failed to load jobs:", err));
+  }, []);
+
+  const handleCloseJob = async (jobId: string) => {
+    try {
+      const { job: closed } = await apiFetch<{ job: Job }>(`/api/jobs/${jobId}/close`, { method: "POST" });
+      setJobs((prev) => prev.map((job) => (job.id === jobId ? { ...job, ...closed } : job)));
+    } catch (err) {
+      console.error("Failed to close job:", err);
+      alert("Could not close this job. Please try again.");
+    }
+  };
+
+  const handleDeleteJob = async (jobId: string) => {
+    if (!confirm("Delete this job permanently? This cannot be undone.")) return;
+    try {
+      await apiFetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+      setJobs((prev) => prev.filter((job) => job.id !== jobId));
+    } catch (err) {
+      console.error("Failed to delete job:", err);
+      alert("Could not delete this job. Please try again.");
+    }
   };
 
-  const handleOpenPanel = (job: typeof mockJobs[0]) => {
+  const handleOpenPanel = (job: JobSummary) => {
     setSelectedJob(job);
     setJobTitle(job.title);
-    setJobDescription(`${job.department} • ${job.location}`);
+    setJobDescription(`${formatDepartment(job)} • ${job.location}`);
   };
 
   const handleClosePanel = () => {
@@ -81,11 +69,12 @@ export default function ActiveJobsPage() {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const filteredActiveJobs = activeJobs.filter((job) =>
+  const matchesSearch = (job: JobSummary) =>
     job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    job.department.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    job.location.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+    formatDepartment(job).toLowerCase().includes(searchTerm.toLowerCase()) ||
+    job.location.toLowerCase().includes(searchTerm.toLowerCase());
+  const filteredActiveJobs = activeJobs.filter(matchesSearch);
+  const filteredScheduledJobs = scheduledJobs.filter(matchesSearch);
 
   return (
     <DashboardLayout>
@@ -96,9 +85,11 @@ export default function ActiveJobsPage() {
             <h1 className="text-3xl font-bold text-gray-900">Active Jobs</h1>
             <p className="text-gray-600 mt-1">Manage your job postings</p>
           </div>
-          <Link href="/jobs/new">
-            <Button variant="primary">Post New Job</Button>
-          </Link>
+          {canManageJobs && (
+            <Link href="/jobs/new">
+              <Button variant="primary">Post New Job</Button>
+            </Link>
+          )}
         </div>
 
         {/* Active Jobs Stats */}
@@ -113,7 +104,7 @@ export default function ActiveJobsPage() {
             <CardBody className="text-center py-6">
               <p className="text-gray-600 text-sm font-medium">Total Applications</p>
               <p className="text-3xl font-bold text-green-600 mt-2">
-                {mockJobs.reduce((sum, job) => sum + job.applications, 0)}
+                {jobs.reduce((sum, job) => sum + job.applicationCount, 0)}
               </p>
             </CardBody>
           </Card>
@@ -163,21 +154,21 @@ export default function ActiveJobsPage() {
                         <span className="font-medium text-gray-900">{job.title}</span>
                       </TableCell>
                       <TableCell>
-                        <span className="text-gray-600">{job.department}</span>
+                        <span className="text-gray-600">{formatDepartment(job)}</span>
                       </TableCell>
                       <TableCell>
                         <span className="text-gray-600">{job.location}</span>
                       </TableCell>
                       <TableCell>
                         <Link href={`/applications/${job.id}`} className="text-primary hover:underline font-medium">
-                          {job.applications}
+                          {job.applicationCount}
                         </Link>
                       </TableCell>
                       <TableCell>
                         <span className="text-gray-600">{job.positions}</span>
                       </TableCell>
                       <TableCell>
-                        <span className="text-gray-600">{job.createdAt}</span>
+                        <span className="text-gray-600">{new Date(job.createdAt).toLocaleDateString()}</span>
                       </TableCell>
                       <TableCell>
                         <div className="flex justify-center gap-2">
@@ -188,13 +179,84 @@ export default function ActiveJobsPage() {
                           >
                             <EyeIcon className="w-5 h-5" />
                           </button>
-                          <button 
-                            onClick={() => handleCloseJob(job.id)}
-                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors" 
-                            title="Close job listing"
+                          {canManageJobs && (
+                            <button 
+                              onClick={() => handleCloseJob(job.id)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors" 
+                              title="Close job listing"
+                            >
+                              <TrashIcon className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Scheduled Jobs Table */}
+        {filteredScheduledJobs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-gray-900">Scheduled Positions ({filteredScheduledJobs.length})</h2>
+              <p className="text-sm text-gray-600 mt-1">These postings go live automatically when applications open.</p>
+            </CardHeader>
+            <CardBody className="p-0">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell isHeader>Job Title</TableCell>
+                    <TableCell isHeader>Department</TableCell>
+                    <TableCell isHeader>Location</TableCell>
+                    <TableCell isHeader>Positions</TableCell>
+                    <TableCell isHeader>Opens</TableCell>
+                    <TableCell isHeader>Closes</TableCell>
+                    <TableCell isHeader>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filteredScheduledJobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <span className="font-medium text-gray-900">{job.title}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{formatDepartment(job)}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{job.location}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{job.positions}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{formatJobTime(opensAt(job), jobTimeZone(job))}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{formatJobTime(closesAt(job), jobTimeZone(job))}</span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-center gap-2">
+                          <button
+                            onClick={() => handleOpenPanel(job)}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="View job details"
                           >
-                            <TrashIcon className="w-5 h-5" />
+                            <EyeIcon className="w-5 h-5" />
                           </button>
+                          {canManageJobs && (
+                            <button
+                              onClick={() => handleCloseJob(job.id)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Cancel job listing"
+                            >
+                              <TrashIcon className="w-5 h-5" />
+                            </button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -221,6 +283,7 @@ export default function ActiveJobsPage() {
                     <TableCell isHeader>Applications</TableCell>
                     <TableCell isHeader>Status</TableCell>
                     <TableCell isHeader>Closed</TableCell>
+                    <TableCell isHeader>Actions</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -230,19 +293,30 @@ export default function ActiveJobsPage() {
                         <span className="font-medium text-gray-900">{job.title}</span>
                       </TableCell>
                       <TableCell>
-                        <span className="text-gray-600">{job.department}</span>
+                        <span className="text-gray-600">{formatDepartment(job)}</span>
                       </TableCell>
                       <TableCell>
                         <span className="text-gray-600">{job.location}</span>
                       </TableCell>
                       <TableCell>
-                        <span className="text-gray-600">{job.applications}</span>
+                        <span className="text-gray-600">{job.applicationCount}</span>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="warning">Closed</Badge>
+                        <Badge variant="warning">{job.closedBy === "schedule" ? "Deadline passed" : "Closed"}</Badge>
                       </TableCell>
                       <TableCell>
-                        <span className="text-gray-600">{job.createdAt}</span>
+                        <span className="text-gray-600">{new Date(job.closedAt ?? job.updatedAt).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell>
+                        {canDeleteJobs && (
+                          <button
+                            onClick={() => handleDeleteJob(job.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete job"
+                          >
+                            <TrashIcon className="w-5 h-5" />
+                          </button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -282,11 +356,11 @@ export default function ActiveJobsPage() {
               {/* Job Info */}
               <div>
                 <h3 className="text-xl font-bold text-gray-900 mb-2">{selectedJob.title}</h3>
-                <p className="text-gray-600 text-sm mb-4">{selectedJob.department} • {selectedJob.location}</p>
+                <p className="text-gray-600 text-sm mb-4">{formatDepartment(selectedJob)} • {selectedJob.location}</p>
                 <div className="flex gap-4 text-sm">
                   <div>
                     <p className="text-gray-600">Applications</p>
-                    <p className="text-2xl font-bold text-primary">{selectedJob.applications}</p>
+                    <p className="text-2xl font-bold text-primary">{selectedJob.applicationCount}</p>
                   </div>
                   <div>
                     <p className="text-gray-600">Positions</p>
@@ -294,7 +368,7 @@ export default function ActiveJobsPage() {
                   </div>
                   <div>
                     <p className="text-gray-600">Posted</p>
-                    <p className="text-sm font-medium text-gray-900">{selectedJob.createdAt}</p>
+                    <p className="text-sm font-medium text-gray-900">{new Date(selectedJob.createdAt).toLocaleDateString()}</p>
                   </div>
                 </div>
               </div>
@@ -331,20 +405,29 @@ export default function ActiveJobsPage() {
                     View Applications
                   </Button>
                 </Link>
-                <Link href={`/jobs/new?edit=${selectedJob.id}`}>
-                  <Button variant="secondary" className="w-full">
-                    Edit Job Details
-                  </Button>
-                </Link>
-                <button
-                  onClick={() => {
-                    handleCloseJob(selectedJob.id);
-                    handleClosePanel();
-                  }}
-                  className="w-full px-4 py-2 bg-red-50 text-red-700 hover:bg-red-100 rounded-lg font-medium transition-colors"
-                >
-                  Close Job Posting
-                </button>
+                {canManageJobs && (
+                  <>
+                    <Link href={`/jobs/new?edit=${selectedJob.id}`}>
+                      <Button variant="secondary" className="w-full">
+                        Edit Job Details
+                      </Button>
+                    </Link>
+                    <Link href={`/jobs/${selectedJob.id}`}>
+                      <Button variant="secondary" className="w-full">
+                        Edit Application Form
+                      </Button>
+                    </Link>
+                    <button
+                      onClick={() => {
+                        handleCloseJob(selectedJob.id);
+                        handleClosePanel();
+                      }}
+                      className="w-full px-4 py-2 bg-red-50 text-red-700 hover:bg-red-100 rounded-lg font-medium transition-colors"
+                    >
+                      Close Job Posting
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
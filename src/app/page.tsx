@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { AuthLayout, Button, Input } from "@/components";
 import Link from "next/link";
+import { ApiError, apiFetch } from "@/lib/api-client";
 
 export default function LoginPage() {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -13,16 +14,38 @@ export default function LoginPage() {
     companyName: "",
     confirmPassword: "",
   });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState("");
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setErrors({});
+    setFormError("");
+    if (isSignUp && formData.password !== formData.confirmPassword) {
+      setErrors({ confirmPassword: "Passwords do not match" });
+      return;
+    }
+
     setIsLoading(true);
-    // Simulate API call
-    setTimeout(() => {
+    try {
+      await apiFetch(isSignUp ? "/api/auth/signup" : "/api/auth/login", {
+        method: "POST",
+        body: JSON.stringify(
+          isSignUp ? formData : { email: formData.email, password: formData.password }
+        ),
+      });
+      // Only paths on this site: "//evil.com" and "/\evil.com" resolve to other origins.
+      const next = new URL(new URLSearchParams(window.location.search).get("next") ?? "/dashboard", window.location.origin);
+      window.location.href = next.origin === window.location.origin ? `${next.pathname}${next.search}${next.hash}` : "/dashboard";
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setErrors(err.fieldErrors);
+        setFormError(err.message);
+      } else {
+        setFormError("Something went wrong. Please try again.");
+      }
       setIsLoading(false);
-      // Redirect to dashboard
-      window.location.href = "/dashboard";
-    }, 1000);
+    }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -44,10 +67,17 @@ export default function LoginPage() {
           </p>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-700">{formError}</p>
+              </div>
+            )}
+
             {isSignUp && (
               <Input
                 label="Company Name"
                 name="companyName"
+                error={errors.companyName}
                 type="text"
                 value={formData.companyName}
                 onChange={handleChange}
@@ -59,6 +89,7 @@ export default function LoginPage() {
             <Input
               label="Company Email"
               name="email"
+              error={errors.email}
               type="email"
               value={formData.email}
               onChange={handleChange}
@@ -69,6 +100,7 @@ export default function LoginPage() {
             <Input
               label="Password"
               name="password"
+              error={errors.password}
               type="password"
               value={formData.password}
               onChange={handleChange}
@@ -80,6 +112,7 @@ export default function LoginPage() {
               <Input
                 label="Confirm Password"
                 name="confirmPassword"
+                error={errors.confirmPassword}
                 type="password"
                 value={formData.confirmPassword}
                 onChange={handleChange}
@@ -114,7 +147,11 @@ export default function LoginPage() {
               {isSignUp ? "Already have an account? " : "Don't have an account? "}
             </span>
             <button
-              onClick={() => setIsSignUp(!isSignUp)}
+              onClick={() => {
+                setIsSignUp(!isSignUp);
+                setErrors({});
+                setFormError("");
+              }}
               className="text-primary font-medium hover:text-blue-900"
             >
               {isSignUp ? "Sign In" : "Create one"}
@@ -1,120 +1,117 @@
 "use client";
 
-import { useState } from "react";
-import { DashboardLayout, Button, Input, Card, CardBody, CardHeader, Badge, Select } from "@/components";
+import { useEffect, useState } from "react";
+import { DashboardLayout, Button, Input, Card, CardBody, CardHeader, Badge, Select, SheetColumnMappingEditor, SheetStatusMappingEditor, AvailabilityEditor, LockedFeature } from "@/components";
+import type { AvailabilityEntry } from "@/components/AvailabilityEditor";
 import { GoogleSheetsIcon } from "@/components/Icons";
 import Link from "next/link";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { PLANS } from "@/lib/plans";
+import { defaultColumnMapping } from "@/lib/sheets/columns";
+import { setWorkspaceCompany, useFeature, usePermission } from "@/lib/useWorkspace";
+import type { BillingSummary, Company, CompanyInput, InterviewerAvailability, Invoice, PlanId, PublicSheetsConnection, SheetColumnMapping, SheetStatusColumn, SheetsStatus, SubscriptionPlan, SubscriptionStatus } from "@/types";
 
-interface SheetOption {
-  value: string;
-  label: string;
-}
+const NEW_SHEET = "new_sheet";
 
-interface SubscriptionPlan {
-  id: string;
-  name: string;
-  price: number;
-  yearlyPrice: number;
-  description: string;
-  features: string[];
-  isCurrentPlan: boolean;
-}
+const SUBSCRIPTION_STATUS: Record<SubscriptionStatus, { label: string; variant: "success" | "danger" | "warning" | "info" }> = {
+  trialing: { label: "Trial", variant: "info" },
+  active: { label: "Active", variant: "success" },
+  past_due: { label: "Past Due", variant: "danger" },
+  canceled: { label: "Canceled", variant: "warning" },
+};
+
+const INVOICE_STATUS: Record<Invoice["status"], { label: string; variant: "success" | "danger" | "warning" | "info" }> = {
+  paid: { label: "Paid", variant: "success" },
+  failed: { label: "Failed", variant: "danger" },
+  refunded: { label: "Refunded", variant: "info" },
+};
+
+const formatBillingDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const formatAmount = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 
 export default function ProfilePage() {
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [isSheetConnected, setIsSheetConnected] = useState(true);
-  const [selectedSheet, setSelectedSheet] = useState("recruitment_candidates");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [sheetsStatus, setSheetsStatus] = useState<SheetsStatus | null>(null);
+  const [spreadsheet, setSpreadsheet] = useState("");
+  const [selectedSheet, setSelectedSheet] = useState("Candidates");
+  const [newSheetName, setNewSheetName] = useState("");
+  const [sheetColumns, setSheetColumns] = useState<SheetColumnMapping[]>(defaultColumnMapping);
+  const [statusColumn, setStatusColumn] = useState<SheetStatusColumn | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [sheetErrors, setSheetErrors] = useState<Record<string, string>>({});
+  const [syncMessage, setSyncMessage] = useState("");
+  const [availability, setAvailability] = useState<AvailabilityEntry[]>([]);
+  const [availabilityError, setAvailabilityError] = useState("");
+  const [isSavingAvailability, setIsSavingAvailability] = useState(false);
+  const [availabilitySaved, setAvailabilitySaved] = useState(false);
   const [showPlansModal, setShowPlansModal] = useState(false);
-  const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
-  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [billing, setBilling] = useState<BillingSummary | null>(null);
+  const [paymentMethodId, setPaymentMethodId] = useState("");
+  const [billingAction, setBillingAction] = useState<string | null>(null);
+  const [billingError, setBillingError] = useState("");
   const [billingCycle, setBillingCycle] = useState<"monthly" | "yearly">("monthly");
-
-  const [sheetOptions] = useState<SheetOption[]>([
-    { value: "recruitment_candidates", label: "Recruitment Candidates" },
-    { value: "candidates_pipeline", label: "Candidates Pipeline" },
-    { value: "approved_candidates", label: "Approved Candidates" },
-    { value: "new_sheet", label: "+ Create New Sheet" },
-  ]);
-
-  const [subscriptionPlans] = useState<SubscriptionPlan[]>([
-    {
-      id: "free",
-      name: "Free",
-      price: 0,
-      yearlyPrice: 0,
-      description: "Perfect for getting started",
-      features: [
-        "Up to 5 job postings",
-        "Basic AI screening",
-        "Email support",
-        "Up to 100 applications/month",
-        "Basic analytics",
-      ],
-      isCurrentPlan: false,
-    },
-    {
-      id: "standard",
-      name: "Standard",
-      price: 49,
-      yearlyPrice: 490,
-      description: "Great for growing teams",
-      features: [
-        "Unlimited job postings",
-        "Advanced AI screening",
-        "Priority email support",
-        "Unlimited applications",
-        "Custom screening questions",
-        "Team members (up to 5)",
-      ],
-      isCurrentPlan: false,
-    },
-    {
-      id: "pro",
-      name: "Pro",
-      price: 99,
-      yearlyPrice: 990,
-      description: "Most popular choice",
-      features: [
-        "Everything in Standard",
-        "Google Sheets integration",
-        "Priority support",
-        "Advanced analytics",
-        "Team members (up to 15)",
-        "Custom branding",
-        "API access",
-      ],
-      isCurrentPlan: true,
-    },
-    {
-      id: "premium",
-      name: "Premium",
-      price: 199,
-      yearlyPrice: 1990,
-      description: "Enterprise-grade solution",
-      features: [
-        "Everything in Pro",
-        "Dedicated account manager",
-        "24/7 phone support",
-        "Unlimited team members",
-        "Custom integrations",
-        "Advanced security features",
-        "SLA guarantee",
-        "White-label options",
-      ],
-      isCurrentPlan: false,
-    },
-  ]);
-
-  const [accountData, setAccountData] = useState({
-    companyName: "Acme Corporation",
-    companyEmail: "careers@acmecorp.com",
-    industry: "Technology",
-    website: "https://www.acmecorp.com",
+  const canManageSettings = usePermission("settings:manage");
+  const canSync = usePermission("sheets:sync");
+  const canManageBilling = usePermission("billing:manage");
+  const hasSheets = useFeature("sheets_integration");
+  const currentPlan = billing?.plan;
+  const subscription = billing?.subscription ?? null;
+  const activeSubscription = subscription?.status === "canceled" ? null : subscription;
+
+  const [accountData, setAccountData] = useState<CompanyInput>({
+    name: "",
+    email: "",
+    industry: "",
+    website: "",
   });
 
   const [editData, setEditData] = useState(accountData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    apiFetch<{ company: Company }>("/api/company")
+      .then(({ company }) => setAccountData(company))
+      .catch((err) => console.error("Failed to load company:", err));
+    loadSheetsStatus();
+    loadBilling();
+    apiFetch<{ availability: InterviewerAvailability[] }>("/api/availability")
+      .then((data) => setAvailability(data.availability))
+      .catch((err) => console.error("Failed to load interviewer availability:", err));
+  }, []);
+
+  const loadSheetsStatus = () =>
+    apiFetch<SheetsStatus>("/api/integrations/sheets")
+      .then((status) => {
+        setSheetsStatus(status);
+        if (status.connection) {
+          setSpreadsheet(status.connection.spreadsheetId);
+          setSelectedSheet(status.connection.sheetName);
+          setSheetColumns(status.connection.columns);
+          setStatusColumn(status.connection.statusColumn ?? null);
+        }
+      })
+      .catch((err) => console.error("Failed to load Google Sheets status:", err));
+
+  const loadBilling = () =>
+    apiFetch<{ billing: BillingSummary }>("/api/billing")
+      .then((data) => {
+        setBilling(data.billing);
+        setPaymentMethodId(data.billing.subscription?.paymentMethod.id ?? data.billing.testPaymentMethods[0]?.id ?? "");
+      })
+      .catch((err) => console.error("Failed to load billing:", err));
+
+  const connection = sheetsStatus?.connection ?? null;
+  const sheetOptions = [
+    ...Array.from(new Set([...(sheetsStatus?.sheets ?? []), ...(connection ? [connection.sheetName] : [])])).map(
+      (name) => ({ value: name, label: name })
+    ),
+    { value: NEW_SHEET, label: "+ Create New Sheet" },
+  ];
 
   const handleEdit = () => {
     setIsEditing(true);
@@ -124,15 +121,28 @@ export default function ProfilePage() {
   const handleCancel = () => {
     setIsEditing(false);
     setEditData(accountData);
+    setErrors({});
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     setIsSaving(true);
-    setTimeout(() => {
-      setAccountData(editData);
+    setErrors({});
+    try {
+      const { company } = await apiFetch<{ company: Company }>("/api/company", {
+        method: "PUT",
+        body: JSON.stringify(editData),
+      });
+      setAccountData(company);
+      setWorkspaceCompany(company);
       setIsEditing(false);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setErrors(err.fieldErrors);
+      }
+      console.error("Failed to save company:", err);
+    } finally {
       setIsSaving(false);
-    }, 1000);
+    }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -140,37 +150,166 @@ export default function ProfilePage() {
     setEditData((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handleConnectGoogleSheets = () => {
+  // Connects the spreadsheet, or saves the tab and column mapping once connected.
+  const handleConnectGoogleSheets = async () => {
     setIsConnecting(true);
-    setTimeout(() => {
-      setIsSheetConnected(true);
+    setSheetErrors({});
+    setSyncMessage("");
+    try {
+      await apiFetch("/api/integrations/sheets", {
+        method: "PUT",
+        body: JSON.stringify({
+          spreadsheet,
+          sheetName: selectedSheet === NEW_SHEET ? newSheetName : selectedSheet,
+          columns: sheetColumns,
+          statusColumn,
+        }),
+      });
+      setNewSheetName("");
+      await loadSheetsStatus();
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setSheetErrors(err.fieldErrors);
+      }
+      console.error("Failed to connect Google Sheets:", err);
+    } finally {
       setIsConnecting(false);
-    }, 2000);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm("Disconnect Google Sheets? Rows already in the sheet are kept.")) return;
+    try {
+      await apiFetch("/api/integrations/sheets", { method: "DELETE" });
+      setSheetsStatus((prev) => prev && { ...prev, connection: null, sheets: [] });
+      setSpreadsheet("");
+      setSelectedSheet("Candidates");
+      setSheetColumns(defaultColumnMapping());
+      setStatusColumn(null);
+      setSyncMessage("");
+    } catch (err) {
+      console.error("Failed to disconnect Google Sheets:", err);
+    }
   };
 
-  const handleDisconnect = () => {
-    setIsSheetConnected(false);
-    setSelectedSheet("");
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setSyncMessage("");
+    try {
+      const { connection } = await apiFetch<{ connection: PublicSheetsConnection }>("/api/integrations/sheets/sync", {
+        method: "POST",
+      });
+      setSheetsStatus((prev) => prev && { ...prev, connection });
+    } catch (err) {
+      setSyncMessage(err instanceof ApiError ? err.message : "Sync failed");
+      // The failed run is recorded on the connection's error log.
+      await loadSheetsStatus();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleResolveConflict = async (applicationId: string, keep: "sheet" | "app") => {
+    setResolvingId(applicationId);
+    setSyncMessage("");
+    try {
+      const { connection } = await apiFetch<{ connection: PublicSheetsConnection }>(
+        `/api/integrations/sheets/conflicts/${applicationId}`,
+        { method: "POST", body: JSON.stringify({ keep }) }
+      );
+      setSheetsStatus((prev) => prev && { ...prev, connection });
+    } catch (err) {
+      setSyncMessage(err instanceof ApiError ? err.message : "Couldn't resolve the conflict");
+      console.error("Failed to resolve sync conflict:", err);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleAvailabilityChange = (next: AvailabilityEntry[]) => {
+    setAvailability(next);
+    setAvailabilitySaved(false);
+  };
+
+  const handleSaveAvailability = async () => {
+    setIsSavingAvailability(true);
+    setAvailabilityError("");
+    try {
+      const data = await apiFetch<{ availability: InterviewerAvailability[] }>("/api/availability", {
+        method: "PUT",
+        body: JSON.stringify({ availability }),
+      });
+      setAvailability(data.availability);
+      setAvailabilitySaved(true);
+    } catch (err) {
+      setAvailabilityError(
+        err instanceof ApiError ? err.fieldErrors.availability ?? err.message : "Couldn't save availability"
+      );
+    } finally {
+      setIsSavingAvailability(false);
+    }
   };
 
   const handleSheetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = e.target.value;
-    if (value === "new_sheet") {
-      // In a real app, this would open a dialog to create a new sheet
-      alert("Creating a new sheet - this would redirect to Google Sheets");
-    } else {
-      setSelectedSheet(value);
+    setSelectedSheet(e.target.value);
+  };
+
+  const paymentMethodOptions = (billing?.testPaymentMethods ?? []).map((method) => ({ value: method.id, label: method.label }));
+
+  const runBillingAction = async (action: string, url: string, init: RequestInit): Promise<boolean> => {
+    setBillingAction(action);
+    setBillingError("");
+    try {
+      const data = await apiFetch<{ billing: BillingSummary; company: Company }>(url, init);
+      setBilling(data.billing);
+      setWorkspaceCompany(data.company);
+      return true;
+    } catch (err) {
+      setBillingError(
+        err instanceof ApiError ? (err.fieldErrors.paymentMethodId ?? err.message) : "Something went wrong. Please try again."
+      );
+      // A declined retry still keeps the new payment method.
+      loadBilling();
+      return false;
+    } finally {
+      setBillingAction(null);
     }
   };
 
-  const handleUpgradePlan = (planId: string) => {
-    setSelectedPlan(planId);
-    setIsUpgrading(true);
-    setTimeout(() => {
-      setIsUpgrading(false);
-      setShowPlansModal(false);
-      alert(`Successfully upgraded to ${subscriptionPlans.find(p => p.id === planId)?.name} plan!`);
-    }, 1500);
+  const handleChangePlan = async (planId: PlanId) => {
+    if (planId === "free" && !confirm("Move to the Free plan? Your subscription ends when the current period runs out.")) return;
+    const changed = await runBillingAction(planId, "/api/billing/subscription", {
+      method: "PUT",
+      body: JSON.stringify({ planId, billingCycle, paymentMethodId }),
+    });
+    if (changed) setShowPlansModal(false);
+  };
+
+  const handleCancelSubscription = () => {
+    if (!confirm("Cancel the subscription? You keep your plan until the end of the current period.")) return;
+    runBillingAction("cancel", "/api/billing/subscription", { method: "DELETE" });
+  };
+
+  const handleResumeSubscription = () => {
+    if (!activeSubscription) return;
+    runBillingAction("resume", "/api/billing/subscription", {
+      method: "PUT",
+      body: JSON.stringify({ planId: activeSubscription.planId, billingCycle: activeSubscription.billingCycle }),
+    });
+  };
+
+  const handleUpdatePaymentMethod = () =>
+    runBillingAction("payment", "/api/billing/payment-method", { method: "PUT", body: JSON.stringify({ paymentMethodId }) });
+
+  const handleEndPeriod = () => runBillingAction("end-period", "/api/billing/end-period", { method: "POST" });
+
+  const isCurrentChoice = (plan: SubscriptionPlan) =>
+    plan.id === currentPlan?.id && (!activeSubscription || activeSubscription.billingCycle === billingCycle);
+
+  const planActionLabel = (plan: SubscriptionPlan) => {
+    if (plan.id === currentPlan?.id) return `Switch to ${billingCycle === "monthly" ? "Monthly" : "Yearly"}`;
+    if (plan.price < (currentPlan?.price ?? 0)) return "Downgrade";
+    return billing?.trialAvailable ? "Start Free Trial" : "Upgrade";
   };
 
   const calculateSavings = (monthlyPrice: number, yearlyPrice: number) => {
@@ -193,7 +332,7 @@ export default function ProfilePage() {
         <Card>
           <CardHeader className="flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900">Company Information</h2>
-            {!isEditing && (
+            {!isEditing && canManageSettings && (
               <Button variant="secondary" size="sm" onClick={handleEdit}>
                 Edit
               </Button>
@@ -204,19 +343,22 @@ export default function ProfilePage() {
               <>
                 <Input
                   label="Company Name"
-                  name="companyName"
+                  name="name"
                   type="text"
-                  value={editData.companyName}
+                  value={editData.name}
                   onChange={handleInputChange}
+                  error={errors.name}
                   required
                 />
 
                 <Input
                   label="Company Email"
-                  name="companyEmail"
+                  name="email"
                   type="email"
-                  value={editData.companyEmail}
+                  value={editData.email}
                   onChange={handleInputChange}
+                  error={errors.email}
+                  helperText="Shown to applicants as the recruiting contact"
                   required
                 />
 
@@ -226,9 +368,17 @@ export default function ProfilePage() {
                   type="url"
                   value={editData.website}
                   onChange={handleInputChange}
+                  error={errors.website}
                 />
 
-             
+                <Input
+                  label="Industry"
+                  name="industry"
+                  type="text"
+                  value={editData.industry}
+                  onChange={handleInputChange}
+                  error={errors.industry}
+                />
 
                 <div className="flex gap-3 pt-4 border-t border-gray-200">
                   <Button variant="secondary" onClick={handleCancel}>
@@ -248,11 +398,11 @@ export default function ProfilePage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
                     <p className="text-sm text-gray-600 mb-1">Company Name</p>
-                    <p className="font-medium text-gray-900">{accountData.companyName}</p>
+                    <p className="font-medium text-gray-900">{accountData.name}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-600 mb-1">Email</p>
-                    <p className="font-medium text-gray-900">{accountData.companyEmail}</p>
+                    <p className="font-medium text-gray-900">{accountData.email}</p>
                   </div>
                 </div>
 
@@ -283,25 +433,56 @@ export default function ProfilePage() {
             <h2 className="text-lg font-semibold text-blue-900">Subscription Plan</h2>
           </CardHeader>
           <CardBody className="space-y-6">
+            {subscription?.status === "past_due" && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">
+                  The payment for your plan failed on {formatBillingDate(subscription.pastDueSince ?? subscription.currentPeriodEnd)}.
+                  Update the payment method to keep the {currentPlan?.name} plan, or the workspace moves to the Free plan.
+                </p>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div>
                 <p className="text-sm text-blue-700 mb-1">Current Plan</p>
                 <div className="flex items-center gap-2">
-                  <p className="text-2xl font-bold text-blue-900">Pro</p>
-                  <Badge variant="info">Active</Badge>
+                  <p className="text-2xl font-bold text-blue-900">{currentPlan?.name}</p>
+                  {activeSubscription && (
+                    <Badge variant={SUBSCRIPTION_STATUS[activeSubscription.status].variant}>
+                      {SUBSCRIPTION_STATUS[activeSubscription.status].label}
+                    </Badge>
+                  )}
                 </div>
               </div>
 
               <div>
                 <p className="text-sm text-blue-700 mb-1">Billing Cycle</p>
-                <p className="text-xl font-semibold text-blue-900">Monthly</p>
-                <p className="text-sm text-blue-700 mt-1">Renews on Jan 20, 2025</p>
+                <p className="text-xl font-semibold text-blue-900">
+                  {activeSubscription ? (activeSubscription.billingCycle === "monthly" ? "Monthly" : "Yearly") : "None"}
+                </p>
+                {activeSubscription && activeSubscription.status !== "past_due" && (
+                  <p className="text-sm text-blue-700 mt-1">
+                    {activeSubscription.cancelAtPeriodEnd
+                      ? "Ends on"
+                      : activeSubscription.status === "trialing"
+                        ? "Trial ends on"
+                        : "Renews on"}{" "}
+                    {formatBillingDate(activeSubscription.currentPeriodEnd)}
+                  </p>
+                )}
               </div>
 
               <div>
-                <p className="text-sm text-blue-700 mb-1">Monthly Cost</p>
-                <p className="text-2xl font-bold text-blue-900">$99</p>
-                <p className="text-sm text-blue-700 mt-1">Billed to your account</p>
+                <p className="text-sm text-blue-700 mb-1">{activeSubscription?.billingCycle === "yearly" ? "Yearly Cost" : "Monthly Cost"}</p>
+                <p className="text-2xl font-bold text-blue-900">
+                  ${activeSubscription?.billingCycle === "yearly" ? currentPlan?.yearlyPrice : (currentPlan?.price ?? 0)}
+                </p>
+                <p className="text-sm text-blue-700 mt-1">
+                  {activeSubscription ? activeSubscription.paymentMethod.label : "No payment method needed"}
+                </p>
+                {activeSubscription && activeSubscription.creditBalance > 0 && (
+                  <p className="text-sm text-blue-700">{formatAmount(activeSubscription.creditBalance)} credit for your next payments</p>
+                )}
               </div>
             </div>
 
@@ -309,149 +490,353 @@ export default function ProfilePage() {
             <div className="pt-6 border-t border-blue-200">
               <p className="text-sm font-semibold text-blue-900 mb-3">Included Features</p>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">Unlimited job postings</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">AI screening for all applications</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">Google Sheets integration</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">Priority support</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">Custom screening questions</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-green-600">✓</span>
-                  <p className="text-sm text-blue-900">Analytics dashboard</p>
-                </div>
+                {currentPlan?.features.map((feature) => (
+                  <div key={feature} className="flex items-center gap-2">
+                    <span className="text-green-600">✓</span>
+                    <p className="text-sm text-blue-900">{feature}</p>
+                  </div>
+                ))}
               </div>
             </div>
 
-            <div className="flex gap-3 pt-6 border-t border-blue-200">
-              <Button variant="secondary" onClick={() => setShowPlansModal(true)}>Upgrade Plan</Button>
-              <Button variant="secondary">Change Billing</Button>
-              <Button variant="secondary">Cancel Subscription</Button>
-            </div>
+            {canManageBilling && activeSubscription && (
+              <div className="pt-6 border-t border-blue-200 flex flex-col md:flex-row md:items-end gap-3">
+                <div className="flex-1">
+                  <Select
+                    label="Payment Method"
+                    options={paymentMethodOptions}
+                    value={paymentMethodId}
+                    onChange={(e) => setPaymentMethodId(e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="secondary"
+                  onClick={handleUpdatePaymentMethod}
+                  isLoading={billingAction === "payment"}
+                  disabled={paymentMethodId === activeSubscription.paymentMethod.id && activeSubscription.status !== "past_due"}
+                >
+                  {activeSubscription.status === "past_due" ? "Update and Retry Payment" : "Update Payment Method"}
+                </Button>
+              </div>
+            )}
+
+            {billingError && <p className="text-sm text-red-600">{billingError}</p>}
+
+            {canManageBilling && (
+              <div className="flex flex-wrap gap-3 pt-6 border-t border-blue-200">
+                <Button variant="secondary" onClick={() => setShowPlansModal(true)}>
+                  {activeSubscription ? "Change Plan" : "Upgrade Plan"}
+                </Button>
+                {activeSubscription &&
+                  (activeSubscription.cancelAtPeriodEnd ? (
+                    <Button variant="secondary" onClick={handleResumeSubscription} isLoading={billingAction === "resume"}>
+                      Resume Subscription
+                    </Button>
+                  ) : (
+                    <Button variant="secondary" onClick={handleCancelSubscription} isLoading={billingAction === "cancel"}>
+                      Cancel Subscription
+                    </Button>
+                  ))}
+                {activeSubscription && (billing?.testPaymentMethods.length ?? 0) > 0 && (
+                  <Button variant="outline" onClick={handleEndPeriod} isLoading={billingAction === "end-period"}>
+                    {activeSubscription.status === "past_due" ? "End Grace Period Now (test)" : "End Period Now (test)"}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {canManageBilling && billing && billing.invoices.length > 0 && (
+              <div className="pt-6 border-t border-blue-200">
+                <p className="text-sm font-semibold text-blue-900 mb-3">Billing History</p>
+                <div className="space-y-2">
+                  {billing.invoices.map((invoice) => (
+                    <div key={invoice.id} className="flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <p className="text-blue-900">{invoice.description}</p>
+                        <p className="text-blue-700">
+                          {formatBillingDate(invoice.createdAt)}
+                          {invoice.failureReason && ` • ${invoice.failureReason}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-blue-900">{formatAmount(invoice.amount)}</span>
+                        <Badge variant={INVOICE_STATUS[invoice.status].variant}>
+                          {INVOICE_STATUS[invoice.status].label}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </CardBody>
         </Card>
 
         {/* Google Sheets Integration Section */}
-        <Card>
-          <CardHeader>
-            <h2 className="text-lg font-semibold text-gray-900">Google Sheets Integration</h2>
-          </CardHeader>
-          <CardBody className="space-y-6">
-            {isSheetConnected ? (
-              <>
-                <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
-                  <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                    <span className="text-green-600 text-lg">✓</span>
+        {canSync && hasSheets === false && (
+          <LockedFeature
+            feature="sheets_integration"
+            description="Sync shortlisted candidates to a spreadsheet and read hiring managers' status changes back."
+          />
+        )}
+        {canSync && hasSheets && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-gray-900">Google Sheets Integration</h2>
+            </CardHeader>
+            <CardBody className="space-y-6">
+              {connection ? (
+                <>
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+                    <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                      <span className="text-green-600 text-lg">✓</span>
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-semibold text-green-900">
+                        {connection.provider === "local" ? "Connected to the local sheet store" : "Connected to Google Sheets"}
+                      </p>
+                      <p className="text-sm text-green-700 mt-1">
+                        Spreadsheet <span className="font-mono">{connection.spreadsheetId}</span> · {connection.syncedCount} candidates synced
+                      </p>
+                    </div>
                   </div>
-                  <div className="flex-1">
-                    <p className="font-semibold text-green-900">Connected to Google Sheets</p>
-                    <p className="text-sm text-green-700 mt-1">Shortlisted candidates will automatically sync to your selected sheet</p>
+
+                  <div>
+                    <label className="label">Select Sheet to Sync</label>
+                    <p className="text-sm text-gray-600 mb-2">Choose which tab will receive your shortlisted candidates</p>
+                    <Select
+                      name="sheet"
+                      value={selectedSheet}
+                      onChange={handleSheetChange}
+                      options={sheetOptions}
+                      error={selectedSheet === NEW_SHEET ? undefined : sheetErrors.sheetName}
+                    />
+                    {selectedSheet === NEW_SHEET && (
+                      <div className="mt-3">
+                        <Input
+                          placeholder="New sheet name"
+                          value={newSheetName}
+                          onChange={(e) => setNewSheetName(e.target.value)}
+                          error={sheetErrors.sheetName}
+                          helperText="The tab is created on the next sync"
+                        />
+                      </div>
+                    )}
                   </div>
-                </div>
 
-                <div>
-                  <label className="label">Select Sheet to Sync</label>
-                  <p className="text-sm text-gray-600 mb-2">Choose which Google Sheet will receive your shortlisted candidates</p>
-                  <Select
-                    name="sheet"
-                    value={selectedSheet}
-                    onChange={handleSheetChange}
-                    options={sheetOptions}
-                  />
-                </div>
+                  <SheetColumnMappingEditor columns={sheetColumns} onChange={setSheetColumns} error={sheetErrors.columns} />
 
-                <div className="p-4 bg-gray-50 rounded-lg">
-                  <p className="text-sm text-gray-600 mb-3">
-                    <span className="font-semibold">How it works:</span> When you mark candidates as shortlisted, their information will be automatically added to your selected Google Sheet with columns for name, email, position, and rating.
-                  </p>
-                </div>
+                  <SheetStatusMappingEditor
+                    statusColumn={statusColumn}
+                    onChange={setStatusColumn}
+                    error={sheetErrors.statusColumn}
+                  />
 
-                <div className="flex gap-3">
-                  <Button variant="secondary" onClick={handleDisconnect}>
-                    Disconnect
-                  </Button>
-                  <Button variant="secondary">
-                    View Connected Sheet
-                  </Button>
-                  <Button variant="secondary">
-                    Test Sync
-                  </Button>
-                </div>
-              </>
-            ) : (
-              <>
-                <div className="text-center py-8">
-                  <div className="w-16 h-16 bg-green-100 rounded-lg flex items-center justify-center mx-auto mb-4">
-                    <GoogleSheetsIcon className="w-8 h-8 text-green-600" width={32} height={32} />
+                  <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+                    <p className="text-sm font-semibold text-gray-900">Last Sync</p>
+                    {connection.lastSync ? (
+                      connection.lastSync.status === "success" ? (
+                        <p className="text-sm text-gray-600">
+                          {new Date(connection.lastSync.at).toLocaleString()}: {connection.lastSync.inserted} added,{" "}
+                          {connection.lastSync.updated} updated
+                          {connection.lastSync.imported !== undefined &&
+                            `, ${connection.lastSync.imported} statuses imported from the sheet`}
+                          {!!connection.lastSync.unmapped &&
+                            `, ${connection.lastSync.unmapped} unrecognized statuses left as they are`}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-red-600">
+                          {new Date(connection.lastSync.at).toLocaleString()}: failed. {connection.lastSync.error}
+                        </p>
+                      )
+                    ) : (
+                      <p className="text-sm text-gray-600">Not synced yet</p>
+                    )}
+                    {syncMessage && <p className="text-sm text-red-600">{syncMessage}</p>}
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Connect Google Sheets</h3>
-                  <p className="text-gray-600 max-w-md mx-auto mb-6">
-                    Sync your shortlisted candidates automatically to a Google Sheet for easier management and collaboration with your team.
-                  </p>
-                </div>
 
-                <div className="space-y-3">
-                  <p className="text-sm text-gray-600 font-semibold">Benefits:</p>
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2">
-                      <span className="text-blue-600 text-lg">→</span>
-                      <p className="text-sm text-gray-700">Automatic sync of shortlisted candidates</p>
+                  {!!connection.conflicts?.length && (
+                    <div>
+                      <p className="text-sm font-semibold text-gray-900 mb-1">Status Conflicts</p>
+                      <p className="text-sm text-gray-600 mb-2">
+                        These statuses changed both in the sheet and in RecruitAI since the last sync. Choose which one to keep.
+                      </p>
+                      <div className="space-y-2">
+                        {connection.conflicts.map((conflict) => (
+                          <div
+                            key={conflict.applicationId}
+                            className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-3"
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-gray-900">{conflict.candidateName}</p>
+                              <p className="text-sm text-amber-800">
+                                Sheet: &ldquo;{conflict.sheetValue}&rdquo; · RecruitAI: &ldquo;{conflict.appValue}&rdquo;
+                              </p>
+                            </div>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              disabled={resolvingId !== null}
+                              onClick={() => handleResolveConflict(conflict.applicationId, "sheet")}
+                            >
+                              Use Sheet
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              disabled={resolvingId !== null}
+                              onClick={() => handleResolveConflict(conflict.applicationId, "app")}
+                            >
+                              Keep RecruitAI
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-blue-600 text-lg">→</span>
-                      <p className="text-sm text-gray-700">Share candidate lists with team members</p>
+                  )}
+
+                  {connection.errorLog.length > 0 && (
+                    <div>
+                      <p className="text-sm font-semibold text-gray-900 mb-2">Sync Errors</p>
+                      <div className="space-y-2 max-h-48 overflow-y-auto">
+                        {connection.errorLog.map((entry, idx) => (
+                          <div key={idx} className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                            <p className="text-xs text-red-700">{new Date(entry.at).toLocaleString()}</p>
+                            <p className="text-sm text-red-900">{entry.message}</p>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-blue-600 text-lg">→</span>
-                      <p className="text-sm text-gray-700">Real-time updates and notifications</p>
+                  )}
+
+                  <div className="flex gap-3">
+                    {canManageSettings && (
+                      <Button variant="secondary" onClick={handleDisconnect}>
+                        Disconnect
+                      </Button>
+                    )}
+                    {connection.spreadsheetUrl && (
+                      <a href={connection.spreadsheetUrl} target="_blank" rel="noopener noreferrer">
+                        <Button variant="secondary">View Connected Sheet</Button>
+                      </a>
+                    )}
+                    {canManageSettings && (
+                      <Button variant="secondary" onClick={handleConnectGoogleSheets} isLoading={isConnecting}>
+                        Save Settings
+                      </Button>
+                    )}
+                    <Button variant="primary" onClick={handleSync} isLoading={isSyncing}>
+                      Sync Now
+                    </Button>
+                  </div>
+                </>
+              ) : !canManageSettings ? (
+                <p className="text-sm text-gray-600">No spreadsheet is connected yet. Ask an admin to connect one.</p>
+              ) : (
+                <>
+                  <div className="text-center py-8">
+                    <div className="w-16 h-16 bg-green-100 rounded-lg flex items-center justify-center mx-auto mb-4">
+                      <GoogleSheetsIcon className="w-8 h-8 text-green-600" width={32} height={32} />
                     </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Connect Google Sheets</h3>
+                    <p className="text-gray-600 max-w-md mx-auto mb-6">
+                      Sync your shortlisted candidates automatically to a Google Sheet for easier management and collaboration with your team.
+                    </p>
                   </div>
-                </div>
 
-                <Button
-                  variant="primary"
-                  onClick={handleConnectGoogleSheets}
-                  isLoading={isConnecting}
-                  className="w-full"
-                >
-                  {isConnecting ? "Connecting..." : "Connect to Google Sheets"}
-                </Button>
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-600 font-semibold">Benefits:</p>
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-blue-600 text-lg">→</span>
+                        <p className="text-sm text-gray-700">Automatic sync of shortlisted candidates</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-blue-600 text-lg">→</span>
+                        <p className="text-sm text-gray-700">Share candidate lists with team members</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-blue-600 text-lg">→</span>
+                        <p className="text-sm text-gray-700">Real-time updates and notifications</p>
+                      </div>
+                    </div>
+                  </div>
 
-                <p className="text-xs text-gray-500 text-center">
-                  You&apos;ll be redirected to Google to authorize RecruitAI access to your Google Drive
-                </p>
-              </>
-            )}
-          </CardBody>
-        </Card>
+                  <Input
+                    label="Spreadsheet"
+                    placeholder="https://docs.google.com/spreadsheets/d/..."
+                    value={spreadsheet}
+                    onChange={(e) => setSpreadsheet(e.target.value)}
+                    error={sheetErrors.spreadsheet}
+                    helperText="Paste the spreadsheet's URL or ID"
+                  />
+
+                  <Input
+                    label="Sheet Name"
+                    value={selectedSheet}
+                    onChange={(e) => setSelectedSheet(e.target.value)}
+                    error={sheetErrors.sheetName}
+                    helperText="The tab is created if it doesn't exist yet"
+                  />
+
+                  <Button
+                    variant="primary"
+                    onClick={handleConnectGoogleSheets}
+                    isLoading={isConnecting}
+                    className="w-full"
+                  >
+                    {isConnecting ? "Connecting..." : "Connect to Google Sheets"}
+                  </Button>
+
+                  {sheetsStatus?.account && (
+                    <p className="text-xs text-gray-500 text-center">
+                      Share the spreadsheet with {sheetsStatus.account} as an editor
+                      {sheetsStatus.verificationTab && (
+                        <> and add a tab named <span className="font-mono">{sheetsStatus.verificationTab}</span></>
+                      )}{" "}
+                      before connecting. The tab shows the spreadsheet belongs to your workspace and can be deleted afterwards.
+                    </p>
+                  )}
+                </>
+              )}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Interviewer Availability */}
+        {canManageSettings && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-gray-900">Interviewer Availability</h2>
+            </CardHeader>
+            <CardBody className="space-y-4">
+              <AvailabilityEditor availability={availability} onChange={handleAvailabilityChange} error={availabilityError} />
+              <div className="flex items-center justify-end gap-3">
+                {availabilitySaved && <span className="text-sm text-green-700">Saved</span>}
+                <Button variant="primary" onClick={handleSaveAvailability} isLoading={isSavingAvailability}>
+                  Save Availability
+                </Button>
+              </div>
+            </CardBody>
+          </Card>
+        )}
 
         {/* Danger Zone */}
-        <Card className="border-red-200">
-          <CardHeader>
-            <h2 className="text-lg font-semibold text-red-900">Danger Zone</h2>
-          </CardHeader>
-          <CardBody className="space-y-4">
-            <p className="text-sm text-red-800">
-              These actions are irreversible. Please proceed with caution.
-            </p>
-            <Button variant="secondary" className="border-red-300 text-red-600 hover:bg-red-50">
-              Delete Account
-            </Button>
-          </CardBody>
-        </Card>
+        {canManageBilling && (
+          <Card className="border-red-200">
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-red-900">Danger Zone</h2>
+            </CardHeader>
+            <CardBody className="space-y-4">
+              <p className="text-sm text-red-800">
+                These actions are irreversible. Please proceed with caution.
+              </p>
+              <Button variant="secondary" className="border-red-300 text-red-600 hover:bg-red-50">
+                Delete Account
+              </Button>
+            </CardBody>
+          </Card>
+        )}
       </div>
 
       {/* Subscription Plans Modal */}
@@ -494,20 +879,32 @@ export default function ProfilePage() {
                 )}
               </div>
 
+              {paymentMethodOptions.length > 0 && (
+                <div className="max-w-md mx-auto">
+                  <Select
+                    label="Payment Method"
+                    options={paymentMethodOptions}
+                    value={paymentMethodId}
+                    onChange={(e) => setPaymentMethodId(e.target.value)}
+                  />
+                </div>
+              )}
+              {billingError && <p className="text-sm text-red-600 text-center">{billingError}</p>}
+
               {/* Plans Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                {subscriptionPlans.map((plan) => (
+                {PLANS.map((plan) => (
                   <div
                     key={plan.id}
                     className={`rounded-lg border-2 p-6 flex flex-col transition-all ${
-                      plan.isCurrentPlan
+                      plan.id === currentPlan?.id
                         ? "border-primary bg-blue-50 shadow-lg"
                         : "border-gray-200 hover:border-primary hover:shadow-md"
                     }`}
                   >
                     {/* Plan Header */}
                     <div className="mb-4">
-                      {plan.isCurrentPlan && (
+                      {plan.id === currentPlan?.id && (
                         <Badge variant="info" className="mb-3">
                           Current Plan
                         </Badge>
@@ -559,18 +956,18 @@ export default function ProfilePage() {
                     </div>
 
                     {/* Action Button */}
-                    {plan.isCurrentPlan ? (
+                    {isCurrentChoice(plan) ? (
                       <Button variant="secondary" disabled className="w-full">
                         Current Plan
                       </Button>
                     ) : (
                       <Button
                         variant={plan.price > 99 ? "primary" : "outline"}
-                        onClick={() => handleUpgradePlan(plan.id)}
-                        isLoading={isUpgrading && selectedPlan === plan.id}
+                        onClick={() => handleChangePlan(plan.id)}
+                        isLoading={billingAction === plan.id}
                         className="w-full"
                       >
-                        {plan.price < 99 ? "Downgrade" : "Upgrade"}
+                        {planActionLabel(plan)}
                       </Button>
                     )}
                   </div>
@@ -580,7 +977,7 @@ export default function ProfilePage() {
               {/* Footer Note */}
               <div className="mt-8 p-4 bg-gray-50 rounded-lg text-center">
                 <p className="text-sm text-gray-600">
-                  All plans include a 14-day free trial. Cancel anytime. Need a custom plan?{" "}
+                  Your first subscription starts with a 14-day free trial. Cancel anytime. Need a custom plan?{" "}
                   <a href="#" className="text-primary hover:text-blue-900 font-semibold">
                     Contact sales
                   </a>
@@ -0,0 +1,223 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { Button, Card, CardBody, Select } from "@/components";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { timeZoneOptions } from "@/lib/interviews/format";
+
+interface Booking {
+  candidateName: string;
+  jobTitle: string;
+  companyName: string;
+  durationMinutes: number;
+  location: string;
+  status: "open" | "booked" | "revoked" | "expired";
+  interview: { startsAt: string; status: "scheduled" | "cancelled" } | null;
+}
+
+const fetchBooking = (token: string) =>
+  apiFetch<{ booking: Booking; slots: string[] }>(`/api/public/schedule/${token}`);
+
+const formatDay = (startsAt: string, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", { weekday: "long", month: "long", day: "numeric", timeZone }).format(new Date(startsAt));
+
+const formatTime = (startsAt: string, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", { timeStyle: "short", timeZone }).format(new Date(startsAt));
+
+// Slots arrive sorted, so days come out in order.
+function groupByDay(slots: string[], timeZone: string): [string, string[]][] {
+  const days = new Map<string, string[]>();
+  for (const slot of slots) {
+    const day = formatDay(slot, timeZone);
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+  return [...days];
+}
+
+function Message({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-md text-center">
+        <Card>
+          <CardBody className="py-12">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+            {children}
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function ScheduleInterviewPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [isLoading, setIsLoading] = useState(true);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [slots, setSlots] = useState<string[]>([]);
+  // Slots are shown in the candidate's own zone unless they pick another.
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [isBooking, setIsBooking] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadBooking = () =>
+    fetchBooking(token)
+      .then((data) => {
+        setBooking(data.booking);
+        setSlots(data.slots);
+      })
+      .catch((err) => console.error("Failed to load booking:", err));
+
+  useEffect(() => {
+    fetchBooking(token)
+      .then((data) => {
+        setBooking(data.booking);
+        setSlots(data.slots);
+      })
+      .catch((err) => console.error("Failed to load booking:", err))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+    setIsBooking(true);
+    setError("");
+    try {
+      await apiFetch(`/api/public/schedule/${token}`, {
+        method: "POST",
+        body: JSON.stringify({ startsAt: selectedSlot, timeZone }),
+      });
+      await loadBooking();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Couldn't book that time. Please try again.");
+      setSelectedSlot(null);
+      // Someone else may have taken the slot, so show what is still free.
+      await loadBooking();
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 flex items-center justify-center px-4 py-8">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-gray-300 border-t-primary rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading available times...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <Message title="Link Not Found">
+        <p className="text-gray-600">This booking link is invalid. Please check the link in your email.</p>
+      </Message>
+    );
+  }
+
+  if (booking.status === "booked" && booking.interview) {
+    const { startsAt, status } = booking.interview;
+    return (
+      <Message title={status === "cancelled" ? "Interview Cancelled" : "Interview Booked!"}>
+        <p className="text-gray-600 mb-6">
+          {status === "cancelled"
+            ? `Your interview for the ${booking.jobTitle} position at ${booking.companyName} has been cancelled.`
+            : `Your interview for the ${booking.jobTitle} position at ${booking.companyName} is on ${formatDay(startsAt, timeZone)} at ${formatTime(startsAt, timeZone)} (${timeZone}).`}
+        </p>
+        <p className="text-sm text-gray-500">
+          {status === "cancelled"
+            ? "The recruiting team will be in touch."
+            : "A calendar invite is on its way to your inbox."}
+        </p>
+      </Message>
+    );
+  }
+
+  if (booking.status !== "open") {
+    return (
+      <Message title="Link No Longer Active">
+        <p className="text-gray-600">
+          This booking link has {booking.status === "expired" ? "expired" : "been replaced"}. Please contact the{" "}
+          {booking.companyName} recruiting team for a new one.
+        </p>
+      </Message>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center text-white font-bold text-lg">
+              {booking.companyName.charAt(0)}
+            </div>
+            <span className="text-2xl font-bold text-gray-900">{booking.companyName}</span>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Book Your Interview</h1>
+          <p className="text-gray-600 mt-1">
+            {booking.jobTitle} • {booking.durationMinutes} minutes{booking.location && ` • ${booking.location}`}
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardBody className="space-y-6">
+            <p className="text-gray-700">
+              Hi {booking.candidateName}, pick a time that suits you and we&apos;ll send a calendar invite to confirm it.
+            </p>
+            <Select
+              label="Time zone"
+              options={timeZoneOptions(timeZone)}
+              value={timeZone}
+              onChange={(e) => e.target.value && setTimeZone(e.target.value)}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {slots.length === 0 ? (
+              <p className="text-gray-600">
+                There are no times left to book. Please contact the {booking.companyName} recruiting team.
+              </p>
+            ) : (
+              <div className="space-y-5">
+                {groupByDay(slots, timeZone).map(([day, daySlots]) => (
+                  <div key={day}>
+                    <h3 className="font-semibold text-gray-900 mb-2">{day}</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {daySlots.map((slot) => (
+                        <button
+                          key={slot}
+                          type="button"
+                          onClick={() => setSelectedSlot(slot)}
+                          className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                            selectedSlot === slot
+                              ? "bg-primary border-primary text-white"
+                              : "border-gray-300 text-gray-700 hover:border-primary hover:text-primary"
+                          }`}
+                        >
+                          {formatTime(slot, timeZone)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardBody>
+        </Card>
+
+        {selectedSlot && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-gray-700">
+              {formatDay(selectedSlot, timeZone)} at {formatTime(selectedSlot, timeZone)}
+            </p>
+            <Button variant="primary" onClick={handleBook} isLoading={isBooking}>
+              Confirm Booking
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
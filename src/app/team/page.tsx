@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DashboardLayout, Button, Badge, Card, CardBody, CardHeader, Input, Select, Table, TableBody, TableCell, TableHead, TableRow, UpgradePrompt } from "@/components";
+import { ApiError, apiFetch } from "@/lib/api-client";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, ROLE_OPTIONS } from "@/lib/permissions";
+import { useWorkspace } from "@/lib/useWorkspace";
+import type { JobSummary, PublicInvitation, PublicUser, Role } from "@/types";
+
+interface Access {
+  role: Role;
+  jobIds: string[];
+}
+
+const fetchTeam = () => apiFetch<{ members: PublicUser[]; invitations: PublicInvitation[] }>("/api/team");
+
+function JobPicker({ jobs, value, onChange }: { jobs: JobSummary[]; value: string[]; onChange: (jobIds: string[]) => void }) {
+  if (jobs.length === 0) return <p className="text-sm text-gray-500">No jobs to assign yet.</p>;
+  return (
+    <div className="space-y-1">
+      {jobs.map((job) => (
+        <label key={job.id} className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.includes(job.id)}
+            onChange={() => onChange(value.includes(job.id) ? value.filter((id) => id !== job.id) : [...value, job.id])}
+          />
+          {job.title}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function TeamPage() {
+  const workspace = useWorkspace();
+  const [members, setMembers] = useState<PublicUser[]>([]);
+  const [invitations, setInvitations] = useState<PublicInvitation[]>([]);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [invite, setInvite] = useState<Access & { email: string }>({ email: "", role: "recruiter", jobIds: [] });
+  const [inviteErrors, setInviteErrors] = useState<Record<string, string>>({});
+  const [isInviting, setIsInviting] = useState(false);
+  const [invited, setInvited] = useState("");
+  const [seatError, setSeatError] = useState("");
+  const [editing, setEditing] = useState<(Access & { memberId: string }) | null>(null);
+  const [isSavingMember, setIsSavingMember] = useState(false);
+  const [teamError, setTeamError] = useState("");
+
+  useEffect(() => {
+    Promise.all([fetchTeam(), apiFetch<{ jobs: JobSummary[] }>("/api/jobs")])
+      .then(([team, data]) => {
+        setMembers(team.members);
+        setInvitations(team.invitations);
+        setJobs(data.jobs);
+      })
+      .catch((err) => console.error("Failed to load team:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Only owners can hand out the owner role.
+  const roleOptions = ROLE_OPTIONS.filter((option) => option.value !== "owner" || workspace?.user.role === "owner");
+  const jobTitle = (jobId: string) => jobs.find((job) => job.id === jobId)?.title ?? "";
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setInviteErrors({});
+    setInvited("");
+    setSeatError("");
+    try {
+      const { invitation } = await apiFetch<{ invitation: PublicInvitation }>("/api/team/invitations", {
+        method: "POST",
+        body: JSON.stringify(invite),
+      });
+      setInvitations((prev) => [...prev.filter((i) => i.email !== invitation.email), invitation]);
+      setInvite({ email: "", role: invite.role, jobIds: [] });
+      setInvited(invitation.email);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 402) {
+        setSeatError(err.message);
+      } else if (err instanceof ApiError) {
+        setInviteErrors(Object.keys(err.fieldErrors).length > 0 ? err.fieldErrors : { email: err.message });
+      } else {
+        console.error("Failed to send invitation:", err);
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: PublicInvitation) => {
+    setTeamError("");
+    try {
+      await apiFetch(`/api/team/invitations/${invitation.id}`, { method: "DELETE" });
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      setTeamError(err instanceof ApiError ? err.message : "Couldn't revoke the invitation");
+    }
+  };
+
+  const handleSaveMember = async () => {
+    if (!editing) return;
+    setIsSavingMember(true);
+    setTeamError("");
+    try {
+      const { member } = await apiFetch<{ member: PublicUser }>(`/api/team/members/${editing.memberId}`, {
+        method: "PUT",
+        body: JSON.stringify({ role: editing.role, jobIds: editing.jobIds }),
+      });
+      setMembers((prev) => prev.map((m) => (m.id === member.id ? member : m)));
+      setEditing(null);
+    } catch (err) {
+      setTeamError(err instanceof ApiError ? err.message : "Couldn't update the member");
+    } finally {
+      setIsSavingMember(false);
+    }
+  };
+
+  const handleRemove = async (member: PublicUser) => {
+    if (!confirm(`Remove ${member.email} from the team? They'll be signed out straight away.`)) return;
+    setTeamError("");
+    try {
+      await apiFetch(`/api/team/members/${member.id}`, { method: "DELETE" });
+      setMembers((prev) => prev.filter((m) => m.id !== member.id));
+    } catch (err) {
+      setTeamError(err instanceof ApiError ? err.message : "Couldn't remove the member");
+    }
+  };
+
+  // Admins can't change owners, and nobody can change their own access.
+  const canChange = (member: PublicUser) =>
+    member.id !== workspace?.user.id && (member.role !== "owner" || workspace?.user.role === "owner");
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Team</h1>
+          <p className="text-gray-600 mt-1">Invite colleagues and choose what they can do</p>
+        </div>
+
+        {seatError && <UpgradePrompt title="Team member limit reached" message={seatError} />}
+
+        {/* Invite */}
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-900">Invite a Team Member</h2>
+          </CardHeader>
+          <CardBody>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Email"
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  placeholder="colleague@company.com"
+                  error={inviteErrors.email}
+                  required
+                />
+                <Select
+                  label="Role"
+                  options={roleOptions}
+                  value={invite.role}
+                  onChange={(e) => setInvite({ ...invite, role: e.target.value as Role })}
+                  error={inviteErrors.role}
+                  helperText={ROLE_DESCRIPTIONS[invite.role]}
+                />
+              </div>
+              {invite.role === "hiring_manager" && (
+                <div>
+                  <label className="label">Assigned Jobs</label>
+                  <JobPicker jobs={jobs} value={invite.jobIds} onChange={(jobIds) => setInvite({ ...invite, jobIds })} />
+                </div>
+              )}
+              <div className="flex items-center justify-end gap-3">
+                {invited && <span className="text-sm text-green-700">Invitation sent to {invited}</span>}
+                <Button type="submit" variant="primary" isLoading={isInviting}>
+                  Send Invitation
+                </Button>
+              </div>
+            </form>
+          </CardBody>
+        </Card>
+
+        {teamError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{teamError}</p>
+          </div>
+        )}
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-900">Members</h2>
+          </CardHeader>
+          <CardBody className="p-0">
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell isHeader>Email</TableCell>
+                  <TableCell isHeader>Role</TableCell>
+                  <TableCell isHeader>Joined</TableCell>
+                  <TableCell isHeader>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell className="text-center py-8 text-gray-500" colSpan={4}>
+                      Loading team...
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <span className="font-medium text-gray-900">{member.email}</span>
+                        {member.id === workspace?.user.id && <span className="text-sm text-gray-500"> (you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        {editing?.memberId === member.id ? (
+                          <div className="space-y-3 min-w-56">
+                            <select
+                              className="input py-1.5 text-sm cursor-pointer"
+                              value={editing.role}
+                              onChange={(e) => setEditing({ ...editing, role: e.target.value as Role })}
+                              aria-label={`Role of ${member.email}`}
+                            >
+                              {roleOptions.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            {editing.role === "hiring_manager" && (
+                              <JobPicker jobs={jobs} value={editing.jobIds} onChange={(jobIds) => setEditing({ ...editing, jobIds })} />
+                            )}
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant={member.role === "owner" ? "success" : "info"}>{ROLE_LABELS[member.role]}</Badge>
+                            {member.role === "hiring_manager" && (
+                              <p className="text-xs text-gray-500">
+                                {member.jobIds.length > 0 ? member.jobIds.map(jobTitle).join(", ") : "No jobs assigned"}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{new Date(member.createdAt).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell>
+                        {editing?.memberId === member.id ? (
+                          <div className="flex gap-2">
+                            <Button variant="primary" size="sm" onClick={handleSaveMember} isLoading={isSavingMember}>
+                              Save
+                            </Button>
+                            <Button variant="secondary" size="sm" onClick={() => setEditing(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          canChange(member) && (
+                            <div className="flex gap-3 text-sm font-medium">
+                              <button
+                                onClick={() => setEditing({ memberId: member.id, role: member.role, jobIds: member.jobIds })}
+                                className="text-primary hover:text-blue-900"
+                              >
+                                Change Role
+                              </button>
+                              <button onClick={() => handleRemove(member)} className="text-red-600 hover:text-red-700">
+                                Remove
+                              </button>
+                            </div>
+                          )
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardBody>
+        </Card>
+
+        {/* Pending Invitations */}
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-gray-900">Pending Invitations</h2>
+            </CardHeader>
+            <CardBody className="p-0">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell isHeader>Email</TableCell>
+                    <TableCell isHeader>Role</TableCell>
+                    <TableCell isHeader>Invited By</TableCell>
+                    <TableCell isHeader>Expires</TableCell>
+                    <TableCell isHeader>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {invitations.map((invitation) => (
+                    <TableRow key={invitation.id}>
+                      <TableCell>
+                        <span className="font-medium text-gray-900">{invitation.email}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="warning">{ROLE_LABELS[invitation.role]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{invitation.invitedBy.email}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-gray-600">{new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell>
+                        {(invitation.role !== "owner" || workspace?.user.role === "owner") && (
+                          <button
+                            onClick={() => handleRevoke(invitation)}
+                            className="text-sm font-medium text-red-600 hover:text-red-700"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
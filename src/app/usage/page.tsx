@@ -1,50 +1,30 @@
 "use client";
 
-import { useState } from "react";
-import { DashboardLayout, Card, CardBody, CardHeader } from "@/components";
+import { useEffect, useState } from "react";
+import { DashboardLayout, Card, CardBody, CardHeader, UpgradePrompt } from "@/components";
+import { apiFetch } from "@/lib/api-client";
+import { USAGE_LABELS, usagePercentage } from "@/lib/plans";
+import type { UsageEvent, UsageSummary } from "@/types";
 
-interface UsageMetric {
-  label: string;
-  value: number;
-  limit: number;
-  unit: string;
-  percentage: number;
-}
+const ACTION_LABELS: Record<UsageEvent["metric"], string> = {
+  job_postings: "Job Posted",
+  application_reviews: "Application Received",
+  ai_screenings: "AI Screening Run",
+};
 
-const mockUsageData: UsageMetric[] = [
-  {
-    label: "Job Postings",
-    value: 5,
-    limit: 10,
-    unit: "postings",
-    percentage: 50,
-  },
-  {
-    label: "Application Reviews",
-    value: 142,
-    limit: 500,
-    unit: "reviews",
-    percentage: 28,
-  },
-  {
-    label: "AI Screenings",
-    value: 87,
-    limit: 200,
-    unit: "screenings",
-    percentage: 43,
-  },
-  {
-    label: "Team Members",
-    value: 3,
-    limit: 5,
-    unit: "members",
-    percentage: 60,
-  },
- 
-];
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
 
 export default function UsageTrackingPage() {
-  const [usageData] = useState<UsageMetric[]>(mockUsageData);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ usage: UsageSummary }>("/api/usage")
+      .then((data) => setUsage(data.usage))
+      .catch((err) => console.error("Failed to load usage:", err));
+  }, []);
+
+  const exhausted = usage?.metrics.filter(({ used, limit }) => limit !== null && used >= limit) ?? [];
 
   const getProgressColor = (percentage: number): string => {
     if (percentage <= 50) return "bg-green-500";
@@ -68,53 +48,66 @@ export default function UsageTrackingPage() {
         </div>
 
         {/* Plan Info Card */}
-        <Card className="border-blue-200 bg-blue-50">
-          <CardBody>
-            <div className="flex items-center justify-between">
-              <div>
-                <h2 className="text-lg font-semibold text-blue-900">Current Plan: Premium</h2>
-                <p className="text-sm text-blue-700 mt-1">
-                  You have access to all features and increased limits
-                </p>
-              </div>
-              <div className="text-right">
-                <p className="text-sm text-blue-700">Renews on</p>
-                <p className="text-lg font-semibold text-blue-900">January 31, 2025</p>
+        {usage && (
+          <Card className="border-blue-200 bg-blue-50">
+            <CardBody>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-blue-900">Current Plan: {usage.plan.name}</h2>
+                  <p className="text-sm text-blue-700 mt-1">{usage.plan.description}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-blue-700">Usage resets on</p>
+                  <p className="text-lg font-semibold text-blue-900">{formatDate(usage.period.end)}</p>
+                </div>
               </div>
-            </div>
-          </CardBody>
-        </Card>
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Upgrade Prompt */}
+        {exhausted.length > 0 && (
+          <UpgradePrompt
+            title="You've reached your plan's limits"
+            message={`You've used everything your plan includes for: ${exhausted.map(({ metric }) => USAGE_LABELS[metric].label).join(", ")}.`}
+          />
+        )}
 
         {/* Usage Metrics Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {usageData.map((metric, index) => (
-            <Card key={index}>
-              <CardBody className="space-y-4">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">{metric.label}</p>
-                  <div className="flex items-baseline gap-2 mt-2">
-                    <p className="text-3xl font-bold text-gray-900">{metric.value}</p>
-                    <p className="text-sm text-gray-500">/ {metric.limit} {metric.unit}</p>
+          {usage?.metrics.map(({ metric, used, limit }) => {
+            const percentage = usagePercentage(used, limit);
+            return (
+              <Card key={metric}>
+                <CardBody className="space-y-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">{USAGE_LABELS[metric].label}</p>
+                    <div className="flex items-baseline gap-2 mt-2">
+                      <p className="text-3xl font-bold text-gray-900">{used}</p>
+                      <p className="text-sm text-gray-500">
+                        / {limit ?? "Unlimited"} {USAGE_LABELS[metric].unit}
+                      </p>
+                    </div>
                   </div>
-                </div>
 
-                {/* Progress Bar */}
-                <div className="space-y-2">
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className={`h-2 rounded-full transition-all ${getProgressColor(
-                        metric.percentage
-                      )}`}
-                      style={{ width: `${metric.percentage}%` }}
-                    ></div>
+                  {/* Progress Bar */}
+                  <div className="space-y-2">
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full transition-all ${getProgressColor(
+                          percentage
+                        )}`}
+                        style={{ width: `${percentage}%` }}
+                      ></div>
+                    </div>
+                    <p className={`text-xs font-medium ${getTextColor(percentage)}`}>
+                      {limit === null ? "No limit on your plan" : `${percentage}% used`}
+                    </p>
                   </div>
-                  <p className={`text-xs font-medium ${getTextColor(metric.percentage)}`}>
-                    {metric.percentage}% used
-                  </p>
-                </div>
-              </CardBody>
-            </Card>
-          ))}
+                </CardBody>
+              </Card>
+            );
+          })}
         </div>
 
         {/* Usage Details Table */}
@@ -136,56 +129,25 @@ export default function UsageTrackingPage() {
                     <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">
                       Details
                     </th>
-                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">
-                      Cost
-                    </th>
                   </tr>
                 </thead>
                 <tbody>
-                  <tr className="border-b border-gray-200 hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">
-                      Job Posted
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Dec 30, 2024</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      Senior Frontend Developer
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">Free</td>
-                  </tr>
-                  <tr className="border-b border-gray-200 hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">
-                      AI Screening Run
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Dec 29, 2024</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">24 applications screened</td>
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">Included</td>
-                  </tr>
-                  <tr className="border-b border-gray-200 hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">
-                      Team Member Added
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Dec 28, 2024</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      john.doe@company.com
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">Free</td>
-                  </tr>
-                  <tr className="border-b border-gray-200 hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">
-                      AI Screening Run
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Dec 27, 2024</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">18 applications screened</td>
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">Included</td>
-                  </tr>
-                  <tr className="hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">
-                      Job Posted
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Dec 26, 2024</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">Product Manager</td>
-                    <td className="px-6 py-4 text-sm text-gray-900 font-medium">Free</td>
-                  </tr>
+                  {usage?.recent.map((event) => (
+                    <tr key={event.id} className="border-b border-gray-200 last:border-b-0 hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900 font-medium">
+                        {ACTION_LABELS[event.metric]}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{formatDate(event.at)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{event.detail}</td>
+                    </tr>
+                  ))}
+                  {usage?.recent.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-6 py-8 text-center text-sm text-gray-500">
+                        No activity yet.
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -201,7 +163,7 @@ export default function UsageTrackingPage() {
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">What happens when I reach my limit?</h3>
               <p className="text-sm text-gray-600">
-                When you reach your usage limit, you'll need to upgrade your plan or wait for your limit to reset at the start of your billing cycle.
+                New job postings are blocked and new applications wait unscreened as Pending until you upgrade your plan or your usage resets at the start of the next billing cycle. Candidates can always apply, so you never miss an application.
               </p>
             </div>
             <div>
@@ -211,9 +173,9 @@ export default function UsageTrackingPage() {
               </p>
             </div>
             <div>
-              <h3 className="font-semibold text-gray-900 mb-2">How is storage calculated?</h3>
+              <h3 className="font-semibold text-gray-900 mb-2">What counts towards my limits?</h3>
               <p className="text-sm text-gray-600">
-                Storage is calculated based on uploaded resumes, documents, and data associated with your job postings and candidates.
+                Each job you post, each application you receive and each AI screening run count towards the current billing cycle. Candidates rejected by a knockout question aren&apos;t sent to the AI, so they don&apos;t use a screening. Team members count everyone in the workspace plus pending invitations.
               </p>
             </div>
           </CardBody>
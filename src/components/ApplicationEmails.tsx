@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Badge } from "./Badge";
+import { Button } from "./Button";
+import { Select } from "./Select";
+import { Textarea } from "./Textarea";
+import { EMAIL_TEMPLATE_LABELS, MANUAL_EMAIL_TEMPLATES } from "@/lib/mail/templates";
+import type { EmailTemplate, OutboxMessage } from "@/types";
+
+interface ApplicationEmailsProps {
+  emails: OutboxMessage[];
+  /** Resolves true once the email is queued, which clears the form. */
+  onSend: (template: EmailTemplate, note: string) => Promise<boolean>;
+  /** Hides the send form, leaving only the delivery log. */
+  readOnly?: boolean;
+  isSending: boolean;
+  errors: Record<string, string>;
+}
+
+const TEMPLATE_OPTIONS = MANUAL_EMAIL_TEMPLATES.map((value) => ({ value, label: EMAIL_TEMPLATE_LABELS[value] }));
+
+const STATUS_BADGES: Record<OutboxMessage["status"], { variant: "success" | "danger" | "warning" | "info"; label: string }> = {
+  queued: { variant: "info", label: "Queued" },
+  sending: { variant: "info", label: "Sending" },
+  sent: { variant: "success", label: "Sent" },
+  failed: { variant: "danger", label: "Failed" },
+};
+
+export const ApplicationEmails: React.FC<ApplicationEmailsProps> = ({ emails, onSend, isSending, errors, readOnly = false }) => {
+  const [template, setTemplate] = useState<EmailTemplate | "">("");
+  const [note, setNote] = useState("");
+
+  const handleSend = async () => {
+    if (!template) return;
+    if (await onSend(template, note)) {
+      setTemplate("");
+      setNote("");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && (
+        <div className="space-y-3">
+          <Select
+            label="Send an email"
+            options={TEMPLATE_OPTIONS}
+            value={template}
+            onChange={(e) => setTemplate(e.target.value as EmailTemplate | "")}
+            error={errors.template}
+          />
+          {template && (
+            <>
+              <Textarea
+                label="Personal note (optional)"
+                placeholder="Added to the email above the sign-off"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                error={errors.note}
+                className="min-h-20"
+              />
+              <Button variant="primary" size="sm" onClick={handleSend} isLoading={isSending}>
+                Send {EMAIL_TEMPLATE_LABELS[template]} Email
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600 font-semibold">Delivery Log</p>
+        {emails.length === 0 ? (
+          <p className="text-sm text-gray-500">No emails sent to this candidate yet.</p>
+        ) : (
+          emails.map((email) => {
+            const lastAttempt = email.attempts[email.attempts.length - 1];
+            return (
+              <div key={email.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 truncate">{email.subject}</p>
+                  <Badge variant={STATUS_BADGES[email.status].variant}>{STATUS_BADGES[email.status].label}</Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {EMAIL_TEMPLATE_LABELS[email.template]} · queued {new Date(email.createdAt).toLocaleString()}
+                  {email.sentAt && ` · sent ${new Date(email.sentAt).toLocaleString()}`}
+                  {email.attempts.length > 1 && ` · ${email.attempts.length} attempts`}
+                </p>
+                {email.status !== "sent" && lastAttempt?.error && (
+                  <p className="text-xs text-red-600">Last error: {lastAttempt.error}</p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
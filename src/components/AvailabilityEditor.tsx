@@ -0,0 +1,124 @@
+import React from "react";
+import { Button } from "./Button";
+import { WEEKDAY_OPTIONS, timeZoneOptions } from "@/lib/interviews/format";
+import type { AvailabilityWindow, InterviewerAvailability } from "@/types";
+
+export type AvailabilityEntry = Omit<InterviewerAvailability, "companyId">;
+
+interface AvailabilityEditorProps {
+  availability: AvailabilityEntry[];
+  onChange: (availability: AvailabilityEntry[]) => void;
+  error?: string;
+}
+
+const WORKING_WEEK: AvailabilityWindow[] = [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start: "09:00", end: "17:00" }));
+
+export const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ availability, onChange, error }) => {
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const update = (index: number, changes: Partial<AvailabilityEntry>) =>
+    onChange(availability.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  const updateWindow = (index: number, windowIndex: number, changes: Partial<AvailabilityWindow>) =>
+    update(index, {
+      windows: availability[index].windows.map((window, i) => (i === windowIndex ? { ...window, ...changes } : window)),
+    });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Candidates sent a booking link can pick any time when every interviewer on the panel is inside one of their
+        weekly windows and has no other interview. Times are in each interviewer&apos;s own time zone.
+      </p>
+      {availability.map((entry, idx) => (
+        <div key={idx} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="email"
+              className="input py-1.5 text-sm flex-1 min-w-48"
+              value={entry.email}
+              onChange={(e) => update(idx, { email: e.target.value })}
+              placeholder="interviewer@company.com"
+              aria-label={`Email of interviewer ${idx + 1}`}
+            />
+            <select
+              className="input py-1.5 text-sm w-52 cursor-pointer"
+              value={entry.timeZone}
+              onChange={(e) => update(idx, { timeZone: e.target.value })}
+              aria-label={`Time zone of ${entry.email || `interviewer ${idx + 1}`}`}
+            >
+              {timeZoneOptions(entry.timeZone).map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(availability.filter((_, i) => i !== idx))}
+              className="text-sm font-medium text-red-600 hover:text-red-700"
+            >
+              Remove
+            </button>
+          </div>
+          {entry.windows.map((window, windowIdx) => (
+            <div key={windowIdx} className="flex flex-wrap items-center gap-3 pl-4">
+              <select
+                className="input py-1 text-sm w-36 cursor-pointer"
+                value={String(window.weekday)}
+                onChange={(e) => updateWindow(idx, windowIdx, { weekday: Number(e.target.value) })}
+                aria-label="Day"
+              >
+                {WEEKDAY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="time"
+                className="input py-1 text-sm w-32"
+                value={window.start}
+                onChange={(e) => updateWindow(idx, windowIdx, { start: e.target.value })}
+                aria-label="From"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                className="input py-1 text-sm w-32"
+                value={window.end}
+                onChange={(e) => updateWindow(idx, windowIdx, { end: e.target.value })}
+                aria-label="Until"
+              />
+              <button
+                type="button"
+                onClick={() => update(idx, { windows: entry.windows.filter((_, i) => i !== windowIdx) })}
+                className="text-sm text-gray-500 hover:text-red-600"
+                aria-label="Remove window"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              update(idx, { windows: [...entry.windows, { weekday: 1, start: "09:00", end: "17:00" }] })
+            }
+            className="pl-4 text-sm font-medium text-primary hover:text-blue-900"
+          >
+            + Add window
+          </button>
+        </div>
+      ))}
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => onChange([...availability, { email: "", timeZone: browserZone, windows: WORKING_WEEK }])}
+      >
+        Add Interviewer
+      </Button>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { Button } from "./Button";
+import { Input } from "./Input";
+import { Select } from "./Select";
+import {
+  DEFAULT_WEIGHT,
+  IMPORTANCE_LABELS,
+  LEVEL_OPTIONS,
+  MAX_CRITERIA,
+  MAX_WEIGHT,
+  MIN_WEIGHT,
+  formatCriterion,
+  newCriterionId,
+} from "@/lib/criteria";
+import type { CriterionImportance, JobCriterion, SkillLevel } from "@/types";
+
+interface CriteriaEditorProps {
+  criteria: JobCriterion[];
+  onChange: (criteria: JobCriterion[]) => void;
+  onSuggest: () => void;
+  error?: string;
+}
+
+const IMPORTANCE_OPTIONS = (Object.keys(IMPORTANCE_LABELS) as CriterionImportance[]).map((value) => ({
+  value,
+  label: IMPORTANCE_LABELS[value],
+}));
+
+const WEIGHT_OPTIONS = Array.from({ length: MAX_WEIGHT - MIN_WEIGHT + 1 }, (_, idx) => ({
+  value: String(MIN_WEIGHT + idx),
+  label: String(MIN_WEIGHT + idx),
+}));
+
+export const CriteriaEditor: React.FC<CriteriaEditorProps> = ({ criteria, onChange, onSuggest, error }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = criteria.find((criterion) => criterion.id === editingId);
+
+  const update = (changes: Partial<JobCriterion>) => {
+    onChange(criteria.map((criterion) => (criterion.id === editingId ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const handleAdd = () => {
+    const criterion: JobCriterion = {
+      id: newCriterionId(),
+      skill: "",
+      minYears: null,
+      level: null,
+      importance: "must_have",
+      weight: DEFAULT_WEIGHT.must_have,
+    };
+    onChange([...criteria, criterion]);
+    setEditingId(criterion.id);
+  };
+
+  const handleRemove = () => {
+    onChange(criteria.filter((criterion) => criterion.id !== editingId));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="label mb-0">Screening Criteria</label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onSuggest}>
+            Suggest from Requirements
+          </Button>
+          <Button type="button" variant="secondary" size="sm" onClick={handleAdd} disabled={criteria.length >= MAX_CRITERIA}>
+            + Add
+          </Button>
+        </div>
+      </div>
+
+      {criteria.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {criteria.map((criterion) => (
+            <button
+              key={criterion.id}
+              type="button"
+              onClick={() => setEditingId(criterion.id === editingId ? null : criterion.id)}
+              className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                criterion.importance === "must_have"
+                  ? "border-primary bg-blue-50 text-gray-900"
+                  : "border-dashed border-gray-300 bg-white text-gray-700"
+              } ${criterion.id === editingId ? "ring-2 ring-primary" : ""}`}
+            >
+              <span>{formatCriterion(criterion) || "New criterion"}</span>
+              <span className="text-xs text-gray-500">×{criterion.weight}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic">
+          No criteria yet. Suggest them from the requirements above or add them one by one.
+        </p>
+      )}
+
+      {editing && (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Skill"
+              value={editing.skill}
+              onChange={(e) => update({ skill: e.target.value })}
+              placeholder="e.g., React"
+              autoFocus
+            />
+            <Input
+              label="Minimum Years"
+              type="number"
+              min={0}
+              value={editing.minYears ?? ""}
+              onChange={(e) => update({ minYears: e.target.value === "" ? null : Number(e.target.value) })}
+              placeholder="Any"
+            />
+            <Select
+              label="Level"
+              value={editing.level ?? ""}
+              onChange={(e) => update({ level: (e.target.value || null) as SkillLevel | null })}
+              options={LEVEL_OPTIONS}
+            />
+            <Select
+              label="Importance"
+              value={editing.importance}
+              onChange={(e) => {
+                const importance = e.target.value as CriterionImportance;
+                if (importance) update({ importance });
+              }}
+              options={IMPORTANCE_OPTIONS}
+            />
+            <Select
+              label="Weight"
+              value={String(editing.weight)}
+              onChange={(e) => e.target.value && update({ weight: Number(e.target.value) })}
+              options={WEIGHT_OPTIONS}
+              helperText="Higher weights count more towards the screening score"
+            />
+          </div>
+          <div className="flex justify-between">
+            <Button type="button" variant="outline" size="sm" onClick={handleRemove}>
+              Remove
+            </Button>
+            <Button type="button" variant="secondary" size="sm" onClick={() => setEditingId(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!error && (
+        <p className="text-sm text-gray-500">
+          Candidates must meet every must-have criterion to qualify. Nice-to-haves only raise their score.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { Button } from "./Button";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export/definitions";
+
+interface ExportMenuProps {
+  /** Export route, e.g. `/api/candidates/export`. */
+  endpoint: string;
+  columns: { id: string; label: string; defaultSelected: boolean }[];
+  /** The page's current filter and search, passed through so the export matches what's on screen. */
+  query?: Record<string, string>;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ endpoint, columns, query = {} }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  // Null until the recruiter changes the selection, so columns that load later still get their defaults.
+  const [picked, setPicked] = useState<string[] | null>(null);
+  const selected = picked ?? columns.filter((column) => column.defaultSelected).map((column) => column.id);
+
+  const toggle = (id: string) => {
+    // Keep the menu's column order rather than the order they were ticked in.
+    const next = selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id];
+    setPicked(columns.map((column) => column.id).filter((columnId) => next.includes(columnId)));
+  };
+
+  const params = new URLSearchParams({ ...query, format, columns: selected.join(",") });
+  const href = `${endpoint}?${params}`;
+
+  return (
+    <div className="relative">
+      <Button type="button" variant="outline" onClick={() => setIsOpen(!isOpen)}>
+        Export
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-20 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Format</p>
+            <div className="flex gap-3">
+              {EXPORT_FORMATS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Columns</p>
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {columns.map((column) => (
+                <label key={column.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={selected.includes(column.id)} onChange={() => toggle(column.id)} />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Only rows matching the current filter and search are exported.</p>
+          {selected.length > 0 ? (
+            <a href={href} download onClick={() => setIsOpen(false)}>
+              <Button type="button" variant="primary" className="w-full">
+                Download
+              </Button>
+            </a>
+          ) : (
+            <Button type="button" variant="primary" className="w-full" disabled>
+              Download
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React from "react";
+import { ANSWER_FILE_EXTENSIONS, type AnswerInput, SCALE_MAX, SCALE_MIN, answerField, countWords } from "@/lib/forms";
+import type { FormQuestion } from "@/types";
+
+interface FormQuestionFieldProps {
+  question: FormQuestion;
+  value: AnswerInput;
+  onChange: (value: AnswerInput) => void;
+  error?: string;
+}
+
+const INPUT_TYPES: Partial<Record<FormQuestion["type"], { type: string; placeholder: string }>> = {
+  text: { type: "text", placeholder: "Your answer..." },
+  number: { type: "number", placeholder: "Enter a number" },
+  email: { type: "email", placeholder: "name@example.com" },
+  url: { type: "url", placeholder: "https://" },
+  date: { type: "date", placeholder: "" },
+};
+
+const SCALE_VALUES = Array.from({ length: SCALE_MAX - SCALE_MIN + 1 }, (_, idx) => String(SCALE_MIN + idx));
+
+export const FormQuestionField: React.FC<FormQuestionFieldProps> = ({ question, value, onChange, error }) => {
+  const name = answerField(question);
+  const text = typeof value === "string" ? value : "";
+  const picked = Array.isArray(value) ? value : [];
+  const errorClass = error ? "border-red-500 focus:ring-red-500" : "";
+
+  const renderChoices = (choices: { value: string; label: string }[], multiple: boolean) => (
+    <div className="space-y-2">
+      {choices.map((choice) => (
+        <label key={choice.value} className="flex items-center gap-3 cursor-pointer text-gray-900">
+          <input
+            type={multiple ? "checkbox" : "radio"}
+            name={name}
+            value={choice.value}
+            checked={multiple ? picked.includes(choice.value) : text === choice.value}
+            onChange={(e) =>
+              onChange(
+                multiple
+                  ? e.target.checked
+                    ? [...picked, choice.value]
+                    : picked.filter((option) => option !== choice.value)
+                  : choice.value
+              )
+            }
+            className="w-4 h-4 text-primary focus:ring-primary"
+          />
+          {choice.label}
+        </label>
+      ))}
+    </div>
+  );
+
+  const renderControl = () => {
+    const input = INPUT_TYPES[question.type];
+    if (input) {
+      return (
+        <input
+          id={name}
+          name={name}
+          type={input.type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={input.placeholder}
+          className={`input ${errorClass}`.trim()}
+        />
+      );
+    }
+
+    switch (question.type) {
+      case "single_select":
+      case "multi_select":
+        return renderChoices(
+          (question.options ?? []).map((option) => ({ value: option, label: option })),
+          question.type === "multi_select"
+        );
+      case "yes_no":
+        return renderChoices(
+          [
+            { value: "yes", label: "Yes" },
+            { value: "no", label: "No" },
+          ],
+          false
+        );
+      case "scale":
+        return (
+          <div>
+            <div className="flex gap-2">
+              {SCALE_VALUES.map((rating) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => onChange(rating)}
+                  className={`w-12 h-12 rounded-lg border font-semibold transition-colors ${
+                    text === rating
+                      ? "bg-primary border-primary text-white"
+                      : "bg-white border-gray-300 text-gray-700 hover:border-gray-400"
+                  }`}
+                >
+                  {rating}
+                </button>
+              ))}
+            </div>
+            {question.scaleLabels && (
+              <div className="flex justify-between text-xs text-gray-500 mt-2 w-[17rem]">
+                <span>{question.scaleLabels[0]}</span>
+                <span>{question.scaleLabels[1]}</span>
+              </div>
+            )}
+          </div>
+        );
+      case "file":
+        return (
+          <div
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-all ${
+              error ? "border-red-500 bg-red-50" : "border-gray-300 hover:border-gray-400"
+            }`}
+          >
+            <input
+              id={name}
+              name={name}
+              type="file"
+              accept={ANSWER_FILE_EXTENSIONS.join(",")}
+              onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+            <label htmlFor={name} className="cursor-pointer block">
+              <p className="text-gray-600 font-medium">
+                {value instanceof File ? value.name : "Click to upload a file"}
+              </p>
+              <p className="text-sm text-gray-500 mt-1">Up to 10MB</p>
+            </label>
+          </div>
+        );
+      default:
+        return (
+          <div>
+            <textarea
+              id={name}
+              name={name}
+              value={text}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder="Your answer..."
+              className={`input resize-vertical min-h-28 ${errorClass}`.trim()}
+            />
+            {question.maxWords && (
+              <p className="text-xs text-gray-500 mt-1 text-right">
+                {countWords(text)} / {question.maxWords} words
+              </p>
+            )}
+          </div>
+        );
+    }
+  };
+
+  // Choice and scale questions have no single control for the label to point at.
+  const labelTarget = INPUT_TYPES[question.type] || question.type === "long_text" ? name : undefined;
+
+  return (
+    <div>
+      <label className="label" htmlFor={labelTarget}>
+        {question.label} {question.required && <span className="text-red-500">*</span>}
+      </label>
+      {renderControl()}
+      {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+    </div>
+  );
+};
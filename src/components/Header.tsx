@@ -1,9 +1,13 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { MenuIcon, CloseIcon, BellIcon } from "./Icons";
+import { apiFetch } from "@/lib/api-client";
+import { planOf } from "@/lib/plans";
+import { clearWorkspace, useWorkspace } from "@/lib/useWorkspace";
+import { MenuIcon, CloseIcon } from "./Icons";
+import { NotificationBell } from "./NotificationBell";
 
 interface HeaderProps {
   sidebarOpen?: boolean;
@@ -12,22 +16,17 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ sidebarOpen = false, onToggleSidebar }) => {
   const router = useRouter();
-  const [notificationCount, setNotificationCount] = useState(3);
-  const [isShaking, setIsShaking] = useState(false);
+  const workspace = useWorkspace();
 
-  useEffect(() => {
-    // Simulate new notification every 10 seconds
-    const interval = setInterval(() => {
-      setNotificationCount(prev => prev + 1);
-      setIsShaking(true);
-      setTimeout(() => setIsShaking(false), 600);
-    }, 10000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const handleSignOut = () => {
-    router.push("/");
+  const handleSignOut = async () => {
+    try {
+      await apiFetch("/api/auth/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Sign out failed:", err);
+    }
+    clearWorkspace();
+    router.replace("/");
+    router.refresh();
   };
   return (
     <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
@@ -72,24 +71,12 @@ export const Header: React.FC<HeaderProps> = ({ sidebarOpen = false, onToggleSid
             {/* Desktop Subscription Plan and SignOut */}
             <div className="hidden md:flex items-center gap-2 sm:gap-3">
               {/* Notification Bell */}
-              <div className="relative">
-                <button 
-                  suppressHydrationWarning
-                  className={`p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors ${isShaking ? "animate-shake" : ""}`}
-                >
-                  <BellIcon className="w-5 h-5" />
-                </button>
-                {notificationCount > 0 && (
-                  <span className="absolute top-0 right-0 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white transform translate-x-1/2 -translate-y-1/2 bg-red-600 rounded-full min-w-[20px]">
-                    {notificationCount > 99 ? "99+" : notificationCount}
-                  </span>
-                )}
-              </div>
+              <NotificationBell />
 
               <div className="flex items-center gap-1 sm:gap-2 px-2 sm:px-3 md:px-4 py-1.5 sm:py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-xs sm:text-sm">
                 <span className="hidden sm:inline">Subscription Plan</span>
                 <span className="inline-flex items-center px-2 sm:px-3 py-0.5 sm:py-1 rounded-full text-xs sm:text-sm font-medium bg-primary text-white flex-shrink-0">
-                  Premium
+                  {workspace ? planOf(workspace.company).name : ""}
                 </span>
               </div>
               <button onClick={handleSignOut} className="px-2 sm:px-3 md:px-4 py-1.5 sm:py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-xs sm:text-sm">
@@ -283,6 +283,29 @@ export const UserIcon: React.FC<IconProps> = ({
   </svg>
 );
 
+export const UsersIcon: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  width = 20,
+  height = 20,
+}) => (
+  <svg
+    width={width}
+    height={height}
+    className={className}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+    <circle cx="9" cy="7" r="4" />
+    <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
+    <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+  </svg>
+);
+
 export const BarChartIcon: React.FC<IconProps> = ({
   className = "w-5 h-5",
   width = 20,
@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { Button } from "./Button";
+import { Card, CardBody, CardHeader } from "./Card";
+import { Input } from "./Input";
+import { Select } from "./Select";
+import { DURATION_OPTIONS } from "@/lib/interviews/format";
+import type { Interview } from "@/types";
+
+export interface InterviewFormInput {
+  startsAt: string;
+  durationMinutes: number;
+  timeZone: string;
+  location: string;
+  interviewers: string[];
+}
+
+interface InterviewSchedulerProps {
+  candidateName: string;
+  /** Set when rescheduling; the form starts from its details. */
+  interview?: Interview;
+  /** `sendBookingLink` is set when the candidate should pick the time from the panel's availability. */
+  onSubmit: (input: InterviewFormInput, sendBookingLink: boolean) => void;
+  onClose: () => void;
+  isSaving: boolean;
+  errors: Record<string, string>;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Date and time inputs work in the browser's local time.
+const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const localTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const InterviewScheduler: React.FC<InterviewSchedulerProps> = ({
+  candidateName,
+  interview,
+  onSubmit,
+  onClose,
+  isSaving,
+  errors,
+}) => {
+  const start = interview ? new Date(interview.startsAt) : null;
+  const [date, setDate] = useState(start ? localDate(start) : "");
+  const [time, setTime] = useState(start ? localTime(start) : "");
+  const [duration, setDuration] = useState(String(interview?.durationMinutes ?? 45));
+  const [location, setLocation] = useState(interview?.location ?? "");
+  const [interviewers, setInterviewers] = useState(interview?.interviewers.join(", ") ?? "");
+  const [sendBookingLink, setSendBookingLink] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(
+      {
+        startsAt: date && time ? new Date(`${date}T${time}`).toISOString() : "",
+        durationMinutes: Number(duration),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        location,
+        interviewers: interviewers.split(/[\s,;]+/).filter(Boolean),
+      },
+      sendBookingLink
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <Card className="w-full max-w-lg bg-white">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-900">
+            {interview ? "Reschedule" : "Schedule"} Interview with {candidateName}
+          </h2>
+        </CardHeader>
+        <CardBody>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!interview && (
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input type="checkbox" checked={sendBookingLink} onChange={(e) => setSendBookingLink(e.target.checked)} />
+                Let the candidate pick a time
+              </label>
+            )}
+            {sendBookingLink ? (
+              <p className="text-sm text-gray-600">
+                {candidateName} gets a link to book any time in the next two weeks when every interviewer is available
+                and free. Interviewers set their availability in Account Settings.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} error={errors.startsAt} />
+                <Input label="Time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+              </div>
+            )}
+            <Select
+              label="Duration"
+              options={DURATION_OPTIONS}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              error={errors.durationMinutes}
+            />
+            <Input
+              label="Location"
+              placeholder="Meeting room, address or video call link"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              error={errors.location}
+            />
+            <Input
+              label="Interviewers"
+              placeholder="jane@company.com, sam@company.com"
+              value={interviewers}
+              onChange={(e) => setInterviewers(e.target.value)}
+              error={errors.interviewers}
+              helperText="The candidate and every interviewer get a calendar invite by email once the time is set."
+            />
+            {errors.form && <p className="text-sm text-red-600">{errors.form}</p>}
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="secondary" onClick={onClose}>
+                Close
+              </Button>
+              <Button type="submit" variant="primary" isLoading={isSaving}>
+                {interview ? "Send Updated Invite" : sendBookingLink ? "Send Booking Link" : "Send Invites"}
+              </Button>
+            </div>
+          </form>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from "react";
+import { KNOCKOUT_OPERATORS, SCALE_MAX, SCALE_MIN, defaultKnockout } from "@/lib/forms";
+import type { FormQuestion, KnockoutRule } from "@/types";
+
+interface KnockoutRuleEditorProps {
+  question: FormQuestion;
+  onChange: (knockout: KnockoutRule | undefined) => void;
+}
+
+export const KnockoutRuleEditor: React.FC<KnockoutRuleEditorProps> = ({ question, onChange }) => {
+  const operators = KNOCKOUT_OPERATORS[question.type];
+  if (!operators) return null;
+  const rule = question.knockout;
+  const options = (question.options ?? []).map((option) => option.trim()).filter(Boolean);
+
+  const renderRule = (rule: KnockoutRule) => {
+    switch (rule.operator) {
+      case "equals":
+        return (
+          <select
+            className="input py-1 w-auto"
+            value={rule.value ? "yes" : "no"}
+            onChange={(e) => onChange({ operator: "equals", value: e.target.value === "yes" })}
+          >
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        );
+      case "gte":
+      case "lte":
+        return (
+          <input
+            type="number"
+            className="input py-1 w-28"
+            min={question.type === "scale" ? SCALE_MIN : undefined}
+            max={question.type === "scale" ? SCALE_MAX : undefined}
+            value={Number.isNaN(rule.value) ? "" : rule.value}
+            onChange={(e) => onChange({ operator: rule.operator, value: e.target.valueAsNumber })}
+          />
+        );
+      case "one_of":
+      case "includes":
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {options.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.value.includes(option)}
+                  onChange={(e) =>
+                    onChange({
+                      operator: rule.operator,
+                      value: e.target.checked ? [...rule.value, option] : rule.value.filter((o) => o !== option),
+                    })
+                  }
+                />
+                {option}
+              </label>
+            ))}
+            {options.length === 0 && <span className="text-sm text-gray-500 italic">Add options first</span>}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="pt-3 border-t border-blue-200 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!rule}
+          onChange={(e) => onChange(e.target.checked ? defaultKnockout({ ...question, options }) : undefined)}
+        />
+        Knockout question
+      </label>
+      {rule && (
+        <div className="flex flex-wrap items-center gap-3">
+          {operators.length > 1 ? (
+            <select
+              className="input py-1 w-auto"
+              value={rule.operator}
+              onChange={(e) => onChange({ ...rule, operator: e.target.value } as KnockoutRule)}
+            >
+              {operators.map((operator) => (
+                <option key={operator.value} value={operator.value}>
+                  {operator.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-sm text-gray-700">{operators[0].label}</span>
+          )}
+          {renderRule(rule)}
+        </div>
+      )}
+      {rule && (
+        <p className="text-xs text-gray-500">
+          Candidates whose answer fails this rule are rejected before AI screening.
+        </p>
+      )}
+    </div>
+  );
+};
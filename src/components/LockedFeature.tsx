@@ -0,0 +1,44 @@
+import React from "react";
+import Link from "next/link";
+import { Button } from "./Button";
+import { Card, CardBody } from "./Card";
+import { FEATURE_LABELS, type Feature } from "@/lib/features";
+import { planWith } from "@/lib/plans";
+import { usePermission } from "@/lib/useWorkspace";
+
+interface LockedFeatureProps {
+  feature: Feature;
+  /** What the feature does, shown under its name. */
+  description: string;
+}
+
+/** Shown in place of a feature the plan doesn't include. Only members who manage billing get the upgrade button. */
+export const LockedFeature: React.FC<LockedFeatureProps> = ({ feature, description }) => {
+  const canManageBilling = usePermission("billing:manage");
+
+  return (
+    <Card className="border-blue-200 bg-blue-50">
+      <CardBody>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <h2 className="text-lg font-semibold text-blue-900">{FEATURE_LABELS[feature]}</h2>
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary text-white">
+                {planWith(feature).name}
+              </span>
+            </div>
+            <p className="text-sm text-blue-700 mt-1">
+              {description} Available on the {planWith(feature).name} plan and above.
+              {!canManageBilling && " Ask the workspace owner to upgrade the plan."}
+            </p>
+          </div>
+          {canManageBilling && (
+            <Link href="/profile" className="flex-shrink-0">
+              <Button variant="primary">Upgrade Plan</Button>
+            </Link>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
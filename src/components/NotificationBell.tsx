@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useNotifications } from "@/lib/useNotifications";
+import { BellIcon } from "./Icons";
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+export const NotificationBell: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isShaking, setIsShaking] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(() => {
+    setIsShaking(true);
+    setTimeout(() => setIsShaking(false), 600);
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        suppressHydrationWarning
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Notifications"
+        className={`p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors ${isShaking ? "animate-shake" : ""}`}
+      >
+        <BellIcon className="w-5 h-5" />
+      </button>
+      {unreadCount > 0 && (
+        <span className="absolute top-0 right-0 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white transform translate-x-1/2 -translate-y-1/2 bg-red-600 rounded-full min-w-[20px] pointer-events-none">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <p className="font-semibold text-gray-900">Notifications</p>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="text-sm text-primary hover:text-blue-900 disabled:text-gray-400 disabled:cursor-default"
+            >
+              Mark all as read
+            </button>
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <Link
+                  key={notification.id}
+                  href={notification.link}
+                  onClick={() => {
+                    markRead(notification.id);
+                    setIsOpen(false);
+                  }}
+                  className={`flex gap-3 px-4 py-3 hover:bg-gray-50 transition-colors ${notification.readAt ? "" : "bg-blue-50"}`}
+                >
+                  <span
+                    className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    <p className="text-sm text-gray-600 truncate">{notification.body}</p>
+                    <p className="text-xs text-gray-400 mt-1">{timeAgo(notification.createdAt)}</p>
+                  </div>
+                </Link>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { Badge } from "./Badge";
+import { DECISION_LABELS } from "@/lib/export/definitions";
+import { stageOf } from "@/lib/pipeline";
+import type { Application, PipelineStage, ScreeningDecision } from "@/types";
+
+interface PipelineBoardProps {
+  stages: PipelineStage[];
+  applications: Application[];
+  /** Omit to show the board read-only. */
+  onMove?: (applicationId: string, stageId: string) => void;
+  onSelect: (application: Application) => void;
+}
+
+const DECISION_VARIANTS: Record<ScreeningDecision, "success" | "danger" | "warning"> = {
+  qualified: "success",
+  not_qualified: "danger",
+  pending: "warning",
+};
+
+const COLUMN_ACCENTS: Record<PipelineStage["kind"], string> = {
+  open: "border-t-primary",
+  hired: "border-t-green-500",
+  rejected: "border-t-red-500",
+};
+
+export const PipelineBoard: React.FC<PipelineBoardProps> = ({ stages, applications, onMove, onSelect }) => {
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+
+  const handleDrop = (e: React.DragEvent, stageId: string) => {
+    e.preventDefault();
+    setDragOverId(null);
+    const applicationId = e.dataTransfer.getData("text/plain");
+    if (applicationId) onMove?.(applicationId, stageId);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {stages.map((stage) => {
+        const cards = applications.filter((app) => stageOf(app, stages).id === stage.id);
+        return (
+          <div
+            key={stage.id}
+            onDragOver={(e) => {
+              if (!onMove) return;
+              e.preventDefault();
+              setDragOverId(stage.id);
+            }}
+            onDragLeave={() => setDragOverId((current) => (current === stage.id ? null : current))}
+            onDrop={(e) => handleDrop(e, stage.id)}
+            className={`flex-shrink-0 w-64 rounded-lg border-t-4 ${COLUMN_ACCENTS[stage.kind]} transition-colors ${
+              dragOverId === stage.id ? "bg-blue-50" : "bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-2">
+              <p className="text-sm font-semibold text-gray-900">{stage.name}</p>
+              <span className="text-xs font-medium text-gray-500">{cards.length}</span>
+            </div>
+            <div className="space-y-2 px-2 pb-3 min-h-24">
+              {cards.map((app) => (
+                <div
+                  key={app.id}
+                  draggable={Boolean(onMove)}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("text/plain", app.id);
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                  onClick={() => onSelect(app)}
+                  className={`p-3 bg-white border border-gray-200 rounded-lg shadow-sm ${onMove ? "cursor-grab" : "cursor-pointer"} hover:border-primary transition-colors`}
+                >
+                  <p className="text-sm font-medium text-gray-900 truncate">{app.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{app.email}</p>
+                  <div className="flex items-center justify-between mt-2">
+                    <Badge variant={DECISION_VARIANTS[app.decision]}>{DECISION_LABELS[app.decision]}</Badge>
+                    {app.screening && <span className="text-xs text-gray-600">{app.screening.score}%</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { Button } from "./Button";
+import { MAX_STAGES, MAX_STAGE_NAME_LENGTH, STAGE_KIND_OPTIONS, newStage } from "@/lib/pipeline";
+import type { PipelineStage, StageKind } from "@/types";
+
+interface PipelineEditorProps {
+  stages: PipelineStage[];
+  onChange: (stages: PipelineStage[]) => void;
+  error?: string;
+}
+
+export const PipelineEditor: React.FC<PipelineEditorProps> = ({ stages, onChange, error }) => {
+  const [newName, setNewName] = useState("");
+
+  const update = (id: string, changes: Partial<PipelineStage>) =>
+    onChange(stages.map((stage) => (stage.id === id ? { ...stage, ...changes } : stage)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...stages];
+    const [stage] = next.splice(index, 1);
+    next.splice(index + offset, 0, stage);
+    onChange(next);
+  };
+
+  const add = () => {
+    if (!newName.trim()) return;
+    // New stages go before the hired and rejected ones, which usually end the pipeline.
+    const end = stages.findIndex((stage) => stage.kind !== "open");
+    const at = end === -1 ? stages.length : end;
+    onChange([...stages.slice(0, at), newStage(newName.trim()), ...stages.slice(at)]);
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        New applications start in the first stage. Drag cards on the board to move candidates between stages.
+      </p>
+      {stages.map((stage, idx) => (
+        <div key={stage.id} className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            className="input py-1.5 text-sm flex-1 min-w-40"
+            value={stage.name}
+            maxLength={MAX_STAGE_NAME_LENGTH}
+            onChange={(e) => update(stage.id, { name: e.target.value })}
+            aria-label={`Name of stage ${idx + 1}`}
+          />
+          <select
+            className="input py-1.5 text-sm w-36 cursor-pointer"
+            value={stage.kind}
+            onChange={(e) => update(stage.id, { kind: e.target.value as StageKind })}
+            aria-label={`Type of ${stage.name}`}
+          >
+            {STAGE_KIND_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-3 text-sm font-medium">
+            <button
+              type="button"
+              onClick={() => move(idx, -1)}
+              disabled={idx === 0}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-40"
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(idx, 1)}
+              disabled={idx === stages.length - 1}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-40"
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(stages.filter((s) => s.id !== stage.id))}
+              className="text-red-600 hover:text-red-700"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      {stages.length < MAX_STAGES && (
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            className="input py-1.5 text-sm flex-1"
+            value={newName}
+            maxLength={MAX_STAGE_NAME_LENGTH}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                add();
+              }
+            }}
+            placeholder="New stage name, e.g. Take-home Task"
+          />
+          <Button variant="secondary" size="sm" onClick={add} disabled={!newName.trim()}>
+            Add Stage
+          </Button>
+        </div>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from "react";
+import { conditionChoices, isConditionSource } from "@/lib/forms";
+import type { FormQuestion, QuestionCondition } from "@/types";
+
+interface QuestionConditionEditorProps {
+  question: FormQuestion;
+  /** Questions above this one; only those can control its visibility. */
+  earlier: FormQuestion[];
+  onChange: (showIf: QuestionCondition | undefined) => void;
+}
+
+export const QuestionConditionEditor: React.FC<QuestionConditionEditorProps> = ({ question, earlier, onChange }) => {
+  const sources = earlier.filter((q) => isConditionSource(q.type) && q.label.trim());
+  const condition = question.showIf;
+  const source = sources.find((q) => q.id === condition?.questionId);
+  if (sources.length === 0 && !condition) return null;
+
+  return (
+    <div className="pt-3 border-t border-blue-200 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!condition}
+          onChange={(e) =>
+            onChange(e.target.checked && sources[0] ? { questionId: sources[0].id, values: [] } : undefined)
+          }
+        />
+        Only show this question when...
+      </label>
+      {condition && (
+        <div className="space-y-2">
+          <select
+            className="input py-1"
+            value={source?.id ?? ""}
+            onChange={(e) => onChange({ questionId: e.target.value, values: [] })}
+          >
+            {!source && <option value="">Choose an earlier question</option>}
+            {sources.map((q) => (
+              <option key={q.id} value={q.id}>
+                {q.label}
+              </option>
+            ))}
+          </select>
+          {source && (
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              <span className="text-sm text-gray-700">is answered</span>
+              {conditionChoices(source)
+                .filter((choice) => choice.value.trim())
+                .map((choice) => (
+                  <label key={choice.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={condition.values.includes(choice.value)}
+                      onChange={(e) =>
+                        onChange({
+                          ...condition,
+                          values: e.target.checked
+                            ? [...condition.values, choice.value]
+                            : condition.values.filter((v) => v !== choice.value),
+                        })
+                      }
+                    />
+                    {choice.label}
+                  </label>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
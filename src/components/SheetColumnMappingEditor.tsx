@@ -0,0 +1,57 @@
+import React from "react";
+import { SHEET_FIELDS } from "@/lib/sheets/columns";
+import type { SheetColumnMapping } from "@/types";
+
+interface SheetColumnMappingEditorProps {
+  columns: SheetColumnMapping[];
+  onChange: (columns: SheetColumnMapping[]) => void;
+  error?: string;
+}
+
+export const SheetColumnMappingEditor: React.FC<SheetColumnMappingEditorProps> = ({ columns, onChange, error }) => {
+  const mappingOf = (fieldId: string) => columns.find((column) => column.field === fieldId);
+
+  // Columns keep the field list's order, whatever order they were ticked in.
+  const toggle = (fieldId: string, label: string) => {
+    const next = mappingOf(fieldId)
+      ? columns.filter((column) => column.field !== fieldId)
+      : [...columns, { field: fieldId, header: label }];
+    onChange(SHEET_FIELDS.flatMap((field) => next.filter((column) => column.field === field.id)));
+  };
+
+  const rename = (fieldId: string, header: string) =>
+    onChange(columns.map((column) => (column.field === fieldId ? { ...column, header } : column)));
+
+  return (
+    <div>
+      <label className="label">Sheet Columns</label>
+      <p className="text-sm text-gray-600 mb-3">
+        Pick the fields to sync and name their column headers. The first column always holds the application ID.
+      </p>
+      <div className="space-y-2">
+        {SHEET_FIELDS.map((field) => {
+          const mapping = mappingOf(field.id);
+          return (
+            <div key={field.id} className="flex items-center gap-3">
+              <label className="flex items-center gap-2 w-56 flex-shrink-0 text-sm text-gray-700">
+                <input type="checkbox" checked={!!mapping} onChange={() => toggle(field.id, field.label)} />
+                {field.label}
+              </label>
+              {mapping && (
+                <input
+                  type="text"
+                  className="input py-1.5 text-sm"
+                  value={mapping.header}
+                  onChange={(e) => rename(field.id, e.target.value)}
+                  placeholder={field.label}
+                  aria-label={`Column header for ${field.label}`}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
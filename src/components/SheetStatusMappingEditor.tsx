@@ -0,0 +1,107 @@
+import React from "react";
+import { Button } from "./Button";
+import { DECISION_LABELS } from "@/lib/export/definitions";
+import { MAX_STATUS_VALUES, defaultStatusColumn } from "@/lib/sheets/columns";
+import type { ScreeningDecision, SheetStatusColumn } from "@/types";
+
+interface SheetStatusMappingEditorProps {
+  /** Null while two-way sync is off. */
+  statusColumn: SheetStatusColumn | null;
+  onChange: (statusColumn: SheetStatusColumn | null) => void;
+  error?: string;
+}
+
+const DECISION_OPTIONS = (Object.keys(DECISION_LABELS) as ScreeningDecision[]).map((value) => ({
+  value,
+  label: DECISION_LABELS[value],
+}));
+
+export const SheetStatusMappingEditor: React.FC<SheetStatusMappingEditorProps> = ({ statusColumn, onChange, error }) => {
+  const updateValue = (index: number, changes: Partial<SheetStatusColumn["values"][number]>) =>
+    statusColumn &&
+    onChange({
+      ...statusColumn,
+      values: statusColumn.values.map((mapping, idx) => (idx === index ? { ...mapping, ...changes } : mapping)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={statusColumn !== null}
+          onChange={(e) => onChange(e.target.checked ? defaultStatusColumn() : null)}
+        />
+        <span>
+          <span className="label mb-0">Read statuses back from the sheet</span>
+          <span className="block text-sm text-gray-600">
+            Statuses hiring managers type into this column update the candidate&apos;s decision on the next sync.
+            If a status changed in both places, you&apos;ll be asked which one to keep.
+          </span>
+        </span>
+      </label>
+
+      {statusColumn && (
+        <div className="pl-6 space-y-3">
+          <div>
+            <label className="label">Status Column Header</label>
+            <input
+              type="text"
+              className="input"
+              value={statusColumn.header}
+              onChange={(e) => onChange({ ...statusColumn, header: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="label">Status Values</label>
+            <div className="space-y-2">
+              {statusColumn.values.map((mapping, idx) => (
+                <div key={idx} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    className="input"
+                    placeholder="e.g. Interview"
+                    value={mapping.value}
+                    onChange={(e) => updateValue(idx, { value: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-500 flex-shrink-0">means</span>
+                  <select
+                    className="input cursor-pointer"
+                    value={mapping.decision}
+                    onChange={(e) => updateValue(idx, { decision: e.target.value as ScreeningDecision })}
+                  >
+                    {DECISION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="p-2 text-gray-500 hover:text-red-600"
+                    onClick={() => onChange({ ...statusColumn, values: statusColumn.values.filter((_, i) => i !== idx) })}
+                    aria-label="Remove status value"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="mt-2"
+              disabled={statusColumn.values.length >= MAX_STATUS_VALUES}
+              onClick={() => onChange({ ...statusColumn, values: [...statusColumn.values, { value: "", decision: "qualified" }] })}
+            >
+              + Add Value
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -3,6 +3,10 @@
 import React from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/api-client";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { planOf } from "@/lib/plans";
+import { clearWorkspace, useWorkspace } from "@/lib/useWorkspace";
 import {
   DashboardIcon,
   BriefcaseIcon,
@@ -10,9 +14,19 @@ import {
   FileTextIcon,
   StarIcon,
   UserIcon,
+  UsersIcon,
   BarChartIcon,
 } from "./Icons";
 
+interface NavItem {
+  label: string;
+  href: string;
+  icon: React.FC<{ className?: string }>;
+  permission?: Permission;
+  /** Highlights the item on pages under this path instead of on `href` itself. */
+  activePrefix?: string;
+}
+
 interface SidebarProps {
   isOpen?: boolean;
 }
@@ -20,38 +34,53 @@ interface SidebarProps {
 export const Sidebar: React.FC<SidebarProps> = ({ isOpen = true }) => {
   const pathname = usePathname();
   const router = useRouter();
+  const workspace = useWorkspace();
 
-  const isActive = (path: string) => pathname === path;
+  const isActive = ({ href, activePrefix }: NavItem) =>
+    activePrefix ? pathname.startsWith(activePrefix) : pathname === href;
 
-  const handleSignOut = () => {
-    router.push("/");
+  const handleSignOut = async () => {
+    try {
+      await apiFetch("/api/auth/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Sign out failed:", err);
+    }
+    clearWorkspace();
+    router.replace("/");
+    router.refresh();
   };
 
-  const navItems = [
+  const navItems: NavItem[] = [
     { label: "Dashboard", href: "/dashboard", icon: DashboardIcon },
     { label: "Active Jobs", href: "/jobs", icon: BriefcaseIcon },
-    { label: "Create Job", href: "/jobs/new", icon: PlusIcon },
-    { label: "Applications", href: "/applications/1", icon: FileTextIcon },
+    { label: "Create Job", href: "/jobs/new", icon: PlusIcon, permission: "jobs:manage" },
+    // Applications are per job, so the item opens the job list to pick one from.
+    { label: "Applications", href: "/jobs", icon: FileTextIcon, activePrefix: "/applications/" },
     { label: "Shortlisted", href: "/candidates", icon: StarIcon },
-    { label: "Usage Tracking", href: "/usage", icon: BarChartIcon },
+    { label: "Usage Tracking", href: "/usage", icon: BarChartIcon, permission: "settings:manage" },
+    { label: "Team", href: "/team", icon: UsersIcon, permission: "team:manage" },
     { label: "Profile", href: "/profile", icon: UserIcon },
   ];
+  // Items needing a permission stay hidden until the workspace loads.
+  const visibleItems = navItems.filter(
+    ({ permission }) => !permission || (workspace && hasPermission(workspace.user, permission))
+  );
 
   return (
     <aside className={`fixed left-0 top-14 sm:top-16 w-64 bg-white border-r border-gray-200 h-[calc(100vh-56px)] sm:h-[calc(100vh-64px)] overflow-y-auto z-30 transition-transform duration-300 ${isOpen ? "translate-x-0" : "-translate-x-full"} md:translate-x-0`}>
       <nav className="px-4 space-y-2 pt-6 pb-40 md:pb-0">
-        {navItems.map((item) => {
+        {visibleItems.map((item) => {
           const Icon = item.icon;
           return (
-            <Link key={item.href} href={item.href}>
+            <Link key={item.label} href={item.href}>
               <div
                 className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
-                  isActive(item.href)
+                  isActive(item)
                     ? "bg-blue-50 text-primary font-medium"
                     : "text-gray-700 hover:bg-gray-50"
                 }`}
               >
-                <Icon className={`w-5 h-5 ${isActive(item.href) ? "text-primary" : "text-gray-400"}`} />
+                <Icon className={`w-5 h-5 ${isActive(item) ? "text-primary" : "text-gray-400"}`} />
                 <span>{item.label}</span>
               </div>
             </Link>
@@ -64,7 +93,9 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen = true }) => {
         <div className="md:hidden space-y-2 mb-4 pb-4 border-b border-gray-200">
           <Link href="/profile" className="flex items-center  px-4 py-3 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors">
             <span className="flex-1">Subscription Plan</span>
-            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary text-white">Pro</span>
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary text-white">
+              {workspace ? planOf(workspace.company).name : ""}
+            </span>
           </Link>
           <button onClick={handleSignOut} className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors text-left">
             <span className="flex-1">Sign Out</span>
@@ -74,7 +105,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen = true }) => {
         {/* Company Info */}
         <div className="text-xs text-gray-600">
           <p className="font-medium mb-2">Company</p>
-          <p className="font-semibold text-gray-900">Acme Corporation</p>
+          <p className="font-semibold text-gray-900">{workspace?.company.name}</p>
           <p className="text-xs text-gray-500 mt-2">Powered by DeepScale Technologies</p>
         </div>
       </div>
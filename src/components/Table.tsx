@@ -52,11 +52,13 @@ interface TableCellProps {
   className?: string;
   children: React.ReactNode;
   isHeader?: boolean;
+  colSpan?: number;
 }
 
 export const TableCell: React.FC<TableCellProps> = ({
   className = "",
   isHeader = false,
+  colSpan,
   children,
 }) => {
   const Tag = isHeader ? "th" : "td";
@@ -65,6 +67,6 @@ export const TableCell: React.FC<TableCellProps> = ({
     : "px-6 py-4 text-gray-900";
 
   return (
-    <Tag className={`${baseClass} ${className}`.trim()}>{children}</Tag>
+    <Tag className={`${baseClass} ${className}`.trim()} colSpan={colSpan}>{children}</Tag>
   );
 };
@@ -0,0 +1,37 @@
+import React from "react";
+import Link from "next/link";
+import { Button } from "./Button";
+import { Card, CardBody } from "./Card";
+import { usePermission } from "@/lib/useWorkspace";
+
+interface UpgradePromptProps {
+  title: string;
+  /** Why the plan stops the member, usually the API's 402 message. */
+  message: string;
+}
+
+/** Shown when the plan's limits block an action. Only members who manage billing get the upgrade button. */
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ title, message }) => {
+  const canManageBilling = usePermission("billing:manage");
+
+  return (
+    <Card className="border-red-200 bg-red-50">
+      <CardBody>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-red-900">{title}</h2>
+            <p className="text-sm text-red-700 mt-1">
+              {message}
+              {!canManageBilling && " Ask the workspace owner to upgrade the plan."}
+            </p>
+          </div>
+          {canManageBilling && (
+            <Link href="/profile" className="flex-shrink-0">
+              <Button variant="primary">Upgrade Plan</Button>
+            </Link>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
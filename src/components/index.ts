@@ -5,6 +5,21 @@ export { Badge } from "./Badge";
 export { Card, CardHeader, CardBody, CardFooter } from "./Card";
 export { Table, TableHead, TableBody, TableRow, TableCell } from "./Table";
 export { Select } from "./Select";
+export { ApplicationEmails } from "./ApplicationEmails";
+export { AvailabilityEditor } from "./AvailabilityEditor";
+export { CriteriaEditor } from "./CriteriaEditor";
+export { ExportMenu } from "./ExportMenu";
+export { FormQuestionField } from "./FormQuestionField";
+export { InterviewScheduler } from "./InterviewScheduler";
+export { KnockoutRuleEditor } from "./KnockoutRuleEditor";
+export { NotificationBell } from "./NotificationBell";
+export { PipelineBoard } from "./PipelineBoard";
+export { PipelineEditor } from "./PipelineEditor";
+export { QuestionConditionEditor } from "./QuestionConditionEditor";
+export { SheetColumnMappingEditor } from "./SheetColumnMappingEditor";
+export { SheetStatusMappingEditor } from "./SheetStatusMappingEditor";
+export { UpgradePrompt } from "./UpgradePrompt";
+export { LockedFeature } from "./LockedFeature";
 export { Header } from "./Header";
 export { DashboardLayout } from "./DashboardLayout";
 export { AuthLayout } from "./AuthLayout";
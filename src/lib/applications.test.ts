@@ -0,0 +1,83 @@
+import { DAY_MS, seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { submitApplication } from "@/lib/applications";
+import { HttpError } from "@/lib/http";
+import { createJob, parseJobInput } from "@/lib/jobs";
+import { setMailTransport } from "@/lib/mail";
+
+// Confirmation emails aren't under test here.
+setMailTransport({ async send() {} });
+
+const day = (offset: number) => new Date(Date.now() + offset * DAY_MS).toISOString().slice(0, 10);
+
+// An open job asking whether the candidate works remotely, and which office they'd use if not.
+async function openJob(): Promise<string> {
+  const companyId = await seedCompany("standard");
+  const job = await createJob(
+    companyId,
+    parseJobInput({
+      title: "Frontend Developer",
+      department: "engineering",
+      location: "London",
+      positions: 1,
+      requirements: "3+ years of React",
+      applicationOpenDate: day(-1),
+      applicationOpenTime: "09:00",
+      applicationCloseDate: day(30),
+      applicationCloseTime: "17:00",
+      form: {
+        questions: [
+          { id: "remote", label: "Do you want to work remotely?", type: "yes_no" },
+          {
+            id: "office",
+            label: "Which office?",
+            type: "single_select",
+            options: ["London", "Berlin"],
+            showIf: { questionId: "remote", values: ["no"] },
+          },
+        ],
+      },
+    })
+  );
+  return job.id;
+}
+
+function application(answers: Record<string, string>): FormData {
+  const form = new FormData();
+  form.set("fullName", "Ada Lovelace");
+  form.set("email", "ada@example.test");
+  form.set("phone", "+44 20 7946 0000");
+  form.set("cv", new File(["Five years of React and TypeScript."], "cv.pdf", { type: "application/pdf" }));
+  for (const [questionId, value] of Object.entries(answers)) form.set(`q_${questionId}`, value);
+  return form;
+}
+
+const fieldErrors = async (jobId: string, answers: Record<string, string>) => {
+  try {
+    await submitApplication(jobId, application(answers));
+  } catch (error) {
+    assert.ok(error instanceof HttpError);
+    return error.fieldErrors;
+  }
+  assert.fail("expected the application to be rejected");
+};
+
+describe("conditional questions on submission", () => {
+  test("are required once the answers show them", async () => {
+    const jobId = await openJob();
+    assert.deepEqual(await fieldErrors(jobId, { remote: "no" }), { q_office: "Please answer this question" });
+    assert.deepEqual(await fieldErrors(jobId, { remote: "no", office: "Paris" }), {
+      q_office: "Please choose one of the options",
+    });
+  });
+
+  test("are neither validated nor stored while hidden", async () => {
+    const jobId = await openJob();
+    const submitted = await submitApplication(jobId, application({ remote: "yes", office: "Paris" }));
+    assert.deepEqual(
+      submitted.answers.map(({ questionId, value }) => ({ questionId, value })),
+      [{ questionId: "remote", value: true }]
+    );
+  });
+});
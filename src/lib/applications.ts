@@ -0,0 +1,276 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { mutateDb, readDb } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { formatJobTime, jobTimeZone, opensAt, scheduledStatus } from "@/lib/job-schedule";
+import { findJob } from "@/lib/jobs";
+import {
+  type AnswerInput,
+  answerField,
+  isStoredFile,
+  toAnswerValue,
+  validateAnswer,
+  visibleQuestions,
+} from "@/lib/forms";
+import { queueApplicationEmail } from "@/lib/mail";
+import { notifyApplicationReceived } from "@/lib/notifications";
+import { jobPipeline, stageOf } from "@/lib/pipeline";
+import { getBlobStore } from "@/lib/storage";
+import { checkUsageAlerts, hasQuota, recordUsage } from "@/lib/usage";
+import { validateCV, validateEmail, validateFullName, validatePhone } from "@/lib/validation";
+import type {
+  Application,
+  ApplicationAnswer,
+  Candidate,
+  FormQuestion,
+  Job,
+  PublicUser,
+  StageTransition,
+  StoredFile,
+} from "@/types";
+
+const field = (form: FormData, name: string) => {
+  const value = form.get(name);
+  return typeof value === "string" ? value.trim() : "";
+};
+
+// Unanswered questions come back as null. An empty file input still posts a
+// nameless, zero-byte File, and multiple choice posts one entry per option.
+const fieldValue = (form: FormData, question: FormQuestion): AnswerInput => {
+  const name = answerField(question);
+  if (question.type === "multi_select") {
+    const picked = form.getAll(name).filter((value): value is string => typeof value === "string" && value !== "");
+    return picked.length > 0 ? picked : null;
+  }
+  const value = form.get(name);
+  if (value instanceof File) return value.name || value.size > 0 ? value : null;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+};
+
+async function storeFile(prefix: string, file: File): Promise<StoredFile> {
+  const fileName = path.basename(file.name);
+  const key = `${prefix}/${fileName.replace(/[^\w.\-]+/g, "_")}`;
+  const contentType = file.type || "application/octet-stream";
+  await getBlobStore().put(key, Buffer.from(await file.arrayBuffer()), contentType);
+  return { key, fileName, contentType, size: file.size };
+}
+
+// Checks the job's dates as well as its status, so applications are turned
+// away on time even before the scheduler has caught up.
+export function assertAcceptingApplications(job: Job, now = new Date()): void {
+  const status = job.status === "Closed" ? "Closed" : scheduledStatus(job, now);
+  if (status === "Scheduled") {
+    throw new HttpError(409, `This job opens for applications on ${formatJobTime(opensAt(job), jobTimeZone(job))}`);
+  }
+  if (status === "Closed") {
+    throw new HttpError(409, "This job is no longer accepting applications");
+  }
+}
+
+const HELD_REASON = "On hold: this billing period's application reviews are used up";
+
+/**
+ * Accepts an application. Candidates can always apply, but once the plan's
+ * application reviews for the period are used up the application is held
+ * instead of counted, and nobody is notified or screens it until
+ * `releaseHeldApplications` lets it through.
+ */
+export async function submitApplication(jobId: string, form: FormData): Promise<Application> {
+  const job = findJob(await readDb(), jobId);
+  assertAcceptingApplications(job);
+
+  const name = field(form, "fullName");
+  const email = field(form, "email");
+  const phone = field(form, "phone");
+  const cvEntry = form.get("cv");
+  const cv = cvEntry instanceof File ? cvEntry : null;
+
+  const errors: Record<string, string> = {
+    fullName: validateFullName(name),
+    email: validateEmail(email),
+    phone: validatePhone(phone),
+    cv: validateCV(cv),
+  };
+  // Questions hidden by the applicant's other answers are neither validated nor stored.
+  const inputs = new Map(job.form.questions.map((question) => [question.id, fieldValue(form, question)]));
+  const values = visibleQuestions(job.form.questions, (questionId) => inputs.get(questionId)).map((question) => {
+    const value = inputs.get(question.id) ?? null;
+    errors[answerField(question)] = validateAnswer(question, value);
+    return { question, value };
+  });
+
+  const fieldErrors = Object.fromEntries(Object.entries(errors).filter(([, message]) => message));
+  if (Object.keys(fieldErrors).length > 0 || !cv) {
+    throw new HttpError(400, "Please fix the highlighted fields", fieldErrors);
+  }
+
+  const id = randomUUID();
+  const stored: StoredFile[] = [];
+  const answers: ApplicationAnswer[] = [];
+  let cvFile: StoredFile;
+  try {
+    cvFile = await storeFile(`cv/${id}`, cv);
+    stored.push(cvFile);
+    for (const { question, value } of values) {
+      if (value === null) continue;
+      let answerValue: ApplicationAnswer["value"];
+      if (value instanceof File) {
+        answerValue = await storeFile(`answers/${id}/${question.id}`, value);
+        stored.push(answerValue);
+      } else {
+        answerValue = toAnswerValue(question, value);
+      }
+      answers.push({ questionId: question.id, question: question.label, type: question.type, value: answerValue });
+    }
+  } catch (error) {
+    await Promise.all(stored.map((file) => getBlobStore().delete(file.key)));
+    throw error;
+  }
+
+  const appliedAt = new Date().toISOString();
+  const firstStage = jobPipeline(job)[0];
+  const application: Application = {
+    id,
+    companyId: job.companyId,
+    jobId,
+    name,
+    email,
+    phone,
+    cv: cvFile,
+    answers,
+    decision: "pending",
+    reason: "Awaiting AI screening",
+    missingRequirements: [],
+    stageId: firstStage.id,
+    stageHistory: [{ from: null, to: firstStage.id, at: appliedAt, actor: null }],
+    appliedAt,
+  };
+
+  try {
+    await mutateDb((db) => {
+      if (hasQuota(db, job.companyId, "application_reviews")) {
+        recordUsage(db, job.companyId, "application_reviews", `${name} for ${job.title}`);
+      } else {
+        Object.assign(application, { heldAt: appliedAt, reason: HELD_REASON });
+      }
+      db.applications.push(application);
+      // A saved draft for this application is no longer needed.
+      db.drafts = db.drafts.filter((draft) => !(draft.jobId === jobId && draft.email === email.toLowerCase()));
+    });
+  } catch (error) {
+    await Promise.all(stored.map((file) => getBlobStore().delete(file.key)));
+    throw error;
+  }
+  if (!application.heldAt) await notifyApplicationReceived(job, application);
+  await checkUsageAlerts(job.companyId);
+  await queueApplicationEmail(job.companyId, id, "application_received").catch((error) =>
+    console.error("Failed to queue the confirmation email:", error)
+  );
+  return application;
+}
+
+/** Moves an application to another stage of its job's pipeline and records the transition. */
+export function moveApplication(
+  application: Application,
+  job: Job,
+  stageId: string,
+  actor: StageTransition["actor"]
+): void {
+  const pipeline = jobPipeline(job);
+  const from = stageOf(application, pipeline).id;
+  if (from === stageId) return;
+  application.stageId = stageId;
+  application.stageHistory = [
+    ...(application.stageHistory ?? []),
+    { from, to: stageId, at: new Date().toISOString(), actor },
+  ];
+}
+
+export function changeApplicationStage(user: PublicUser, applicationId: string, stageId: unknown): Promise<Application> {
+  return mutateDb((db) => {
+    const application = db.applications.find((app) => app.id === applicationId && app.companyId === user.companyId);
+    if (!application) throw notFound("Application not found");
+    const job = findJob(db, application.jobId, user.companyId);
+    const stage = jobPipeline(job).find((s) => s.id === stageId);
+    if (!stage) throw new HttpError(400, "Please choose one of the job's stages", { stageId: "Unknown stage" });
+    moveApplication(application, job, stage.id, { userId: user.id, email: user.email });
+    return application;
+  });
+}
+
+/**
+ * Counts held applications against the plan, oldest first, for as long as it
+ * has room, and returns the ones released so they can be screened. Runs
+ * whenever a member loads the workspace, so upgrading or a new billing period
+ * lets them through.
+ */
+export async function releaseHeldApplications(companyId: string): Promise<Application[]> {
+  if (!(await readDb()).applications.some((app) => app.companyId === companyId && app.heldAt)) return [];
+  const released = await mutateDb((db) => {
+    const held = db.applications
+      .filter((app) => app.companyId === companyId && app.heldAt)
+      .sort((a, b) => a.appliedAt.localeCompare(b.appliedAt));
+    const released: Application[] = [];
+    for (const application of held) {
+      if (!hasQuota(db, companyId, "application_reviews")) break;
+      const job = findJob(db, application.jobId);
+      recordUsage(db, companyId, "application_reviews", `${application.name} for ${job.title}`);
+      Object.assign(application, { heldAt: undefined, reason: "Awaiting AI screening" });
+      released.push(application);
+    }
+    return released;
+  });
+  if (released.length > 0) await checkUsageAlerts(companyId);
+  return released;
+}
+
+export async function listApplications(companyId: string, jobId: string): Promise<Application[]> {
+  const db = await readDb();
+  findJob(db, jobId, companyId);
+  return db.applications
+    .filter((app) => app.jobId === jobId && app.companyId === companyId && !app.heldAt)
+    .sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+}
+
+export async function getApplication(companyId: string, applicationId: string): Promise<Application> {
+  const db = await readDb();
+  const application = db.applications.find(
+    (app) => app.id === applicationId && app.companyId === companyId && !app.heldAt
+  );
+  if (!application) throw notFound("Application not found");
+  return application;
+}
+
+export async function getApplicationCv(companyId: string, applicationId: string) {
+  const application = await getApplication(companyId, applicationId);
+  const data = await getBlobStore().get(application.cv.key);
+  if (!data) throw notFound("CV file not found");
+  return { file: application.cv, data };
+}
+
+export async function getAnswerFile(companyId: string, applicationId: string, questionId: string) {
+  const application = await getApplication(companyId, applicationId);
+  const value = application.answers.find((answer) => answer.questionId === questionId)?.value;
+  if (value === undefined || !isStoredFile(value)) throw notFound("File not found");
+  const file = value;
+  const data = await getBlobStore().get(file.key);
+  if (!data) throw notFound("File not found");
+  return { file, data };
+}
+
+export async function listCandidates(companyId: string): Promise<Candidate[]> {
+  const db = await readDb();
+  const jobTitles = new Map(db.jobs.map((job) => [job.id, job.title]));
+  return db.applications
+    .filter((app) => app.companyId === companyId && app.decision === "qualified")
+    .sort((a, b) => b.appliedAt.localeCompare(a.appliedAt))
+    .map((app) => ({
+      id: app.id,
+      name: app.name,
+      email: app.email,
+      jobId: app.jobId,
+      jobRole: jobTitles.get(app.jobId) ?? "",
+      decision: app.decision,
+      addedDate: app.appliedAt,
+    }));
+}
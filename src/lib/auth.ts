@@ -0,0 +1,183 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { mutateDb, readDb } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { type Permission, canViewJob, hasPermission } from "@/lib/permissions";
+import { validateEmail } from "@/lib/validation";
+import type { Company, PublicUser, User } from "@/types";
+
+export const SESSION_COOKIE = "recruitai_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt}:${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const key = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(key, expected);
+}
+
+// Only a hash of the session token is stored, so a leaked data file can't be replayed as cookies.
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export const toPublicUser = ({ passwordHash: _passwordHash, ...user }: User): PublicUser => ({
+  ...user,
+  role: user.role ?? "owner",
+  jobIds: user.jobIds ?? [],
+});
+
+export const validatePassword = (password: string): string => {
+  if (!password) return "Password is required";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return "";
+};
+
+export async function createAccount(input: {
+  email: string;
+  password: string;
+  confirmPassword: string;
+  companyName: string;
+}): Promise<PublicUser> {
+  const email = input.email.trim().toLowerCase();
+  const companyName = input.companyName.trim();
+  const errors: Record<string, string> = {
+    email: validateEmail(email),
+    password: validatePassword(input.password),
+    confirmPassword: input.password !== input.confirmPassword ? "Passwords do not match" : "",
+    companyName: companyName ? "" : "Company name is required",
+  };
+  const fieldErrors = Object.fromEntries(Object.entries(errors).filter(([, message]) => message));
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", fieldErrors);
+  }
+
+  const passwordHash = await hashPassword(input.password);
+  return mutateDb((db) => {
+    if (db.users.some((user) => user.email === email)) {
+      throw new HttpError(409, "An account with this email already exists", {
+        email: "An account with this email already exists",
+      });
+    }
+    const now = new Date().toISOString();
+    const company: Company = {
+      id: randomUUID(),
+      name: companyName,
+      email,
+      industry: "",
+      website: "",
+      createdAt: now,
+    };
+    const user: User = {
+      id: randomUUID(),
+      email,
+      companyId: company.id,
+      passwordHash,
+      role: "owner",
+      createdAt: now,
+    };
+    db.companies.push(company);
+    db.users.push(user);
+    return toPublicUser(user);
+  });
+}
+
+export async function authenticate(email: string, password: string): Promise<PublicUser> {
+  const db = await readDb();
+  const user = db.users.find((u) => u.email === email.trim().toLowerCase());
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new HttpError(401, "Invalid email or password");
+  }
+  return toPublicUser(user);
+}
+
+export async function startSession(userId: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_TTL_MS);
+
+  await mutateDb((db) => {
+    db.sessions = db.sessions.filter((session) => new Date(session.expiresAt).getTime() > now);
+    db.sessions.push({
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+  });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function endSession(): Promise<void> {
+  const store = await cookies();
+  const token = store.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const tokenHash = hashToken(token);
+    await mutateDb((db) => {
+      db.sessions = db.sessions.filter((session) => session.tokenHash !== tokenHash);
+    });
+  }
+  store.delete(SESSION_COOKIE);
+}
+
+export async function getUserForToken(token: string | undefined): Promise<PublicUser | null> {
+  if (!token) return null;
+  const db = await readDb();
+  const tokenHash = hashToken(token);
+  const session = db.sessions.find((s) => s.tokenHash === tokenHash);
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+  const user = db.users.find((u) => u.id === session.userId);
+  return user ? toPublicUser(user) : null;
+}
+
+export async function getCurrentUser(): Promise<PublicUser | null> {
+  return getUserForToken((await cookies()).get(SESSION_COOKIE)?.value);
+}
+
+/** The signed-in user, who must have `permission` when one is given. */
+export async function requireUser(permission?: Permission): Promise<PublicUser> {
+  const user = await getCurrentUser();
+  if (!user) throw new HttpError(401, "Please sign in to continue");
+  if (permission && !hasPermission(user, permission)) {
+    throw new HttpError(403, "Your role doesn't allow this. Ask an admin for access.");
+  }
+  return user;
+}
+
+// Jobs a hiring manager isn't assigned to are reported as not found, like
+// another workspace's.
+export function requireJobAccess(user: PublicUser, jobId: string): void {
+  if (!canViewJob(user, jobId)) throw notFound("Job not found");
+}
+
+/**
+ * Checks the user can see the job behind an application, interview or
+ * booking link. Missing records are left for the handler to report.
+ */
+export async function requireRecordAccess(
+  user: PublicUser,
+  records: "applications" | "interviews" | "bookingLinks",
+  id: string
+): Promise<void> {
+  if (user.role !== "hiring_manager") return;
+  const record = (await readDb())[records].find((r) => r.id === id && r.companyId === user.companyId);
+  if (record && !canViewJob(user, record.jobId)) throw notFound();
+}
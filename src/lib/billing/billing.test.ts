@@ -0,0 +1,153 @@
+import { seedCompany, DAY_MS } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { mutateDb, readDb } from "@/lib/db";
+import { billingPeriod, periodAt } from "@/lib/usage";
+import type { Subscription } from "@/types";
+import { FakePaymentProvider, changePlan, endPeriodNow, setPaymentProvider, settleSubscription } from ".";
+
+const fake = new FakePaymentProvider();
+setPaymentProvider(fake);
+
+async function subscription(companyId: string): Promise<Subscription> {
+  const found = (await readDb()).subscriptions.find((s) => s.companyId === companyId);
+  assert.ok(found);
+  return found;
+}
+
+const invoices = async (companyId: string) => (await readDb()).invoices.filter((i) => i.companyId === companyId);
+
+function updateSubscription(companyId: string, changes: Partial<Subscription>): Promise<void> {
+  return mutateDb((db) => {
+    Object.assign(db.subscriptions.find((s) => s.companyId === companyId)!, changes);
+  });
+}
+
+// Subscribes with a trial, then moves it to a paid period that started 10 days ago and has 20 to go.
+async function activeSubscription(planId: string): Promise<string> {
+  const companyId = await seedCompany();
+  await changePlan(companyId, { planId, billingCycle: "monthly", paymentMethodId: "pm_test_success" });
+  const now = Date.now();
+  await updateSubscription(companyId, {
+    status: "active",
+    trialEndsAt: undefined,
+    currentPeriodStart: new Date(now - 10 * DAY_MS).toISOString(),
+    currentPeriodEnd: new Date(now + 20 * DAY_MS).toISOString(),
+  });
+  return companyId;
+}
+
+describe("periods", () => {
+  test("count whole months from the anchor, so a month-end anchor comes back after February", () => {
+    const anchor = new Date("2026-01-31T12:00:00.000Z");
+    const february = periodAt(anchor, 1, Date.parse("2026-02-15T00:00:00.000Z"));
+    assert.equal(february.start.toISOString(), "2026-01-31T12:00:00.000Z");
+    assert.equal(february.end.toISOString(), "2026-02-28T12:00:00.000Z");
+    const march = periodAt(anchor, 1, Date.parse("2026-03-05T00:00:00.000Z"));
+    assert.equal(march.start.toISOString(), "2026-02-28T12:00:00.000Z");
+    assert.equal(march.end.toISOString(), "2026-03-31T12:00:00.000Z");
+  });
+
+  test("meter usage from the subscription's billing period", async () => {
+    const companyId = await activeSubscription("standard");
+    const db = await readDb();
+    const company = db.companies.find((c) => c.id === companyId)!;
+    assert.deepEqual(billingPeriod(db, company), {
+      start: (await subscription(companyId)).currentPeriodStart,
+      end: (await subscription(companyId)).currentPeriodEnd,
+    });
+  });
+});
+
+describe("plan changes", () => {
+  test("start with a free trial", async () => {
+    const companyId = await seedCompany();
+    await changePlan(companyId, { planId: "pro", billingCycle: "monthly", paymentMethodId: "pm_test_success" });
+    const trial = await subscription(companyId);
+    assert.equal(trial.status, "trialing");
+    assert.equal(Date.parse(trial.currentPeriodEnd) - Date.parse(trial.currentPeriodStart), 14 * DAY_MS);
+    assert.deepEqual(await invoices(companyId), []);
+  });
+
+  test("charge an upgrade for the rest of the period, less the unused part of the old plan", async () => {
+    const companyId = await activeSubscription("standard");
+    await changePlan(companyId, { planId: "pro", billingCycle: "monthly" });
+    const [invoice] = await invoices(companyId);
+    // Two thirds of $99 less two thirds of $49.
+    assert.ok(Math.abs(invoice.amount - 3333) <= 1, `charged ${invoice.amount}`);
+    assert.equal(invoice.status, "paid");
+    assert.equal((await subscription(companyId)).planId, "pro");
+  });
+
+  test("leave a downgrade's difference as credit", async () => {
+    const companyId = await activeSubscription("pro");
+    await changePlan(companyId, { planId: "standard", billingCycle: "monthly" });
+    assert.deepEqual(await invoices(companyId), []);
+    const downgraded = await subscription(companyId);
+    assert.equal(downgraded.planId, "standard");
+    assert.ok(Math.abs(downgraded.creditBalance - 3333) <= 1, `credited ${downgraded.creditBalance}`);
+  });
+
+  test("refund the charge when the subscription changed while it was being made", async () => {
+    const companyId = await activeSubscription("standard");
+    setPaymentProvider({
+      name: "racing",
+      testPaymentMethods: fake.testPaymentMethods,
+      attachPaymentMethod: (customerId, paymentMethodId) => fake.attachPaymentMethod(customerId, paymentMethodId),
+      async charge(request) {
+        const result = await fake.charge(request);
+        await updateSubscription(companyId, { updatedAt: new Date().toISOString() });
+        return result;
+      },
+      refund: (chargeId) => fake.refund(chargeId),
+    });
+    try {
+      await assert.rejects(changePlan(companyId, { planId: "pro", billingCycle: "monthly" }), { status: 409 });
+    } finally {
+      setPaymentProvider(fake);
+    }
+    const [invoice] = await invoices(companyId);
+    assert.equal(invoice.status, "refunded");
+    assert.ok(fake.refunds.has(invoice.chargeId!));
+    assert.equal((await subscription(companyId)).planId, "standard");
+  });
+});
+
+describe("renewals", () => {
+  test("charge the first period when the trial ends", async () => {
+    const companyId = await seedCompany();
+    await changePlan(companyId, { planId: "standard", billingCycle: "monthly", paymentMethodId: "pm_test_success" });
+    await endPeriodNow(companyId);
+    const renewed = await subscription(companyId);
+    assert.equal(renewed.status, "active");
+    assert.deepEqual(
+      (await invoices(companyId)).map((i) => [i.amount, i.status]),
+      [[4900, "paid"]]
+    );
+  });
+
+  test("keep ending on the anchor's day after a shorter month", async () => {
+    const companyId = await activeSubscription("standard");
+    await updateSubscription(companyId, {
+      billingAnchor: "2026-01-31T12:00:00.000Z",
+      currentPeriodStart: "2026-01-31T12:00:00.000Z",
+      currentPeriodEnd: "2026-02-28T12:00:00.000Z",
+    });
+    await settleSubscription(companyId, Date.parse("2026-03-01T00:00:00.000Z"));
+    assert.equal((await subscription(companyId)).currentPeriodEnd, "2026-03-31T12:00:00.000Z");
+    await settleSubscription(companyId, Date.parse("2026-05-01T00:00:00.000Z"));
+    const renewed = await subscription(companyId);
+    assert.equal(renewed.currentPeriodStart, "2026-04-30T12:00:00.000Z");
+    assert.equal(renewed.currentPeriodEnd, "2026-05-31T12:00:00.000Z");
+    assert.equal((await invoices(companyId)).length, 3);
+  });
+
+  test("leave the subscription past due when the payment is declined", async () => {
+    const companyId = await seedCompany();
+    await changePlan(companyId, { planId: "standard", billingCycle: "monthly", paymentMethodId: "pm_test_renewal_declined" });
+    await endPeriodNow(companyId);
+    const pastDue = await subscription(companyId);
+    assert.equal(pastDue.status, "past_due");
+    assert.equal((await invoices(companyId))[0].status, "failed");
+  });
+});
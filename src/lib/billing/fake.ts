@@ -0,0 +1,49 @@
+import { randomUUID } from "crypto";
+import type { PaymentMethod } from "@/types";
+import type { ChargeRequest, ChargeResult, PaymentProvider } from "./types";
+
+const SUCCEEDS = "pm_test_success";
+const DECLINED = "pm_test_declined";
+const RENEWAL_DECLINED = "pm_test_renewal_declined";
+
+/**
+ * Takes no money. Its test payment methods decide the outcome: one always
+ * succeeds, one is always declined, and one pays for plan changes but is
+ * declined on renewal, which leaves the subscription past due.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  readonly testPaymentMethods: PaymentMethod[] = [
+    { id: SUCCEEDS, label: "Test card ending 4242 (payments succeed)" },
+    { id: DECLINED, label: "Test card ending 0002 (payments are declined)" },
+    { id: RENEWAL_DECLINED, label: "Test card ending 0341 (renewals are declined)" },
+  ];
+
+  private charges = new Map<string, ChargeResult>();
+  readonly refunds = new Set<string>();
+
+  async attachPaymentMethod(_customerId: string, paymentMethodId: string): Promise<PaymentMethod> {
+    const method = this.testPaymentMethods.find((m) => m.id === paymentMethodId);
+    if (!method) throw new Error("Unknown payment method");
+    return method;
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const previous = this.charges.get(request.idempotencyKey);
+    if (previous) return previous;
+    const declined =
+      request.paymentMethodId === DECLINED || (request.paymentMethodId === RENEWAL_DECLINED && request.reason === "renewal");
+    const result: ChargeResult = declined
+      ? { ok: false, reason: "Your card was declined" }
+      : { ok: true, chargeId: `ch_test_${randomUUID()}` };
+    this.charges.set(request.idempotencyKey, result);
+    return result;
+  }
+
+  async refund(chargeId: string): Promise<void> {
+    const charged = [...this.charges.values()].some((result) => result.ok && result.chargeId === chargeId);
+    if (!charged) throw new Error("Unknown charge");
+    this.refunds.add(chargeId);
+  }
+}
@@ -0,0 +1,426 @@
+import { randomUUID } from "crypto";
+import { findCompany } from "@/lib/companies";
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { notifyPaymentFailed } from "@/lib/notifications";
+import { DEFAULT_PLAN_ID, PLANS, findPlan, planOf } from "@/lib/plans";
+import { processSingleton } from "@/lib/process";
+import { periodAt } from "@/lib/usage";
+import type { BillingCycle, BillingSummary, Invoice, PaymentMethod, PlanId, Subscription } from "@/types";
+import { FakePaymentProvider } from "./fake";
+import type { ChargeReason, ChargeResult, PaymentProvider } from "./types";
+
+export type { ChargeReason, ChargeRequest, ChargeResult, PaymentProvider } from "./types";
+export { FakePaymentProvider } from "./fake";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRIAL_DAYS = 14;
+const GRACE_PERIOD_DAYS = 7;
+const INVOICE_LIMIT = 12;
+// Enough to catch up on a year of monthly renewals nobody was around to apply.
+const MAX_RENEWALS = 12;
+const BILLING_CYCLES: BillingCycle[] = ["monthly", "yearly"];
+
+// One per process, so every route charges through the same provider and the fake one's idempotency keys.
+const payments = processSingleton("paymentProvider", () => ({}) as { provider?: PaymentProvider | null });
+
+/**
+ * The fake provider takes no money, so it's only available in development
+ * with PAYMENT_PROVIDER=fake. The end-period shortcut is tied to it.
+ */
+export const fakePaymentsEnabled = () =>
+  process.env.PAYMENT_PROVIDER === "fake" && process.env.NODE_ENV !== "production";
+
+function createProvider(): PaymentProvider | null {
+  switch (process.env.PAYMENT_PROVIDER) {
+    case undefined:
+    case "":
+      return null;
+    case "fake":
+      if (!fakePaymentsEnabled()) throw new Error("The fake payment provider can't be used in production");
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${process.env.PAYMENT_PROVIDER}"`);
+  }
+}
+
+// Null until a provider is configured or plugged in; nothing can be charged then.
+function configuredProvider(): PaymentProvider | null {
+  payments.provider ??= createProvider();
+  return payments.provider;
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const configured = configuredProvider();
+  if (!configured) throw new HttpError(503, "Payments aren't set up on this server");
+  return configured;
+}
+
+// Lets deployments plug in a real payment provider (Stripe, Paddle, ...) at startup.
+export function setPaymentProvider(next: PaymentProvider): void {
+  if (next instanceof FakePaymentProvider && !fakePaymentsEnabled()) {
+    throw new Error("The fake payment provider can't be used in production");
+  }
+  payments.provider = next;
+}
+
+const findSubscription = (db: Database, companyId: string) => db.subscriptions.find((s) => s.companyId === companyId);
+
+/** What a full period of the plan costs, in cents. */
+const cyclePrice = (planId: PlanId, billingCycle: BillingCycle) => {
+  const plan = findPlan(planId);
+  return (billingCycle === "monthly" ? plan.price : plan.yearlyPrice) * 100;
+};
+
+/** The paid period starting at `start`; it ends on the anchor's day of the month, even after a shorter month. */
+const periodFrom = (start: Date, billingCycle: BillingCycle, anchor = start) => ({
+  currentPeriodStart: start.toISOString(),
+  currentPeriodEnd: periodAt(anchor, billingCycle === "monthly" ? 1 : 12, start.getTime()).end.toISOString(),
+  billingAnchor: anchor.toISOString(),
+});
+
+const describe = (planId: PlanId, billingCycle: BillingCycle) => `${findPlan(planId).name} plan, billed ${billingCycle}`;
+
+function withoutPastDue({ pastDueSince: _pastDueSince, ...subscription }: Subscription): Subscription {
+  return subscription;
+}
+
+async function charge(
+  subscription: Subscription,
+  amount: number,
+  description: string,
+  reason: ChargeReason,
+  idempotencyKey: string
+): Promise<{ result: ChargeResult; invoice: Invoice }> {
+  const result = await getPaymentProvider().charge({
+    customerId: subscription.companyId,
+    paymentMethodId: subscription.paymentMethod.id,
+    amount,
+    description,
+    reason,
+    idempotencyKey,
+  });
+  const invoice: Invoice = {
+    id: randomUUID(),
+    companyId: subscription.companyId,
+    description,
+    amount,
+    status: result.ok ? "paid" : "failed",
+    ...(result.ok ? { chargeId: result.chargeId } : { failureReason: result.reason }),
+    createdAt: new Date().toISOString(),
+  };
+  return { result, invoice };
+}
+
+/**
+ * Saves a subscription worked out from `previous`, along with the invoice for
+ * the charge that led to it. Charging happens between reading and saving, so
+ * nothing is saved when another request changed the subscription meanwhile.
+ * The workspace's plan follows the subscription, which is what quotas read.
+ */
+function saveSubscription(
+  companyId: string,
+  previous: Subscription | undefined,
+  next: Subscription,
+  invoice: Invoice | null
+): Promise<boolean> {
+  return mutateDb((db) => {
+    if (findSubscription(db, companyId)?.updatedAt !== previous?.updatedAt) return false;
+    const saved: Subscription = { ...next, updatedAt: new Date().toISOString() };
+    db.subscriptions = [...db.subscriptions.filter((s) => s.companyId !== companyId), saved];
+    findCompany(db, companyId).planId = saved.status === "canceled" ? DEFAULT_PLAN_ID : saved.planId;
+    if (invoice) db.invoices.push(invoice);
+    return true;
+  });
+}
+
+async function saveChange(
+  companyId: string,
+  previous: Subscription | undefined,
+  next: Subscription,
+  invoice: Invoice | null
+): Promise<void> {
+  if (!(await saveSubscription(companyId, previous, next, invoice))) {
+    throw new HttpError(409, "The subscription changed while this was being saved. Please try again.");
+  }
+}
+
+async function recordInvoice(invoice: Invoice): Promise<void> {
+  await mutateDb((db) => {
+    db.invoices.push(invoice);
+  });
+}
+
+/** Returns a charge whose change couldn't be saved; the invoice stays paid if the refund fails too. */
+async function refund(invoice: Invoice, chargeId: string): Promise<void> {
+  let refunded = false;
+  try {
+    await getPaymentProvider().refund(chargeId);
+    refunded = true;
+  } catch (error) {
+    console.error(`Refunding charge ${chargeId} failed:`, error);
+  }
+  await recordInvoice({ ...invoice, status: refunded ? "refunded" : "paid" });
+}
+
+/**
+ * Charges the next period, taking any credit off first. The new period starts
+ * where the old one ended, including when a past-due payment is retried.
+ */
+async function renew(subscription: Subscription): Promise<{ next: Subscription; invoice: Invoice | null }> {
+  const price = cyclePrice(subscription.planId, subscription.billingCycle);
+  const credit = Math.min(price, subscription.creditBalance);
+  const start = new Date(subscription.currentPeriodEnd);
+  const renewed: Subscription = {
+    ...withoutPastDue(subscription),
+    status: "active",
+    // Trials, and subscriptions saved before anchors were kept, are anchored where this period starts.
+    ...periodFrom(start, subscription.billingCycle, new Date(subscription.billingAnchor ?? start)),
+    creditBalance: subscription.creditBalance - credit,
+  };
+  if (price - credit === 0) return { next: renewed, invoice: null };
+
+  const { result, invoice } = await charge(
+    subscription,
+    price - credit,
+    describe(subscription.planId, subscription.billingCycle),
+    "renewal",
+    // A new payment method gets a fresh attempt; the same one gets the earlier result.
+    `${subscription.companyId}:renewal:${subscription.currentPeriodEnd}:${subscription.paymentMethod.id}`
+  );
+  if (result.ok) return { next: renewed, invoice };
+  return {
+    next: { ...subscription, status: "past_due", pastDueSince: subscription.pastDueSince ?? subscription.currentPeriodEnd },
+    invoice,
+  };
+}
+
+function dueChange(subscription: Subscription, now: number): "renew" | "end" | null {
+  switch (subscription.status) {
+    case "canceled":
+      return null;
+    case "past_due":
+      return now >= Date.parse(subscription.pastDueSince ?? subscription.currentPeriodEnd) + GRACE_PERIOD_DAYS * DAY_MS
+        ? "end"
+        : null;
+    default:
+      if (now < Date.parse(subscription.currentPeriodEnd)) return null;
+      return subscription.cancelAtPeriodEnd ? "end" : "renew";
+  }
+}
+
+/**
+ * Applies the renewals, cancellations at period end and lapsed grace periods
+ * that have come due. There's no scheduler, so this runs whenever billing or
+ * usage is loaded and, through /api/auth/me, on every dashboard page.
+ */
+export async function settleSubscription(companyId: string, now = Date.now()): Promise<void> {
+  for (let i = 0; i < MAX_RENEWALS; i++) {
+    const subscription = findSubscription(await readDb(), companyId);
+    const due = subscription && dueChange(subscription, now);
+    // Renewals wait for a payment provider; until then the paid plan carries on.
+    if (!subscription || !due || (due === "renew" && !configuredProvider())) return;
+
+    const { next, invoice } =
+      due === "end"
+        ? { next: { ...withoutPastDue(subscription), status: "canceled" as const, cancelAtPeriodEnd: false }, invoice: null }
+        : await renew(subscription);
+    const saved = await saveSubscription(companyId, subscription, next, invoice);
+    if (saved && next.status === "past_due" && subscription.status !== "past_due") {
+      await notifyPaymentFailed(companyId, {
+        planName: findPlan(next.planId).name,
+        reason: invoice?.failureReason ?? "The payment was declined",
+        periodEnd: next.currentPeriodEnd,
+      });
+    }
+  }
+}
+
+export async function getBilling(companyId: string): Promise<BillingSummary> {
+  const db = await readDb();
+  const subscription = findSubscription(db, companyId) ?? null;
+  return {
+    plan: planOf(findCompany(db, companyId)),
+    subscription,
+    invoices: db.invoices
+      .filter((invoice) => invoice.companyId === companyId)
+      .slice(-INVOICE_LIMIT)
+      .reverse(),
+    trialAvailable: !subscription,
+    testPaymentMethods: configuredProvider()?.testPaymentMethods ?? [],
+  };
+}
+
+async function attachPaymentMethod(companyId: string, paymentMethodId: unknown): Promise<PaymentMethod> {
+  if (typeof paymentMethodId !== "string" || !paymentMethodId) {
+    throw new HttpError(400, "Please fix the highlighted fields", { paymentMethodId: "Please add a payment method" });
+  }
+  const provider = getPaymentProvider();
+  try {
+    return await provider.attachPaymentMethod(companyId, paymentMethodId);
+  } catch (error) {
+    throw new HttpError(400, "Please fix the highlighted fields", {
+      paymentMethodId: error instanceof Error ? error.message : "This payment method can't be used",
+    });
+  }
+}
+
+/**
+ * Subscribes to a plan or switches to another one. The first subscription
+ * starts with a free trial, and switching during a trial costs nothing.
+ * Otherwise the unused part of the current period is credited: a higher
+ * price is charged right away for the rest of the period, and a lower one
+ * leaves credit for the next charges. Changing the billing cycle starts a new
+ * period. Choosing the current plan again resumes a canceled subscription, and
+ * choosing the free plan cancels it.
+ */
+export async function changePlan(companyId: string, body: Record<string, unknown>): Promise<BillingSummary> {
+  const plan = PLANS.find((p) => p.id === body.planId);
+  const billingCycle = body.billingCycle as BillingCycle;
+  const errors: Record<string, string> = {};
+  if (!plan) errors.planId = "Please choose a plan";
+  if (!BILLING_CYCLES.includes(billingCycle)) errors.billingCycle = "Please choose monthly or yearly billing";
+  if (!plan || Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  if (plan.id === DEFAULT_PLAN_ID) return cancelSubscription(companyId);
+
+  const now = Date.now();
+  await settleSubscription(companyId, now);
+  const previous = findSubscription(await readDb(), companyId);
+  const current = previous?.status === "canceled" ? undefined : previous;
+  if (current?.status === "past_due") {
+    throw new HttpError(409, "Update the payment method to settle the failed payment before changing plans");
+  }
+  if (current && current.planId === plan.id && current.billingCycle === billingCycle) {
+    if (!current.cancelAtPeriodEnd) throw new HttpError(400, "You're already on this plan");
+    await saveChange(companyId, current, { ...current, cancelAtPeriodEnd: false }, null);
+    return getBilling(companyId);
+  }
+
+  const paymentMethod = body.paymentMethodId
+    ? await attachPaymentMethod(companyId, body.paymentMethodId)
+    : previous?.paymentMethod ?? (await attachPaymentMethod(companyId, undefined));
+  const startedAt = new Date(now).toISOString();
+  const newPeriod = periodFrom(new Date(now), billingCycle);
+  const creditBalance = previous?.creditBalance ?? 0;
+
+  let next: Subscription;
+  let amount = 0;
+  if (!current) {
+    const trialEndsAt = new Date(now + TRIAL_DAYS * DAY_MS).toISOString();
+    amount = previous ? cyclePrice(plan.id, billingCycle) - creditBalance : 0;
+    next = {
+      companyId,
+      planId: plan.id,
+      billingCycle,
+      status: previous ? "active" : "trialing",
+      ...(previous ? newPeriod : { currentPeriodStart: startedAt, currentPeriodEnd: trialEndsAt, trialEndsAt }),
+      cancelAtPeriodEnd: false,
+      paymentMethod,
+      creditBalance: Math.max(0, -amount),
+      createdAt: startedAt,
+      updatedAt: startedAt,
+    };
+  } else if (current.status === "trialing") {
+    next = { ...current, planId: plan.id, billingCycle, paymentMethod, cancelAtPeriodEnd: false };
+  } else {
+    const start = Date.parse(current.currentPeriodStart);
+    const end = Date.parse(current.currentPeriodEnd);
+    const unused = Math.min(1, Math.max(0, (end - now) / (end - start)));
+    const credit = Math.round(cyclePrice(current.planId, current.billingCycle) * unused);
+    const sameCycle = current.billingCycle === billingCycle;
+    const cost = sameCycle
+      ? Math.round(cyclePrice(plan.id, billingCycle) * unused)
+      : cyclePrice(plan.id, billingCycle);
+    amount = cost - credit - creditBalance;
+    next = {
+      ...current,
+      planId: plan.id,
+      billingCycle,
+      ...(!sameCycle && newPeriod),
+      cancelAtPeriodEnd: false,
+      paymentMethod,
+      creditBalance: Math.max(0, -amount),
+    };
+  }
+
+  let invoice: Invoice | null = null;
+  if (amount > 0) {
+    const charged = await charge(
+      next,
+      amount,
+      describe(plan.id, billingCycle) + (current && current.billingCycle === billingCycle ? " (prorated)" : ""),
+      "plan_change",
+      `${companyId}:plan_change:${previous?.updatedAt ?? "new"}:${plan.id}:${billingCycle}:${paymentMethod.id}`
+    );
+    if (!charged.result.ok) {
+      await recordInvoice(charged.invoice);
+      throw new HttpError(402, `${charged.result.reason}. Your plan hasn't changed.`);
+    }
+    invoice = charged.invoice;
+  }
+  try {
+    await saveChange(companyId, previous, next, invoice);
+  } catch (error) {
+    // The subscription changed after the charge, so the change is dropped and the charge returned.
+    if (invoice?.chargeId) await refund(invoice, invoice.chargeId);
+    throw error;
+  }
+  return getBilling(companyId);
+}
+
+/**
+ * Cancels at the end of the period that's been paid for, or of the trial.
+ * A past-due subscription has nothing paid left, so it ends right away.
+ */
+export async function cancelSubscription(companyId: string): Promise<BillingSummary> {
+  await settleSubscription(companyId);
+  const previous = findSubscription(await readDb(), companyId);
+  if (!previous || previous.status === "canceled") throw new HttpError(400, "There's no subscription to cancel");
+  const next: Subscription =
+    previous.status === "past_due"
+      ? { ...withoutPastDue(previous), status: "canceled" }
+      : { ...previous, cancelAtPeriodEnd: true };
+  await saveChange(companyId, previous, next, null);
+  return getBilling(companyId);
+}
+
+/** Replaces the payment method and, when a renewal payment failed, retries it with the new one. */
+export async function updatePaymentMethod(companyId: string, body: Record<string, unknown>): Promise<BillingSummary> {
+  await settleSubscription(companyId);
+  const previous = findSubscription(await readDb(), companyId);
+  if (!previous || previous.status === "canceled") throw new HttpError(400, "There's no subscription to update");
+  const updated: Subscription = { ...previous, paymentMethod: await attachPaymentMethod(companyId, body.paymentMethodId) };
+  const { next, invoice } = previous.status === "past_due" ? await renew(updated) : { next: updated, invoice: null };
+  await saveChange(companyId, previous, next, invoice);
+  if (next.status === "past_due") {
+    throw new HttpError(402, `${invoice?.failureReason ?? "The payment was declined"}. The subscription is still past due.`);
+  }
+  return getBilling(companyId);
+}
+
+/**
+ * Ends the current period, or a past-due subscription's grace period, now and
+ * settles it as if the time had passed. Only the fake provider allows it, so
+ * renewals and failed payments can be tried locally; otherwise it's not found.
+ */
+export async function endPeriodNow(companyId: string): Promise<BillingSummary> {
+  if (!fakePaymentsEnabled() || !(configuredProvider() instanceof FakePaymentProvider)) throw notFound();
+  const now = Date.now();
+  await mutateDb((db) => {
+    const subscription = findSubscription(db, companyId);
+    if (!subscription || subscription.status === "canceled") throw new HttpError(400, "There's no subscription to renew");
+    if (subscription.status === "past_due") {
+      subscription.pastDueSince = new Date(now - GRACE_PERIOD_DAYS * DAY_MS).toISOString();
+    } else {
+      subscription.currentPeriodEnd = new Date(now).toISOString();
+      // The next period is a full one from now.
+      subscription.billingAnchor = subscription.currentPeriodEnd;
+      if (subscription.status === "trialing") subscription.trialEndsAt = subscription.currentPeriodEnd;
+    }
+    subscription.updatedAt = new Date(now).toISOString();
+  });
+  await settleSubscription(companyId, now);
+  return getBilling(companyId);
+}
@@ -0,0 +1,30 @@
+import type { PaymentMethod } from "@/types";
+
+/** Renewals include the charge that ends a trial; plan changes are charged when they're made. */
+export type ChargeReason = "plan_change" | "renewal";
+
+export interface ChargeRequest {
+  /** The workspace being charged. */
+  customerId: string;
+  paymentMethodId: string;
+  /** In cents. */
+  amount: number;
+  description: string;
+  reason: ChargeReason;
+  /** Retrying with the same key must not charge twice. */
+  idempotencyKey: string;
+}
+
+export type ChargeResult = { ok: true; chargeId: string } | { ok: false; reason: string };
+
+export interface PaymentProvider {
+  readonly name: string;
+  /** Payment methods the billing page offers to test with; empty for live providers. */
+  readonly testPaymentMethods: PaymentMethod[];
+  /** Saves a payment method collected in the browser for the customer; fails if it can't be used. */
+  attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<PaymentMethod>;
+  /** Declines are reported in the result; only errors reaching the provider are thrown. */
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  /** Returns a successful charge in full. */
+  refund(chargeId: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { validateEmail } from "@/lib/validation";
+import type { Company, CompanyInput } from "@/types";
+
+const asString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+export function findCompany(db: Database, companyId: string): Company {
+  const company = db.companies.find((c) => c.id === companyId);
+  if (!company) throw notFound("Company not found");
+  return company;
+}
+
+export function parseCompanyInput(body: Record<string, unknown>): CompanyInput {
+  const input: CompanyInput = {
+    name: asString(body.name),
+    email: asString(body.email).toLowerCase(),
+    industry: asString(body.industry),
+    website: asString(body.website),
+  };
+
+  const errors: Record<string, string> = {};
+  if (!input.name) errors.name = "Company name is required";
+  const emailError = validateEmail(input.email);
+  if (emailError) errors.email = emailError;
+  if (input.website && !/^https?:\/\/\S+$/i.test(input.website)) {
+    errors.website = "Website must start with http:// or https://";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  return input;
+}
+
+export async function getCompany(companyId: string): Promise<Company> {
+  return findCompany(await readDb(), companyId);
+}
+
+export function updateCompany(companyId: string, input: CompanyInput): Promise<Company> {
+  return mutateDb((db) => {
+    const company = findCompany(db, companyId);
+    Object.assign(company, input);
+    return company;
+  });
+}
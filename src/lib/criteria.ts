@@ -0,0 +1,80 @@
+// Shared by the job editor, which suggests criteria from the requirements
+// text, and by the API and screening, which fall back to the same parse for
+// jobs saved without explicit criteria.
+import type { CriterionImportance, JobCriterion, SkillLevel } from "@/types";
+
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 5;
+export const MAX_CRITERIA = 20;
+
+export const DEFAULT_WEIGHT: Record<CriterionImportance, number> = {
+  must_have: 3,
+  nice_to_have: 1,
+};
+
+export const IMPORTANCE_LABELS: Record<CriterionImportance, string> = {
+  must_have: "Must-have",
+  nice_to_have: "Nice-to-have",
+};
+
+export const LEVEL_OPTIONS: { value: SkillLevel; label: string }[] = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+  { value: "expert", label: "Expert" },
+];
+
+const LEVEL_WORDS: [SkillLevel, RegExp][] = [
+  ["expert", /\b(expert|mastery|deep)\b/i],
+  ["advanced", /\b(advanced|senior|strong|excellent|extensive)\b/i],
+  ["intermediate", /\b(intermediate|solid|good|working|proven)\b/i],
+  ["beginner", /\b(basic|beginner|familiarity|familiar|exposure)\b/i],
+];
+
+const NICE_TO_HAVE = /\b(nice to have|nice-to-have|preferred|bonus|a plus|desirable|ideally|optional)\b/i;
+const YEARS_PATTERN = /(\d+)\s*\+?\s*(?:years?|yrs?)/i;
+const FILLER =
+  /\b(strong|excellent|good|solid|proven|deep|extensive|advanced|senior|expert|intermediate|basic|beginner|working|required|experience|skills?|knowledge|proficiency|familiarity|familiar|understanding|exposure|mastery|is|are|of|in|with|and|the|a|an)\b/gi;
+
+export const GENERIC_SKILL = "Experience";
+
+export const newCriterionId = () => Math.random().toString(36).slice(2, 10);
+
+export function parseCriteria(text: string): JobCriterion[] {
+  return text
+    .split(/[\n,;•]+/)
+    .map((line) => line.replace(/^\s*[-*\d.)]+\s+/, "").trim())
+    .filter(Boolean)
+    .map((line) => {
+      const importance: CriterionImportance = NICE_TO_HAVE.test(line) ? "nice_to_have" : "must_have";
+      const years = line.match(YEARS_PATTERN);
+      const skill = line
+        .replace(new RegExp(NICE_TO_HAVE, "gi"), " ")
+        .replace(YEARS_PATTERN, " ")
+        .replace(FILLER, " ")
+        .replace(/[():]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+      return {
+        id: newCriterionId(),
+        // "3+ years of experience" has no skill left once the filler is removed.
+        skill: skill || GENERIC_SKILL,
+        minYears: years ? Number(years[1]) : null,
+        level: LEVEL_WORDS.find(([, pattern]) => pattern.test(line))?.[0] ?? null,
+        importance,
+        weight: DEFAULT_WEIGHT[importance],
+      };
+    })
+    .slice(0, MAX_CRITERIA);
+}
+
+export function formatCriterion(criterion: JobCriterion): string {
+  const level = LEVEL_OPTIONS.find((option) => option.value === criterion.level)?.label;
+  return [
+    level,
+    criterion.skill,
+    criterion.minYears !== null ? `(${criterion.minYears}+ yrs)` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
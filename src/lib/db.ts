@@ -0,0 +1,102 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { processSingleton } from "@/lib/process";
+import type {
+  Application,
+  ApplicationDraft,
+  BookingLink,
+  Company,
+  Interview,
+  Invoice,
+  InterviewerAvailability,
+  Invitation,
+  Job,
+  Notification,
+  OutboxMessage,
+  Session,
+  SheetsConnection,
+  Subscription,
+  UsageEvent,
+  User,
+} from "@/types";
+
+export interface Database {
+  companies: Company[];
+  jobs: Job[];
+  applications: Application[];
+  users: User[];
+  invitations: Invitation[];
+  sessions: Session[];
+  drafts: ApplicationDraft[];
+  sheetConnections: SheetsConnection[];
+  notifications: Notification[];
+  outbox: OutboxMessage[];
+  interviews: Interview[];
+  availability: InterviewerAvailability[];
+  bookingLinks: BookingLink[];
+  usage: UsageEvent[];
+  subscriptions: Subscription[];
+  invoices: Invoice[];
+}
+
+export const DATA_DIR = process.env.RECRUITAI_DATA_DIR || path.join(process.cwd(), ".data");
+const DB_FILE = path.join(DATA_DIR, "db.json");
+
+const emptyDatabase = (): Database => ({
+  companies: [],
+  jobs: [],
+  applications: [],
+  users: [],
+  invitations: [],
+  sessions: [],
+  drafts: [],
+  sheetConnections: [],
+  notifications: [],
+  outbox: [],
+  interviews: [],
+  availability: [],
+  bookingLinks: [],
+  usage: [],
+  subscriptions: [],
+  invoices: [],
+});
+
+// Writes are chained so concurrent requests never interleave a read-modify-write,
+// whichever route they come from.
+const lock = processSingleton("db", () => ({ queue: Promise.resolve() as Promise<unknown> }));
+
+async function load(): Promise<Database> {
+  try {
+    const raw = await fs.readFile(DB_FILE, "utf8");
+    return { ...emptyDatabase(), ...JSON.parse(raw) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return emptyDatabase();
+    }
+    throw error;
+  }
+}
+
+async function save(db: Database): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmpFile = `${DB_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(db, null, 2));
+  await fs.rename(tmpFile, DB_FILE);
+}
+
+export function readDb(): Promise<Database> {
+  const result = lock.queue.then(load);
+  lock.queue = result.catch(() => undefined);
+  return result;
+}
+
+export function mutateDb<T>(mutator: (db: Database) => T): Promise<T> {
+  const result = lock.queue.then(async () => {
+    const db = await load();
+    const value = mutator(db);
+    await save(db);
+    return value;
+  });
+  lock.queue = result.catch(() => undefined);
+  return result;
+}
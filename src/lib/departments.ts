@@ -0,0 +1,16 @@
+import type { Job } from "@/types";
+
+export const DEPARTMENT_OPTIONS = [
+  { value: "engineering", label: "Engineering" },
+  { value: "product", label: "Product" },
+  { value: "design", label: "Design" },
+  { value: "sales", label: "Sales" },
+  { value: "marketing", label: "Marketing" },
+  { value: "hr", label: "Human Resources" },
+  { value: "other", label: "Other" },
+];
+
+export function formatDepartment(job: Pick<Job, "department" | "customDepartment">): string {
+  if (job.department === "other") return job.customDepartment;
+  return DEPARTMENT_OPTIONS.find((option) => option.value === job.department)?.label ?? job.department;
+}
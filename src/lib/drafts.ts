@@ -0,0 +1,129 @@
+import { randomBytes, randomUUID } from "crypto";
+import { assertAcceptingApplications } from "@/lib/applications";
+import { hashToken } from "@/lib/auth";
+import { mutateDb, readDb } from "@/lib/db";
+import { MAX_ANSWER_LENGTH } from "@/lib/forms";
+import { HttpError, appUrl, notFound } from "@/lib/http";
+import { findJob } from "@/lib/jobs";
+import { enqueueEmail, kickOutbox } from "@/lib/mail";
+import { validateEmail } from "@/lib/validation";
+import type { ApplicationDraft, DraftData, Job } from "@/types";
+
+const DRAFT_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_STEP = 20;
+// Saving is open to anyone, so each address gets only a few links an hour.
+const MAX_LINKS_PER_HOUR = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+const clip = (value: unknown, max = 200) => (typeof value === "string" ? value.slice(0, max) : "");
+
+// Drafts are posted by anonymous applicants, so only answers to the job's own questions are kept.
+function parseDraftData(job: Job, body: Record<string, unknown>): DraftData {
+  const questionIds = new Set(job.form.questions.map((question) => question.id));
+  const answers: DraftData["answers"] = {};
+  const raw = body.answers && typeof body.answers === "object" ? (body.answers as Record<string, unknown>) : {};
+  for (const [questionId, value] of Object.entries(raw)) {
+    if (!questionIds.has(questionId)) continue;
+    if (typeof value === "string") {
+      answers[questionId] = clip(value, MAX_ANSWER_LENGTH);
+    } else if (Array.isArray(value)) {
+      answers[questionId] = value.filter((option) => typeof option === "string").map((option) => clip(option));
+    }
+  }
+  const step = Number(body.step);
+  return {
+    fullName: clip(body.fullName),
+    email: clip(body.email).trim(),
+    phone: clip(body.phone),
+    answers,
+    step: Number.isInteger(step) && step >= 1 && step <= MAX_STEP ? step : 1,
+  };
+}
+
+const toPublicDraft = (draft: ApplicationDraft) => ({
+  jobId: draft.jobId,
+  data: draft.data,
+  expiresAt: draft.expiresAt,
+});
+
+/**
+ * Saves the applicant's progress, keyed by job and email, and emails a magic
+ * link that restores it. Saving again replaces the draft and invalidates
+ * earlier links. The token is never returned to the caller, so only the
+ * owner of the inbox can open the draft. The email doesn't repeat anything
+ * the caller typed, since anyone can send it to any address.
+ */
+export async function saveDraft(jobId: string, body: Record<string, unknown>): Promise<void> {
+  const job = findJob(await readDb(), jobId);
+  assertAcceptingApplications(job);
+  const data = parseDraftData(job, body);
+  const emailError = validateEmail(data.email);
+  if (emailError) throw new HttpError(400, "Please fix the highlighted fields", { email: emailError });
+
+  const email = data.email.toLowerCase();
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  await mutateDb((db) => {
+    const recent = db.outbox.filter(
+      (message) =>
+        message.template === "application_draft" && message.to === email && now - Date.parse(message.createdAt) < HOUR_MS
+    );
+    if (recent.length >= MAX_LINKS_PER_HOUR) {
+      throw new HttpError(429, "Too many links were sent to this address. Please try again in an hour.");
+    }
+    db.drafts = db.drafts.filter(
+      (draft) => new Date(draft.expiresAt).getTime() > now && !(draft.jobId === jobId && draft.email === email)
+    );
+    db.drafts.push({
+      id: randomUUID(),
+      tokenHash: hashToken(token),
+      companyId: job.companyId,
+      jobId,
+      email,
+      data,
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + DRAFT_TTL_MS).toISOString(),
+    });
+    enqueueEmail(db, {
+      companyId: job.companyId,
+      template: "application_draft",
+      to: email,
+      subject: `Continue your application for ${job.title}`,
+      text: [
+        "Hi,",
+        "",
+        `Your application for ${job.title} has been saved. Pick up where you left off here:`,
+        appUrl(`/apply/${jobId}?draft=${token}`),
+        "",
+        "The link works for 14 days. Files you attached need to be added again. If you didn't start this application, you can ignore this email.",
+      ].join("\n"),
+    });
+  });
+  kickOutbox();
+}
+
+function findDraft(drafts: ApplicationDraft[], token: string): ApplicationDraft {
+  const tokenHash = hashToken(token);
+  const draft = drafts.find((d) => d.tokenHash === tokenHash);
+  if (!draft || new Date(draft.expiresAt).getTime() <= Date.now()) {
+    throw notFound("This link has expired or was replaced by a newer one");
+  }
+  return draft;
+}
+
+export async function getDraft(token: string) {
+  return toPublicDraft(findDraft((await readDb()).drafts, token));
+}
+
+/** Autosaves progress for an applicant who came back through a magic link. */
+export async function updateDraft(token: string, body: Record<string, unknown>) {
+  const db = await readDb();
+  const job = findJob(db, findDraft(db.drafts, token).jobId);
+  const data = parseDraftData(job, body);
+  return mutateDb((db) => {
+    const draft = findDraft(db.drafts, token);
+    Object.assign(draft, { data, updatedAt: new Date().toISOString() });
+    return toPublicDraft(draft);
+  });
+}
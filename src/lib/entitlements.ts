@@ -0,0 +1,20 @@
+// Enforces the features in src/lib/features.ts on the server. Kept apart from
+// the registry because it reads the data store, which pages can't import.
+import { findCompany } from "@/lib/companies";
+import { readDb, type Database } from "@/lib/db";
+import { FEATURE_LABELS, hasFeature, type Feature } from "@/lib/features";
+import { HttpError } from "@/lib/http";
+import { planWith } from "@/lib/plans";
+
+/** Rejects using a feature the plan doesn't include. Call it inside the write that uses the feature. */
+export function assertFeature(db: Database, companyId: string, feature: Feature): void {
+  if (hasFeature(findCompany(db, companyId), feature)) return;
+  throw new HttpError(
+    402,
+    `${FEATURE_LABELS[feature]}: available on the ${planWith(feature).name} plan and above. Upgrade your plan to use it.`
+  );
+}
+
+export async function requireFeature(companyId: string, feature: Feature): Promise<void> {
+  assertFeature(await readDb(), companyId, feature);
+}
@@ -0,0 +1,101 @@
+// Shared by the export menu, which offers the columns, and the export routes,
+// which render them, so both agree on ids, labels and filtering.
+import { formatAnswer } from "@/lib/forms";
+import type { Application, Candidate, FormQuestion, ScreeningDecision } from "@/types";
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+  { value: "json", label: "JSON" },
+];
+
+export type ExportValue = string | number | null;
+
+export interface ExportColumn<T> {
+  id: string;
+  label: string;
+  /** Columns off by default can still be picked in the export menu. */
+  defaultSelected: boolean;
+  value: (row: T) => ExportValue;
+}
+
+export const DECISION_LABELS: Record<ScreeningDecision, string> = {
+  qualified: "Qualified",
+  not_qualified: "Not Qualified",
+  pending: "Pending",
+};
+
+const ANSWER_COLUMN_PREFIX = "answer:";
+
+export const APPLICATION_COLUMNS: ExportColumn<Application>[] = [
+  { id: "name", label: "Name", defaultSelected: true, value: (app) => app.name },
+  { id: "email", label: "Email", defaultSelected: true, value: (app) => app.email },
+  { id: "phone", label: "Phone", defaultSelected: true, value: (app) => app.phone },
+  { id: "decision", label: "AI Decision", defaultSelected: true, value: (app) => DECISION_LABELS[app.decision] },
+  { id: "score", label: "Score", defaultSelected: true, value: (app) => app.screening?.score ?? null },
+  { id: "reason", label: "Reason", defaultSelected: true, value: (app) => app.reason },
+  {
+    id: "missingRequirements",
+    label: "Missing Requirements",
+    defaultSelected: false,
+    value: (app) => app.missingRequirements.join("; "),
+  },
+  { id: "skills", label: "Skills", defaultSelected: false, value: (app) => app.resume?.skills.join(", ") ?? null },
+  { id: "cv", label: "CV File", defaultSelected: false, value: (app) => app.cv.fileName },
+  { id: "appliedAt", label: "Applied At", defaultSelected: true, value: (app) => app.appliedAt },
+];
+
+/** The fixed columns plus one per question on the job's form. */
+export function applicationColumns(questions: FormQuestion[]): ExportColumn<Application>[] {
+  return [
+    ...APPLICATION_COLUMNS,
+    ...questions.map((question) => ({
+      id: `${ANSWER_COLUMN_PREFIX}${question.id}`,
+      label: question.label,
+      defaultSelected: false,
+      value: (app: Application) => {
+        const answer = app.answers.find((a) => a.questionId === question.id);
+        return answer ? formatAnswer(answer) : null;
+      },
+    })),
+  ];
+}
+
+export const CANDIDATE_COLUMNS: ExportColumn<Candidate>[] = [
+  { id: "name", label: "Name", defaultSelected: true, value: (c) => c.name },
+  { id: "email", label: "Email", defaultSelected: true, value: (c) => c.email },
+  { id: "jobRole", label: "Job Role", defaultSelected: true, value: (c) => c.jobRole },
+  { id: "decision", label: "AI Decision", defaultSelected: true, value: (c) => DECISION_LABELS[c.decision] },
+  { id: "addedDate", label: "Added Date", defaultSelected: true, value: (c) => c.addedDate },
+];
+
+export type ApplicationFilter = "all" | "qualified" | "not_qualified";
+
+export interface ApplicationQuery {
+  filter: ApplicationFilter;
+  search: string;
+}
+
+/** The applications page's tab and search box, applied the same way to exports. */
+export function filterApplications(applications: Application[], { filter, search }: ApplicationQuery): Application[] {
+  const term = search.toLowerCase();
+  return applications.filter(
+    (app) =>
+      (filter === "all" || app.decision === filter) &&
+      (app.name.toLowerCase().includes(term) ||
+        app.email.toLowerCase().includes(term) ||
+        app.phone.toLowerCase().includes(term))
+  );
+}
+
+export function filterCandidates(candidates: Candidate[], search: string): Candidate[] {
+  const term = search.toLowerCase();
+  return candidates.filter(
+    (candidate) =>
+      candidate.name.toLowerCase().includes(term) ||
+      candidate.email.toLowerCase().includes(term) ||
+      candidate.jobRole.toLowerCase().includes(term)
+  );
+}
@@ -0,0 +1,90 @@
+import { listApplications, listCandidates } from "@/lib/applications";
+import { readDb } from "@/lib/db";
+import { HttpError, attachmentDisposition } from "@/lib/http";
+import { findJob } from "@/lib/jobs";
+import { canViewJob } from "@/lib/permissions";
+import type { PublicUser } from "@/types";
+import {
+  CANDIDATE_COLUMNS,
+  EXPORT_FORMATS,
+  type ApplicationFilter,
+  type ExportColumn,
+  type ExportFormat,
+  applicationColumns,
+  filterApplications,
+  filterCandidates,
+} from "./definitions";
+import { CONTENT_TYPES, writeExport } from "./writers";
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: ReadableStream<Uint8Array>;
+}
+
+const FILTERS: ApplicationFilter[] = ["all", "qualified", "not_qualified"];
+
+function parseFormat(params: URLSearchParams): ExportFormat {
+  const format = params.get("format") ?? "csv";
+  const known = EXPORT_FORMATS.find((option) => option.value === format);
+  if (!known) throw new HttpError(400, `Unsupported export format: ${format}`);
+  return known.value;
+}
+
+// `columns` is a comma-separated list of column ids, in the order they should appear.
+function pickColumns<T>(available: ExportColumn<T>[], params: URLSearchParams): ExportColumn<T>[] {
+  const requested = params.get("columns")?.split(",").filter(Boolean);
+  if (!requested?.length) return available.filter((column) => column.defaultSelected);
+  const unknown = requested.filter((id) => !available.some((column) => column.id === id));
+  if (unknown.length > 0) throw new HttpError(400, `Unknown export columns: ${unknown.join(", ")}`);
+  return requested.flatMap((id) => available.filter((column) => column.id === id));
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "export";
+
+const fileName = (base: string, format: ExportFormat) =>
+  `${slugify(base)}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+export async function exportApplications(
+  companyId: string,
+  jobId: string,
+  params: URLSearchParams
+): Promise<ExportFile> {
+  const format = parseFormat(params);
+  const job = findJob(await readDb(), jobId, companyId);
+  const columns = pickColumns(applicationColumns(job.form.questions), params);
+  const filter = FILTERS.find((value) => value === params.get("filter")) ?? "all";
+  const rows = filterApplications(await listApplications(companyId, jobId), {
+    filter,
+    search: params.get("search") ?? "",
+  });
+  return {
+    fileName: fileName(`${job.title} applications`, format),
+    contentType: CONTENT_TYPES[format],
+    body: writeExport(format, columns, rows, "Applications"),
+  };
+}
+
+/** Shortlisted candidates the member can see, as a file download. */
+export async function exportCandidates(user: PublicUser, params: URLSearchParams): Promise<ExportFile> {
+  const format = parseFormat(params);
+  const columns = pickColumns(CANDIDATE_COLUMNS, params);
+  const rows = filterCandidates(
+    (await listCandidates(user.companyId)).filter((candidate) => canViewJob(user, candidate.jobId)),
+    params.get("search") ?? "");
+  return {
+    fileName: fileName("shortlisted candidates", format),
+    contentType: CONTENT_TYPES[format],
+    body: writeExport(format, columns, rows, "Candidates"),
+  };
+}
+
+/** Streams an export as a file download. */
+export const exportResponse = ({ fileName, contentType, body }: ExportFile) =>
+  new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": attachmentDisposition(fileName),
+    },
+  });
@@ -0,0 +1,99 @@
+import ExcelJS from "exceljs";
+import { PassThrough, Readable } from "stream";
+import type { ExportColumn, ExportFormat, ExportValue } from "./definitions";
+
+const encoder = new TextEncoder();
+
+// Spreadsheet apps run cells starting with these as formulas, so they're quoted as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Emits one encoded chunk per row, so large exports start downloading right away. */
+function lineStream(head: string, lines: Iterator<string>, tail = ""): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(head));
+    },
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) {
+        if (tail) controller.enqueue(encoder.encode(tail));
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+}
+
+function* map<T, U>(rows: T[], fn: (row: T, index: number) => U): Iterator<U> {
+  for (const [index, row] of rows.entries()) yield fn(row, index);
+}
+
+function csv<T>(columns: ExportColumn<T>[], rows: T[]) {
+  // The byte order mark makes Excel read the file as UTF-8.
+  const header = "\uFEFF" + columns.map((column) => csvCell(column.label)).join(",") + "\r\n";
+  return lineStream(
+    header,
+    map(rows, (row) => columns.map((column) => csvCell(column.value(row))).join(",") + "\r\n")
+  );
+}
+
+function json<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const record = (row: T) => Object.fromEntries(columns.map((column) => [column.id, column.value(row)]));
+  return lineStream(
+    "[",
+    map(rows, (row, index) => (index === 0 ? "\n  " : ",\n  ") + JSON.stringify(record(row))),
+    rows.length > 0 ? "\n]\n" : "]\n"
+  );
+}
+
+function xlsx<T>(columns: ExportColumn<T>[], rows: T[], sheetName: string) {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31) || "Export");
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    key: column.id,
+    width: Math.min(Math.max(column.label.length + 2, 14), 60),
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  (async () => {
+    for (const row of rows) {
+      sheet.addRow(columns.map((column) => column.value(row))).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+export function writeExport<T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  sheetName: string
+): ReadableStream<Uint8Array> {
+  switch (format) {
+    case "csv":
+      return csv(columns, rows);
+    case "json":
+      return json(columns, rows);
+    case "xlsx":
+      return xlsx(columns, rows, sheetName);
+  }
+}
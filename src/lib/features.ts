@@ -0,0 +1,51 @@
+// What each plan includes: the features it unlocks and its usage limits.
+// Shared by the API, which enforces them through requireFeature() in
+// src/lib/entitlements.ts and assertQuota() in src/lib/usage.ts, and the UI,
+// which shows upgrade callouts in place of locked features (useFeature()).
+// The plans' feature lists on the pricing modal are built from here, so only
+// add a feature once something checks it.
+import type { Company, PlanId, UsageMetric } from "@/types";
+
+export type Feature =
+  /** Questions on the application form, including knockout rules. */
+  | "custom_questions"
+  /** Connecting a spreadsheet and syncing candidates to it. */
+  | "sheets_integration";
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  custom_questions: "Custom screening questions",
+  sheets_integration: "Google Sheets integration",
+};
+
+export interface Entitlements {
+  features: Feature[];
+  /** Per billing period, except seats. Null means unlimited. */
+  limits: Record<UsageMetric, number | null>;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanId, Entitlements> = {
+  free: {
+    features: [],
+    limits: { job_postings: 5, application_reviews: 100, ai_screenings: 100, seats: 2 },
+  },
+  standard: {
+    features: ["custom_questions"],
+    limits: { job_postings: null, application_reviews: null, ai_screenings: 500, seats: 5 },
+  },
+  pro: {
+    features: ["custom_questions", "sheets_integration"],
+    limits: { job_postings: null, application_reviews: null, ai_screenings: 2000, seats: 15 },
+  },
+  premium: {
+    features: ["custom_questions", "sheets_integration"],
+    limits: { job_postings: null, application_reviews: null, ai_screenings: null, seats: null },
+  },
+};
+
+export const DEFAULT_PLAN_ID: PlanId = "free";
+
+// Workspaces from before plans have none and are on the free plan.
+const planIdOf = (company: Pick<Company, "planId">): PlanId => company.planId ?? DEFAULT_PLAN_ID;
+
+export const hasFeature = (company: Pick<Company, "planId">, feature: Feature) =>
+  PLAN_ENTITLEMENTS[planIdOf(company)].features.includes(feature);
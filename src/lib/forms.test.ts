@@ -0,0 +1,99 @@
+import "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { visibleQuestions } from "@/lib/forms";
+import { parseJobInput } from "@/lib/jobs";
+import type { AnswerValue, FormQuestion } from "@/types";
+
+const questions: FormQuestion[] = [
+  { id: "remote", label: "Do you want to work remotely?", type: "yes_no", required: true },
+  { id: "office", label: "Which office?", type: "single_select", required: true, options: ["London", "Berlin"] },
+  { id: "desk", label: "Do you need a standing desk?", type: "yes_no", required: false },
+  { id: "stack", label: "Languages", type: "multi_select", required: true, options: ["TypeScript", "Go"] },
+  { id: "go", label: "Years of Go", type: "number", required: true },
+];
+questions[1].showIf = { questionId: "remote", values: ["no"] };
+questions[2].showIf = { questionId: "office", values: ["London"] };
+questions[4].showIf = { questionId: "stack", values: ["Go"] };
+
+const shown = (answers: Record<string, AnswerValue | string | string[]>) =>
+  visibleQuestions(questions, (questionId) => answers[questionId]).map((question) => question.id);
+
+describe("conditional questions", () => {
+  test("show when the source question's answer matches", () => {
+    assert.deepEqual(shown({ remote: "no", office: "London", stack: ["TypeScript", "Go"] }), [
+      "remote",
+      "office",
+      "desk",
+      "stack",
+      "go",
+    ]);
+    assert.deepEqual(shown({ remote: "no", office: "Berlin", stack: ["TypeScript"] }), ["remote", "office", "stack"]);
+  });
+
+  test("read stored answers the same way as form input", () => {
+    assert.deepEqual(shown({ remote: false, office: "London", stack: ["Go"] }), ["remote", "office", "desk", "stack", "go"]);
+    assert.deepEqual(shown({ remote: true }), ["remote", "stack"]);
+  });
+
+  test("hide with their source when the source is hidden, whatever it was answered", () => {
+    assert.deepEqual(shown({ remote: "yes", office: "London" }), ["remote", "stack"]);
+  });
+
+  test("hide while the source is unanswered", () => {
+    assert.deepEqual(shown({}), ["remote", "stack"]);
+  });
+});
+
+describe("conditions in a saved form", () => {
+  const details = (form: unknown) => ({
+    title: "Frontend Developer",
+    department: "engineering",
+    location: "Remote",
+    positions: 1,
+    requirements: "3+ years of React",
+    applicationOpenDate: "2026-03-01",
+    applicationOpenTime: "09:00",
+    applicationCloseDate: "2026-03-31",
+    applicationCloseTime: "17:00",
+    form,
+  });
+  const question = (id: string, type: string, extra: Record<string, unknown> = {}) => ({ id, label: id, type, ...extra });
+  const formError = (...items: ReturnType<typeof question>[]) => {
+    try {
+      parseJobInput(details({ questions: items }));
+    } catch (error) {
+      return (error as { fieldErrors: Record<string, string> }).fieldErrors.form;
+    }
+    assert.fail("expected the form to be rejected");
+  };
+
+  test("are kept when they point back at a yes/no or choice question", () => {
+    const { form } = parseJobInput(
+      details({
+        questions: [
+          question("remote", "yes_no"),
+          question("office", "single_select", { options: ["London", "Berlin"], showIf: { questionId: "remote", values: ["no"] } }),
+          question("desk", "yes_no", { showIf: { questionId: "office", values: ["London"] } }),
+        ],
+      })
+    );
+    assert.deepEqual(
+      form?.questions.map((q) => q.showIf),
+      [undefined, { questionId: "remote", values: ["no"] }, { questionId: "office", values: ["London"] }]
+    );
+  });
+
+  test("are rejected when they point forward, at a free-text question or at answers the source can't give", () => {
+    const problem = (index: number) => `Question ${index} can only depend on an earlier yes/no or choice question`;
+    assert.equal(
+      formError(question("a", "yes_no", { showIf: { questionId: "b", values: ["yes"] } }), question("b", "yes_no")),
+      problem(1)
+    );
+    assert.equal(formError(question("a", "text"), question("b", "yes_no", { showIf: { questionId: "a", values: ["x"] } })), problem(2));
+    assert.equal(
+      formError(question("a", "yes_no"), question("b", "text", { showIf: { questionId: "a", values: ["maybe"] } })),
+      problem(2)
+    );
+  });
+});
@@ -0,0 +1,241 @@
+// Shared by the form builder, the public application form and the
+// submission endpoint so a job's form schema is rendered and validated the
+// same way everywhere.
+import { validateEmail } from "@/lib/validation";
+import type {
+  AnswerValue,
+  ApplicationAnswer,
+  FormQuestion,
+  FormQuestionType,
+  FormSection,
+  KnockoutRule,
+  StoredFile,
+} from "@/types";
+
+export const MAX_FORM_QUESTIONS = 30;
+export const MAX_FORM_SECTIONS = 10;
+export const MAX_ANSWER_LENGTH = 5000;
+export const MAX_OPTIONS = 20;
+export const MAX_WORD_LIMIT = 2000;
+export const SCALE_MIN = 1;
+export const SCALE_MAX = 5;
+export const ANSWER_FILE_EXTENSIONS = [".pdf", ".doc", ".docx", ".png", ".jpg", ".jpeg", ".txt"];
+export const MAX_ANSWER_FILE_SIZE = 10 * 1024 * 1024;
+
+export const QUESTION_TYPE_OPTIONS: { value: FormQuestionType; label: string }[] = [
+  { value: "text", label: "Short Text" },
+  { value: "long_text", label: "Long Text" },
+  { value: "number", label: "Number" },
+  { value: "email", label: "Email" },
+  { value: "url", label: "URL" },
+  { value: "date", label: "Date" },
+  { value: "single_select", label: "Single Choice" },
+  { value: "multi_select", label: "Multiple Choice" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "scale", label: "Rating Scale (1-5)" },
+  { value: "file", label: "File Upload" },
+];
+
+export const isChoiceQuestion = (type: FormQuestionType) => type === "single_select" || type === "multi_select";
+
+/** Question types whose answers other questions can be shown or hidden on. */
+export const isConditionSource = (type: FormQuestionType) => type === "yes_no" || isChoiceQuestion(type);
+
+/** The values a condition on this question can match. */
+export const conditionChoices = (question: FormQuestion): { value: string; label: string }[] =>
+  question.type === "yes_no"
+    ? [
+        { value: "yes", label: "Yes" },
+        { value: "no", label: "No" },
+      ]
+    : (question.options ?? []).map((option) => ({ value: option, label: option }));
+
+/** What the form holds before submission: text, the picked options, an uploaded file, or nothing. */
+export type AnswerInput = string | string[] | File | null;
+
+// Answers are posted as `q_<questionId>` so the schema can grow without renaming fields.
+export const answerField = (question: Pick<FormQuestion, "id">) => `q_${question.id}`;
+
+export const newQuestion = (label: string, type: FormQuestionType): FormQuestion => ({
+  id: Math.random().toString(36).slice(2, 10),
+  label,
+  type,
+  required: true,
+  ...(isChoiceQuestion(type) && { options: [] }),
+});
+
+export const newSection = (title: string): FormSection => ({
+  id: Math.random().toString(36).slice(2, 10),
+  title,
+});
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const isEmpty = (value: AnswerInput) =>
+  value === null || (Array.isArray(value) ? value.length === 0 : typeof value === "string" && !value.trim());
+
+// Round-tripping rejects dates that roll over, like 2025-02-30.
+const isIsoDate = (text: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(Date.parse(text)) && new Date(text).toISOString().startsWith(text);
+
+function validateText(question: FormQuestion, text: string): string {
+  if (text.length > MAX_ANSWER_LENGTH) return `Answers are limited to ${MAX_ANSWER_LENGTH} characters`;
+  switch (question.type) {
+    case "long_text":
+      return question.maxWords && countWords(text) > question.maxWords
+        ? `Please keep your answer to ${question.maxWords} words or fewer`
+        : "";
+    case "number":
+      return Number.isFinite(Number(text)) ? "" : "Please enter a number";
+    case "email":
+      return validateEmail(text);
+    case "url":
+      try {
+        return ["http:", "https:"].includes(new URL(text).protocol) ? "" : "Please enter a link starting with http(s)://";
+      } catch {
+        return "Please enter a valid link, e.g. https://github.com/you";
+      }
+    case "date":
+      return isIsoDate(text) ? "" : "Please enter a valid date";
+    case "single_select":
+      return question.options?.includes(text) ? "" : "Please choose one of the options";
+    case "yes_no":
+      return text === "yes" || text === "no" ? "" : "Please answer yes or no";
+    case "scale": {
+      const rating = Number(text);
+      return Number.isInteger(rating) && rating >= SCALE_MIN && rating <= SCALE_MAX
+        ? ""
+        : `Please pick a rating from ${SCALE_MIN} to ${SCALE_MAX}`;
+    }
+    default:
+      return "";
+  }
+}
+
+export const validateAnswer = (question: FormQuestion, value: AnswerInput): string => {
+  if (isEmpty(value)) return question.required ? "Please answer this question" : "";
+
+  if (question.type === "file") {
+    if (!(value instanceof File)) return "Please upload a file";
+    const extension = "." + value.name.split(".").pop()?.toLowerCase();
+    if (!ANSWER_FILE_EXTENSIONS.includes(extension)) {
+      return `Allowed file types: ${ANSWER_FILE_EXTENSIONS.join(", ")}`;
+    }
+    if (value.size > MAX_ANSWER_FILE_SIZE) return "File size must be less than 10MB";
+    return "";
+  }
+
+  if (question.type === "multi_select") {
+    const picked = Array.isArray(value) ? value : [value];
+    return picked.every((option) => typeof option === "string" && question.options?.includes(option))
+      ? ""
+      : "Please choose from the listed options";
+  }
+
+  if (typeof value !== "string") return "Please enter a text answer";
+  return validateText(question, value.trim());
+};
+
+/** Converts a validated, non-empty answer to the typed value that is stored. Files are stored separately. */
+export function toAnswerValue(question: FormQuestion, value: string | string[]): Exclude<AnswerValue, StoredFile> {
+  if (question.type === "multi_select") return Array.isArray(value) ? value : [value];
+  const text = Array.isArray(value) ? value[0] : value.trim();
+  switch (question.type) {
+    case "number":
+    case "scale":
+      return Number(text);
+    case "yes_no":
+      return text === "yes";
+    default:
+      return text;
+  }
+}
+
+export const isStoredFile = (value: AnswerValue): value is StoredFile =>
+  typeof value === "object" && !Array.isArray(value) && "key" in value;
+
+/** Plain-text rendering of an answer for display, screening and exports. */
+export function formatAnswer(answer: Pick<ApplicationAnswer, "type" | "value">): string {
+  const { type, value } = answer;
+  if (isStoredFile(value)) return value.fileName;
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (type === "scale") return `${value} / ${SCALE_MAX}`;
+  return String(value);
+}
+
+/** Rule operators offered per question type; types missing here can't be knockout questions. */
+export const KNOCKOUT_OPERATORS: Partial<Record<FormQuestionType, { value: KnockoutRule["operator"]; label: string }[]>> = {
+  yes_no: [{ value: "equals", label: "Must be" }],
+  number: [
+    { value: "gte", label: "At least" },
+    { value: "lte", label: "At most" },
+  ],
+  scale: [
+    { value: "gte", label: "At least" },
+    { value: "lte", label: "At most" },
+  ],
+  single_select: [{ value: "one_of", label: "Must be one of" }],
+  multi_select: [{ value: "includes", label: "Must include" }],
+};
+
+export function defaultKnockout(question: FormQuestion): KnockoutRule | undefined {
+  switch (question.type) {
+    case "yes_no":
+      return { operator: "equals", value: true };
+    case "number":
+      return { operator: "gte", value: 1 };
+    case "scale":
+      return { operator: "gte", value: 3 };
+    case "single_select":
+      return { operator: "one_of", value: question.options?.slice(0, 1) ?? [] };
+    case "multi_select":
+      return { operator: "includes", value: question.options?.slice(0, 1) ?? [] };
+    default:
+      return undefined;
+  }
+}
+
+export function describeKnockout(rule: KnockoutRule): string {
+  switch (rule.operator) {
+    case "equals":
+      return rule.value ? "Yes" : "No";
+    case "gte":
+      return `at least ${rule.value}`;
+    case "lte":
+      return `at most ${rule.value}`;
+    case "one_of":
+      return rule.value.length === 1 ? rule.value[0] : `one of ${rule.value.join(", ")}`;
+    case "includes":
+      return `including ${rule.value.join(", ")}`;
+  }
+}
+
+// Normalizes form input and stored answers alike, so visibility is decided the
+// same way in the browser, on submission and when screening.
+function answerTokens(value: AnswerInput | AnswerValue | undefined): string[] {
+  if (typeof value === "boolean") return [value ? "yes" : "no"];
+  if (typeof value === "string" || typeof value === "number") return [String(value)];
+  if (Array.isArray(value)) return value;
+  return [];
+}
+
+/**
+ * Filters out questions whose `showIf` condition isn't met. A question whose
+ * source question is itself hidden is hidden too.
+ */
+export function visibleQuestions(
+  questions: FormQuestion[],
+  valueOf: (questionId: string) => AnswerInput | AnswerValue | undefined
+): FormQuestion[] {
+  const shown = new Set<string>();
+  return questions.filter((question) => {
+    const condition = question.showIf;
+    const visible =
+      !condition ||
+      (shown.has(condition.questionId) &&
+        answerTokens(valueOf(condition.questionId)).some((token) => condition.values.includes(token)));
+    if (visible) shown.add(question.id);
+    return visible;
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+export class HttpError extends Error {
+  status: number;
+  fieldErrors?: Record<string, string>;
+
+  constructor(status: number, message: string, fieldErrors?: Record<string, string>) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export const notFound = (message = "Not found") => new HttpError(404, message);
+
+/**
+ * A download header for a file name of any script: `filename*` carries it
+ * UTF-8 encoded, and older clients fall back to an ASCII copy.
+ */
+export function attachmentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * An absolute link into the app for emails. The base comes from APP_URL,
+ * never from the request, whose Host header the client controls.
+ */
+export function appUrl(pathname: string): string {
+  const base = process.env.APP_URL || (process.env.NODE_ENV === "production" ? "" : "http://localhost:3000");
+  if (!base) throw new Error("APP_URL must be set");
+  return `${base.replace(/\/+$/, "")}${pathname}`;
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return NextResponse.json(
+      { error: error.message, fieldErrors: error.fieldErrors },
+      { status: error.status }
+    );
+  }
+  console.error("Unhandled API error:", error);
+  return NextResponse.json({ error: "Something went wrong" }, { status: 500 });
+}
+
+export async function readJson<T = Record<string, unknown>>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+}
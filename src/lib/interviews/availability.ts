@@ -0,0 +1,146 @@
+// Interviewer availability and the slots candidates can book from it.
+// Windows repeat weekly in each interviewer's own time zone, so every slot is
+// checked against each interviewer's local clock, which keeps offers right
+// across daylight saving changes and for panels spread over several zones.
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError } from "@/lib/http";
+import { validateEmail } from "@/lib/validation";
+import type { AvailabilityWindow, BookingLink, InterviewerAvailability } from "@/types";
+import { isValidTimeZone } from "./format";
+
+export const SLOT_STEP_MINUTES = 30;
+/** Candidates can't book anything sooner than this. */
+export const MIN_NOTICE_HOURS = 12;
+export const BOOKING_HORIZON_DAYS = 14;
+/** How long a booking link can be used, from when it's sent or reopened. */
+export const BOOKING_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_WINDOWS = 21;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const SHORT_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+function parseWindows(value: unknown, email: string): AvailabilityWindow[] | string {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_WINDOWS) {
+    return `${email} needs between 1 and ${MAX_WINDOWS} availability windows`;
+  }
+  const windows: AvailabilityWindow[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    const weekday = Number(item?.weekday);
+    const start = String(item?.start ?? "");
+    const end = String(item?.end ?? "");
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) return `${email} has a window without a valid day`;
+    if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) return `${email} has a window without valid times`;
+    if (minutesOf(start) >= minutesOf(end)) return `${email} has a window that ends before it starts`;
+    windows.push({ weekday, start, end });
+  }
+  return windows.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+}
+
+function parseAvailabilityInput(value: unknown): Omit<InterviewerAvailability, "companyId">[] | string {
+  if (!Array.isArray(value)) return "Availability must be a list of interviewers";
+  const seen = new Set<string>();
+  const entries: Omit<InterviewerAvailability, "companyId">[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    const email = String(item?.email ?? "").trim().toLowerCase();
+    const emailError = validateEmail(email);
+    if (emailError) return email ? `"${email}" isn't a valid email` : "Every interviewer needs an email";
+    if (seen.has(email)) return `${email} is listed more than once`;
+    seen.add(email);
+    const timeZone = String(item?.timeZone ?? "");
+    if (!isValidTimeZone(timeZone)) return `${email} needs a valid time zone`;
+    const windows = parseWindows(item?.windows, email);
+    if (typeof windows === "string") return windows;
+    entries.push({ email, timeZone, windows });
+  }
+  return entries;
+}
+
+export async function listAvailability(companyId: string): Promise<InterviewerAvailability[]> {
+  return (await readDb()).availability.filter((entry) => entry.companyId === companyId);
+}
+
+/** Replaces the company's availability with the submitted list. */
+export async function replaceAvailability(
+  companyId: string,
+  body: Record<string, unknown>
+): Promise<InterviewerAvailability[]> {
+  const entries = parseAvailabilityInput(body.availability);
+  if (typeof entries === "string") {
+    throw new HttpError(400, "Please fix the highlighted fields", { availability: entries });
+  }
+  return mutateDb((db) => {
+    const availability = entries.map((entry) => ({ companyId, ...entry }));
+    db.availability = [...db.availability.filter((entry) => entry.companyId !== companyId), ...availability];
+    return availability;
+  });
+}
+
+/** Reads the weekday and minutes past midnight of an instant in a time zone. */
+function localClock(timeZone: string) {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  return (at: number) => {
+    const parts = Object.fromEntries(format.formatToParts(at).map((part) => [part.type, part.value]));
+    return { weekday: SHORT_WEEKDAYS.indexOf(parts.weekday), minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+  };
+}
+
+/**
+ * Start times, as ISO strings, at which every interviewer on the link is
+ * inside one of their windows for the whole interview and has no other
+ * scheduled interview. Interviewers without availability have no slots.
+ */
+export function openSlots(
+  db: Database,
+  link: Pick<BookingLink, "companyId" | "durationMinutes" | "interviewers">,
+  now = Date.now()
+): string[] {
+  const step = SLOT_STEP_MINUTES * 60_000;
+  const length = link.durationMinutes * 60_000;
+  const panel = link.interviewers.map((email) => {
+    const entry = db.availability.find((a) => a.companyId === link.companyId && a.email === email);
+    return {
+      clock: localClock(entry?.timeZone ?? "UTC"),
+      windows: entry?.windows ?? [],
+      busy: db.interviews
+        .filter(
+          (interview) =>
+            interview.companyId === link.companyId &&
+            interview.status === "scheduled" &&
+            interview.interviewers.includes(email)
+        )
+        .map((interview) => {
+          const start = Date.parse(interview.startsAt);
+          return { start, end: start + interview.durationMinutes * 60_000 };
+        }),
+    };
+  });
+
+  const slots: string[] = [];
+  const last = now + BOOKING_HORIZON_DAYS * 24 * 60 * 60_000;
+  for (let start = Math.ceil((now + MIN_NOTICE_HOURS * 60 * 60_000) / step) * step; start + length <= last; start += step) {
+    const end = start + length;
+    const fits = panel.every(({ clock, windows, busy }) => {
+      const from = clock(start);
+      const to = clock(end);
+      return (
+        windows.some(
+          (window) =>
+            window.weekday === from.weekday &&
+            to.weekday === from.weekday &&
+            minutesOf(window.start) <= from.minutes &&
+            to.minutes <= minutesOf(window.end)
+        ) && !busy.some((interview) => start < interview.end && end > interview.start)
+      );
+    });
+    if (fits) slots.push(new Date(start).toISOString());
+  }
+  return slots;
+}
@@ -0,0 +1,203 @@
+import { DAY_MS, seedApplication, seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { randomUUID } from "crypto";
+import { type Database, mutateDb, readDb } from "@/lib/db";
+import { HttpError } from "@/lib/http";
+import { createJob, parseJobInput } from "@/lib/jobs";
+import { setMailTransport } from "@/lib/mail";
+import type { AvailabilityWindow, Interview, PublicUser, ScreeningDecision } from "@/types";
+import { openSlots, replaceAvailability } from "./availability";
+import { bookSlot, createBookingLink, getBooking } from "./booking";
+import { cancelInterview } from "./index";
+
+// Invites and links are read from the outbox instead.
+setMailTransport({ async send() {} });
+
+const everyDay = (start: string, end: string): AvailabilityWindow[] =>
+  [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, start, end }));
+
+describe("open slots", () => {
+  // Monday, Nov 2 2026, 08:00 UTC.
+  const now = Date.parse("2026-11-02T08:00:00.000Z");
+  const interview = (changes: Partial<Interview>): Interview => ({
+    id: randomUUID(),
+    companyId: "acme",
+    applicationId: randomUUID(),
+    jobId: randomUUID(),
+    startsAt: "2026-11-03T10:00:00.000Z",
+    durationMinutes: 60,
+    timeZone: "UTC",
+    location: "",
+    interviewers: ["sam@acme.test"],
+    status: "scheduled",
+    sequence: 0,
+    history: [],
+    createdAt: new Date(now).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+    ...changes,
+  });
+  const db = (interviews: Interview[] = []) =>
+    ({
+      availability: [
+        { companyId: "acme", email: "sam@acme.test", timeZone: "UTC", windows: [{ weekday: 2, start: "09:00", end: "12:00" }] },
+        // 10:00 to 17:00 in Berlin is 09:00 to 16:00 UTC in November.
+        { companyId: "acme", email: "kai@acme.test", timeZone: "Europe/Berlin", windows: [{ weekday: 2, start: "10:00", end: "17:00" }] },
+      ],
+      interviews,
+    }) as unknown as Database;
+  // Windows repeat weekly, so only the first Tuesday is compared.
+  const slots = (database: Database, interviewers: string[], durationMinutes = 60, at = now) =>
+    openSlots(database, { companyId: "acme", durationMinutes, interviewers }, at).filter((slot) =>
+      slot.startsWith("2026-11-03")
+    );
+
+  test("fit the whole interview inside a window on each interviewer's clock", () => {
+    assert.deepEqual(slots(db(), ["sam@acme.test"]), [
+      "2026-11-03T09:00:00.000Z",
+      "2026-11-03T09:30:00.000Z",
+      "2026-11-03T10:00:00.000Z",
+      "2026-11-03T10:30:00.000Z",
+      "2026-11-03T11:00:00.000Z",
+    ]);
+    assert.equal(slots(db(), ["kai@acme.test"]).at(-1), "2026-11-03T15:00:00.000Z");
+  });
+
+  test("need every interviewer on the panel to be free", () => {
+    assert.deepEqual(slots(db(), ["sam@acme.test", "kai@acme.test"], 120), [
+      "2026-11-03T09:00:00.000Z",
+      "2026-11-03T09:30:00.000Z",
+      "2026-11-03T10:00:00.000Z",
+    ]);
+    assert.deepEqual(slots(db(), ["sam@acme.test", "nobody@acme.test"]), []);
+  });
+
+  test("skip times overlapping the interviewer's scheduled interviews, but not cancelled ones", () => {
+    const busy = slots(db([interview({})]), ["sam@acme.test"]);
+    assert.deepEqual(busy, ["2026-11-03T09:00:00.000Z", "2026-11-03T11:00:00.000Z"]);
+    assert.equal(slots(db([interview({ status: "cancelled" })]), ["sam@acme.test"]).length, 5);
+    assert.equal(slots(db([interview({ companyId: "other" })]), ["sam@acme.test"]).length, 5);
+  });
+
+  test("leave the minimum notice before the first slot", () => {
+    const at = (iso: string) => slots(db(), ["sam@acme.test"], 60, Date.parse(iso));
+    assert.equal(at("2026-11-02T21:00:00.000Z").length, 5);
+    assert.deepEqual(at("2026-11-02T22:00:00.000Z"), [
+      "2026-11-03T10:00:00.000Z",
+      "2026-11-03T10:30:00.000Z",
+      "2026-11-03T11:00:00.000Z",
+    ]);
+    assert.deepEqual(at("2026-11-03T00:00:00.000Z"), []);
+  });
+});
+
+// A workspace whose interviewer is free all day, every day.
+async function workspace() {
+  const companyId = await seedCompany();
+  const user: PublicUser = {
+    id: randomUUID(),
+    email: "owner@acme.test",
+    companyId,
+    role: "owner",
+    jobIds: [],
+    createdAt: new Date().toISOString(),
+  };
+  const today = new Date().toISOString().slice(0, 10);
+  const job = await createJob(
+    companyId,
+    parseJobInput({
+      title: "Frontend Developer",
+      department: "engineering",
+      location: "Remote",
+      positions: 1,
+      requirements: "3+ years of React",
+      applicationOpenDate: today,
+      applicationOpenTime: "00:00",
+      applicationCloseDate: new Date(Date.now() + 30 * DAY_MS).toISOString().slice(0, 10),
+      applicationCloseTime: "23:59",
+    })
+  );
+  await replaceAvailability(companyId, {
+    availability: [{ email: "sam@acme.test", timeZone: "UTC", windows: everyDay("00:00", "23:59") }],
+  });
+  const candidate = (decision: ScreeningDecision = "qualified") =>
+    seedApplication(companyId, { jobId: job.id, decision, email: `${randomUUID()}@example.test` });
+  return { user, candidate };
+}
+
+const panel = { durationMinutes: 60, location: "Video call", interviewers: ["sam@acme.test"] };
+
+// Sends a booking link and returns its token, read from the emailed link.
+async function sendLink(user: PublicUser, applicationId: string): Promise<string> {
+  await createBookingLink(user, applicationId, panel);
+  const email = (await readDb()).outbox.find((m) => m.applicationId === applicationId && m.template === "booking_link");
+  return email!.text.match(/\/schedule\/([\w-]+)/)![1];
+}
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof HttpError);
+    return error;
+  }
+  assert.fail("expected the request to be rejected");
+};
+
+describe("booking links", () => {
+  test("book a slot once, and only the first of two candidates racing for it", async () => {
+    const { user, candidate } = await workspace();
+    const [first, second] = [await candidate(), await candidate()];
+    const [firstToken, secondToken] = [await sendLink(user, first.id), await sendLink(user, second.id)];
+    const [slot] = (await getBooking(firstToken)).slots;
+    assert.ok((await getBooking(secondToken)).slots.includes(slot));
+
+    const results = await Promise.allSettled([
+      bookSlot(firstToken, { startsAt: slot, timeZone: "Europe/London" }),
+      bookSlot(secondToken, { startsAt: slot, timeZone: "Europe/London" }),
+    ]);
+    assert.equal(results.filter((r) => r.status === "fulfilled").length, 1);
+    const [failed] = results.filter((r) => r.status === "rejected");
+    assert.equal((failed.reason as HttpError).status, 409);
+    assert.ok(!(await getBooking(secondToken)).slots.includes(slot));
+
+    const winner = results[0].status === "fulfilled" ? firstToken : secondToken;
+    const again = await rejection(bookSlot(winner, { startsAt: (await getBooking(secondToken)).slots[0] }));
+    assert.equal(again.message, "You've already booked this interview");
+  });
+
+  test("are only sent to shortlisted candidates", async () => {
+    const { user, candidate } = await workspace();
+    const error = await rejection(createBookingLink(user, (await candidate("not_qualified")).id, panel));
+    assert.equal(error.status, 409);
+    assert.equal((await rejection(createBookingLink(user, (await candidate("pending")).id, panel))).status, 409);
+  });
+
+  test("open again when the interview booked through them is cancelled", async () => {
+    const { user, candidate } = await workspace();
+    const token = await sendLink(user, (await candidate()).id);
+    const [slot] = (await getBooking(token)).slots;
+    const interview = await bookSlot(token, { startsAt: slot });
+    assert.equal((await getBooking(token)).booking.status, "booked");
+
+    await cancelInterview(user, interview.id);
+    const reopened = await getBooking(token);
+    assert.equal(reopened.booking.status, "open");
+    assert.equal(reopened.booking.interview, null);
+    assert.ok(reopened.slots.includes(slot));
+    await bookSlot(token, { startsAt: slot });
+  });
+
+  test("are revoked instead when the candidate has left the shortlist", async () => {
+    const { user, candidate } = await workspace();
+    const application = await candidate();
+    const token = await sendLink(user, application.id);
+    const interview = await bookSlot(token, { startsAt: (await getBooking(token)).slots[0] });
+    await mutateDb((db) => {
+      db.applications.find((app) => app.id === application.id)!.decision = "not_qualified";
+    });
+
+    await cancelInterview(user, interview.id);
+    assert.equal((await getBooking(token)).booking.status, "revoked");
+  });
+});
@@ -0,0 +1,168 @@
+import { randomBytes, randomUUID } from "crypto";
+import { hashToken } from "@/lib/auth";
+import { findCompany } from "@/lib/companies";
+import { mutateDb, readDb } from "@/lib/db";
+import { HttpError, appUrl, notFound } from "@/lib/http";
+import { findJob } from "@/lib/jobs";
+import { enqueueEmail, kickOutbox } from "@/lib/mail";
+import { renderEmail } from "@/lib/mail/templates";
+import type { BookingLink, Interview, PublicBookingLink, PublicUser } from "@/types";
+import { BOOKING_HORIZON_DAYS, BOOKING_LINK_TTL_MS, openSlots } from "./availability";
+import { isValidTimeZone } from "./format";
+import { createInterview, findShortlistedApplication, parsePanelInput } from "./index";
+
+const toPublicBookingLink = ({ tokenHash: _tokenHash, ...link }: BookingLink): PublicBookingLink => link;
+
+const isActive = (link: BookingLink) => link.status === "open" && Date.parse(link.expiresAt) > Date.now();
+
+/**
+ * Emails the candidate a link to pick their own interview slot. Sending a new
+ * link revokes the application's earlier ones. Only a hash of the token is
+ * stored; the link itself only appears in the email.
+ */
+export async function createBookingLink(
+  user: PublicUser,
+  applicationId: string,
+  body: Record<string, unknown>
+): Promise<PublicBookingLink> {
+  const errors: Record<string, string> = {};
+  const panel = parsePanelInput(body, errors);
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const link = await mutateDb((db) => {
+    const application = findShortlistedApplication(db, user.companyId, applicationId);
+    const missing = panel.interviewers.find(
+      (email) => !db.availability.some((entry) => entry.companyId === user.companyId && entry.email === email)
+    );
+    if (missing) {
+      throw new HttpError(400, "Please fix the highlighted fields", {
+        interviewers: `${missing} hasn't set their availability yet. Add it in Account Settings.`,
+      });
+    }
+    if (openSlots(db, { companyId: user.companyId, ...panel }).length === 0) {
+      throw new HttpError(400, "Please fix the highlighted fields", {
+        interviewers: `These interviewers have no time free together in the next ${BOOKING_HORIZON_DAYS} days`,
+      });
+    }
+
+    for (const earlier of db.bookingLinks) {
+      if (earlier.applicationId === applicationId && earlier.status === "open") earlier.status = "revoked";
+    }
+    const now = Date.now();
+    const link: BookingLink = {
+      id: randomUUID(),
+      tokenHash: hashToken(token),
+      companyId: user.companyId,
+      applicationId,
+      jobId: application.jobId,
+      ...panel,
+      status: "open",
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + BOOKING_LINK_TTL_MS).toISOString(),
+    };
+    db.bookingLinks.push(link);
+    enqueueEmail(db, {
+      companyId: user.companyId,
+      applicationId,
+      template: "booking_link",
+      to: application.email,
+      ...renderEmail("booking_link", {
+        candidateName: application.name,
+        jobTitle: findJob(db, application.jobId).title,
+        companyName: findCompany(db, user.companyId).name,
+        bookingUrl: appUrl(`/schedule/${token}`),
+      }),
+    });
+    return link;
+  });
+  kickOutbox();
+  return toPublicBookingLink(link);
+}
+
+/** Links that candidates haven't used yet and that haven't expired. */
+export async function listBookingLinks(companyId: string): Promise<PublicBookingLink[]> {
+  return (await readDb()).bookingLinks
+    .filter((link) => link.companyId === companyId && isActive(link))
+    .map(toPublicBookingLink);
+}
+
+export async function revokeBookingLink(companyId: string, linkId: string): Promise<PublicBookingLink> {
+  return mutateDb((db) => {
+    const link = db.bookingLinks.find((l) => l.id === linkId && l.companyId === companyId);
+    if (!link) throw notFound("Booking link not found");
+    if (link.status === "booked") throw new HttpError(409, "The candidate has already booked a time");
+    link.status = "revoked";
+    return toPublicBookingLink(link);
+  });
+}
+
+function findBookingLink(links: BookingLink[], token: string): BookingLink {
+  const tokenHash = hashToken(token);
+  const link = links.find((l) => l.tokenHash === tokenHash);
+  if (!link) throw notFound("This booking link is invalid");
+  return link;
+}
+
+/** What the candidate's booking page shows: the interview, and the open slots while the link is active. */
+export async function getBooking(token: string) {
+  const db = await readDb();
+  const link = findBookingLink(db.bookingLinks, token);
+  const application = db.applications.find((app) => app.id === link.applicationId);
+  if (!application) throw notFound("This booking link is invalid");
+  const interview = link.interviewId ? db.interviews.find((i) => i.id === link.interviewId) : undefined;
+  return {
+    booking: {
+      candidateName: application.name,
+      jobTitle: findJob(db, link.jobId).title,
+      companyName: findCompany(db, link.companyId).name,
+      durationMinutes: interview?.durationMinutes ?? link.durationMinutes,
+      location: interview?.location ?? link.location,
+      status: link.status === "open" && !isActive(link) ? ("expired" as const) : link.status,
+      interview: interview ? { startsAt: interview.startsAt, status: interview.status } : null,
+    },
+    slots: isActive(link) ? openSlots(db, link) : [],
+  };
+}
+
+/**
+ * Books a slot for the candidate. Slots are worked out again inside the write,
+ * so two candidates racing for the same interviewer can't both get it.
+ */
+export async function bookSlot(token: string, body: Record<string, unknown>): Promise<Interview> {
+  const startsAt = typeof body.startsAt === "string" ? Date.parse(body.startsAt) : NaN;
+  const timeZone = typeof body.timeZone === "string" && body.timeZone ? body.timeZone : "UTC";
+  if (Number.isNaN(startsAt)) throw new HttpError(400, "Please pick a time");
+  if (!isValidTimeZone(timeZone)) throw new HttpError(400, "Unknown time zone");
+
+  const interview = await mutateDb((db) => {
+    const link = findBookingLink(db.bookingLinks, token);
+    if (link.status === "booked") throw new HttpError(409, "You've already booked this interview");
+    if (!isActive(link)) throw new HttpError(409, "This booking link is no longer active");
+    const slot = new Date(startsAt).toISOString();
+    if (!openSlots(db, link).includes(slot)) {
+      throw new HttpError(409, "That time is no longer available. Please pick another.");
+    }
+    const application = db.applications.find((app) => app.id === link.applicationId);
+    if (!application) throw notFound("This booking link is invalid");
+    const interview = createInterview(
+      db,
+      application,
+      {
+        startsAt: slot,
+        durationMinutes: link.durationMinutes,
+        timeZone,
+        candidateTimeZone: timeZone,
+        location: link.location,
+        interviewers: link.interviewers,
+      },
+      null
+    );
+    Object.assign(link, { status: "booked", interviewId: interview.id });
+    return interview;
+  });
+  kickOutbox();
+  return interview;
+}
@@ -0,0 +1,57 @@
+// Shared by the scheduling form and the invite emails so both show interview
+// times the same way.
+
+export const MAX_INTERVIEWERS = 10;
+
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120].map((minutes) => ({
+  value: String(minutes),
+  label: minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`,
+}));
+
+/** Sunday first, matching `Date.getDay()` and `AvailabilityWindow.weekday`. */
+export const WEEKDAY_OPTIONS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].map(
+  (label, index) => ({ value: String(index), label })
+);
+
+const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Madrid",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Istanbul",
+  "Africa/Lagos",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+/** Zones for pickers: the common ones plus `current`, usually the browser's own. */
+export const timeZoneOptions = (current: string) =>
+  [...new Set([current, ...COMMON_TIME_ZONES])]
+    .filter(Boolean)
+    .sort()
+    .map((timeZone) => ({ value: timeZone, label: timeZone.replace(/_/g, " ") }));
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** E.g. "Tuesday, October 20, 2026 at 3:00 PM (Europe/London)". */
+export const formatInterviewTime = (startsAt: string, timeZone: string) =>
+  `${new Intl.DateTimeFormat("en-US", { dateStyle: "full", timeStyle: "short", timeZone }).format(new Date(startsAt))} (${timeZone})`;
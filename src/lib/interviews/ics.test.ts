@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { type CalendarEvent, buildIcs } from "./ics";
+
+const event = (changes: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: "interview-1@recruitai",
+  sequence: 0,
+  method: "REQUEST",
+  start: new Date("2026-11-03T14:30:00.000Z"),
+  durationMinutes: 45,
+  summary: "Interview: Ada Lovelace for Frontend Developer",
+  description: "Interview with Acme for the Frontend Developer role.",
+  location: "",
+  organizer: { name: "Acme", email: "hr@acme.test" },
+  attendees: [{ name: "Ada Lovelace", email: "ada@example.test" }, { email: "sam@acme.test" }],
+  ...changes,
+});
+
+// Joins folded lines back up, as a calendar client reads them.
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+const property = (ics: string, name: string) => unfold(ics).find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe("calendar invites", () => {
+  test("end every line with CRLF and give times in UTC", () => {
+    const ics = buildIcs(event());
+    assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(ics));
+    assert.equal(property(ics, "DTSTART"), "DTSTART:20261103T143000Z");
+    assert.equal(property(ics, "DTEND"), "DTEND:20261103T151500Z");
+    assert.equal(property(ics, "STATUS"), "STATUS:CONFIRMED");
+    assert.equal(property(ics, "LOCATION"), undefined);
+  });
+
+  test("escape backslashes, semicolons, commas and newlines in text", () => {
+    const ics = buildIcs(event({ description: "Bring: ID, CV; portfolio\\notes\nRoom 4", location: "Floor 2, Desk 7" }));
+    assert.equal(property(ics, "DESCRIPTION"), "DESCRIPTION:Bring: ID\\, CV\\; portfolio\\\\notes\\nRoom 4");
+    assert.equal(property(ics, "LOCATION"), "LOCATION:Floor 2\\, Desk 7");
+  });
+
+  test("quote names with separators and drop quotes they can't carry", () => {
+    const ics = buildIcs(event({ organizer: { name: 'Acme, Inc. "Talent"', email: "hr@acme.test" } }));
+    assert.equal(property(ics, "ORGANIZER"), 'ORGANIZER;CN="Acme, Inc. Talent":mailto:hr@acme.test');
+    assert.match(property(ics, "ATTENDEE")!, /^ATTENDEE;CN=Ada Lovelace;ROLE=REQ-PARTICIPANT/);
+  });
+
+  test("fold lines longer than 75 octets without splitting characters", () => {
+    const summary = `Interview: ${"Zoë Müller-Øberg ".repeat(8)}for Frontend Developer`;
+    const ics = buildIcs(event({ summary }));
+    for (const line of ics.split("\r\n")) assert.ok(Buffer.byteLength(line) <= 75, line);
+    assert.ok(ics.split("\r\n").filter((line) => line.startsWith(" ")).length > 1);
+    assert.equal(property(ics, "SUMMARY"), `SUMMARY:${summary}`);
+  });
+
+  test("mark cancellations so calendars remove the event", () => {
+    const ics = buildIcs(event({ method: "CANCEL", sequence: 2 }));
+    assert.equal(property(ics, "METHOD"), "METHOD:CANCEL");
+    assert.equal(property(ics, "SEQUENCE"), "SEQUENCE:2");
+    assert.equal(property(ics, "STATUS"), "STATUS:CANCELLED");
+  });
+});
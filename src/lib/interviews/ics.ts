@@ -0,0 +1,73 @@
+// Minimal RFC 5545 writer for interview invites: one VEVENT per calendar,
+// UTC times, and the escaping and line folding calendar clients expect.
+
+export interface CalendarEvent {
+  /** Stays the same across updates so calendars replace the earlier invite. */
+  uid: string;
+  sequence: number;
+  method: "REQUEST" | "CANCEL";
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description: string;
+  location: string;
+  organizer: { name: string; email: string };
+  attendees: { name?: string; email: string }[];
+}
+
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Parameter values can't be escaped, only quoted, and can't contain quotes.
+const paramValue = (text: string) => {
+  const clean = text.replace(/"/g, "");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+// Content lines longer than 75 octets continue on the next line after a space.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function buildIcs(event: CalendarEvent): string {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60_000);
+  const cancelled = event.method === "CANCEL";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//RecruitAI//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.method}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `ORGANIZER;CN=${paramValue(event.organizer.name)}:mailto:${event.organizer.email}`,
+    ...event.attendees.map(
+      (attendee) =>
+        `ATTENDEE;${attendee.name ? `CN=${paramValue(attendee.name)};` : ""}ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`
+    ),
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,292 @@
+import { randomUUID } from "crypto";
+import { findCompany } from "@/lib/companies";
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { findJob } from "@/lib/jobs";
+import { enqueueEmail, kickOutbox } from "@/lib/mail";
+import { renderEmail } from "@/lib/mail/templates";
+import { validateEmail } from "@/lib/validation";
+import type {
+  Application,
+  CalendarAttachment,
+  EmailTemplate,
+  Interview,
+  InterviewChange,
+  InterviewSummary,
+  PublicUser,
+} from "@/types";
+import { BOOKING_LINK_TTL_MS } from "./availability";
+import { DURATION_OPTIONS, MAX_INTERVIEWERS, formatInterviewTime, isValidTimeZone } from "./format";
+import { buildIcs } from "./ics";
+
+export { buildIcs, type CalendarEvent } from "./ics";
+
+const MAX_LOCATION_LENGTH = 300;
+
+export type PanelInput = Pick<Interview, "durationMinutes" | "location" | "interviewers">;
+
+type InterviewInput = PanelInput & Pick<Interview, "startsAt" | "timeZone">;
+
+/** The length, place and interviewers, shared by scheduled interviews and booking links. Problems go into `errors`. */
+export function parsePanelInput(body: Record<string, unknown>, errors: Record<string, string>): PanelInput {
+  const durationMinutes = Number(body.durationMinutes);
+  const location = typeof body.location === "string" ? body.location.trim() : "";
+  const interviewers = Array.isArray(body.interviewers)
+    ? [
+        ...new Set(
+          body.interviewers
+            .filter((email): email is string => typeof email === "string")
+            .map((email) => email.trim().toLowerCase())
+            .filter(Boolean)
+        ),
+      ]
+    : [];
+
+  if (!DURATION_OPTIONS.some((option) => Number(option.value) === durationMinutes)) {
+    errors.durationMinutes = "Please choose a duration";
+  }
+  if (location.length > MAX_LOCATION_LENGTH) errors.location = `Keep the location under ${MAX_LOCATION_LENGTH} characters`;
+  if (interviewers.length === 0 || interviewers.length > MAX_INTERVIEWERS) {
+    errors.interviewers = `Add between 1 and ${MAX_INTERVIEWERS} interviewers`;
+  } else {
+    const invalid = interviewers.find((email) => validateEmail(email));
+    if (invalid) errors.interviewers = `"${invalid}" isn't a valid email`;
+  }
+  return { durationMinutes, location, interviewers };
+}
+
+export function parseInterviewInput(body: Record<string, unknown>): InterviewInput {
+  const startsAt = typeof body.startsAt === "string" ? Date.parse(body.startsAt) : NaN;
+  const timeZone = typeof body.timeZone === "string" && body.timeZone ? body.timeZone : "UTC";
+
+  const errors: Record<string, string> = {};
+  if (Number.isNaN(startsAt)) errors.startsAt = "Please pick a date and time";
+  else if (startsAt <= Date.now()) errors.startsAt = "Interviews must be scheduled in the future";
+  if (!isValidTimeZone(timeZone)) errors.timeZone = "Unknown time zone";
+  const panel = parsePanelInput(body, errors);
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  return { startsAt: new Date(startsAt).toISOString(), timeZone, ...panel };
+}
+
+function findInterview(db: Database, companyId: string, interviewId: string): Interview {
+  const interview = db.interviews.find((i) => i.id === interviewId && i.companyId === companyId);
+  if (!interview) throw notFound("Interview not found");
+  return interview;
+}
+
+/** The application to interview, which must be on the shortlist, i.e. qualified by screening. */
+export function findShortlistedApplication(db: Database, companyId: string, applicationId: string): Application {
+  const application = db.applications.find((app) => app.id === applicationId && app.companyId === companyId);
+  if (!application) throw notFound("Application not found");
+  if (application.decision !== "qualified") {
+    throw new HttpError(409, "Only shortlisted candidates can be invited to interview");
+  }
+  return application;
+}
+
+function invite(db: Database, interview: Interview, method: "REQUEST" | "CANCEL") {
+  const application = db.applications.find((app) => app.id === interview.applicationId);
+  if (!application) throw notFound("Application not found");
+  const job = findJob(db, interview.jobId);
+  const company = findCompany(db, interview.companyId);
+  return {
+    application,
+    job,
+    company,
+    ics: buildIcs({
+      uid: `${interview.id}@recruitai`,
+      sequence: interview.sequence,
+      method,
+      start: new Date(interview.startsAt),
+      durationMinutes: interview.durationMinutes,
+      summary: `Interview: ${application.name} for ${job.title}`,
+      description: `Interview with ${company.name} for the ${job.title} role.`,
+      location: interview.location,
+      organizer: { name: company.name, email: company.email },
+      attendees: [{ name: application.name, email: application.email }, ...interview.interviewers.map((email) => ({ email }))],
+    }),
+  };
+}
+
+/**
+ * Queues the template with a calendar attachment for the candidate and each
+ * interviewer, with times shown in each recipient's own zone where it is
+ * known. Removed interviewers are sent a cancellation instead.
+ */
+function sendInvites(
+  db: Database,
+  interview: Interview,
+  template: EmailTemplate,
+  removedInterviewers: string[] = []
+): void {
+  const method = template === "interview_cancelled" ? "CANCEL" : "REQUEST";
+  const { application, job, company, ics } = invite(db, interview, method);
+  const zoneOf = (email: string) =>
+    db.availability.find((entry) => entry.companyId === interview.companyId && entry.email === email)?.timeZone ??
+    interview.timeZone;
+  const send = (
+    to: string,
+    emailTemplate: EmailTemplate,
+    timeZone: string,
+    toInterviewer: boolean,
+    calendar: CalendarAttachment
+  ) =>
+    enqueueEmail(db, {
+      companyId: interview.companyId,
+      applicationId: interview.applicationId,
+      template: emailTemplate,
+      to,
+      ...renderEmail(emailTemplate, {
+        candidateName: application.name,
+        jobTitle: job.title,
+        companyName: company.name,
+        interview: {
+          when: formatInterviewTime(interview.startsAt, timeZone),
+          durationMinutes: interview.durationMinutes,
+          location: interview.location,
+        },
+        toInterviewer,
+      }),
+      calendar,
+    });
+
+  send(application.email, template, interview.candidateTimeZone ?? interview.timeZone, false, { method, content: ics });
+  for (const email of interview.interviewers) send(email, template, zoneOf(email), true, { method, content: ics });
+  if (removedInterviewers.length > 0) {
+    const cancellation = invite(db, { ...interview, interviewers: removedInterviewers }, "CANCEL").ics;
+    for (const email of removedInterviewers) {
+      send(email, "interview_cancelled", zoneOf(email), true, { method: "CANCEL", content: cancellation });
+    }
+  }
+}
+
+/**
+ * Adds an interview inside a caller's `mutateDb` and queues its invites. Call
+ * `kickOutbox()` once the change is saved.
+ */
+export function createInterview(
+  db: Database,
+  application: Application,
+  input: InterviewInput & Pick<Interview, "candidateTimeZone">,
+  actor: InterviewChange["actor"]
+): Interview {
+  const now = new Date().toISOString();
+  const interview: Interview = {
+    id: randomUUID(),
+    companyId: application.companyId,
+    applicationId: application.id,
+    jobId: application.jobId,
+    ...input,
+    status: "scheduled",
+    sequence: 0,
+    history: [{ at: now, action: "scheduled", startsAt: input.startsAt, actor }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.interviews.push(interview);
+  sendInvites(db, interview, "interview_scheduled");
+  return interview;
+}
+
+export async function scheduleInterview(
+  user: PublicUser,
+  applicationId: string,
+  body: Record<string, unknown>
+): Promise<Interview> {
+  const input = parseInterviewInput(body);
+  const interview = await mutateDb((db) => {
+    const application = findShortlistedApplication(db, user.companyId, applicationId);
+    return createInterview(db, application, input, { userId: user.id, email: user.email });
+  });
+  kickOutbox();
+  return interview;
+}
+
+/** Changes the time, duration, place or panel and sends everyone an updated invite. */
+export async function rescheduleInterview(
+  user: PublicUser,
+  interviewId: string,
+  body: Record<string, unknown>
+): Promise<Interview> {
+  const input = parseInterviewInput(body);
+  const interview = await mutateDb((db) => {
+    const interview = findInterview(db, user.companyId, interviewId);
+    if (interview.status === "cancelled") throw new HttpError(409, "This interview was cancelled");
+    const removed = interview.interviewers.filter((email) => !input.interviewers.includes(email));
+    const now = new Date().toISOString();
+    Object.assign(interview, input, { sequence: interview.sequence + 1, updatedAt: now });
+    interview.history.push({ at: now, action: "rescheduled", startsAt: input.startsAt, actor: { userId: user.id, email: user.email } });
+    sendInvites(db, interview, "interview_rescheduled", removed);
+    return interview;
+  });
+  kickOutbox();
+  return interview;
+}
+
+export async function cancelInterview(user: PublicUser, interviewId: string): Promise<Interview> {
+  const interview = await mutateDb((db) => {
+    const interview = findInterview(db, user.companyId, interviewId);
+    if (interview.status === "cancelled") throw new HttpError(409, "This interview was already cancelled");
+    const now = new Date().toISOString();
+    Object.assign(interview, { status: "cancelled", sequence: interview.sequence + 1, updatedAt: now });
+    interview.history.push({ at: now, action: "cancelled", startsAt: interview.startsAt, actor: { userId: user.id, email: user.email } });
+    sendInvites(db, interview, "interview_cancelled");
+    // A candidate who booked through a link can pick a new time with it for another
+    // week, unless they've left the shortlist or been sent a newer link since.
+    const link = db.bookingLinks.find((l) => l.interviewId === interview.id);
+    if (link) {
+      const reopen =
+        db.applications.some((app) => app.id === interview.applicationId && app.decision === "qualified") &&
+        !db.bookingLinks.some((l) => l.applicationId === interview.applicationId && l.status === "open");
+      Object.assign(
+        link,
+        reopen
+          ? { status: "open", interviewId: undefined, expiresAt: new Date(Date.parse(now) + BOOKING_LINK_TTL_MS).toISOString() }
+          : { status: "revoked" }
+      );
+    }
+    return interview;
+  });
+  kickOutbox();
+  return interview;
+}
+
+/**
+ * The company's interviews, soonest first. `upcoming` keeps scheduled ones
+ * that haven't ended yet.
+ */
+export async function listInterviews(
+  companyId: string,
+  { applicationId, upcoming }: { applicationId?: string; upcoming?: boolean }
+): Promise<InterviewSummary[]> {
+  const db = await readDb();
+  const now = Date.now();
+  return db.interviews
+    .filter(
+      (interview) =>
+        interview.companyId === companyId &&
+        (!applicationId || interview.applicationId === applicationId) &&
+        (!upcoming ||
+          (interview.status === "scheduled" &&
+            Date.parse(interview.startsAt) + interview.durationMinutes * 60_000 > now))
+    )
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+    .map((interview) => {
+      const application = db.applications.find((app) => app.id === interview.applicationId);
+      return {
+        ...interview,
+        candidateName: application?.name ?? "",
+        candidateEmail: application?.email ?? "",
+        jobTitle: db.jobs.find((job) => job.id === interview.jobId)?.title ?? "",
+      };
+    });
+}
+
+/** The current invite as a file recruiters can add to their own calendar. */
+export async function getInterviewIcs(companyId: string, interviewId: string): Promise<string> {
+  const db = await readDb();
+  const interview = findInterview(db, companyId, interviewId);
+  return invite(db, interview, interview.status === "cancelled" ? "CANCEL" : "REQUEST").ics;
+}
@@ -0,0 +1,61 @@
+// When a job takes applications. Shared by the scheduler in src/lib/jobs.ts,
+// the public apply endpoints, which enforce it, and the jobs and apply pages.
+import type { Job, JobStatus } from "@/types";
+
+type JobTimes = Pick<
+  Job,
+  "applicationOpenDate" | "applicationOpenTime" | "applicationCloseDate" | "applicationCloseTime" | "timeZone"
+>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** A real calendar date written as YYYY-MM-DD. */
+export const isValidDate = (date: string) =>
+  DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date);
+
+// Jobs from before the zone was kept are read in UTC.
+export const jobTimeZone = (job: Pick<Job, "timeZone">) => job.timeZone ?? "UTC";
+
+// How far the zone's clock is ahead of UTC at an instant, in milliseconds.
+function offsetAt(at: number, timeZone: string): number {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  });
+  const parts = Object.fromEntries(format.formatToParts(at).map((part) => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - at;
+}
+
+/**
+ * The instant a date and time read on the zone's clock. The offset is taken
+ * again at the first guess so times next to a daylight saving change land on
+ * the right side of it; a time skipped by the change comes out an hour later.
+ */
+export function zonedInstant(date: string, time: string, timeZone: string): Date {
+  const wall = Date.parse(`${date}T${time}Z`);
+  return new Date(wall - offsetAt(wall - offsetAt(wall, timeZone), timeZone));
+}
+
+// Dates and times are as the recruiter entered them, in the job's zone.
+export const opensAt = (job: JobTimes) =>
+  zonedInstant(job.applicationOpenDate, job.applicationOpenTime, jobTimeZone(job));
+
+export const closesAt = (job: JobTimes) =>
+  zonedInstant(job.applicationCloseDate, job.applicationCloseTime, jobTimeZone(job));
+
+/** The status a job's open and close times call for at `now`. */
+export function scheduledStatus(job: JobTimes, now = new Date()): JobStatus {
+  if (now < opensAt(job)) return "Scheduled";
+  return now <= closesAt(job) ? "Open" : "Closed";
+}
+
+/** E.g. "Oct 20, 2026, 3:00 PM (Europe/London)", on the job's clock wherever it's read. */
+export const formatJobTime = (date: Date, timeZone: string) =>
+  `${new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "short", timeZone }).format(date)} (${timeZone})`;
@@ -0,0 +1,105 @@
+import { seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { mutateDb, readDb } from "@/lib/db";
+import { closesAt, opensAt, scheduledStatus, zonedInstant } from "@/lib/job-schedule";
+import { closeJob, createJob, parseJobInput, runJobSchedule, updateJob } from "@/lib/jobs";
+
+const details = (times: Record<string, string>) => ({
+  title: "Frontend Developer",
+  department: "engineering",
+  location: "Remote",
+  positions: 1,
+  requirements: "3+ years of React",
+  applicationOpenDate: "2026-03-01",
+  applicationOpenTime: "09:00",
+  applicationCloseDate: "2026-03-31",
+  applicationCloseTime: "17:00",
+  timeZone: "America/New_York",
+  ...times,
+});
+
+const storedJob = async (id: string) => (await readDb()).jobs.find((job) => job.id === id)!;
+
+describe("job times", () => {
+  test("are read on the job's clock, across daylight saving changes", () => {
+    assert.equal(zonedInstant("2026-01-15", "09:00", "America/New_York").toISOString(), "2026-01-15T14:00:00.000Z");
+    assert.equal(zonedInstant("2026-07-15", "09:00", "America/New_York").toISOString(), "2026-07-15T13:00:00.000Z");
+    // London skips from 01:00 to 02:00 that night, so 01:30 comes out as 02:30 summer time.
+    assert.equal(zonedInstant("2026-03-29", "01:30", "Europe/London").toISOString(), "2026-03-29T01:30:00.000Z");
+    assert.equal(zonedInstant("2026-03-29", "03:30", "Europe/London").toISOString(), "2026-03-29T02:30:00.000Z");
+    assert.equal(zonedInstant("2026-07-15", "09:00", "Asia/Tokyo").toISOString(), "2026-07-15T00:00:00.000Z");
+  });
+
+  test("decide whether the job is scheduled, open or closed", () => {
+    const job = details({});
+    assert.equal(opensAt(job).toISOString(), "2026-03-01T14:00:00.000Z");
+    assert.equal(closesAt(job).toISOString(), "2026-03-31T21:00:00.000Z");
+    assert.equal(scheduledStatus(job, new Date("2026-03-01T13:59:00.000Z")), "Scheduled");
+    assert.equal(scheduledStatus(job, new Date("2026-03-01T14:00:00.000Z")), "Open");
+    assert.equal(scheduledStatus(job, new Date("2026-03-31T21:01:00.000Z")), "Closed");
+  });
+
+  test("are rejected when they aren't real dates, times or zones", () => {
+    const fieldErrors = (times: Record<string, string>) => {
+      try {
+        parseJobInput(details(times));
+      } catch (error) {
+        return (error as { status: number; fieldErrors: Record<string, string> }).fieldErrors;
+      }
+      assert.fail("expected the input to be rejected");
+    };
+    assert.ok(fieldErrors({ applicationOpenDate: "2026-02-30" }).applicationOpenDate);
+    assert.ok(fieldErrors({ applicationOpenDate: "03/01/2026" }).applicationOpenDate);
+    assert.ok(fieldErrors({ applicationCloseTime: "5pm" }).applicationCloseTime);
+    assert.ok(fieldErrors({ applicationCloseTime: "24:00" }).applicationCloseTime);
+    assert.ok(fieldErrors({ timeZone: "Mars/Olympus_Mons" }).timeZone);
+    assert.ok(fieldErrors({ applicationCloseDate: "2026-02-01" }).applicationCloseDate);
+  });
+});
+
+describe("the schedule", () => {
+  const day = (offset: number) => new Date(Date.now() + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  test("opens a job at its open time and closes it at its close time", async () => {
+    const companyId = await seedCompany();
+    const job = await createJob(
+      companyId,
+      parseJobInput(details({ applicationOpenDate: day(1), applicationCloseDate: day(30), timeZone: "UTC" }))
+    );
+    assert.equal(job.status, "Scheduled");
+
+    await mutateDb((db) => {
+      db.jobs.find((j) => j.id === job.id)!.applicationOpenDate = day(-1);
+    });
+    await runJobSchedule();
+    assert.equal((await storedJob(job.id)).status, "Open");
+
+    await mutateDb((db) => {
+      db.jobs.find((j) => j.id === job.id)!.applicationCloseDate = day(-1);
+    });
+    await runJobSchedule();
+    const closed = await storedJob(job.id);
+    assert.equal(closed.status, "Closed");
+    assert.equal(closed.closedBy, "schedule");
+  });
+
+  test("reopens a job its close time closed when the close time moves later", async () => {
+    const companyId = await seedCompany();
+    const past = details({ applicationOpenDate: day(-10), applicationCloseDate: day(-1), timeZone: "UTC" });
+    const job = await createJob(companyId, parseJobInput(past));
+    assert.equal(job.status, "Closed");
+    const reopened = await updateJob(companyId, job.id, parseJobInput({ ...past, applicationCloseDate: day(10) }));
+    assert.equal(reopened.status, "Open");
+  });
+
+  test("keeps a job a recruiter closed closed, even after its close time closed it", async () => {
+    const companyId = await seedCompany();
+    const past = details({ applicationOpenDate: day(-10), applicationCloseDate: day(-1), timeZone: "UTC" });
+    const job = await createJob(companyId, parseJobInput(past));
+    const closed = await closeJob(companyId, job.id);
+    assert.equal(closed.closedBy, "recruiter");
+    const updated = await updateJob(companyId, job.id, parseJobInput({ ...past, applicationCloseDate: day(10) }));
+    assert.equal(updated.status, "Closed");
+  });
+});
@@ -0,0 +1,547 @@
+import { randomUUID } from "crypto";
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { findCompany } from "@/lib/companies";
+import { LEVEL_OPTIONS, MAX_CRITERIA, MAX_WEIGHT, MIN_WEIGHT, parseCriteria } from "@/lib/criteria";
+import { assertFeature } from "@/lib/entitlements";
+import {
+  KNOCKOUT_OPERATORS,
+  MAX_FORM_QUESTIONS,
+  MAX_FORM_SECTIONS,
+  MAX_OPTIONS,
+  MAX_WORD_LIMIT,
+  QUESTION_TYPE_OPTIONS,
+  SCALE_MAX,
+  SCALE_MIN,
+  conditionChoices,
+  isChoiceQuestion,
+  isConditionSource,
+  isStoredFile,
+} from "@/lib/forms";
+import { HttpError, notFound } from "@/lib/http";
+import { isValidTimeZone } from "@/lib/interviews/format";
+import { TIME_PATTERN, closesAt, isValidDate, opensAt, scheduledStatus } from "@/lib/job-schedule";
+import { CLOSING_SOON_MS, notifyJobsClosingSoon } from "@/lib/notifications";
+import { MAX_STAGES, MAX_STAGE_NAME_LENGTH, STAGE_KIND_OPTIONS, jobPipeline, stageOf } from "@/lib/pipeline";
+import { processSingleton } from "@/lib/process";
+import { getBlobStore } from "@/lib/storage";
+import { assertQuota, checkUsageAlerts, recordUsage } from "@/lib/usage";
+import type {
+  FormQuestion,
+  FormQuestionType,
+  FormSchema,
+  FormSection,
+  Job,
+  JobCriterion,
+  JobInput,
+  JobSummary,
+  KnockoutRule,
+  PipelineStage,
+  PublicJob,
+  QuestionCondition,
+} from "@/types";
+
+const asString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// Returns null when any criterion is malformed so the whole list can be rejected with one field error.
+function parseCriteriaInput(value: unknown): JobCriterion[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CRITERIA) return null;
+  const criteria: JobCriterion[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    const skill = asString(item?.skill);
+    const minYears = item?.minYears === null || item?.minYears === "" ? null : Number(item?.minYears);
+    const level = item?.level ? LEVEL_OPTIONS.find((option) => option.value === item.level)?.value : null;
+    const weight = Number(item?.weight);
+    if (
+      !skill ||
+      (minYears !== null && (!Number.isInteger(minYears) || minYears < 0 || minYears > 50)) ||
+      level === undefined ||
+      (item.importance !== "must_have" && item.importance !== "nice_to_have") ||
+      !Number.isInteger(weight) ||
+      weight < MIN_WEIGHT ||
+      weight > MAX_WEIGHT
+    ) {
+      return null;
+    }
+    criteria.push({
+      id: asString(item.id) || randomUUID(),
+      skill,
+      minYears,
+      level,
+      importance: item.importance,
+      weight,
+    });
+  }
+  return criteria;
+}
+
+// Only the settings that apply to the question's type are kept. Returns an error message
+// when a setting is invalid.
+function parseQuestionConfig(type: FormQuestionType, item: Record<string, unknown>): Partial<FormQuestion> | string {
+  if (isChoiceQuestion(type)) {
+    const options = Array.isArray(item.options) ? item.options.map(asString) : [];
+    const valid = options.length >= 2 && options.length <= MAX_OPTIONS && options.every(Boolean);
+    return valid && new Set(options).size === options.length
+      ? { options }
+      : `needs 2 to ${MAX_OPTIONS} distinct options`;
+  }
+  if (type === "long_text" && item.maxWords !== undefined && item.maxWords !== null && item.maxWords !== "") {
+    const maxWords = Number(item.maxWords);
+    if (!Number.isInteger(maxWords) || maxWords < 1 || maxWords > MAX_WORD_LIMIT) {
+      return `needs a word limit from 1 to ${MAX_WORD_LIMIT}`;
+    }
+    return { maxWords };
+  }
+  if (type === "scale" && Array.isArray(item.scaleLabels)) {
+    const [low, high] = item.scaleLabels.map(asString);
+    return low || high ? { scaleLabels: [low ?? "", high ?? ""] } : {};
+  }
+  return {};
+}
+
+function parseKnockout(type: FormQuestionType, options: string[] | undefined, value: unknown): KnockoutRule | null {
+  const rule = value as { operator?: unknown; value?: unknown };
+  const operator = KNOCKOUT_OPERATORS[type]?.find((option) => option.value === rule?.operator)?.value;
+  switch (operator) {
+    case "equals":
+      return typeof rule.value === "boolean" ? { operator, value: rule.value } : null;
+    case "gte":
+    case "lte": {
+      const threshold = Number(rule.value);
+      if (rule.value === "" || rule.value === null || !Number.isFinite(threshold)) return null;
+      if (type === "scale" && (!Number.isInteger(threshold) || threshold < SCALE_MIN || threshold > SCALE_MAX)) {
+        return null;
+      }
+      return { operator, value: threshold };
+    }
+    case "one_of":
+    case "includes": {
+      if (!Array.isArray(rule.value)) return null;
+      const accepted = [...new Set(rule.value.map(asString))];
+      return accepted.length > 0 && accepted.every((option) => options?.includes(option))
+        ? { operator, value: accepted }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Conditions may only point back at earlier questions, which rules out cycles.
+function parseCondition(value: unknown, earlier: FormQuestion[]): QuestionCondition | null {
+  const condition = value as { questionId?: unknown; values?: unknown };
+  const source = earlier.find((question) => question.id === asString(condition?.questionId));
+  if (!source || !isConditionSource(source.type) || !Array.isArray(condition.values)) return null;
+  const allowed = conditionChoices(source).map((choice) => choice.value);
+  const values = [...new Set(condition.values.map(asString))];
+  return values.length > 0 && values.every((v) => allowed.includes(v)) ? { questionId: source.id, values } : null;
+}
+
+const sanitizeId = (value: unknown, seen: Set<string>) => {
+  let id = asString(value);
+  if (!/^[\w-]{1,40}$/.test(id) || seen.has(id)) id = randomUUID();
+  seen.add(id);
+  return id;
+};
+
+function parseSections(value: unknown): FormSection[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_FORM_SECTIONS) {
+    return `Forms can have up to ${MAX_FORM_SECTIONS} extra steps`;
+  }
+  const seen = new Set<string>();
+  const sections: FormSection[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    const title = asString(item?.title);
+    if (!title) return "Each step needs a title";
+    const description = asString(item.description);
+    sections.push({ id: sanitizeId(item.id, seen), title, ...(description && { description }) });
+  }
+  return sections;
+}
+
+// Like criteria, a malformed form is rejected as a whole, but with a message naming the
+// offending question. Question ids end up in form field names, so anything unexpected is
+// replaced.
+function parseFormInput(value: unknown): FormSchema | string {
+  const body = value as { questions?: unknown; sections?: unknown };
+  if (!Array.isArray(body?.questions) || body.questions.length > MAX_FORM_QUESTIONS) {
+    return `Forms can have up to ${MAX_FORM_QUESTIONS} questions`;
+  }
+  const sections = parseSections(body.sections);
+  if (typeof sections === "string") return sections;
+
+  const seen = new Set<string>();
+  // Conditions refer to questions by the id the client sent, which may have been replaced.
+  const ids = new Map<string, string>();
+  const parsed: FormQuestion[] = [];
+  for (const [index, item] of (body.questions as Record<string, unknown>[]).entries()) {
+    const problem = (message: string) => `Question ${index + 1} ${message}`;
+    const label = asString(item?.label);
+    const type = QUESTION_TYPE_OPTIONS.find((option) => option.value === item?.type)?.value;
+    if (!label || !type) return problem("needs a label and a supported type");
+    const config = parseQuestionConfig(type, item);
+    if (typeof config === "string") return problem(config);
+    if (item.knockout !== undefined && item.knockout !== null) {
+      const knockout = parseKnockout(type, config.options, item.knockout);
+      if (!knockout) return problem("has a knockout rule that doesn't match its type or options");
+      config.knockout = knockout;
+    }
+    if (item.sectionId !== undefined && item.sectionId !== null && item.sectionId !== "") {
+      const section = sections.find((s) => s.id === asString(item.sectionId));
+      if (!section) return problem("is assigned to a step that doesn't exist");
+      config.sectionId = section.id;
+    }
+    if (item.showIf !== undefined && item.showIf !== null) {
+      const showIf = item.showIf as Record<string, unknown>;
+      const sourceId = ids.get(asString(showIf.questionId)) ?? "";
+      const condition = parseCondition({ ...showIf, questionId: sourceId }, parsed);
+      if (!condition) return problem("can only depend on an earlier yes/no or choice question");
+      config.showIf = condition;
+    }
+    const id = sanitizeId(item.id, seen);
+    ids.set(asString(item.id), id);
+    parsed.push({ id, label, type, required: item.required !== false, ...config });
+  }
+  return { questions: parsed, sections };
+}
+
+function parsePipelineInput(value: unknown): PipelineStage[] | string {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_STAGES) {
+    return `Pipelines need between 2 and ${MAX_STAGES} stages`;
+  }
+  const seen = new Set<string>();
+  const names = new Set<string>();
+  const stages: PipelineStage[] = [];
+  for (const [index, item] of (value as Record<string, unknown>[]).entries()) {
+    const name = asString(item?.name).slice(0, MAX_STAGE_NAME_LENGTH);
+    if (!name) return `Stage ${index + 1} needs a name`;
+    if (names.has(name.toLowerCase())) return `There is more than one stage called "${name}"`;
+    names.add(name.toLowerCase());
+    const kind = STAGE_KIND_OPTIONS.find((option) => option.value === item.kind)?.value;
+    if (!kind) return `"${name}" needs a valid stage type`;
+    stages.push({ id: sanitizeId(item.id, seen), name, kind });
+  }
+  // New applications land in the first stage.
+  if (stages[0].kind !== "open") return "The first stage must be an in-progress stage";
+  return stages;
+}
+
+export function parseJobInput(body: Record<string, unknown>): JobInput {
+  const requirements = asString(body.requirements);
+  // Clients that only send the requirements text get criteria suggested from it.
+  const criteria = body.criteria === undefined ? parseCriteria(requirements) : parseCriteriaInput(body.criteria);
+  // Left out when not sent so updating the job details never wipes the form.
+  const form = body.form === undefined ? undefined : parseFormInput(body.form);
+  const timeZone = asString(body.timeZone) || "UTC";
+  const input: JobInput = {
+    title: asString(body.title),
+    department: asString(body.department),
+    customDepartment: asString(body.customDepartment),
+    location: asString(body.location),
+    positions: Number(body.positions),
+    requirements,
+    criteria: criteria ?? [],
+    applicationOpenDate: asString(body.applicationOpenDate),
+    applicationOpenTime: asString(body.applicationOpenTime),
+    applicationCloseDate: asString(body.applicationCloseDate),
+    applicationCloseTime: asString(body.applicationCloseTime),
+    timeZone,
+    ...(typeof form === "object" && { form }),
+  };
+
+  const errors: Record<string, string> = {};
+  if (!input.title) errors.title = "Job title is required";
+  if (!input.department) errors.department = "Department is required";
+  if (input.department === "other" && !input.customDepartment) {
+    errors.customDepartment = "Please specify the department";
+  }
+  if (!input.location) errors.location = "Location is required";
+  if (!Number.isInteger(input.positions) || input.positions < 1) {
+    errors.positions = "Number of positions must be at least 1";
+  }
+  if (!input.requirements) errors.requirements = "Job requirements are required";
+  if (!criteria) {
+    errors.criteria = `Each criterion needs a skill and a weight from ${MIN_WEIGHT} to ${MAX_WEIGHT} (up to ${MAX_CRITERIA} criteria)`;
+  }
+  if (typeof form === "string") errors.form = form;
+  if (!input.applicationOpenDate || !input.applicationOpenTime) {
+    errors.applicationOpenDate = "Application open date and time are required";
+  } else if (!isValidDate(input.applicationOpenDate)) {
+    errors.applicationOpenDate = "Enter the open date as YYYY-MM-DD";
+  } else if (!TIME_PATTERN.test(input.applicationOpenTime)) {
+    errors.applicationOpenTime = "Enter the open time as HH:MM";
+  }
+  if (!input.applicationCloseDate || !input.applicationCloseTime) {
+    errors.applicationCloseDate = "Application close date and time are required";
+  } else if (!isValidDate(input.applicationCloseDate)) {
+    errors.applicationCloseDate = "Enter the close date as YYYY-MM-DD";
+  } else if (!TIME_PATTERN.test(input.applicationCloseTime)) {
+    errors.applicationCloseTime = "Enter the close time as HH:MM";
+  }
+  if (!isValidTimeZone(timeZone)) {
+    errors.timeZone = "Unknown time zone";
+  } else if (
+    !errors.applicationOpenDate &&
+    !errors.applicationOpenTime &&
+    !errors.applicationCloseDate &&
+    !errors.applicationCloseTime &&
+    closesAt(input) <= opensAt(input)
+  ) {
+    errors.applicationCloseDate = "Applications must close after they open";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  return input;
+}
+
+function toSummary(db: Database, job: Job): JobSummary {
+  const applications = db.applications.filter((app) => app.jobId === job.id);
+  const reviewable = applications.filter((app) => !app.heldAt);
+  return {
+    ...job,
+    applicationCount: reviewable.length,
+    qualifiedCount: reviewable.filter((app) => app.decision === "qualified").length,
+    heldCount: applications.length - reviewable.length,
+  };
+}
+
+// Jobs from another workspace are reported as missing so ids can't be probed across tenants.
+export function findJob(db: Database, jobId: string, companyId?: string): Job {
+  const job = db.jobs.find((j) => j.id === jobId && (!companyId || j.companyId === companyId));
+  if (!job) throw notFound("Job not found");
+  return job;
+}
+
+// Only one timer should publish and close jobs.
+const schedule = processSingleton(
+  "jobSchedule",
+  () => ({}) as { next?: { timer: NodeJS.Timeout; at: number }; started?: boolean }
+);
+
+// setTimeout can't wait longer than this; the run it fires just sets the next timer.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function scheduleJobRun(at: number): void {
+  const current = schedule.next;
+  if (current && current.at <= at) return;
+  if (current) clearTimeout(current.timer);
+  const timer = setTimeout(
+    () => {
+      schedule.next = undefined;
+      runScheduledWork().catch((error) => console.error("Failed to run the job schedule:", error));
+    },
+    Math.min(MAX_TIMER_MS, Math.max(0, at - Date.now()))
+  );
+  timer.unref();
+  schedule.next = { timer, at };
+}
+
+// What the timer runs: the schedule itself, then closing-soon notifications for
+// the workspaces with a job inside the last day.
+async function runScheduledWork(): Promise<void> {
+  await runJobSchedule();
+  const now = Date.now();
+  const companies = new Set(
+    (await readDb()).jobs
+      .filter((job) => job.status === "Open" && closesAt(job).getTime() - now <= CLOSING_SOON_MS)
+      .map((job) => job.companyId)
+  );
+  for (const companyId of companies) await notifyJobsClosingSoon(companyId);
+}
+
+// Jobs closed by a recruiter stay closed whatever their dates say.
+function applySchedule(job: Job, now: Date): boolean {
+  const status = scheduledStatus(job, now);
+  if (status === job.status || (job.status === "Closed" && job.closedBy !== "schedule")) return false;
+  Object.assign(
+    job,
+    status === "Closed"
+      ? { status, closedAt: closesAt(job).toISOString(), closedBy: "schedule" }
+      : { status, closedAt: undefined, closedBy: undefined },
+    { updatedAt: now.toISOString() }
+  );
+  return true;
+}
+
+/**
+ * Publishes scheduled jobs whose open time has come and closes open jobs
+ * whose close time has passed, then sets a timer for the next opening,
+ * closing or job coming within a day of closing. Listing or loading jobs runs
+ * it too, which picks the timer back up after a restart.
+ */
+export async function runJobSchedule(): Promise<void> {
+  const now = new Date();
+  // The first run in a process checks for closing-soon jobs straight away, since
+  // jobs can come within a day of closing while the server is down.
+  if (!schedule.started) {
+    schedule.started = true;
+    scheduleJobRun(now.getTime());
+  }
+  let { jobs } = await readDb();
+  if (jobs.some((job) => job.status !== "Closed" && scheduledStatus(job, now) !== job.status)) {
+    jobs = await mutateDb((db) => {
+      for (const job of db.jobs) if (job.status !== "Closed") applySchedule(job, now);
+      return db.jobs;
+    });
+  }
+  const upcoming = jobs.flatMap((job) => {
+    if (job.status === "Scheduled") return [opensAt(job).getTime()];
+    if (job.status !== "Open") return [];
+    const closing = closesAt(job).getTime();
+    return closing - CLOSING_SOON_MS > now.getTime() ? [closing - CLOSING_SOON_MS, closing] : [closing];
+  });
+  if (upcoming.length > 0) scheduleJobRun(Math.min(...upcoming));
+}
+
+export async function listJobs(companyId: string): Promise<JobSummary[]> {
+  await runJobSchedule();
+  const db = await readDb();
+  return db.jobs
+    .filter((job) => job.companyId === companyId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((job) => toSummary(db, job));
+}
+
+export async function getJob(companyId: string, jobId: string): Promise<JobSummary> {
+  await runJobSchedule();
+  const db = await readDb();
+  return toSummary(db, findJob(db, jobId, companyId));
+}
+
+export async function getPublicJob(jobId: string): Promise<PublicJob> {
+  await runJobSchedule();
+  const db = await readDb();
+  const job = findJob(db, jobId);
+  const company = findCompany(db, job.companyId);
+  return {
+    id: job.id,
+    title: job.title,
+    department: job.department,
+    customDepartment: job.customDepartment,
+    location: job.location,
+    requirements: job.requirements,
+    // Applicants shouldn't see which answers disqualify them.
+    form: { ...job.form, questions: job.form.questions.map(({ knockout: _knockout, ...question }) => question) },
+    applicationOpenDate: job.applicationOpenDate,
+    applicationOpenTime: job.applicationOpenTime,
+    applicationCloseDate: job.applicationCloseDate,
+    applicationCloseTime: job.applicationCloseTime,
+    timeZone: job.timeZone,
+    status: job.status,
+    company: { name: company.name, email: company.email },
+  };
+}
+
+// Questions need a plan that includes them, but a workspace that moved to a
+// plan without them can still save the forms its jobs already have.
+function assertFormAllowed(db: Database, companyId: string, form: FormSchema | undefined, current?: FormSchema): void {
+  const unchanged = current && JSON.stringify(form) === JSON.stringify({ ...current, sections: current.sections ?? [] });
+  if (!form?.questions.length || unchanged) return;
+  assertFeature(db, companyId, "custom_questions");
+}
+
+export async function createJob(companyId: string, input: JobInput): Promise<Job> {
+  const created = await mutateDb((db) => {
+    assertQuota(db, companyId, "job_postings");
+    assertFormAllowed(db, companyId, input.form);
+    const now = new Date();
+    const job: Job = {
+      id: randomUUID(),
+      companyId,
+      ...input,
+      form: input.form ?? { questions: [], sections: [] },
+      status: "Scheduled",
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    applySchedule(job, now);
+    db.jobs.push(job);
+    recordUsage(db, companyId, "job_postings", job.title);
+    return job;
+  });
+  await checkUsageAlerts(companyId);
+  await runJobSchedule();
+  return created;
+}
+
+/** Saves the job's details. New open or close times reschedule it, and can reopen a job its close time closed. */
+export async function updateJob(companyId: string, jobId: string, input: JobInput): Promise<Job> {
+  const updated = await mutateDb((db) => {
+    const job = findJob(db, jobId, companyId);
+    assertFormAllowed(db, companyId, input.form, job.form);
+    const now = new Date();
+    Object.assign(job, input, { updatedAt: now.toISOString() });
+    applySchedule(job, now);
+    return job;
+  });
+  await runJobSchedule();
+  return updated;
+}
+
+export function updateJobForm(companyId: string, jobId: string, body: Record<string, unknown>): Promise<Job> {
+  const form = parseFormInput(body);
+  if (typeof form === "string") {
+    throw new HttpError(400, "Please fix the highlighted fields", { form });
+  }
+  return mutateDb((db) => {
+    const job = findJob(db, jobId, companyId);
+    assertFormAllowed(db, companyId, form, job.form);
+    Object.assign(job, { form, updatedAt: new Date().toISOString() });
+    return job;
+  });
+}
+
+/** Replaces the job's stages. Stages that still hold applications can't be removed. */
+export function updateJobPipeline(companyId: string, jobId: string, body: Record<string, unknown>): Promise<Job> {
+  const pipeline = parsePipelineInput(body.stages);
+  if (typeof pipeline === "string") {
+    throw new HttpError(400, "Please fix the highlighted fields", { stages: pipeline });
+  }
+  return mutateDb((db) => {
+    const job = findJob(db, jobId, companyId);
+    const current = jobPipeline(job);
+    const kept = new Set(pipeline.map((stage) => stage.id));
+    for (const stage of current.filter((s) => !kept.has(s.id))) {
+      const count = db.applications.filter((app) => app.jobId === jobId && stageOf(app, current).id === stage.id).length;
+      if (count > 0) {
+        throw new HttpError(400, "Please fix the highlighted fields", {
+          stages: `Move the ${count === 1 ? "application" : `${count} applications`} in "${stage.name}" to another stage before removing it`,
+        });
+      }
+    }
+    Object.assign(job, { pipeline, updatedAt: new Date().toISOString() });
+    return job;
+  });
+}
+
+export function closeJob(companyId: string, jobId: string): Promise<Job> {
+  return mutateDb((db) => {
+    const job = findJob(db, jobId, companyId);
+    // A recruiter's close sticks, including on a job its close time already closed.
+    if (job.status !== "Closed" || job.closedBy === "schedule") {
+      const now = new Date().toISOString();
+      Object.assign(job, { status: "Closed", closedAt: job.closedAt ?? now, closedBy: "recruiter", updatedAt: now });
+    }
+    return job;
+  });
+}
+
+export async function deleteJob(companyId: string, jobId: string): Promise<void> {
+  const removed = await mutateDb((db) => {
+    findJob(db, jobId, companyId);
+    db.jobs = db.jobs.filter((j) => j.id !== jobId);
+    const applications = db.applications.filter((app) => app.jobId === jobId);
+    db.applications = db.applications.filter((app) => app.jobId !== jobId);
+    db.drafts = db.drafts.filter((draft) => draft.jobId !== jobId);
+    db.interviews = db.interviews.filter((interview) => interview.jobId !== jobId);
+    db.bookingLinks = db.bookingLinks.filter((link) => link.jobId !== jobId);
+    for (const member of [...db.users, ...db.invitations]) {
+      if (member.jobIds?.includes(jobId)) member.jobIds = member.jobIds.filter((id) => id !== jobId);
+    }
+    return applications;
+  });
+  const keys = removed.flatMap((app) => [app.cv.key, ...app.answers.flatMap((a) => (isStoredFile(a.value) ? [a.value.key] : []))]);
+  await Promise.all(keys.map((key) => getBlobStore().delete(key)));
+}
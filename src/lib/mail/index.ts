@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { DATA_DIR, mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { processSingleton } from "@/lib/process";
+import type { EmailTemplate, OutboxMessage } from "@/types";
+import { MANUAL_EMAIL_TEMPLATES, MAX_NOTE_LENGTH, renderEmail } from "./templates";
+import { ConsoleMailTransport, FileMailTransport, SmtpMailTransport, type MailTransport } from "./transports";
+
+export type { MailMessage, MailTransport } from "./transports";
+export { ConsoleMailTransport, FileMailTransport, SmtpMailTransport } from "./transports";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60_000;
+const SEND_LEASE_MS = 5 * 60_000;
+
+// One per process, so a transport set at startup reaches every route.
+const mail = processSingleton("mailTransport", () => ({}) as { transport?: MailTransport });
+
+function createTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || "RecruitAI <no-reply@recruitai.local>";
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!process.env.SMTP_URL) throw new Error("SMTP_URL must be set");
+      return new SmtpMailTransport(process.env.SMTP_URL, from);
+    case "file":
+      return new FileMailTransport(process.env.RECRUITAI_MAIL_DIR || path.join(DATA_DIR, "mail"), from);
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  mail.transport ??= createTransport();
+  return mail.transport;
+}
+
+// Lets deployments plug in another provider (SES, Postmark, ...) at startup.
+export function setMailTransport(transport: MailTransport): void {
+  mail.transport = transport;
+}
+
+// Only one timer should drain the outbox.
+const outbox = processSingleton("outbox", () => ({}) as { next?: { timer: NodeJS.Timeout; at: number } });
+
+function scheduleOutbox(at: number): void {
+  const current = outbox.next;
+  if (current && current.at <= at) return;
+  if (current) clearTimeout(current.timer);
+  const timer = setTimeout(drainOutbox, Math.max(0, at - Date.now()));
+  timer.unref();
+  outbox.next = { timer, at };
+}
+
+async function drainOutbox(): Promise<void> {
+  outbox.next = undefined;
+  try {
+    await processOutbox();
+    const pending = (await readDb()).outbox
+      .filter((message) => message.status === "queued" || message.status === "sending")
+      .map((message) => Date.parse(message.nextAttemptAt));
+    if (pending.length > 0) scheduleOutbox(Math.min(...pending));
+  } catch (error) {
+    console.error("Failed to process the email outbox:", error);
+  }
+}
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 4 ** (attempts - 1);
+
+/**
+ * Sends every message that is due. Messages are leased before sending so an
+ * overlapping run skips them; a failed send is retried after 1, 4, 16 and 64
+ * minutes before the message is marked failed.
+ */
+export async function processOutbox(): Promise<void> {
+  const now = Date.now();
+  const due = await mutateDb((db) => {
+    const claimed = db.outbox.filter(
+      (message) =>
+        (message.status === "queued" || message.status === "sending") && Date.parse(message.nextAttemptAt) <= now
+    );
+    for (const message of claimed) {
+      message.status = "sending";
+      message.nextAttemptAt = new Date(now + SEND_LEASE_MS).toISOString();
+    }
+    return claimed;
+  });
+
+  for (const message of due) {
+    let error: string | undefined;
+    try {
+      await getMailTransport().send({
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        ...(message.calendar && { calendar: message.calendar }),
+      });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+    await mutateDb((db) => {
+      const stored = db.outbox.find((m) => m.id === message.id);
+      if (!stored) return;
+      const at = new Date().toISOString();
+      stored.attempts.push(error ? { at, error } : { at });
+      if (!error) {
+        stored.status = "sent";
+        stored.sentAt = at;
+      } else if (stored.attempts.length >= MAX_ATTEMPTS) {
+        stored.status = "failed";
+      } else {
+        stored.status = "queued";
+        stored.nextAttemptAt = new Date(Date.now() + retryDelay(stored.attempts.length)).toISOString();
+      }
+    });
+  }
+}
+
+export type EmailInput = Pick<
+  OutboxMessage,
+  "companyId" | "applicationId" | "template" | "to" | "subject" | "text" | "calendar"
+>;
+
+/**
+ * Adds a rendered message to the outbox inside a caller's `mutateDb`, so it is
+ * only queued if the change it announces is saved. Call `kickOutbox()` once
+ * the change is saved.
+ */
+export function enqueueEmail(db: Database, input: EmailInput): OutboxMessage {
+  const now = new Date().toISOString();
+  const message: OutboxMessage = {
+    id: randomUUID(),
+    ...input,
+    status: "queued",
+    attempts: [],
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+  db.outbox.push(message);
+  return message;
+}
+
+export function kickOutbox(): void {
+  scheduleOutbox(Date.now());
+}
+
+/** Renders a template for the application's candidate and queues it for delivery. */
+export async function queueApplicationEmail(
+  companyId: string,
+  applicationId: string,
+  template: EmailTemplate,
+  note?: string
+): Promise<OutboxMessage> {
+  const message = await mutateDb((db) => {
+    const application = db.applications.find((app) => app.id === applicationId && app.companyId === companyId);
+    if (!application) throw notFound("Application not found");
+    const rendered = renderEmail(template, {
+      candidateName: application.name,
+      jobTitle: db.jobs.find((job) => job.id === application.jobId)?.title ?? "",
+      companyName: db.companies.find((company) => company.id === companyId)?.name ?? "",
+      note,
+    });
+    return enqueueEmail(db, { companyId, applicationId, template, to: application.email, ...rendered });
+  });
+  kickOutbox();
+  return message;
+}
+
+export function parseEmailRequest(body: Record<string, unknown>): { template: EmailTemplate; note?: string } {
+  const template = body.template as EmailTemplate;
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+  const fieldErrors: Record<string, string> = {};
+  if (!MANUAL_EMAIL_TEMPLATES.includes(template)) fieldErrors.template = "Please choose an email template";
+  if (note.length > MAX_NOTE_LENGTH) fieldErrors.note = `Notes are limited to ${MAX_NOTE_LENGTH} characters`;
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", fieldErrors);
+  }
+  return { template, note: note || undefined };
+}
+
+/** The application's delivery log, newest first. */
+export async function listApplicationEmails(companyId: string, applicationId: string): Promise<OutboxMessage[]> {
+  const db = await readDb();
+  if (!db.applications.some((app) => app.id === applicationId && app.companyId === companyId)) {
+    throw notFound("Application not found");
+  }
+  const messages = db.outbox.filter((message) => message.applicationId === applicationId);
+  // Picks up messages left over from before a restart.
+  const pending = messages.filter((message) => message.status === "queued" || message.status === "sending");
+  if (pending.length > 0) scheduleOutbox(Math.min(...pending.map((message) => Date.parse(message.nextAttemptAt))));
+  return messages.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,82 @@
+import { seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { mutateDb, readDb } from "@/lib/db";
+import type { OutboxMessage } from "@/types";
+import { enqueueEmail, processOutbox, setMailTransport, type MailMessage } from ".";
+
+// Fails the first `failures` sends, then delivers.
+function flakyTransport(failures: number) {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message: MailMessage) {
+      if (failures-- > 0) throw new Error("Connection refused");
+      sent.push(message);
+    },
+  };
+}
+
+async function queue(): Promise<OutboxMessage> {
+  const companyId = await seedCompany();
+  return mutateDb((db) =>
+    enqueueEmail(db, { companyId, template: "team_invitation", to: "sam@acme.test", subject: "Join Acme", text: "Hi" })
+  );
+}
+
+const stored = async (id: string) => (await readDb()).outbox.find((message) => message.id === id)!;
+
+// Brings the next attempt forward instead of waiting for it.
+const makeDue = (id: string) =>
+  mutateDb((db) => {
+    db.outbox.find((message) => message.id === id)!.nextAttemptAt = new Date().toISOString();
+  });
+
+test("a failed send is retried with growing delays until it goes through", async () => {
+  const transport = flakyTransport(2);
+  setMailTransport(transport);
+  const { id } = await queue();
+
+  await processOutbox();
+  let message = await stored(id);
+  assert.equal(message.status, "queued");
+  assert.equal(message.attempts[0].error, "Connection refused");
+  const firstDelay = Date.parse(message.nextAttemptAt) - Date.parse(message.attempts[0].at);
+  assert.ok(Math.abs(firstDelay - 60_000) < 1_000, `retried after ${firstDelay}ms`);
+
+  // Not due yet, so nothing is sent.
+  await processOutbox();
+  assert.equal((await stored(id)).attempts.length, 1);
+
+  await makeDue(id);
+  await processOutbox();
+  message = await stored(id);
+  const secondDelay = Date.parse(message.nextAttemptAt) - Date.parse(message.attempts[1].at);
+  assert.ok(Math.abs(secondDelay - 4 * 60_000) < 1_000, `retried after ${secondDelay}ms`);
+
+  await makeDue(id);
+  await processOutbox();
+  message = await stored(id);
+  assert.equal(message.status, "sent");
+  assert.equal(message.attempts.length, 3);
+  assert.deepEqual(
+    transport.sent.map((sent) => sent.to),
+    ["sam@acme.test"]
+  );
+});
+
+test("a message is marked failed after five attempts", async () => {
+  setMailTransport(flakyTransport(Infinity));
+  const { id } = await queue();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await makeDue(id);
+    await processOutbox();
+  }
+  const message = await stored(id);
+  assert.equal(message.status, "failed");
+  assert.equal(message.attempts.length, 5);
+
+  await makeDue(id);
+  await processOutbox();
+  assert.equal((await stored(id)).attempts.length, 5);
+});
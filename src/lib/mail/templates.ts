@@ -0,0 +1,142 @@
+// Candidate emails. The labels are shared with the dashboard, which lets
+// recruiters pick a template; rendering happens on the server when a message
+// is queued.
+import type { AccountEmail, EmailTemplate } from "@/types";
+
+export interface InterviewDetails {
+  /** Already formatted in the interview's time zone. */
+  when: string;
+  durationMinutes: number;
+  location: string;
+}
+
+export interface TemplateContext {
+  candidateName: string;
+  jobTitle: string;
+  companyName: string;
+  /** A personal message from the recruiter, added above the sign-off. */
+  note?: string;
+  /** Required by the interview_scheduled, interview_rescheduled and interview_cancelled templates. */
+  interview?: InterviewDetails;
+  /** Interview emails also go to interviewers, who are written to about the candidate. */
+  toInterviewer?: boolean;
+  /** Required by the booking_link template: the candidate's self-scheduling page. */
+  bookingUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+}
+
+export const MAX_NOTE_LENGTH = 2000;
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate | AccountEmail, string> = {
+  application_received: "Application received",
+  shortlisted: "Shortlisted",
+  interview_invite: "Interview invitation",
+  rejection: "Rejection",
+  interview_scheduled: "Interview scheduled",
+  interview_rescheduled: "Interview rescheduled",
+  interview_cancelled: "Interview cancelled",
+  booking_link: "Interview booking link",
+  team_invitation: "Team invitation",
+  application_draft: "Saved application link",
+};
+
+/**
+ * Templates recruiters send by hand. Interview emails are sent when interviews
+ * are scheduled or changed, and booking links when one is created.
+ */
+export const MANUAL_EMAIL_TEMPLATES: EmailTemplate[] = ["application_received", "shortlisted", "interview_invite", "rejection"];
+
+function interviewLines(details: InterviewDetails | undefined): string {
+  if (!details) return "";
+  return [
+    `When: ${details.when}`,
+    `Duration: ${details.durationMinutes} minutes`,
+    ...(details.location ? [`Where: ${details.location}`] : []),
+  ].join("\n");
+}
+
+const TEMPLATES: Record<EmailTemplate, (ctx: TemplateContext) => { subject: string; body: string[] }> = {
+  application_received: (ctx) => ({
+    subject: `We received your application for ${ctx.jobTitle}`,
+    body: [
+      `Thank you for applying for the ${ctx.jobTitle} role at ${ctx.companyName}.`,
+      "We have received your application and will review it shortly. We'll be in touch about next steps.",
+    ],
+  }),
+  shortlisted: (ctx) => ({
+    subject: `Your application for ${ctx.jobTitle} has been shortlisted`,
+    body: [
+      `Good news: your application for the ${ctx.jobTitle} role at ${ctx.companyName} has been shortlisted.`,
+      "Our hiring team will contact you soon about the next stage.",
+    ],
+  }),
+  interview_invite: (ctx) => ({
+    subject: `Interview invitation: ${ctx.jobTitle} at ${ctx.companyName}`,
+    body: [
+      `We'd like to invite you to interview for the ${ctx.jobTitle} role at ${ctx.companyName}.`,
+      "Please reply to this email with a few times that suit you, and we'll confirm one.",
+    ],
+  }),
+  rejection: (ctx) => ({
+    subject: `Your application for ${ctx.jobTitle}`,
+    body: [
+      `Thank you for your interest in the ${ctx.jobTitle} role at ${ctx.companyName} and for the time you put into your application.`,
+      "After careful review, we have decided not to move forward with your application. We wish you every success in your search.",
+    ],
+  }),
+  interview_scheduled: (ctx) => ({
+    subject: ctx.toInterviewer
+      ? `Interview with ${ctx.candidateName} for ${ctx.jobTitle}`
+      : `Your interview for ${ctx.jobTitle} at ${ctx.companyName}`,
+    body: [
+      ctx.toInterviewer
+        ? `You're interviewing ${ctx.candidateName} for the ${ctx.jobTitle} role.`
+        : `Your interview for the ${ctx.jobTitle} role at ${ctx.companyName} is booked.`,
+      interviewLines(ctx.interview),
+      "The attached invite adds it to your calendar.",
+    ],
+  }),
+  interview_rescheduled: (ctx) => ({
+    subject: ctx.toInterviewer
+      ? `Rescheduled: interview with ${ctx.candidateName} for ${ctx.jobTitle}`
+      : `Your interview for ${ctx.jobTitle} has moved`,
+    body: [
+      ctx.toInterviewer
+        ? `The interview with ${ctx.candidateName} for the ${ctx.jobTitle} role has changed. The new details are:`
+        : `Your interview for the ${ctx.jobTitle} role at ${ctx.companyName} has changed. The new details are:`,
+      interviewLines(ctx.interview),
+      "The attached invite updates the event in your calendar.",
+    ],
+  }),
+  interview_cancelled: (ctx) => ({
+    subject: ctx.toInterviewer
+      ? `Cancelled: interview with ${ctx.candidateName} for ${ctx.jobTitle}`
+      : `Your interview for ${ctx.jobTitle} has been cancelled`,
+    body: [
+      ctx.toInterviewer
+        ? `The interview with ${ctx.candidateName} for the ${ctx.jobTitle} role on ${ctx.interview?.when} has been cancelled.`
+        : `Your interview for the ${ctx.jobTitle} role at ${ctx.companyName} on ${ctx.interview?.when} has been cancelled.`,
+      "The attached update removes it from your calendar.",
+    ],
+  }),
+  booking_link: (ctx) => ({
+    subject: `Pick a time for your ${ctx.jobTitle} interview`,
+    body: [
+      `We'd like to invite you to interview for the ${ctx.jobTitle} role at ${ctx.companyName}. Please choose a time that suits you here:`,
+      ctx.bookingUrl ?? "",
+      "Times are shown in your own time zone, and you'll get a calendar invite once you've booked. The link works for 7 days.",
+    ],
+  }),
+};
+
+export function renderEmail(template: EmailTemplate, ctx: TemplateContext): RenderedEmail {
+  const { subject, body } = TEMPLATES[template](ctx);
+  const paragraphs = [ctx.toInterviewer ? "Hi," : `Hi ${ctx.candidateName},`, ...body];
+  if (ctx.note) paragraphs.push(ctx.note);
+  paragraphs.push(`Best regards,\nThe ${ctx.companyName} hiring team`);
+  return { subject, text: paragraphs.join("\n\n") };
+}
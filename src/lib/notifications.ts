@@ -0,0 +1,228 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { type Database, mutateDb, readDb } from "@/lib/db";
+import { DECISION_LABELS } from "@/lib/export/definitions";
+import { notFound } from "@/lib/http";
+import { closesAt, formatJobTime, jobTimeZone } from "@/lib/job-schedule";
+import { type Permission, canViewJob, hasPermission } from "@/lib/permissions";
+import { processSingleton } from "@/lib/process";
+import type { Application, Job, Notification, NotificationEvent, NotificationType, PublicUser, UsageMetric } from "@/types";
+
+const MAX_PER_USER = 100;
+const LIST_LIMIT = 30;
+export const CLOSING_SOON_MS = 24 * 60 * 60 * 1000;
+const HEARTBEAT_MS = 25_000;
+
+// Pushes events to the notification streams open in this server process, keyed by user id.
+const events = processSingleton("notifications", () => new EventEmitter().setMaxListeners(0));
+
+const countUnread = (notifications: Notification[], userId: string) =>
+  notifications.filter((n) => n.userId === userId && !n.readAt).length;
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string;
+  dedupeKey?: string;
+  /** Limits the audience to members who can see this job. */
+  jobId?: string;
+  /** Limits the audience to members whose role allows acting on it. */
+  permission?: Permission;
+}
+
+// The members a notification is for who don't already have it.
+const recipients = (db: Database, companyId: string, { permission, ...input }: NotificationInput) =>
+  db.users.filter(
+    (u) =>
+      u.companyId === companyId &&
+      (!input.jobId || canViewJob(u, input.jobId)) &&
+      (!permission || hasPermission(u, permission)) &&
+      !(input.dedupeKey && db.notifications.some((n) => n.userId === u.id && n.dedupeKey === input.dedupeKey))
+  );
+
+/**
+ * Creates a notification for every user in the company it concerns and
+ * delivers it to their open streams. Users who already have one with the same `dedupeKey`
+ * are skipped, and only each user's newest notifications are kept.
+ */
+export async function notifyCompany(companyId: string, input: NotificationInput): Promise<void> {
+  // Repeated announcements usually reach nobody new; don't rewrite the database for them.
+  if (input.dedupeKey && recipients(await readDb(), companyId, input).length === 0) return;
+  const { permission: _permission, ...fields } = input;
+  const created = await mutateDb((db) => {
+    const createdAt = new Date().toISOString();
+    const added: NotificationEvent[] = [];
+    for (const user of recipients(db, companyId, input)) {
+      const notification: Notification = { id: randomUUID(), userId: user.id, companyId, ...fields, createdAt, readAt: null };
+      db.notifications.push(notification);
+
+      const mine = db.notifications.filter((n) => n.userId === user.id);
+      if (mine.length > MAX_PER_USER) {
+        const dropped = new Set(mine.slice(0, mine.length - MAX_PER_USER).map((n) => n.id));
+        db.notifications = db.notifications.filter((n) => !dropped.has(n.id));
+      }
+      added.push({ kind: "notification", notification, unreadCount: countUnread(db.notifications, user.id) });
+    }
+    return added;
+  });
+  for (const event of created) {
+    if (event.kind === "notification") events.emit(event.notification.userId, event);
+  }
+}
+
+// Notifications are a side channel, so failing to record one never fails the action that caused it.
+const notifySafely = (companyId: string, input: NotificationInput) =>
+  notifyCompany(companyId, input).catch((error) => console.error("Failed to create notification:", error));
+
+const applicationLink = (application: Application) => `/applications/${application.jobId}?application=${application.id}`;
+
+export const notifyApplicationReceived = (job: Job, application: Application) =>
+  notifySafely(job.companyId, {
+    type: "application_received",
+    title: `New application for ${job.title}`,
+    body: `${application.name} applied.`,
+    link: applicationLink(application),
+    jobId: job.id,
+  });
+
+export const notifyScreeningComplete = (application: Application) =>
+  notifySafely(application.companyId, {
+    type: "screening_complete",
+    title: `${application.name} was screened`,
+    body: `${DECISION_LABELS[application.decision]}: ${application.reason}`,
+    link: applicationLink(application),
+    jobId: application.jobId,
+  });
+
+export const notifySyncFailed = (companyId: string, message: string) =>
+  notifySafely(companyId, {
+    type: "sync_failed",
+    title: "Google Sheets sync failed",
+    body: message,
+    link: "/profile",
+    permission: "sheets:sync",
+  });
+
+/** Warns the members who watch usage when a metric crosses 50, 75 or 100% of the plan's limit, once per billing period. */
+export const notifyUsageThreshold = (
+  companyId: string,
+  usage: { metric: UsageMetric; label: string; threshold: number; body: string; periodStart: string }
+) =>
+  notifySafely(companyId, {
+    type: "usage_threshold",
+    title: usage.threshold >= 100 ? `${usage.label} limit reached` : `${usage.label} at ${usage.threshold}% of your plan`,
+    body: usage.body,
+    link: "/usage",
+    permission: "settings:manage",
+    dedupeKey: `usage_threshold:${usage.metric}:${usage.periodStart}:${usage.threshold}`,
+  });
+
+export const notifyPaymentFailed = (companyId: string, payment: { planName: string; reason: string; periodEnd: string }) =>
+  notifySafely(companyId, {
+    type: "payment_failed",
+    title: `Payment for the ${payment.planName} plan failed`,
+    body: `${payment.reason}. Update the payment method to keep your plan.`,
+    link: "/profile",
+    permission: "billing:manage",
+    dedupeKey: `payment_failed:${payment.periodEnd}`,
+  });
+
+/**
+ * Announces open jobs that stop taking applications within a day, once per
+ * job and close time. The job scheduler runs it when a job comes within a day
+ * of closing, and once when the process starts.
+ */
+export async function notifyJobsClosingSoon(companyId: string): Promise<void> {
+  const now = Date.now();
+  const closing = (await readDb()).jobs.filter((job) => {
+    if (job.companyId !== companyId || job.status !== "Open") return false;
+    const closing = closesAt(job).getTime();
+    return closing > now && closing - now <= CLOSING_SOON_MS;
+  });
+  for (const job of closing) {
+    await notifySafely(companyId, {
+      type: "job_closing_soon",
+      title: `${job.title} closes soon`,
+      body: `Applications close on ${formatJobTime(closesAt(job), jobTimeZone(job))}.`,
+      link: `/applications/${job.id}`,
+      jobId: job.id,
+      dedupeKey: `job_closing_soon:${job.id}:${closesAt(job).toISOString()}`,
+    });
+  }
+}
+
+export async function listNotifications(user: PublicUser) {
+  const { notifications } = await readDb();
+  return {
+    notifications: notifications
+      .filter((n) => n.userId === user.id)
+      .slice(-LIST_LIMIT)
+      .reverse(),
+    unreadCount: countUnread(notifications, user.id),
+  };
+}
+
+// Other tabs showing the bell learn about reads through their streams.
+function publishUnread(userId: string, unreadCount: number) {
+  events.emit(userId, { kind: "unread", unreadCount } satisfies NotificationEvent);
+  return { unreadCount };
+}
+
+export async function markNotificationRead(userId: string, notificationId: string) {
+  const unreadCount = await mutateDb((db) => {
+    const notification = db.notifications.find((n) => n.id === notificationId && n.userId === userId);
+    if (!notification) throw notFound("Notification not found");
+    notification.readAt ??= new Date().toISOString();
+    return countUnread(db.notifications, userId);
+  });
+  return publishUnread(userId, unreadCount);
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  await mutateDb((db) => {
+    const now = new Date().toISOString();
+    for (const notification of db.notifications) {
+      if (notification.userId === userId) notification.readAt ??= now;
+    }
+  });
+  return publishUnread(userId, 0);
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Server-Sent Events stream of the user's notifications. It opens with the
+ * unread count, then sends each new notification and any change to the
+ * count, with a comment line every so often to keep proxies from closing it.
+ */
+export function notificationStream(user: PublicUser, signal: AbortSignal): ReadableStream<Uint8Array> {
+  let stop = () => {};
+  return new ReadableStream({
+    async start(controller) {
+      let open = true;
+      const write = (chunk: string) => {
+        if (open) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: NotificationEvent) => write(`event: ${event.kind}\ndata: ${JSON.stringify(event)}\n\n`);
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_MS);
+      events.on(user.id, send);
+      stop = () => {
+        if (!open) return;
+        open = false;
+        events.off(user.id, send);
+        clearInterval(heartbeat);
+      };
+      signal.addEventListener("abort", () => {
+        if (!open) return;
+        stop();
+        controller.close();
+      });
+
+      send({ kind: "unread", unreadCount: countUnread((await readDb()).notifications, user.id) });
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { randomUUID } from "crypto";
+import { toPublicUser } from "@/lib/auth";
+import { mutateDb } from "@/lib/db";
+import { HttpError } from "@/lib/http";
+import { createJob, parseJobInput } from "@/lib/jobs";
+import { type Permission, canOpenPage, canViewJob, hasPermission } from "@/lib/permissions";
+import { updateMember } from "@/lib/team";
+import type { Role, User } from "@/types";
+
+const PERMISSIONS: Permission[] = [
+  "jobs:manage",
+  "jobs:delete",
+  "candidates:manage",
+  "sheets:sync",
+  "settings:manage",
+  "team:manage",
+  "billing:manage",
+];
+
+const allowed = (role?: Role) => PERMISSIONS.filter((permission) => hasPermission({ role }, permission));
+
+describe("roles", () => {
+  test("grant each role its permissions", () => {
+    assert.deepEqual(allowed("owner"), PERMISSIONS);
+    assert.deepEqual(allowed("admin"), PERMISSIONS.filter((p) => p !== "billing:manage"));
+    assert.deepEqual(allowed("recruiter"), ["jobs:manage", "jobs:delete", "candidates:manage", "sheets:sync"]);
+    assert.deepEqual(allowed("hiring_manager"), ["candidates:manage"]);
+    assert.deepEqual(allowed("read_only"), []);
+  });
+
+  test("treat members from before teams as owners", () => {
+    assert.deepEqual(allowed(undefined), PERMISSIONS);
+    assert.ok(canViewJob({}, "job-1"));
+  });
+
+  test("limit hiring managers to the jobs they're assigned", () => {
+    assert.ok(canViewJob({ role: "hiring_manager", jobIds: ["job-1"] }, "job-1"));
+    assert.ok(!canViewJob({ role: "hiring_manager", jobIds: ["job-1"] }, "job-2"));
+    assert.ok(!canViewJob({ role: "hiring_manager" }, "job-1"));
+    assert.ok(canViewJob({ role: "read_only" }, "job-2"));
+  });
+
+  test("keep members off pages their role can't use", () => {
+    assert.ok(canOpenPage({ role: "recruiter" }, "/jobs/new"));
+    assert.ok(!canOpenPage({ role: "hiring_manager" }, "/jobs/new"));
+    assert.ok(!canOpenPage({ role: "hiring_manager" }, "/jobs/job-1"));
+    assert.ok(canOpenPage({ role: "hiring_manager" }, "/jobs"));
+    assert.ok(!canOpenPage({ role: "recruiter" }, "/team"));
+    assert.ok(!canOpenPage({ role: "recruiter" }, "/usage"));
+    assert.ok(canOpenPage({ role: "admin" }, "/team"));
+    assert.ok(canOpenPage({ role: "read_only" }, "/candidates"));
+  });
+});
+
+describe("changing roles", () => {
+  async function team(...roles: Role[]): Promise<User[]> {
+    const companyId = await seedCompany();
+    return mutateDb((db) => {
+      const members = roles.map((role) => ({
+        id: randomUUID(),
+        email: `${role}-${randomUUID()}@acme.test`,
+        companyId,
+        passwordHash: "",
+        role,
+        createdAt: new Date().toISOString(),
+      }));
+      db.users.push(...members);
+      return members;
+    });
+  }
+
+  const refusal = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      assert.ok(error instanceof HttpError);
+      return error.status;
+    }
+    assert.fail("expected the change to be refused");
+  };
+
+  test("lets only owners promote to owner or change another owner", async () => {
+    const [owner, admin, recruiter, otherOwner] = await team("owner", "admin", "recruiter", "owner");
+    assert.equal(await refusal(updateMember(toPublicUser(admin), recruiter.id, { role: "owner" })), 403);
+    assert.equal(await refusal(updateMember(toPublicUser(admin), otherOwner.id, { role: "read_only" })), 403);
+    assert.equal((await updateMember(toPublicUser(admin), recruiter.id, { role: "read_only" })).role, "read_only");
+    assert.equal((await updateMember(toPublicUser(owner), recruiter.id, { role: "owner" })).role, "owner");
+  });
+
+  test("doesn't let members change their own access", async () => {
+    const [owner] = await team("owner");
+    assert.equal(await refusal(updateMember(toPublicUser(owner), owner.id, { role: "read_only" })), 400);
+  });
+
+  test("keeps job assignments for hiring managers only, and only for the workspace's jobs", async () => {
+    const [owner, member] = await team("owner", "recruiter");
+    const { id: jobId } = await createJob(
+      owner.companyId,
+      parseJobInput({
+        title: "Frontend Developer",
+        department: "engineering",
+        location: "Remote",
+        positions: 1,
+        requirements: "3+ years of React",
+        applicationOpenDate: "2026-03-01",
+        applicationOpenTime: "09:00",
+        applicationCloseDate: "2026-03-31",
+        applicationCloseTime: "17:00",
+      })
+    );
+    const manager = await updateMember(toPublicUser(owner), member.id, { role: "hiring_manager", jobIds: [jobId, "elsewhere"] });
+    assert.deepEqual(manager.jobIds, [jobId]);
+    const recruiter = await updateMember(toPublicUser(owner), member.id, { role: "recruiter", jobIds: [jobId] });
+    assert.deepEqual(recruiter.jobIds, []);
+  });
+});
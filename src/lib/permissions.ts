@@ -0,0 +1,64 @@
+// Roles and what they allow. Shared by the API routes, which enforce it, the
+// middleware, which keeps members off pages they can't use, and the UI, which
+// hides actions a member's role doesn't allow.
+import type { Role, User } from "@/types";
+
+export type Permission =
+  /** Create, edit and close jobs, and change their forms and pipelines. */
+  | "jobs:manage"
+  | "jobs:delete"
+  /** Move candidates between stages, email them, re-run screening and schedule interviews. */
+  | "candidates:manage"
+  /** Sync candidates to the connected spreadsheet and resolve its conflicts. */
+  | "sheets:sync"
+  /** Company profile, spreadsheet connection and interviewer availability. */
+  | "settings:manage"
+  | "team:manage"
+  | "billing:manage";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  recruiter: "Recruiter",
+  hiring_manager: "Hiring Manager",
+  read_only: "Read-only",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Everything, including billing and other owners",
+  admin: "Everything except billing",
+  recruiter: "Jobs and candidates",
+  hiring_manager: "Candidates for the jobs they're assigned to",
+  read_only: "Can view jobs and candidates",
+};
+
+export const ROLE_OPTIONS = (Object.keys(ROLE_LABELS) as Role[]).map((value) => ({ value, label: ROLE_LABELS[value] }));
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ["jobs:manage", "jobs:delete", "candidates:manage", "sheets:sync", "settings:manage", "team:manage", "billing:manage"],
+  admin: ["jobs:manage", "jobs:delete", "candidates:manage", "sheets:sync", "settings:manage", "team:manage"],
+  recruiter: ["jobs:manage", "jobs:delete", "candidates:manage", "sheets:sync"],
+  hiring_manager: ["candidates:manage"],
+  read_only: [],
+};
+
+// Users from before teams have no role and own their workspace.
+const roleOf = (user: Pick<User, "role">): Role => user.role ?? "owner";
+
+export const hasPermission = (user: Pick<User, "role">, permission: Permission) =>
+  ROLE_PERMISSIONS[roleOf(user)].includes(permission);
+
+/** Hiring managers only see the jobs they're assigned to; everyone else sees every job. */
+export const canViewJob = (user: Pick<User, "role" | "jobIds">, jobId: string) =>
+  roleOf(user) !== "hiring_manager" || (user.jobIds ?? []).includes(jobId);
+
+/** Dashboard pages that need a permission. Pages not listed are open to every member. */
+const PAGE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  // Both the create page and the form builder.
+  { prefix: "/jobs/", permission: "jobs:manage" },
+  { prefix: "/usage", permission: "settings:manage" },
+  { prefix: "/team", permission: "team:manage" },
+];
+
+export const canOpenPage = (user: Pick<User, "role">, pathname: string) =>
+  PAGE_PERMISSIONS.every(({ prefix, permission }) => !pathname.startsWith(prefix) || hasPermission(user, permission));
@@ -0,0 +1,38 @@
+// Shared by the board and the detail panel, which place applications in
+// stages, and by the API, which validates pipelines and stage moves.
+import type { Application, Job, PipelineStage, StageKind } from "@/types";
+
+export const MAX_STAGES = 15;
+export const MAX_STAGE_NAME_LENGTH = 40;
+
+/** Screening moves applications out of the first stage into this one, when the pipeline has it. */
+export const SCREENED_STAGE_ID = "screened";
+
+export const STAGE_KIND_OPTIONS: { value: StageKind; label: string }[] = [
+  { value: "open", label: "In progress" },
+  { value: "hired", label: "Hired" },
+  { value: "rejected", label: "Rejected" },
+];
+
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  { id: "applied", name: "Applied", kind: "open" },
+  { id: SCREENED_STAGE_ID, name: "Screened", kind: "open" },
+  { id: "phone_screen", name: "Phone Screen", kind: "open" },
+  { id: "onsite", name: "Onsite", kind: "open" },
+  { id: "offer", name: "Offer", kind: "open" },
+  { id: "hired", name: "Hired", kind: "hired" },
+  { id: "rejected", name: "Rejected", kind: "rejected" },
+];
+
+export const jobPipeline = (job: Pick<Job, "pipeline">): PipelineStage[] =>
+  job.pipeline && job.pipeline.length > 0 ? job.pipeline : DEFAULT_PIPELINE;
+
+/** The application's stage, or the first stage for applications that never moved or whose stage is gone. */
+export const stageOf = (application: Pick<Application, "stageId">, pipeline: PipelineStage[]): PipelineStage =>
+  pipeline.find((stage) => stage.id === application.stageId) ?? pipeline[0];
+
+export const newStage = (name: string): PipelineStage => ({
+  id: Math.random().toString(36).slice(2, 10),
+  name,
+  kind: "open",
+});
@@ -0,0 +1,74 @@
+// The subscription plans. Their limits and features come from the registry in
+// src/lib/features.ts; the feature lists shown on the pricing modal are
+// built from it. Shared by the metering in src/lib/usage.ts, the billing in
+// src/lib/billing and the usage and profile pages.
+import { DEFAULT_PLAN_ID, FEATURE_LABELS, PLAN_ENTITLEMENTS, type Feature } from "@/lib/features";
+import type { Company, PlanId, SubscriptionPlan, UsageMetric } from "@/types";
+
+export { DEFAULT_PLAN_ID };
+
+const LIMIT_FEATURES: Record<UsageMetric, (limit: number | null) => string> = {
+  job_postings: (limit) => (limit === null ? "Unlimited job postings" : `Up to ${limit} job postings/month`),
+  application_reviews: (limit) => (limit === null ? "Unlimited applications" : `Up to ${limit} applications/month`),
+  ai_screenings: (limit) =>
+    limit === null ? "Unlimited AI screenings" : `${limit.toLocaleString("en-US")} AI screenings/month`,
+  seats: (limit) => (limit === null ? "Unlimited team members" : `Up to ${limit} team members`),
+};
+
+const PLAN_DETAILS: (Omit<SubscriptionPlan, "features" | "limits"> & { support: string[] })[] = [
+  { id: "free", name: "Free", price: 0, yearlyPrice: 0, description: "Perfect for getting started", support: ["Email support"] },
+  {
+    id: "standard",
+    name: "Standard",
+    price: 49,
+    yearlyPrice: 490,
+    description: "Great for growing teams",
+    support: ["Priority email support"],
+  },
+  { id: "pro", name: "Pro", price: 99, yearlyPrice: 990, description: "Most popular choice", support: ["Priority support"] },
+  {
+    id: "premium",
+    name: "Premium",
+    price: 199,
+    yearlyPrice: 1990,
+    description: "Enterprise-grade solution",
+    support: ["Dedicated account manager", "24/7 phone support", "SLA guarantee"],
+  },
+];
+
+// Each plan lists what it adds to the one before it.
+export const PLANS: SubscriptionPlan[] = PLAN_DETAILS.map(({ support, ...plan }, index) => {
+  const { features, limits } = PLAN_ENTITLEMENTS[plan.id];
+  const previous = index > 0 ? PLAN_DETAILS[index - 1] : null;
+  const before = previous ? PLAN_ENTITLEMENTS[previous.id] : null;
+  const metrics = Object.keys(limits) as UsageMetric[];
+  return {
+    ...plan,
+    limits,
+    features: [
+      ...(previous ? [`Everything in ${previous.name}`] : []),
+      ...metrics.filter((metric) => limits[metric] !== before?.limits[metric]).map((metric) => LIMIT_FEATURES[metric](limits[metric])),
+      ...features.filter((feature) => !before?.features.includes(feature)).map((feature) => FEATURE_LABELS[feature]),
+      ...support,
+    ],
+  };
+});
+
+export const findPlan = (planId: PlanId | undefined) =>
+  PLANS.find((plan) => plan.id === planId) ?? PLANS.find((plan) => plan.id === DEFAULT_PLAN_ID)!;
+
+export const planOf = (company: Pick<Company, "planId">) => findPlan(company.planId);
+
+export const USAGE_LABELS: Record<UsageMetric, { label: string; unit: string }> = {
+  job_postings: { label: "Job Postings", unit: "postings" },
+  application_reviews: { label: "Application Reviews", unit: "reviews" },
+  ai_screenings: { label: "AI Screenings", unit: "screenings" },
+  seats: { label: "Team Members", unit: "members" },
+};
+
+/** Share of the limit used, from 0 to 100; always 0 when unlimited. */
+export const usagePercentage = (used: number, limit: number | null) =>
+  limit === null ? 0 : limit === 0 ? 100 : Math.min(100, Math.round((used / limit) * 100));
+
+/** The cheapest plan that includes a feature, to name in upgrade prompts. */
+export const planWith = (feature: Feature) => PLANS.find((plan) => PLAN_ENTITLEMENTS[plan.id].features.includes(feature))!;
@@ -0,0 +1,12 @@
+// Next bundles each route with its own copy of every module, so a module
+// variable isn't shared between routes. State that has to be one per server
+// process, such as the database write queue, timers and event emitters, is
+// kept on globalThis instead.
+const store = globalThis as typeof globalThis & { recruitai?: Map<string, unknown> };
+
+/** The value kept under `key` for the whole process, created on first use. */
+export function processSingleton<T>(key: string, create: () => T): T {
+  store.recruitai ??= new Map();
+  if (!store.recruitai.has(key)) store.recruitai.set(key, create());
+  return store.recruitai.get(key) as T;
+}
@@ -0,0 +1,30 @@
+import path from "path";
+import pdf from "pdf-parse";
+import WordExtractor from "word-extractor";
+
+const wordExtractor = new WordExtractor();
+
+const normalize = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t ]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/**
+ * Extracts plain text from an uploaded CV. The format is picked from the file
+ * extension, which `validateCV` has already restricted to PDF, DOC and DOCX.
+ */
+export async function extractText(data: Buffer, fileName: string): Promise<string> {
+  const extension = path.extname(fileName).toLowerCase();
+  switch (extension) {
+    case ".pdf":
+      return normalize((await pdf(data)).text);
+    case ".doc":
+    case ".docx":
+      return normalize((await wordExtractor.extract(data)).getBody());
+    default:
+      throw new Error(`Unsupported CV format: ${extension || fileName}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { mutateDb } from "@/lib/db";
+import { notFound } from "@/lib/http";
+import { getApplication } from "@/lib/applications";
+import { getBlobStore } from "@/lib/storage";
+import type { Application } from "@/types";
+import { extractText } from "./extract";
+import { parseResume } from "./parse";
+
+export { extractText } from "./extract";
+export { parseResume } from "./parse";
+
+/**
+ * Extracts and parses an application's CV and stores the text and profile
+ * on it. An unreadable file is stored as empty text so screening still runs
+ * on the answers alone.
+ */
+export async function parseApplicationCv(companyId: string, applicationId: string): Promise<Application> {
+  const application = await getApplication(companyId, applicationId);
+  const data = await getBlobStore().get(application.cv.key);
+
+  let cvText = "";
+  try {
+    if (!data) throw new Error(`CV file ${application.cv.key} is missing`);
+    cvText = await extractText(data, application.cv.fileName);
+  } catch (error) {
+    console.error(`CV extraction failed for application ${applicationId}:`, error);
+  }
+
+  return mutateDb((db) => {
+    const stored = db.applications.find((app) => app.id === applicationId);
+    if (!stored) throw notFound("Application not found");
+    Object.assign(stored, { cvText, resume: parseResume(cvText) });
+    return stored;
+  });
+}
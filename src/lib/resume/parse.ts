@@ -0,0 +1,217 @@
+import type { ResumeEducation, ResumeExperience, ResumeLink, ResumeProfile } from "@/types";
+
+type Section = "summary" | "experience" | "education" | "skills" | "projects" | "other";
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ["experience", /^(work |professional |employment |relevant )?(experience|history|employment)( history)?$/],
+  ["education", /^(education|academic background|qualifications)$/],
+  ["skills", /^((technical|core|key) )?(skills|competencies|technologies)( & tools| and tools)?$/],
+  ["projects", /^(personal |selected )?projects$/],
+  ["summary", /^(summary|profile|about me|objective|professional summary)$/],
+  ["other", /^(certifications?|awards|languages|interests|references|volunteering|publications)$/],
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now|today)`,
+  "i"
+);
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{8,}\d/;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s,;)]+|\b(?:linkedin\.com|github\.com)\/[^\s,;)]+/gi;
+const DEGREE_PATTERN =
+  /\b(bachelor|master|ph\.?d|doctor|associate|diploma|certificate|mba|b\.?sc|m\.?sc|b\.?a\b|m\.?a\b|b\.?eng|m\.?eng|b\.?s\b|m\.?s\b)/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+const headingOf = (line: string): Section | null => {
+  const normalized = line.toLowerCase().replace(/[:\s]+$/, "").trim();
+  if (normalized.length > 40) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+};
+
+function splitSections(lines: string[]): Map<Section, string[]> {
+  const sections = new Map<Section, string[]>();
+  let current: Section = "summary";
+  for (const line of lines) {
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      if (!sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    sections.set(current, [...(sections.get(current) ?? []), line]);
+  }
+  return sections;
+}
+
+/** Normalizes "Mar 2021", "03/2021" and "2021" to "2021-03" / "2021"; ongoing roles become null. */
+function toDate(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  if (/^(present|current|now|today)$/.test(text)) return null;
+  const slash = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (slash) return `${slash[2]}-${slash[1].padStart(2, "0")}`;
+  const named = text.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3)) + 1;
+    return month > 0 ? `${named[2]}-${String(month).padStart(2, "0")}` : named[2];
+  }
+  return text;
+}
+
+function parseDateRange(line: string) {
+  const match = line.match(DATE_RANGE);
+  if (!match) return null;
+  const endDate = toDate(match[2]);
+  return {
+    startDate: toDate(match[1]),
+    endDate,
+    current: endDate === null,
+    rest: line.replace(match[0], " ").replace(/[|,–—()-]\s*$/, "").replace(/\s+/g, " ").trim(),
+  };
+}
+
+const stripBullet = (line: string) => line.replace(/^[•·▪●*-]\s*/, "");
+
+/** Splits "Engineer at Acme", "Engineer, Acme", "Engineer | Acme" or "Acme — Engineer". */
+function splitRole(text: string): { title: string; company: string } {
+  const at = text.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (at) return { title: at[1].trim(), company: at[2].trim() };
+  const parts = text.split(/\s*(?:\||,|–|—|\s-\s)\s*/).filter(Boolean);
+  return { title: parts[0] ?? "", company: parts.slice(1).join(", ") };
+}
+
+function parseExperience(lines: string[]): ResumeExperience[] {
+  const entries: ResumeExperience[] = [];
+  let pendingHeader = "";
+
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    const range = parseDateRange(line);
+    if (range) {
+      const role = splitRole(range.rest || pendingHeader);
+      if (range.rest && pendingHeader && !role.company) role.company = pendingHeader;
+      entries.push({ ...role, startDate: range.startDate, endDate: range.endDate, current: range.current, description: "" });
+      pendingHeader = "";
+      continue;
+    }
+    const last = entries.at(-1);
+    if (last && raw !== line) {
+      // Bullet points belong to the role above.
+      last.description = last.description ? `${last.description}\n${line}` : line;
+    } else if (last && !last.company && !pendingHeader) {
+      last.company = line;
+    } else {
+      pendingHeader = line;
+    }
+  }
+  return entries;
+}
+
+function parseEducation(lines: string[]): ResumeEducation[] {
+  const entries: ResumeEducation[] = [];
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    const range = parseDateRange(line);
+    const year = range ? null : line.match(/\b(19|20)\d{2}\b/)?.[0] ?? null;
+    const text = range ? range.rest : line.replace(/\b(19|20)\d{2}\b/, "").replace(/[|,–—-]\s*$/, "").trim();
+    const parts = text.split(/\s*(?:\||,|–|—|\s-\s)\s*/).filter(Boolean);
+    const institution = parts.find((part) => INSTITUTION_PATTERN.test(part)) ?? "";
+    const degree = parts.find((part) => DEGREE_PATTERN.test(part)) ?? "";
+
+    const last = entries.at(-1);
+    if (!institution && !degree) {
+      if (last && (range || year) && !last.endDate) {
+        Object.assign(last, range ? { startDate: range.startDate, endDate: range.endDate } : { endDate: year });
+      }
+      continue;
+    }
+    if (last && (!last.institution || !last.degree) && !(institution && last.institution) && !(degree && last.degree)) {
+      // Degree and institution on consecutive lines describe the same entry.
+      last.institution ||= institution;
+      last.degree ||= degree;
+      if (!last.endDate) Object.assign(last, range ? { startDate: range.startDate, endDate: range.endDate } : { endDate: year });
+      continue;
+    }
+    entries.push({
+      institution,
+      degree,
+      startDate: range?.startDate ?? null,
+      endDate: range ? range.endDate : year,
+    });
+  }
+  return entries;
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = lines
+    .flatMap((line) => stripBullet(line).replace(/^[\w &/]+:\s*/, "").split(/\s*(?:,|;|\||•|·)\s*/))
+    .map((skill) => skill.replace(/\.$/, "").trim())
+    .filter((skill) => skill.length > 0 && skill.length <= 40);
+  const seen = new Set<string>();
+  return skills.filter((skill) => {
+    const key = skill.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function parseLinks(text: string): ResumeLink[] {
+  const urls = new Set(
+    (text.match(URL_PATTERN) ?? []).map((url) => {
+      const trimmed = url.replace(/[.]+$/, "");
+      return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    })
+  );
+  return [...urls].map((url) => ({
+    url,
+    type: /linkedin\.com/i.test(url)
+      ? "linkedin"
+      : /github\.com/i.test(url)
+        ? "github"
+        : "portfolio",
+  }));
+}
+
+function parseName(lines: string[]): string | null {
+  const candidate = lines
+    .slice(0, 5)
+    .find(
+      (line) =>
+        !EMAIL_PATTERN.test(line) &&
+        !PHONE_PATTERN.test(line) &&
+        !headingOf(line) &&
+        /^[\p{L}][\p{L}'.-]*(\s+[\p{L}][\p{L}'.-]*){1,3}$/u.test(line)
+    );
+  return candidate ?? null;
+}
+
+/**
+ * Turns extracted CV text into a structured profile. This is heuristic: it
+ * relies on the usual section headings ("Experience", "Education",
+ * "Skills") and on date ranges to separate roles, and leaves fields empty
+ * rather than guessing when a CV doesn't follow that layout.
+ */
+export function parseResume(text: string): ResumeProfile {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+  const phone = text.match(PHONE_PATTERN)?.[0].trim() ?? null;
+
+  return {
+    contact: {
+      name: parseName(lines),
+      email: text.match(EMAIL_PATTERN)?.[0] ?? null,
+      phone: phone && phone.replace(/\D/g, "").length >= 10 ? phone : null,
+    },
+    links: parseLinks(text),
+    skills: parseSkills(sections.get("skills") ?? []),
+    experience: parseExperience(sections.get("experience") ?? []),
+    education: parseEducation(sections.get("education") ?? []),
+  };
+}
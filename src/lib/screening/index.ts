@@ -0,0 +1,140 @@
+import { moveApplication } from "@/lib/applications";
+import { parseCriteria } from "@/lib/criteria";
+import { mutateDb, readDb } from "@/lib/db";
+import { notFound } from "@/lib/http";
+import { notifyScreeningComplete } from "@/lib/notifications";
+import { findJob } from "@/lib/jobs";
+import { SCREENED_STAGE_ID, jobPipeline, stageOf } from "@/lib/pipeline";
+import { processSingleton } from "@/lib/process";
+import { parseApplicationCv } from "@/lib/resume";
+import { checkUsageAlerts, hasQuota, recordUsage } from "@/lib/usage";
+import type { Application } from "@/types";
+import { evaluateKnockouts, knockoutResult } from "./knockout";
+import { LlmScreeningProvider } from "./llm";
+import { RuleBasedScreeningProvider } from "./rule-based";
+import type { ScreeningInput, ScreeningProvider } from "./types";
+
+export type { ScreeningInput, ScreeningProvider } from "./types";
+export { LlmScreeningProvider } from "./llm";
+export { RuleBasedScreeningProvider } from "./rule-based";
+
+export const SCREENING_PAUSED_REASON =
+  "AI screening is paused: this billing period's screenings are used up. Upgrade your plan or re-run screening when the period resets.";
+
+// One per process, so a provider set at startup reaches every route.
+const screening = processSingleton("screeningProvider", () => ({}) as { provider?: ScreeningProvider });
+
+function createProvider(): ScreeningProvider {
+  if (process.env.SCREENING_PROVIDER === "llm") {
+    const { SCREENING_LLM_URL, SCREENING_LLM_API_KEY, SCREENING_LLM_MODEL } = process.env;
+    if (!SCREENING_LLM_URL || !SCREENING_LLM_API_KEY || !SCREENING_LLM_MODEL) {
+      throw new Error("SCREENING_LLM_URL, SCREENING_LLM_API_KEY and SCREENING_LLM_MODEL must be set");
+    }
+    return new LlmScreeningProvider({
+      url: SCREENING_LLM_URL,
+      apiKey: SCREENING_LLM_API_KEY,
+      model: SCREENING_LLM_MODEL,
+    });
+  }
+  return new RuleBasedScreeningProvider();
+}
+
+export function getScreeningProvider(): ScreeningProvider {
+  screening.provider ??= createProvider();
+  return screening.provider;
+}
+
+export function setScreeningProvider(next: ScreeningProvider): void {
+  screening.provider = next;
+}
+
+/**
+ * Screens an application against its job's requirements and stores the
+ * outcome, parsing the CV first if that hasn't happened yet. Candidates who
+ * fail a knockout question are rejected without calling the provider. A
+ * provider failure leaves the application pending so it can be re-run from
+ * the dashboard. A screened application still in the job's first stage moves
+ * on to the Screened stage. Once the plan's AI screenings for the billing
+ * period are used up, applications are left pending instead of screened.
+ * Applications held over the plan's review limit are left alone.
+ */
+export async function screenApplication(companyId: string, applicationId: string): Promise<Application> {
+  const db = await readDb();
+  let application = db.applications.find(
+    (app) => app.id === applicationId && app.companyId === companyId
+  );
+  if (!application) throw notFound("Application not found");
+  if (application.heldAt) return application;
+  const job = findJob(db, application.jobId, companyId);
+  if (application.cvText === undefined) {
+    application = await parseApplicationCv(companyId, applicationId);
+  }
+
+  const input: ScreeningInput = {
+    requirements: job.requirements,
+    // Jobs saved before criteria existed are screened on their parsed requirements text.
+    criteria: job.criteria?.length ? job.criteria : parseCriteria(job.requirements),
+    cvText: application.cvText ?? "",
+    answers: application.answers,
+  };
+
+  const knockouts = evaluateKnockouts(job.form.questions, application.answers);
+  const knockedOut = knockouts.some((k) => !k.passed);
+  const detail = `${application.name} for ${job.title}`;
+  // Knockouts don't call the provider, so only provider runs use the plan's screenings.
+  const usage = knockedOut
+    ? null
+    : await mutateDb((db) =>
+        hasQuota(db, companyId, "ai_screenings") ? recordUsage(db, companyId, "ai_screenings", detail) : null
+      );
+  let update: Partial<Application>;
+  if (!knockedOut && !usage) {
+    update = { decision: "pending", reason: SCREENING_PAUSED_REASON, missingRequirements: [] };
+  } else {
+    try {
+      const result = knockedOut
+        ? knockoutResult(knockouts)
+        : { ...(await getScreeningProvider().screen(input)), ...(knockouts.length > 0 && { knockouts }) };
+      update = {
+        decision: result.decision,
+        reason: result.reason,
+        missingRequirements: result.missingRequirements,
+        screening: result,
+      };
+    } catch (error) {
+      console.error(`Screening failed for application ${applicationId}:`, error);
+      update = { decision: "pending", reason: "Screening failed, please re-run", missingRequirements: [] };
+      // A failed run doesn't count towards the plan.
+      if (usage) {
+        await mutateDb((db) => {
+          db.usage = db.usage.filter((event) => event.id !== usage.id);
+        });
+      }
+    }
+  }
+
+  const screened = await mutateDb((db) => {
+    const stored = db.applications.find((app) => app.id === applicationId);
+    if (!stored) throw notFound("Application not found");
+    Object.assign(stored, update);
+    const storedJob = findJob(db, stored.jobId);
+    const pipeline = jobPipeline(storedJob);
+    if (
+      update.screening &&
+      stageOf(stored, pipeline).id === pipeline[0].id &&
+      pipeline.some((stage) => stage.id === SCREENED_STAGE_ID)
+    ) {
+      moveApplication(stored, storedJob, SCREENED_STAGE_ID, null);
+    }
+    return stored;
+  });
+  if (usage) await checkUsageAlerts(companyId);
+  return screened;
+}
+
+/** Screens applications released from hold one at a time, announcing each result. */
+export async function screenReleasedApplications(applications: Application[]): Promise<void> {
+  for (const application of applications) {
+    await screenApplication(application.companyId, application.id).then(notifyScreeningComplete).catch(console.error);
+  }
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ApplicationAnswer, FormQuestion } from "@/types";
+import { evaluateKnockouts, knockoutResult } from "./knockout";
+
+const questions: FormQuestion[] = [
+  { id: "visa", label: "Do you need a visa?", type: "yes_no", required: true, knockout: { operator: "equals", value: false } },
+  { id: "years", label: "Years of React", type: "number", required: true, knockout: { operator: "gte", value: 3 } },
+  { id: "travel", label: "Travel per month", type: "scale", required: true, knockout: { operator: "lte", value: 2 } },
+  {
+    id: "site",
+    label: "Preferred office",
+    type: "single_select",
+    required: true,
+    options: ["London", "Berlin", "Lisbon"],
+    knockout: { operator: "one_of", value: ["London", "Berlin"] },
+  },
+  {
+    id: "stack",
+    label: "Languages",
+    type: "multi_select",
+    required: true,
+    options: ["TypeScript", "Go", "Rust"],
+    knockout: { operator: "includes", value: ["TypeScript", "Go"] },
+  },
+  { id: "notes", label: "Anything else?", type: "long_text", required: false },
+];
+
+const answer = (questionId: string, value: ApplicationAnswer["value"]): ApplicationAnswer => {
+  const question = questions.find((q) => q.id === questionId)!;
+  return { questionId, question: question.label, type: question.type, value };
+};
+
+const passing = [
+  answer("visa", false),
+  answer("years", 3),
+  answer("travel", 2),
+  answer("site", "Berlin"),
+  answer("stack", ["Go", "TypeScript", "Rust"]),
+];
+
+const failedIds = (answers: ApplicationAnswer[], form = questions) =>
+  evaluateKnockouts(form, answers)
+    .filter((k) => !k.passed)
+    .map((k) => k.questionId);
+
+describe("knockouts", () => {
+  test("check only the knockout questions, and pass answers meeting every rule", () => {
+    const results = evaluateKnockouts(questions, passing);
+    assert.deepEqual(
+      results.map((k) => k.questionId),
+      ["visa", "years", "travel", "site", "stack"]
+    );
+    assert.ok(results.every((k) => k.passed));
+    assert.equal(results[1].detail, "Years of React: 3");
+  });
+
+  test("fail answers outside each operator's bounds", () => {
+    const replace = (changed: ApplicationAnswer) =>
+      failedIds(passing.map((a) => (a.questionId === changed.questionId ? changed : a)));
+    assert.deepEqual(replace(answer("visa", true)), ["visa"]);
+    assert.deepEqual(replace(answer("years", 2)), ["years"]);
+    assert.deepEqual(replace(answer("travel", 3)), ["travel"]);
+    assert.deepEqual(replace(answer("site", "Lisbon")), ["site"]);
+    assert.deepEqual(replace(answer("stack", ["TypeScript", "Rust"])), ["stack"]);
+  });
+
+  test("fail unanswered knockout questions and say what was required", () => {
+    const [result] = evaluateKnockouts(questions, passing.filter((a) => a.questionId !== "years")).filter((k) => !k.passed);
+    assert.equal(result.questionId, "years");
+    assert.equal(result.detail, "Years of React: not answered, required at least 3");
+  });
+
+  test("skip knockout questions the applicant's answers hid", () => {
+    const form: FormQuestion[] = [
+      { id: "remote", label: "Do you want to work remotely?", type: "yes_no", required: true },
+      { ...questions[2], showIf: { questionId: "remote", values: ["no"] } },
+    ];
+    const remote = (value: boolean): ApplicationAnswer => ({
+      questionId: "remote",
+      question: "Do you want to work remotely?",
+      type: "yes_no",
+      value,
+    });
+    assert.deepEqual(failedIds([remote(true)], form), []);
+    assert.deepEqual(failedIds([remote(false)], form), ["travel"]);
+    assert.deepEqual(failedIds([remote(false), answer("travel", 1)], form), []);
+  });
+
+  test("record a disqualification without a score", () => {
+    const knockouts = evaluateKnockouts(questions, [...passing.slice(1), answer("visa", true)]);
+    const result = knockoutResult(knockouts);
+    assert.equal(result.decision, "not_qualified");
+    assert.equal(result.reason, "Disqualified by 1 knockout question");
+    assert.deepEqual(result.missingRequirements, ["Do you need a visa?: answered Yes, required No"]);
+    assert.equal(result.score, 0);
+    assert.equal(result.provider, "knockout");
+  });
+});
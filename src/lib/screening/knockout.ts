@@ -0,0 +1,56 @@
+import { describeKnockout, formatAnswer, visibleQuestions } from "@/lib/forms";
+import type { AnswerValue, ApplicationAnswer, FormQuestion, KnockoutResult, KnockoutRule, ScreeningResult } from "@/types";
+
+function passes(rule: KnockoutRule, value: AnswerValue): boolean {
+  switch (rule.operator) {
+    case "equals":
+      return value === rule.value;
+    case "gte":
+      return typeof value === "number" && value >= rule.value;
+    case "lte":
+      return typeof value === "number" && value <= rule.value;
+    case "one_of":
+      return typeof value === "string" && rule.value.includes(value);
+    case "includes":
+      return Array.isArray(value) && rule.value.every((option) => value.includes(option));
+  }
+}
+
+/**
+ * Checks the answers against the form's knockout questions. Unanswered knockout
+ * questions fail unless the applicant's answers hid them.
+ */
+export function evaluateKnockouts(questions: FormQuestion[], answers: ApplicationAnswer[]): KnockoutResult[] {
+  const valueOf = (questionId: string) => answers.find((a) => a.questionId === questionId)?.value;
+  return visibleQuestions(questions, valueOf).flatMap((question) => {
+    if (!question.knockout) return [];
+    const answer = answers.find((a) => a.questionId === question.id);
+    const passed = answer !== undefined && passes(question.knockout, answer.value);
+    const given = answer ? formatAnswer(answer) : "";
+    return [
+      {
+        questionId: question.id,
+        question: question.label,
+        passed,
+        detail: passed
+          ? `${question.label}: ${given}`
+          : `${question.label}: ${answer ? `answered ${given}` : "not answered"}, required ${describeKnockout(question.knockout)}`,
+      },
+    ];
+  });
+}
+
+/** The outcome recorded when a knockout fails; no provider is called. */
+export function knockoutResult(knockouts: KnockoutResult[]): ScreeningResult {
+  const failed = knockouts.filter((k) => !k.passed);
+  return {
+    decision: "not_qualified",
+    reason: `Disqualified by ${failed.length} knockout question${failed.length === 1 ? "" : "s"}`,
+    missingRequirements: failed.map((k) => k.detail),
+    criteria: [],
+    knockouts,
+    score: 0,
+    provider: "knockout",
+    screenedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,93 @@
+import { IMPORTANCE_LABELS, formatCriterion } from "@/lib/criteria";
+import { formatAnswer } from "@/lib/forms";
+import type { CriterionResult, JobCriterion, ScreeningResult } from "@/types";
+import { summarize } from "./summary";
+import type { ScreeningInput, ScreeningProvider } from "./types";
+
+export interface LlmScreeningOptions {
+  url: string;
+  apiKey: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+const SYSTEM_PROMPT = `You screen job applicants for a recruiter.
+Assess the candidate's CV and answers against each numbered criterion and reply with JSON only:
+{"criteria": [{"id": string, "passed": boolean, "detail": string}], "reason": string}
+Include every criterion id exactly once. "detail" is a short justification; "reason" is one sentence summarizing the fit.`;
+
+const describe = (criterion: JobCriterion) =>
+  `- id ${criterion.id}: ${formatCriterion(criterion)} [${IMPORTANCE_LABELS[criterion.importance]}]`;
+
+function parseResults(content: string, criteria: JobCriterion[]): { results: CriterionResult[]; reason: string } {
+  const value = JSON.parse(content) as { criteria?: unknown; reason?: unknown };
+  if (!Array.isArray(value.criteria)) {
+    throw new Error("Screening model response is missing per-criterion results");
+  }
+  type Assessment = { id?: unknown; passed?: unknown; detail?: unknown };
+  const assessed = new Map(value.criteria.map((item: Assessment) => [String(item?.id), item]));
+  const results = criteria.map((criterion) => {
+    const item = assessed.get(criterion.id);
+    return {
+      criterionId: criterion.id,
+      skill: criterion.skill,
+      importance: criterion.importance,
+      passed: item?.passed === true,
+      detail: typeof item?.detail === "string" && item.detail.trim() ? item.detail.trim() : item ? "" : "Not assessed",
+    };
+  });
+  return { results, reason: typeof value.reason === "string" ? value.reason.trim() : "" };
+}
+
+/**
+ * Adapter for hosted models behind an OpenAI-compatible chat completions
+ * endpoint. The model assesses each criterion; the decision and score are
+ * then derived the same way as for the rule-based provider.
+ */
+export class LlmScreeningProvider implements ScreeningProvider {
+  readonly name: string;
+
+  constructor(private readonly options: LlmScreeningOptions) {
+    this.name = `llm:${options.model}`;
+  }
+
+  async screen(input: ScreeningInput): Promise<ScreeningResult> {
+    const answers = input.answers.map((a) => `Q: ${a.question}\nA: ${formatAnswer(a)}`).join("\n\n");
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `Requirements:\n${input.requirements}\n\nCriteria:\n${input.criteria.map(describe).join("\n")}\n\nCV:\n${input.cvText || "(no CV text available)"}\n\nAnswers:\n${answers || "(none)"}`,
+          },
+        ],
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Screening model request failed with status ${response.status}`);
+    }
+
+    const payload = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+    const content = payload.choices?.[0]?.message?.content;
+    if (!content) throw new Error("Screening model returned an empty response");
+
+    const { results, reason } = parseResults(content, input.criteria);
+    const summary = summarize(input.criteria, results);
+    return {
+      ...summary,
+      reason: reason || summary.reason,
+      provider: this.name,
+      screenedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { GENERIC_SKILL } from "@/lib/criteria";
+import { formatAnswer } from "@/lib/forms";
+import type { CriterionResult, JobCriterion, ScreeningResult } from "@/types";
+import { summarize } from "./summary";
+import type { ScreeningInput, ScreeningProvider } from "./types";
+
+const YEARS_PATTERN = /(\d+)\s*\+?\s*(?:years?|yrs?)/i;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const mentions = (text: string, term: string) =>
+  new RegExp(`(^|[^a-z0-9+#])${escapeRegExp(term)}(?=$|[^a-z0-9+#])`, "i").test(text);
+
+function yearsOfExperience(text: string, skill: string | null): number {
+  const sentences = text.split(/[.\n;]+/);
+  const relevant = skill ? sentences.filter((sentence) => mentions(sentence, skill)) : sentences;
+  return relevant.reduce((max, sentence) => {
+    const match = sentence.match(YEARS_PATTERN);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+}
+
+function evaluate(criterion: JobCriterion, text: string): CriterionResult {
+  const skill = criterion.skill === GENERIC_SKILL ? null : criterion.skill;
+  const tokens = skill ? skill.split(/\s+/).filter((token) => token.length > 1) : [];
+  const hasSkill = !skill || mentions(text, skill) || (tokens.length > 0 && tokens.every((t) => mentions(text, t)));
+  const result = { criterionId: criterion.id, skill: criterion.skill, importance: criterion.importance };
+
+  if (!hasSkill) {
+    return { ...result, passed: false, detail: `Missing ${criterion.skill}` };
+  }
+  if (criterion.minYears !== null) {
+    const found = yearsOfExperience(text, skill);
+    const label = skill ? `${skill} experience` : "experience";
+    if (found < criterion.minYears) {
+      return {
+        ...result,
+        passed: false,
+        detail: `Insufficient ${label} (${found} years vs required ${criterion.minYears}+)`,
+      };
+    }
+    return { ...result, passed: true, detail: `${found} years of ${label}` };
+  }
+  return { ...result, passed: true, detail: `Mentions ${criterion.skill}` };
+}
+
+/**
+ * Deterministic, offline provider: checks each criterion against the CV text
+ * and answers by keyword and years of experience. Skill levels aren't
+ * assessed. Used in development and tests, and as the default when no hosted
+ * model is configured.
+ */
+export class RuleBasedScreeningProvider implements ScreeningProvider {
+  readonly name = "rules";
+
+  async screen(input: ScreeningInput): Promise<ScreeningResult> {
+    const text = [input.cvText, ...input.answers.map(formatAnswer)].join("\n");
+    const results = input.criteria.map((criterion) => evaluate(criterion, text));
+    return {
+      ...summarize(input.criteria, results),
+      provider: this.name,
+      screenedAt: new Date().toISOString(),
+    };
+  }
+}
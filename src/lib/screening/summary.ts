@@ -0,0 +1,35 @@
+import type { CriterionResult, JobCriterion, ScreeningResult } from "@/types";
+
+/**
+ * Derives the decision, weighted score and reason from per-criterion
+ * results, so every provider qualifies candidates by the same rule: all
+ * must-haves met. Nice-to-haves only move the score.
+ */
+export function summarize(
+  criteria: JobCriterion[],
+  results: CriterionResult[]
+): Pick<ScreeningResult, "decision" | "reason" | "missingRequirements" | "criteria" | "score"> {
+  const weights = new Map(criteria.map((criterion) => [criterion.id, criterion.weight]));
+  const totalWeight = results.reduce((sum, r) => sum + (weights.get(r.criterionId) ?? 1), 0);
+  const metWeight = results
+    .filter((r) => r.passed)
+    .reduce((sum, r) => sum + (weights.get(r.criterionId) ?? 1), 0);
+  const score = totalWeight > 0 ? Math.round((metWeight / totalWeight) * 100) : 100;
+
+  const mustHaves = results.filter((r) => r.importance === "must_have");
+  const failed = mustHaves.filter((r) => !r.passed);
+  const reason =
+    results.length === 0
+      ? "No screening criteria defined"
+      : failed.length === 0
+        ? `Meets all ${mustHaves.length} must-have criteria (score ${score}%)`
+        : `Meets ${mustHaves.length - failed.length} of ${mustHaves.length} must-have criteria (score ${score}%)`;
+
+  return {
+    decision: failed.length === 0 ? "qualified" : "not_qualified",
+    reason,
+    missingRequirements: failed.map((r) => r.detail),
+    criteria: results,
+    score,
+  };
+}
@@ -0,0 +1,13 @@
+import type { ApplicationAnswer, JobCriterion, ScreeningResult } from "@/types";
+
+export interface ScreeningInput {
+  requirements: string;
+  criteria: JobCriterion[];
+  cvText: string;
+  answers: ApplicationAnswer[];
+}
+
+export interface ScreeningProvider {
+  readonly name: string;
+  screen(input: ScreeningInput): Promise<ScreeningResult>;
+}
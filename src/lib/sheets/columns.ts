@@ -0,0 +1,48 @@
+// Shared by the sync settings on the profile page and the sync service, so
+// the column mapping is offered and applied from the same field list.
+import { APPLICATION_COLUMNS, DECISION_LABELS, type ExportColumn } from "@/lib/export/definitions";
+import type { Application, ScreeningDecision, SheetColumnMapping, SheetStatusColumn } from "@/types";
+
+export interface SyncRecord {
+  application: Application;
+  jobTitle: string;
+}
+
+/** Title of the first column, which holds the application id the rows are matched on. */
+export const KEY_HEADER = "Application ID";
+
+export const SHEET_FIELDS: ExportColumn<SyncRecord>[] = [
+  { id: "jobRole", label: "Job Role", defaultSelected: true, value: (record) => record.jobTitle },
+  ...APPLICATION_COLUMNS.map((column) => ({
+    ...column,
+    value: (record: SyncRecord) => column.value(record.application),
+  })),
+];
+
+export const defaultColumnMapping = (): SheetColumnMapping[] =>
+  SHEET_FIELDS.filter((field) => field.defaultSelected).map((field) => ({ field: field.id, header: field.label }));
+
+export const MAX_STATUS_VALUES = 20;
+
+export const defaultStatusColumn = (): SheetStatusColumn => ({
+  header: "Status",
+  values: [
+    { value: "Interview", decision: "qualified" },
+    { value: "Reject", decision: "not_qualified" },
+  ],
+});
+
+/** What the status column shows for a decision: its first mapped value, or the decision's label. */
+export const statusValueFor = (column: SheetStatusColumn, decision: ScreeningDecision): string =>
+  column.values.find((mapping) => mapping.decision === decision)?.value ?? DECISION_LABELS[decision];
+
+/** The decision a status typed into the sheet stands for, ignoring case; null if it isn't mapped. */
+export function decisionForStatus(column: SheetStatusColumn, value: string): ScreeningDecision | null {
+  const text = value.trim().toLowerCase();
+  const mapped = column.values.find((mapping) => mapping.value.toLowerCase() === text);
+  if (mapped) return mapped.decision;
+  const labelled = (Object.keys(DECISION_LABELS) as ScreeningDecision[]).find(
+    (decision) => DECISION_LABELS[decision].toLowerCase() === text
+  );
+  return labelled ?? null;
+}
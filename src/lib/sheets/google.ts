@@ -0,0 +1,143 @@
+import { createSign } from "crypto";
+import type { KeyedRow, SheetCell, SheetTarget, SheetsAdapter, UpsertResult } from "./types";
+
+export interface GoogleSheetsOptions {
+  /** Service account email; spreadsheets are shared with it as editors. */
+  clientEmail: string;
+  /** The service account's PEM private key. */
+  privateKey: string;
+  timeoutMs?: number;
+}
+
+const API = "https://sheets.googleapis.com/v4/spreadsheets";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+// Tab names are quoted in A1 ranges, with embedded quotes doubled.
+const quote = (sheetName: string) => `'${sheetName.replace(/'/g, "''")}'`;
+
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Adapter for the Google Sheets REST API, authenticated as a service account
+ * with a signed JWT. Values are written as RAW so cells are never parsed as
+ * formulas.
+ */
+export class GoogleSheetsAdapter implements SheetsAdapter {
+  readonly name = "google";
+  readonly account: string;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly options: GoogleSheetsOptions) {
+    this.account = options.clientEmail;
+  }
+
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) return this.token.value;
+    const now = Math.floor(Date.now() / 1000);
+    const unsigned = [
+      base64url(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+      base64url(JSON.stringify({ iss: this.options.clientEmail, scope: SCOPE, aud: TOKEN_URL, iat: now, exp: now + 3600 })),
+    ].join(".");
+    const signature = createSign("RSA-SHA256").update(unsigned).sign(this.options.privateKey);
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${unsigned}.${base64url(signature)}`,
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30_000),
+    });
+    if (!response.ok) throw new Error(`Google sign-in failed with status ${response.status}`);
+    const payload = (await response.json()) as { access_token: string; expires_in: number };
+    this.token = { value: payload.access_token, expiresAt: Date.now() + payload.expires_in * 1000 };
+    return this.token.value;
+  }
+
+  private async request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    const response = await fetch(`${API}/${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        Authorization: `Bearer ${await this.accessToken()}`,
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30_000),
+    });
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+      throw new Error(payload?.error?.message || `Google Sheets request failed with status ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  async listSheets(spreadsheetId: string): Promise<string[]> {
+    const spreadsheet = await this.request<{ sheets?: { properties: { title: string } }[] }>(
+      `${encodeURIComponent(spreadsheetId)}?fields=sheets.properties.title`
+    );
+    return (spreadsheet.sheets ?? []).map((sheet) => sheet.properties.title);
+  }
+
+  async readRows({ spreadsheetId, sheetName }: SheetTarget): Promise<SheetCell[][]> {
+    if (!(await this.listSheets(spreadsheetId)).includes(sheetName)) return [];
+    const range = encodeURIComponent(quote(sheetName));
+    const result = await this.request<{ values?: SheetCell[][] }>(`${encodeURIComponent(spreadsheetId)}/values/${range}`);
+    return result.values ?? [];
+  }
+
+  async upsertRows({ spreadsheetId, sheetName }: SheetTarget, header: string[], rows: KeyedRow[]): Promise<UpsertResult> {
+    const id = encodeURIComponent(spreadsheetId);
+    if (!(await this.listSheets(spreadsheetId)).includes(sheetName)) {
+      await this.request(`${id}:batchUpdate`, {
+        method: "POST",
+        body: { requests: [{ addSheet: { properties: { title: sheetName } } }] },
+      });
+    }
+
+    const keyRange = encodeURIComponent(`${quote(sheetName)}!A:A`);
+    const keys = await this.request<{ values?: SheetCell[][] }>(`${id}/values/${keyRange}`);
+    const rowNumbers = new Map<string, number>();
+    (keys.values ?? []).forEach((row, index) => {
+      if (index > 0 && row[0] !== undefined) rowNumbers.set(String(row[0]), index + 1);
+    });
+
+    const lastColumn = columnLetter(header.length - 1);
+    const rangeOf = (rowNumber: number) => `${quote(sheetName)}!A${rowNumber}:${lastColumn}${rowNumber}`;
+    const updates: { range: string; values: SheetCell[][] }[] = [{ range: rangeOf(1), values: [header] }];
+    const appends: SheetCell[][] = [];
+    for (const { key, values } of rows) {
+      const rowNumber = rowNumbers.get(key);
+      if (rowNumber) {
+        updates.push({ range: rangeOf(rowNumber), values: [[key, ...values]] });
+      } else {
+        appends.push([key, ...values]);
+      }
+    }
+
+    await this.request(`${id}/values:batchUpdate`, {
+      method: "POST",
+      body: { valueInputOption: "RAW", data: updates },
+    });
+    if (appends.length > 0) {
+      const appendRange = encodeURIComponent(`${quote(sheetName)}!A1`);
+      await this.request(`${id}/values/${appendRange}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, {
+        method: "POST",
+        body: { values: appends },
+      });
+    }
+    return { inserted: appends.length, updated: rows.length - appends.length };
+  }
+
+  spreadsheetUrl(spreadsheetId: string): string {
+    return `https://docs.google.com/spreadsheets/d/${encodeURIComponent(spreadsheetId)}/edit`;
+  }
+}
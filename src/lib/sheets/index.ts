@@ -0,0 +1,462 @@
+import { createHash, randomBytes } from "crypto";
+import path from "path";
+import { findCompany } from "@/lib/companies";
+import { DATA_DIR, mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, notFound } from "@/lib/http";
+import { notifySyncFailed } from "@/lib/notifications";
+import { processSingleton } from "@/lib/process";
+import { DECISION_LABELS } from "@/lib/export/definitions";
+import type {
+  PublicSheetsConnection,
+  ScreeningDecision,
+  SheetColumnMapping,
+  SheetConflict,
+  SheetStatusColumn,
+  SheetsConnection,
+  SheetsStatus,
+} from "@/types";
+import {
+  KEY_HEADER,
+  MAX_STATUS_VALUES,
+  SHEET_FIELDS,
+  decisionForStatus,
+  defaultColumnMapping,
+  statusValueFor,
+  type SyncRecord,
+} from "./columns";
+import { GoogleSheetsAdapter } from "./google";
+import { LocalSheetsAdapter } from "./local";
+import type { KeyedRow, SheetCell, SheetsAdapter } from "./types";
+
+export type { KeyedRow, SheetCell, SheetTarget, SheetsAdapter, UpsertResult } from "./types";
+export { GoogleSheetsAdapter } from "./google";
+export { LocalSheetsAdapter } from "./local";
+
+const MAX_ERROR_LOG = 20;
+const MAX_NAME_LENGTH = 100;
+
+// One per process, so an adapter set at startup reaches every route.
+const sheets = processSingleton("sheetsAdapter", () => ({}) as { adapter?: SheetsAdapter });
+
+function createAdapter(): SheetsAdapter {
+  if (process.env.SHEETS_PROVIDER === "google") {
+    const { GOOGLE_SERVICE_ACCOUNT_EMAIL, GOOGLE_PRIVATE_KEY } = process.env;
+    if (!GOOGLE_SERVICE_ACCOUNT_EMAIL || !GOOGLE_PRIVATE_KEY) {
+      throw new Error("GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_PRIVATE_KEY must be set");
+    }
+    return new GoogleSheetsAdapter({
+      clientEmail: GOOGLE_SERVICE_ACCOUNT_EMAIL,
+      // Env files usually hold the PEM key on one line with escaped newlines.
+      privateKey: GOOGLE_PRIVATE_KEY.replace(/\\n/g, "\n"),
+    });
+  }
+  return new LocalSheetsAdapter(process.env.RECRUITAI_SHEETS_DIR || path.join(DATA_DIR, "sheets"));
+}
+
+export function getSheetsAdapter(): SheetsAdapter {
+  sheets.adapter ??= createAdapter();
+  return sheets.adapter;
+}
+
+export function setSheetsAdapter(next: SheetsAdapter): void {
+  sheets.adapter = next;
+}
+
+const asString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// Accepts the spreadsheet's id or its URL as copied from the browser.
+function parseSpreadsheetId(value: unknown): string {
+  const text = asString(value);
+  const id = text.match(/\/spreadsheets\/d\/([\w-]+)/)?.[1] ?? text;
+  return /^[\w-]{1,100}$/.test(id) ? id : "";
+}
+
+function parseColumns(value: unknown): SheetColumnMapping[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const columns: SheetColumnMapping[] = [];
+  for (const item of value as { field?: unknown; header?: unknown }[]) {
+    const field = SHEET_FIELDS.find((f) => f.id === item?.field);
+    if (!field || columns.some((column) => column.field === field.id)) return null;
+    columns.push({ field: field.id, header: asString(item.header).slice(0, MAX_NAME_LENGTH) || field.label });
+  }
+  return columns;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Returns an error message instead of throwing so it can be reported as a field error.
+function parseStatusColumn(value: unknown): SheetStatusColumn | string {
+  const raw = value && typeof value === "object" ? (value as { header?: unknown; values?: unknown }) : {};
+  const header = asString(raw.header);
+  if (!header || header.length > MAX_NAME_LENGTH) return `Status column header must be 1-${MAX_NAME_LENGTH} characters`;
+  if (sameText(header, KEY_HEADER)) return `"${KEY_HEADER}" is reserved for the key column`;
+  if (!Array.isArray(raw.values) || raw.values.length === 0 || raw.values.length > MAX_STATUS_VALUES) {
+    return `Map between 1 and ${MAX_STATUS_VALUES} status values`;
+  }
+  const values: SheetStatusColumn["values"] = [];
+  for (const item of raw.values as { value?: unknown; decision?: unknown }[]) {
+    const text = asString(item?.value).slice(0, MAX_NAME_LENGTH);
+    const decision = Object.keys(DECISION_LABELS).find((d) => d === item?.decision) as ScreeningDecision | undefined;
+    if (!text || !decision) return "Each status value needs a name and a decision";
+    if (values.some((mapping) => sameText(mapping.value, text))) return `"${text}" is mapped more than once`;
+    values.push({ value: text, decision });
+  }
+  return { header, values };
+}
+
+export interface SheetsInput {
+  spreadsheetId: string;
+  sheetName: string;
+  /** Omitted to keep the current mapping, or the default one for a new connection. */
+  columns?: SheetColumnMapping[];
+  /** Null turns two-way sync off; omitted keeps the current setting. */
+  statusColumn?: SheetStatusColumn | null;
+}
+
+export function parseSheetsInput(body: Record<string, unknown>): SheetsInput {
+  const errors: Record<string, string> = {};
+  const spreadsheetId = parseSpreadsheetId(body.spreadsheet);
+  if (!spreadsheetId) errors.spreadsheet = "Enter the spreadsheet's URL or ID";
+  const sheetName = asString(body.sheetName);
+  if (!sheetName) errors.sheetName = "Sheet name is required";
+  else if (sheetName.length > MAX_NAME_LENGTH) errors.sheetName = `Sheet names are limited to ${MAX_NAME_LENGTH} characters`;
+  const columns = body.columns === undefined ? undefined : parseColumns(body.columns);
+  if (columns === null) errors.columns = "Pick at least one column, each at most once";
+  const statusColumn = body.statusColumn == null ? body.statusColumn : parseStatusColumn(body.statusColumn);
+  if (typeof statusColumn === "string") errors.statusColumn = statusColumn;
+  else if (statusColumn && columns?.some((column) => sameText(column.header, statusColumn.header))) {
+    errors.statusColumn = "The status column needs a header of its own";
+  }
+
+  if (Object.keys(errors).length > 0 || columns === null || typeof statusColumn === "string") {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  return { spreadsheetId, sheetName, columns, statusColumn };
+}
+
+function findConnection(db: Database, companyId: string): SheetsConnection {
+  const connection = db.sheetConnections.find((c) => c.companyId === companyId);
+  if (!connection) throw notFound("Google Sheets isn't connected");
+  return connection;
+}
+
+const toPublicConnection = ({
+  syncedRows,
+  syncedStatus: _syncedStatus,
+  ...connection
+}: SheetsConnection): PublicSheetsConnection => ({
+  ...connection,
+  syncedCount: Object.keys(syncedRows).length,
+  spreadsheetUrl: getSheetsAdapter().spreadsheetUrl(connection.spreadsheetId),
+});
+
+// Every workspace reaches Google through the same service account, so being
+// able to open a spreadsheet proves nothing about who it belongs to. Only its
+// editors can add a tab named with the workspace's code.
+async function verificationTab(companyId: string): Promise<string | null> {
+  if (!getSheetsAdapter().account) return null;
+  const code =
+    findCompany(await readDb(), companyId).sheetsVerification ??
+    (await mutateDb((db) => (findCompany(db, companyId).sheetsVerification ??= randomBytes(6).toString("hex"))));
+  return `RecruitAI-${code}`;
+}
+
+export async function getSheetsStatus(companyId: string): Promise<SheetsStatus> {
+  const sheetsAdapter = getSheetsAdapter();
+  const connection = (await readDb()).sheetConnections.find((c) => c.companyId === companyId);
+  const sheets = connection ? await sheetsAdapter.listSheets(connection.spreadsheetId).catch(() => []) : [];
+  return {
+    connection: connection ? toPublicConnection(connection) : null,
+    sheets,
+    account: sheetsAdapter.account ?? null,
+    verificationTab: await verificationTab(companyId),
+  };
+}
+
+/**
+ * Connects a spreadsheet, or changes the tab and column mapping of the
+ * existing connection. The spreadsheet is opened first so access problems
+ * show up here rather than on the first sync, and a new spreadsheet must
+ * carry the workspace's verification tab. A spreadsheet can only be
+ * connected to one workspace. Pointing the connection at another spreadsheet
+ * or tab starts the sync over.
+ */
+export async function saveSheetsConnection(companyId: string, input: SheetsInput): Promise<PublicSheetsConnection> {
+  const sheetsAdapter = getSheetsAdapter();
+  let tabs: string[];
+  try {
+    tabs = await sheetsAdapter.listSheets(input.spreadsheetId);
+  } catch (error) {
+    console.error("Failed to open spreadsheet:", error);
+    const share = sheetsAdapter.account ? `. Share it with ${sheetsAdapter.account} as an editor and try again` : "";
+    throw new HttpError(400, "Please fix the highlighted fields", {
+      spreadsheet: `Couldn't open this spreadsheet${share}`,
+    });
+  }
+  const current = (await readDb()).sheetConnections.find((c) => c.companyId === companyId);
+  const requiredTab = await verificationTab(companyId);
+  if (requiredTab && current?.spreadsheetId !== input.spreadsheetId && !tabs.includes(requiredTab)) {
+    throw new HttpError(400, "Please fix the highlighted fields", {
+      spreadsheet: `Add a tab named "${requiredTab}" to this spreadsheet to show it belongs to your workspace, then connect again`,
+    });
+  }
+
+  return mutateDb((db) => {
+    if (
+      db.sheetConnections.some(
+        (c) => c.companyId !== companyId && c.provider === sheetsAdapter.name && c.spreadsheetId === input.spreadsheetId
+      )
+    ) {
+      throw new HttpError(409, "Please fix the highlighted fields", {
+        spreadsheet: "This spreadsheet is connected to another workspace",
+      });
+    }
+    let connection = db.sheetConnections.find((c) => c.companyId === companyId);
+    if (!connection) {
+      connection = {
+        companyId,
+        provider: sheetsAdapter.name,
+        spreadsheetId: input.spreadsheetId,
+        sheetName: input.sheetName,
+        columns: input.columns ?? defaultColumnMapping(),
+        ...(input.statusColumn && { statusColumn: input.statusColumn }),
+        connectedAt: new Date().toISOString(),
+        errorLog: [],
+        syncedRows: {},
+      };
+      db.sheetConnections.push(connection);
+    } else {
+      const retargeted =
+        connection.provider !== sheetsAdapter.name ||
+        connection.spreadsheetId !== input.spreadsheetId ||
+        connection.sheetName !== input.sheetName;
+      Object.assign(connection, {
+        provider: sheetsAdapter.name,
+        spreadsheetId: input.spreadsheetId,
+        sheetName: input.sheetName,
+        columns: input.columns ?? connection.columns,
+      });
+      if (input.statusColumn !== undefined) {
+        connection.statusColumn = input.statusColumn ?? undefined;
+      }
+      if (retargeted || !connection.statusColumn) {
+        connection.syncedStatus = {};
+        connection.conflicts = [];
+      }
+      if (retargeted) connection.syncedRows = {};
+    }
+    return toPublicConnection(connection);
+  });
+}
+
+export async function disconnectSheets(companyId: string): Promise<void> {
+  await mutateDb((db) => {
+    findConnection(db, companyId);
+    db.sheetConnections = db.sheetConnections.filter((c) => c.companyId !== companyId);
+  });
+}
+
+const fingerprint = (header: string[], row: KeyedRow) =>
+  createHash("sha256").update(JSON.stringify([header, row.values])).digest("base64url");
+
+// Companies with a sync running, shared by every route so two can't sync the same sheet at once.
+const syncing = processSingleton("sheetsSyncing", () => new Set<string>());
+
+/**
+ * Upserts shortlisted candidates into the connected sheet, one row per
+ * application keyed by its id. Rows already synced are kept up to date even
+ * if the candidate is no longer shortlisted, and rows unchanged since the
+ * last sync are skipped. Failures are recorded in the connection's error log.
+ */
+export async function syncSheets(companyId: string): Promise<PublicSheetsConnection> {
+  if (syncing.has(companyId)) throw new HttpError(409, "A sync is already running");
+  syncing.add(companyId);
+  try {
+    return await runSync(companyId);
+  } finally {
+    syncing.delete(companyId);
+  }
+}
+
+interface StatusPlan {
+  /** Status cell to write per application. */
+  cells: Map<string, string>;
+  /** Decisions to take over from the sheet. */
+  imports: Map<string, ScreeningDecision>;
+  conflicts: SheetConflict[];
+  /** Status both sides agree on after this sync. */
+  agreed: Record<string, string>;
+  /** Statuses in the sheet that aren't mapped to a decision, left as they are. */
+  unmapped: number;
+}
+
+/**
+ * Three-way compares each candidate's status in the sheet and in RecruitAI
+ * with the value both sides had after the last sync. A change on one side is
+ * copied to the other; changes on both sides that disagree become conflicts
+ * and leave the sheet as it is.
+ */
+function planStatuses(
+  column: SheetStatusColumn,
+  records: SyncRecord[],
+  sheetRows: SheetCell[][],
+  previous: Record<string, string>,
+  at: string
+): StatusPlan {
+  const plan: StatusPlan = { cells: new Map(), imports: new Map(), conflicts: [], agreed: {}, unmapped: 0 };
+  const statusIndex = (sheetRows[0] ?? []).findIndex((cell, index) => index > 0 && sameText(String(cell), column.header));
+  const sheetValues = new Map<string, string>();
+  if (statusIndex > 0) {
+    for (const row of sheetRows.slice(1)) sheetValues.set(String(row[0]), String(row[statusIndex] ?? "").trim());
+  }
+
+  for (const { application } of records) {
+    const id = application.id;
+    const base = previous[id];
+    const sheetValue = sheetValues.get(id);
+    const appValue = statusValueFor(column, application.decision);
+    const keepSheet = (agreed: string | undefined) => {
+      plan.cells.set(id, sheetValue ?? appValue);
+      if (agreed !== undefined) plan.agreed[id] = agreed;
+    };
+
+    // New rows, and rows whose status was never filled in, start from RecruitAI's status.
+    if (sheetValue === undefined || (base === undefined && !sheetValue)) {
+      plan.cells.set(id, appValue);
+      plan.agreed[id] = appValue;
+      continue;
+    }
+    const sheetChanged = base === undefined || !sameText(sheetValue, base);
+    // Compared by decision, so renaming a status value in the mapping isn't a change.
+    const appChanged = base !== undefined && decisionForStatus(column, base) !== application.decision;
+    if (!sheetChanged) {
+      if (appChanged) {
+        plan.cells.set(id, appValue);
+        plan.agreed[id] = appValue;
+      } else {
+        keepSheet(sheetValue);
+      }
+      continue;
+    }
+
+    const sheetDecision = decisionForStatus(column, sheetValue);
+    if (appChanged && sheetDecision !== application.decision) {
+      plan.conflicts.push({ applicationId: id, candidateName: application.name, sheetValue, appValue, detectedAt: at });
+      keepSheet(base);
+    } else if (!sheetDecision) {
+      plan.unmapped++;
+      keepSheet(base);
+    } else {
+      if (sheetDecision !== application.decision) plan.imports.set(id, sheetDecision);
+      keepSheet(sheetValue);
+    }
+  }
+  return plan;
+}
+
+async function runSync(companyId: string): Promise<PublicSheetsConnection> {
+  const db = await readDb();
+  const connection = findConnection(db, companyId);
+  const { statusColumn } = connection;
+  const mapped = connection.columns.flatMap((column) => {
+    const field = SHEET_FIELDS.find((f) => f.id === column.field);
+    return field ? [{ header: column.header, field }] : [];
+  });
+  const header = [KEY_HEADER, ...mapped.map((column) => column.header), ...(statusColumn ? [statusColumn.header] : [])];
+
+  const jobTitles = new Map(db.jobs.map((job) => [job.id, job.title]));
+  const records: SyncRecord[] = db.applications
+    .filter(
+      (app) => app.companyId === companyId && (app.decision === "qualified" || app.id in connection.syncedRows)
+    )
+    .sort((a, b) => a.appliedAt.localeCompare(b.appliedAt))
+    .map((application) => ({ application, jobTitle: jobTitles.get(application.jobId) ?? "" }));
+
+  const at = new Date().toISOString();
+  const target = { spreadsheetId: connection.spreadsheetId, sheetName: connection.sheetName };
+  const sheetsAdapter = getSheetsAdapter();
+  try {
+    const plan = statusColumn
+      ? planStatuses(statusColumn, records, await sheetsAdapter.readRows(target), connection.syncedStatus ?? {}, at)
+      : null;
+
+    const fingerprints: Record<string, string> = {};
+    const changed: KeyedRow[] = [];
+    for (const record of records) {
+      const id = record.application.id;
+      const imported = plan?.imports.get(id);
+      const current = imported ? { ...record, application: { ...record.application, decision: imported } } : record;
+      const values: SheetCell[] = mapped.map(({ field }) => field.value(current) ?? "");
+      if (plan) values.push(plan.cells.get(id) ?? "");
+      const row = { key: id, values };
+      fingerprints[id] = fingerprint(header, row);
+      if (connection.syncedRows[id] !== fingerprints[id]) changed.push(row);
+    }
+
+    // Called even with nothing changed so the tab and header row exist from the first sync.
+    const result = await sheetsAdapter.upsertRows(target, header, changed);
+    return await mutateDb((db) => {
+      const current = findConnection(db, companyId);
+      // Settings saved mid-sync may have pointed the connection elsewhere; don't mark those rows synced.
+      if (current.spreadsheetId === target.spreadsheetId && current.sheetName === target.sheetName) {
+        current.syncedRows = fingerprints;
+        if (plan && current.statusColumn) {
+          current.syncedStatus = plan.agreed;
+          current.conflicts = plan.conflicts;
+        }
+      }
+      for (const [applicationId, decision] of plan?.imports ?? []) {
+        const application = db.applications.find((app) => app.id === applicationId && app.companyId === companyId);
+        if (application) application.decision = decision;
+      }
+      current.lastSync = {
+        at,
+        status: "success",
+        ...result,
+        ...(plan && { imported: plan.imports.size, conflicts: plan.conflicts.length, unmapped: plan.unmapped }),
+      };
+      return toPublicConnection(current);
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await mutateDb((db) => {
+      const current = findConnection(db, companyId);
+      current.lastSync = { at, status: "error", inserted: 0, updated: 0, error: message };
+      current.errorLog = [{ at, message }, ...current.errorLog].slice(0, MAX_ERROR_LOG);
+    });
+    await notifySyncFailed(companyId, message);
+    throw new HttpError(502, `Sync failed: ${message}`);
+  }
+}
+
+export type ConflictResolution = "sheet" | "app";
+
+/**
+ * Settles a status conflict by taking the sheet's status into RecruitAI, or
+ * by keeping RecruitAI's, which the next sync then writes to the sheet.
+ */
+export function resolveSheetConflict(
+  companyId: string,
+  applicationId: string,
+  keep: ConflictResolution
+): Promise<PublicSheetsConnection> {
+  return mutateDb((db) => {
+    const connection = findConnection(db, companyId);
+    const conflict = connection.conflicts?.find((c) => c.applicationId === applicationId);
+    if (!conflict || !connection.statusColumn) throw notFound("Conflict not found");
+    const application = db.applications.find((app) => app.id === applicationId && app.companyId === companyId);
+    if (!application) throw notFound("Application not found");
+
+    if (keep === "sheet") {
+      const decision = decisionForStatus(connection.statusColumn, conflict.sheetValue);
+      if (!decision) {
+        throw new HttpError(409, `"${conflict.sheetValue}" isn't mapped to a decision. Add it to the status values first.`);
+      }
+      application.decision = decision;
+    }
+    // Agreeing on the sheet's value means only RecruitAI's side counts as changed on the next sync.
+    connection.syncedStatus = { ...connection.syncedStatus, [applicationId]: conflict.sheetValue };
+    connection.conflicts = connection.conflicts?.filter((c) => c.applicationId !== applicationId);
+    return toPublicConnection(connection);
+  });
+}
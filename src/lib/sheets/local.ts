@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { KeyedRow, SheetCell, SheetTarget, SheetsAdapter, UpsertResult } from "./types";
+
+type Spreadsheet = Record<string, SheetCell[][]>;
+
+/**
+ * Stand-in for Google Sheets that keeps spreadsheets as JSON files under
+ * `root`, or in memory when no root is given (for tests). Spreadsheets are
+ * created on first use, so any id can be connected.
+ */
+export class LocalSheetsAdapter implements SheetsAdapter {
+  readonly name = "local";
+  private readonly memory = new Map<string, Spreadsheet>();
+
+  constructor(private readonly root?: string) {}
+
+  private file(spreadsheetId: string): string {
+    const root = path.resolve(this.root ?? "");
+    const filePath = path.resolve(root, `${spreadsheetId}.json`);
+    if (path.dirname(filePath) !== root) throw new Error(`Invalid spreadsheet id: ${spreadsheetId}`);
+    return filePath;
+  }
+
+  private async load(spreadsheetId: string): Promise<Spreadsheet> {
+    if (!this.root) return this.memory.get(spreadsheetId) ?? {};
+    try {
+      return JSON.parse(await fs.readFile(this.file(spreadsheetId), "utf8")) as Spreadsheet;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async save(spreadsheetId: string, spreadsheet: Spreadsheet): Promise<void> {
+    if (!this.root) {
+      this.memory.set(spreadsheetId, spreadsheet);
+      return;
+    }
+    const filePath = this.file(spreadsheetId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(spreadsheet, null, 2));
+  }
+
+  async listSheets(spreadsheetId: string): Promise<string[]> {
+    return Object.keys(await this.load(spreadsheetId));
+  }
+
+  async readRows({ spreadsheetId, sheetName }: SheetTarget): Promise<SheetCell[][]> {
+    return (await this.load(spreadsheetId))[sheetName] ?? [];
+  }
+
+  async upsertRows({ spreadsheetId, sheetName }: SheetTarget, header: string[], rows: KeyedRow[]): Promise<UpsertResult> {
+    const spreadsheet = await this.load(spreadsheetId);
+    const sheet = spreadsheet[sheetName] ?? [];
+    sheet[0] = header;
+    const rowIndex = new Map(sheet.map((row, index) => [String(row[0]), index]));
+    let inserted = 0;
+    for (const { key, values } of rows) {
+      const index = rowIndex.get(key);
+      if (index !== undefined && index > 0) {
+        sheet[index] = [key, ...values];
+      } else {
+        sheet.push([key, ...values]);
+        inserted++;
+      }
+    }
+    spreadsheet[sheetName] = sheet;
+    await this.save(spreadsheetId, spreadsheet);
+    return { inserted, updated: rows.length - inserted };
+  }
+
+  spreadsheetUrl(): string | null {
+    return null;
+  }
+}
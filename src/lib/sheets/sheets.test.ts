@@ -0,0 +1,110 @@
+import { seedApplication, seedCompany } from "@/lib/testing";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { randomUUID } from "crypto";
+import { mutateDb, readDb } from "@/lib/db";
+import type { ScreeningDecision } from "@/types";
+import { defaultStatusColumn } from "./columns";
+import { LocalSheetsAdapter, resolveSheetConflict, saveSheetsConnection, setSheetsAdapter, syncSheets } from ".";
+
+const adapter = new LocalSheetsAdapter();
+setSheetsAdapter(adapter);
+
+// A workspace syncing one qualified candidate two ways, through the default
+// "Status" column where "Interview" means qualified and "Reject" not.
+async function connected() {
+  const companyId = await seedCompany("pro");
+  const { id } = await seedApplication(companyId);
+  const target = { spreadsheetId: randomUUID(), sheetName: "Candidates" };
+  await saveSheetsConnection(companyId, { ...target, statusColumn: defaultStatusColumn() });
+  const sync = () => syncSheets(companyId);
+
+  const rows = () => adapter.readRows(target);
+  const statusIndex = async () => (await rows())[0].indexOf("Status");
+  const sheetStatus = async () => {
+    const row = (await rows()).find((r) => r[0] === id)!;
+    return row[await statusIndex()];
+  };
+  // Edits the cell the way a recruiter would in the sheet.
+  const typeInSheet = async (value: string) => {
+    const [header, ...body] = await rows();
+    const row = [...body.find((r) => r[0] === id)!];
+    row[await statusIndex()] = value;
+    await adapter.upsertRows(target, header.map(String), [{ key: id, values: row.slice(1) }]);
+  };
+  const decision = async () => (await readDb()).applications.find((app) => app.id === id)!.decision;
+  const decideInApp = (value: ScreeningDecision) =>
+    mutateDb((db) => {
+      db.applications.find((app) => app.id === id)!.decision = value;
+    });
+  return { companyId, id, sync, sheetStatus, typeInSheet, decision, decideInApp };
+}
+
+describe("two-way status sync", () => {
+  test("writes RecruitAI's status into new rows", async () => {
+    const { sync, sheetStatus } = await connected();
+    const result = await sync();
+    assert.equal(await sheetStatus(), "Interview");
+    assert.equal(result.lastSync?.imported, 0);
+  });
+
+  test("takes a status changed only in the sheet into RecruitAI", async () => {
+    const { sync, sheetStatus, typeInSheet, decision } = await connected();
+    await sync();
+    await typeInSheet("reject");
+    const result = await sync();
+    assert.equal(await decision(), "not_qualified");
+    assert.equal(await sheetStatus(), "reject");
+    assert.equal(result.lastSync?.imported, 1);
+  });
+
+  test("writes a decision changed only in RecruitAI to the sheet", async () => {
+    const { sync, sheetStatus, decideInApp } = await connected();
+    await sync();
+    await decideInApp("not_qualified");
+    await sync();
+    assert.equal(await sheetStatus(), "Reject");
+  });
+
+  test("records a conflict when both sides changed, and leaves the sheet as it was", async () => {
+    const { companyId, id, sync, sheetStatus, typeInSheet, decision, decideInApp } = await connected();
+    await sync();
+    await typeInSheet("Pending");
+    await decideInApp("not_qualified");
+    const result = await sync();
+    assert.equal(result.lastSync?.conflicts, 1);
+    assert.deepEqual(
+      result.conflicts?.map(({ applicationId, sheetValue, appValue }) => ({ applicationId, sheetValue, appValue })),
+      [{ applicationId: id, sheetValue: "Pending", appValue: "Reject" }]
+    );
+    assert.equal(await sheetStatus(), "Pending");
+    assert.equal(await decision(), "not_qualified");
+
+    // Keeping RecruitAI's side writes it on the next sync.
+    await resolveSheetConflict(companyId, id, "app");
+    const resolved = await sync();
+    assert.equal(await sheetStatus(), "Reject");
+    assert.deepEqual(resolved.conflicts, []);
+  });
+
+  test("sees no conflict when both sides changed to the same decision", async () => {
+    const { sync, sheetStatus, typeInSheet, decideInApp } = await connected();
+    await sync();
+    await typeInSheet("Reject");
+    await decideInApp("not_qualified");
+    const result = await sync();
+    assert.equal(result.lastSync?.conflicts, 0);
+    assert.equal(result.lastSync?.imported, 0);
+    assert.equal(await sheetStatus(), "Reject");
+  });
+
+  test("leaves statuses that aren't mapped to a decision alone", async () => {
+    const { sync, sheetStatus, typeInSheet, decision } = await connected();
+    await sync();
+    await typeInSheet("Call back Friday");
+    const result = await sync();
+    assert.equal(result.lastSync?.unmapped, 1);
+    assert.equal(await decision(), "qualified");
+    assert.equal(await sheetStatus(), "Call back Friday");
+  });
+});
@@ -0,0 +1,34 @@
+export type SheetCell = string | number;
+
+export interface SheetTarget {
+  spreadsheetId: string;
+  sheetName: string;
+}
+
+export interface KeyedRow {
+  /** Written to the first column and used to find the row again on later syncs. */
+  key: string;
+  values: SheetCell[];
+}
+
+export interface UpsertResult {
+  inserted: number;
+  updated: number;
+}
+
+export interface SheetsAdapter {
+  readonly name: string;
+  /** Account the spreadsheet has to be shared with, if the adapter needs one. */
+  readonly account?: string;
+  /** Tab names in the spreadsheet; fails if it doesn't exist or can't be opened. */
+  listSheets(spreadsheetId: string): Promise<string[]>;
+  /** Every row of the tab, header first; empty if the tab doesn't exist yet. */
+  readRows(target: SheetTarget): Promise<SheetCell[][]>;
+  /**
+   * Writes `header` (which starts with the key column's title) as the first
+   * row, overwrites rows whose key is already in the first column and
+   * appends the rest. Creates the tab if it's missing.
+   */
+  upsertRows(target: SheetTarget, header: string[], rows: KeyedRow[]): Promise<UpsertResult>;
+  spreadsheetUrl(spreadsheetId: string): string | null;
+}
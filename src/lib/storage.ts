@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DATA_DIR } from "@/lib/db";
+import { processSingleton } from "@/lib/process";
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// One per process, so a backend set at startup reaches every route.
+const blobs = processSingleton("blobStore", () => ({
+  store: new LocalBlobStore(process.env.RECRUITAI_UPLOAD_DIR || path.join(DATA_DIR, "uploads")) as BlobStore,
+}));
+
+export const getBlobStore = (): BlobStore => blobs.store;
+
+// Lets deployments swap in another backend (S3, GCS, ...) at startup.
+export const setBlobStore = (store: BlobStore): void => {
+  blobs.store = store;
+};
@@ -0,0 +1,209 @@
+import { randomBytes, randomUUID } from "crypto";
+import { hashPassword, hashToken, toPublicUser, validatePassword } from "@/lib/auth";
+import { findCompany } from "@/lib/companies";
+import { mutateDb, readDb, type Database } from "@/lib/db";
+import { HttpError, appUrl, notFound } from "@/lib/http";
+import { enqueueEmail, kickOutbox } from "@/lib/mail";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { assertQuota, checkUsageAlerts } from "@/lib/usage";
+import { validateEmail } from "@/lib/validation";
+import type { Invitation, PublicInvitation, PublicUser, Role, User } from "@/types";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toPublicInvitation = ({ tokenHash: _tokenHash, ...invitation }: Invitation): PublicInvitation => invitation;
+
+const isRole = (value: unknown): value is Role => typeof value === "string" && value in ROLE_LABELS;
+
+// Only owners can hand out the owner role or change what another owner can do.
+function assertCanManage(user: PublicUser, ...roles: Role[]): void {
+  if (user.role !== "owner" && roles.includes("owner")) {
+    throw new HttpError(403, "Only owners can manage other owners");
+  }
+}
+
+// Assignments only matter for hiring managers; unknown or other workspaces' jobs are dropped.
+function assignedJobs(db: Database, companyId: string, role: Role, value: unknown): string[] {
+  if (role !== "hiring_manager" || !Array.isArray(value)) return [];
+  return [...new Set(value)].filter(
+    (jobId): jobId is string => db.jobs.some((job) => job.id === jobId && job.companyId === companyId)
+  );
+}
+
+export async function listTeam(companyId: string): Promise<{ members: PublicUser[]; invitations: PublicInvitation[] }> {
+  const db = await readDb();
+  const now = Date.now();
+  return {
+    members: db.users
+      .filter((user) => user.companyId === companyId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toPublicUser),
+    invitations: db.invitations
+      .filter((invitation) => invitation.companyId === companyId && Date.parse(invitation.expiresAt) > now)
+      .map(toPublicInvitation),
+  };
+}
+
+/**
+ * Emails an invitation to join the workspace. Inviting the same address again
+ * replaces the earlier invitation. As with sessions, only a hash of the token
+ * is stored.
+ */
+export async function inviteMember(
+  user: PublicUser,
+  body: Record<string, unknown>
+): Promise<PublicInvitation> {
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  const errors: Record<string, string> = {};
+  const emailError = validateEmail(email);
+  if (emailError) errors.email = emailError;
+  if (!isRole(body.role)) errors.role = "Please choose a role";
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", errors);
+  }
+  const role = body.role as Role;
+  assertCanManage(user, role);
+
+  const token = randomBytes(32).toString("base64url");
+  const invitation = await mutateDb((db) => {
+    const existing = db.users.find((u) => u.email === email);
+    if (existing) {
+      throw new HttpError(409, "Please fix the highlighted fields", {
+        email:
+          existing.companyId === user.companyId
+            ? "This person is already on your team"
+            : "This email already has a RecruitAI account in another workspace",
+      });
+    }
+    const now = Date.now();
+    db.invitations = db.invitations.filter(
+      (i) => Date.parse(i.expiresAt) > now && !(i.companyId === user.companyId && i.email === email)
+    );
+    // Pending invitations hold a seat, so re-inviting someone doesn't need another.
+    assertQuota(db, user.companyId, "seats");
+    const invitation: Invitation = {
+      id: randomUUID(),
+      tokenHash: hashToken(token),
+      companyId: user.companyId,
+      email,
+      role,
+      jobIds: assignedJobs(db, user.companyId, role, body.jobIds),
+      invitedBy: { userId: user.id, email: user.email },
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + INVITATION_TTL_MS).toISOString(),
+    };
+    db.invitations.push(invitation);
+    const companyName = findCompany(db, user.companyId).name;
+    // Queued with the invitation, so a failed send is retried rather than failing the invite.
+    enqueueEmail(db, {
+      companyId: user.companyId,
+      template: "team_invitation",
+      to: email,
+      subject: `Join ${companyName} on RecruitAI`,
+      text: [
+        "Hi,",
+        "",
+        `${user.email} has invited you to join ${companyName} on RecruitAI as ${ROLE_LABELS[role]}. Accept the invitation and set your password here:`,
+        appUrl(`/invite/${token}`),
+        "",
+        "The link works for 7 days.",
+      ].join("\n"),
+    });
+    return invitation;
+  });
+
+  kickOutbox();
+  await checkUsageAlerts(user.companyId);
+  return toPublicInvitation(invitation);
+}
+
+export async function revokeInvitation(user: PublicUser, invitationId: string): Promise<void> {
+  await mutateDb((db) => {
+    const invitation = db.invitations.find((i) => i.id === invitationId && i.companyId === user.companyId);
+    if (!invitation) throw notFound("Invitation not found");
+    assertCanManage(user, invitation.role);
+    db.invitations = db.invitations.filter((i) => i.id !== invitationId);
+  });
+}
+
+function findMember(db: Database, user: PublicUser, memberId: string): User {
+  if (memberId === user.id) throw new HttpError(400, "You can't change your own access");
+  const member = db.users.find((u) => u.id === memberId && u.companyId === user.companyId);
+  if (!member) throw notFound("Team member not found");
+  return member;
+}
+
+export async function updateMember(user: PublicUser, memberId: string, body: Record<string, unknown>): Promise<PublicUser> {
+  if (!isRole(body.role)) throw new HttpError(400, "Please fix the highlighted fields", { role: "Please choose a role" });
+  const role = body.role;
+  return mutateDb((db) => {
+    const member = findMember(db, user, memberId);
+    assertCanManage(user, toPublicUser(member).role, role);
+    Object.assign(member, { role, jobIds: assignedJobs(db, user.companyId, role, body.jobIds) });
+    return toPublicUser(member);
+  });
+}
+
+/** Removes a member from the workspace, signing them out everywhere. */
+export async function removeMember(user: PublicUser, memberId: string): Promise<void> {
+  await mutateDb((db) => {
+    const member = findMember(db, user, memberId);
+    assertCanManage(user, toPublicUser(member).role);
+    db.users = db.users.filter((u) => u.id !== memberId);
+    db.sessions = db.sessions.filter((session) => session.userId !== memberId);
+    db.notifications = db.notifications.filter((notification) => notification.userId !== memberId);
+  });
+}
+
+function findInvitation(invitations: Invitation[], token: string): Invitation {
+  const tokenHash = hashToken(token);
+  const invitation = invitations.find((i) => i.tokenHash === tokenHash);
+  if (!invitation || Date.parse(invitation.expiresAt) <= Date.now()) {
+    throw notFound("This invitation has expired or was replaced by a newer one");
+  }
+  return invitation;
+}
+
+export async function getInvitation(token: string) {
+  const db = await readDb();
+  const invitation = findInvitation(db.invitations, token);
+  return {
+    email: invitation.email,
+    role: invitation.role,
+    companyName: findCompany(db, invitation.companyId).name,
+    invitedBy: invitation.invitedBy.email,
+  };
+}
+
+/** Creates the invited account. The caller signs the new member in. */
+export async function acceptInvitation(token: string, body: Record<string, unknown>): Promise<PublicUser> {
+  const password = typeof body.password === "string" ? body.password : "";
+  const errors: Record<string, string> = {
+    password: validatePassword(password),
+    confirmPassword: password !== body.confirmPassword ? "Passwords do not match" : "",
+  };
+  const fieldErrors = Object.fromEntries(Object.entries(errors).filter(([, message]) => message));
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new HttpError(400, "Please fix the highlighted fields", fieldErrors);
+  }
+
+  const passwordHash = await hashPassword(password);
+  return mutateDb((db) => {
+    const invitation = findInvitation(db.invitations, token);
+    if (db.users.some((u) => u.email === invitation.email)) {
+      throw new HttpError(409, "An account with this email already exists");
+    }
+    const user: User = {
+      id: randomUUID(),
+      email: invitation.email,
+      companyId: invitation.companyId,
+      passwordHash,
+      role: invitation.role,
+      jobIds: invitation.jobIds,
+      createdAt: new Date().toISOString(),
+    };
+    db.users.push(user);
+    db.invitations = db.invitations.filter((i) => i.id !== invitation.id);
+    return toPublicUser(user);
+  });
+}
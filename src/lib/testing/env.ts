@@ -0,0 +1,10 @@
+// Points the data store at a fresh directory before anything reads it. Test
+// files run in processes of their own, so each gets its own store.
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "recruitai-test-"));
+process.env.RECRUITAI_DATA_DIR = dataDir;
+process.env.PAYMENT_PROVIDER = "fake";
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
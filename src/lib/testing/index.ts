@@ -0,0 +1,49 @@
+// Helpers for the tests next to the modules they cover. Import this before
+// anything that reads the data store.
+import "./env";
+import { randomUUID } from "crypto";
+import { mutateDb } from "@/lib/db";
+import type { Application, PlanId } from "@/types";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Adds a workspace and returns its id. */
+export function seedCompany(planId?: PlanId): Promise<string> {
+  return mutateDb((db) => {
+    const id = randomUUID();
+    db.companies.push({
+      id,
+      name: "Acme",
+      email: "hr@acme.test",
+      industry: "",
+      website: "",
+      planId,
+      createdAt: new Date().toISOString(),
+    });
+    return id;
+  });
+}
+
+/** Adds a screened application, qualified unless `changes` says otherwise, and returns it. */
+export function seedApplication(companyId: string, changes: Partial<Application> = {}): Promise<Application> {
+  return mutateDb((db) => {
+    const id = randomUUID();
+    const application: Application = {
+      id,
+      companyId,
+      jobId: randomUUID(),
+      name: "Ada Lovelace",
+      email: "ada@example.test",
+      phone: "+44 20 7946 0000",
+      cv: { key: `cv/${id}/cv.pdf`, fileName: "cv.pdf", size: 0, contentType: "application/pdf" },
+      answers: [],
+      decision: "qualified",
+      reason: "Meets every must-have",
+      missingRequirements: [],
+      appliedAt: new Date().toISOString(),
+      ...changes,
+    };
+    db.applications.push(application);
+    return application;
+  });
+}
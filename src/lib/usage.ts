@@ -0,0 +1,137 @@
+import { randomUUID } from "crypto";
+import { findCompany } from "@/lib/companies";
+import { readDb, type Database } from "@/lib/db";
+import { HttpError } from "@/lib/http";
+import { notifyUsageThreshold } from "@/lib/notifications";
+import { USAGE_LABELS, planOf, usagePercentage } from "@/lib/plans";
+import type { Company, UsageEvent, UsageMetric, UsageSummary } from "@/types";
+
+const METRICS: UsageMetric[] = ["job_postings", "application_reviews", "ai_screenings", "seats"];
+// Highest first, so only the highest threshold crossed is announced.
+const ALERT_THRESHOLDS = [100, 75, 50];
+const RECENT_LIMIT = 20;
+
+const QUOTA_ACTIONS: Record<UsageMetric, string> = {
+  job_postings: "post more jobs",
+  application_reviews: "review more applications",
+  ai_screenings: "screen more applications",
+  seats: "invite more team members",
+};
+
+// The same day and time `months` later, or the month's last day when it is shorter.
+export function addMonths(date: Date, months: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return next;
+}
+
+/**
+ * The `months`-long period containing `at`, counted in whole steps from
+ * `anchor` rather than from the previous period, so a short month doesn't
+ * move the day every later period starts on.
+ */
+export function periodAt(anchor: Date, months: number, at: number): { start: Date; end: Date } {
+  const date = new Date(at);
+  const elapsed = (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + date.getUTCMonth() - anchor.getUTCMonth();
+  let step = Math.floor(elapsed / months);
+  if (addMonths(anchor, step * months).getTime() > at) step -= 1;
+  return { start: addMonths(anchor, step * months), end: addMonths(anchor, (step + 1) * months) };
+}
+
+/**
+ * Quotas are counted monthly. With a subscription the months run from the
+ * start of its billing period and end with it, so they match what was billed
+ * and a trial is a period of its own. Without one they run from the day the
+ * workspace was created, or from when its last subscription ended.
+ */
+export function billingPeriod(db: Database, company: Company, now = Date.now()): { start: string; end: string } {
+  const subscription = db.subscriptions.find((s) => s.companyId === company.id);
+  let anchor = new Date(company.createdAt);
+  let until = Infinity;
+  if (subscription) {
+    const end = Date.parse(subscription.currentPeriodEnd);
+    if (subscription.status !== "canceled" && now < end) {
+      anchor = new Date(subscription.currentPeriodStart);
+      until = end;
+    } else {
+      anchor = new Date(end);
+    }
+  }
+  const { start, end } = periodAt(anchor, 1, now);
+  return { start: start.toISOString(), end: new Date(Math.min(end.getTime(), until)).toISOString() };
+}
+
+function usedInPeriod(db: Database, company: Company, now = Date.now()): Record<UsageMetric, number> {
+  const { start } = billingPeriod(db, company, now);
+  const used: Record<UsageMetric, number> = { job_postings: 0, application_reviews: 0, ai_screenings: 0, seats: 0 };
+  for (const event of db.usage) {
+    if (event.companyId === company.id && event.at >= start) used[event.metric] += 1;
+  }
+  used.seats =
+    db.users.filter((user) => user.companyId === company.id).length +
+    db.invitations.filter((i) => i.companyId === company.id && Date.parse(i.expiresAt) > now).length;
+  return used;
+}
+
+export function hasQuota(db: Database, companyId: string, metric: UsageMetric): boolean {
+  const company = findCompany(db, companyId);
+  const limit = planOf(company).limits[metric];
+  return limit === null || usedInPeriod(db, company)[metric] < limit;
+}
+
+/** Rejects an action the plan has no room left for. Call it inside the write that uses the quota. */
+export function assertQuota(db: Database, companyId: string, metric: UsageMetric): void {
+  if (hasQuota(db, companyId, metric)) return;
+  const plan = planOf(findCompany(db, companyId));
+  const per = metric === "seats" ? "" : " per billing period";
+  throw new HttpError(
+    402,
+    `Your ${plan.name} plan includes ${plan.limits[metric]} ${USAGE_LABELS[metric].unit}${per}. Upgrade your plan to ${QUOTA_ACTIONS[metric]}.`
+  );
+}
+
+export function recordUsage(db: Database, companyId: string, metric: UsageEvent["metric"], detail: string): UsageEvent {
+  const event: UsageEvent = { id: randomUUID(), companyId, metric, detail, at: new Date().toISOString() };
+  db.usage.push(event);
+  return event;
+}
+
+export async function getUsage(companyId: string): Promise<UsageSummary> {
+  const db = await readDb();
+  const company = findCompany(db, companyId);
+  const plan = planOf(company);
+  const used = usedInPeriod(db, company);
+  return {
+    plan,
+    period: billingPeriod(db, company),
+    metrics: METRICS.map((metric) => ({ metric, used: used[metric], limit: plan.limits[metric] })),
+    recent: db.usage
+      .filter((event) => event.companyId === companyId)
+      .slice(-RECENT_LIMIT)
+      .reverse(),
+  };
+}
+
+/** Sends threshold alerts for the metrics that crossed one. Run it after recording usage. */
+export async function checkUsageAlerts(companyId: string): Promise<void> {
+  const { plan, period, metrics } = await getUsage(companyId);
+  for (const { metric, used, limit } of metrics) {
+    const percentage = usagePercentage(used, limit);
+    const threshold = ALERT_THRESHOLDS.find((t) => percentage >= t);
+    if (limit === null || !threshold) continue;
+    const { label, unit } = USAGE_LABELS[metric];
+    await notifyUsageThreshold(companyId, {
+      metric,
+      label,
+      threshold,
+      periodStart: period.start,
+      body:
+        `You've used ${used} of the ${limit} ${unit} on the ${plan.name} plan` +
+        (metric === "seats" ? "." : " this billing period.") +
+        (threshold >= 100 ? ` Upgrade to ${QUOTA_ACTIONS[metric]}.` : ""),
+    });
+  }
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/api-client";
+import type { Notification, NotificationEvent } from "@/types";
+
+interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+type EventData<K extends NotificationEvent["kind"]> = Extract<NotificationEvent, { kind: K }>;
+
+/**
+ * The signed-in user's latest notifications and unread count, kept live over
+ * the notification stream. `onArrive` is called for each new notification.
+ */
+export function useNotifications(onArrive?: (notification: Notification) => void) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const onArriveRef = useRef(onArrive);
+
+  useEffect(() => {
+    onArriveRef.current = onArrive;
+  }, [onArrive]);
+
+  useEffect(() => {
+    apiFetch<NotificationList>("/api/notifications")
+      .then((data) => {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      })
+      .catch((err) => console.error("Failed to load notifications:", err));
+
+    // EventSource reconnects on its own if the connection drops.
+    const source = new EventSource("/api/notifications/stream");
+    source.addEventListener("notification", (e) => {
+      const { notification, unreadCount } = JSON.parse(e.data) as EventData<"notification">;
+      setNotifications((prev) => [notification, ...prev.filter((n) => n.id !== notification.id)]);
+      setUnreadCount(unreadCount);
+      onArriveRef.current?.(notification);
+    });
+    source.addEventListener("unread", (e) => {
+      const { unreadCount } = JSON.parse(e.data) as EventData<"unread">;
+      setUnreadCount(unreadCount);
+      // Read in another tab.
+      if (unreadCount === 0) {
+        setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt ?? new Date().toISOString() })));
+      }
+    });
+    return () => source.close();
+  }, []);
+
+  const markRead = async (notificationId: string) => {
+    const target = notifications.find((n) => n.id === notificationId);
+    if (!target || target.readAt) return;
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === notificationId ? { ...n, readAt: new Date().toISOString() } : n))
+    );
+    try {
+      const data = await apiFetch<{ unreadCount: number }>(`/api/notifications/${notificationId}/read`, {
+        method: "POST",
+      });
+      setUnreadCount(data.unreadCount);
+    } catch (err) {
+      console.error("Failed to mark notification as read:", err);
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt ?? new Date().toISOString() })));
+    setUnreadCount(0);
+    try {
+      await apiFetch("/api/notifications/read-all", { method: "POST" });
+    } catch (err) {
+      console.error("Failed to mark notifications as read:", err);
+    }
+  };
+
+  return { notifications, unreadCount, markRead, markAllRead };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api-client";
+import { hasFeature, type Feature } from "@/lib/features";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import type { Company, PublicUser } from "@/types";
+
+export interface Workspace {
+  user: PublicUser;
+  company: Company;
+}
+
+// Shared across every component on the page so the sidebar, header and
+// current page don't each fetch /api/auth/me, and all see profile edits.
+let current: Promise<Workspace> | null = null;
+const listeners = new Set<(workspace: Workspace) => void>();
+
+export function loadWorkspace(): Promise<Workspace> {
+  if (!current) {
+    current = apiFetch<Workspace>("/api/auth/me");
+    current.catch(() => {
+      current = null;
+    });
+  }
+  return current;
+}
+
+export function setWorkspaceCompany(company: Company): void {
+  current = loadWorkspace().then((workspace) => ({ ...workspace, company }));
+  current.then((workspace) => listeners.forEach((listener) => listener(workspace)));
+}
+
+export function clearWorkspace(): void {
+  current = null;
+}
+
+export function useWorkspace(): Workspace | null {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+
+  useEffect(() => {
+    listeners.add(setWorkspace);
+    loadWorkspace()
+      .then(setWorkspace)
+      .catch((err) => console.error("Failed to load workspace:", err));
+    return () => {
+      listeners.delete(setWorkspace);
+    };
+  }, []);
+
+  return workspace;
+}
+
+/** Whether the signed-in member's role allows an action. False until the workspace loads. */
+export function usePermission(permission: Permission): boolean {
+  const workspace = useWorkspace();
+  return workspace ? hasPermission(workspace.user, permission) : false;
+}
+
+/** Whether the workspace's plan includes a feature. Null until the workspace loads. */
+export function useFeature(feature: Feature): boolean | null {
+  const workspace = useWorkspace();
+  return workspace ? hasFeature(workspace.company, feature) : null;
+}
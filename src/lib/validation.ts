@@ -0,0 +1,34 @@
+// Shared by the public application form and the submission endpoint so both
+// sides enforce exactly the same rules.
+
+export const CV_EXTENSIONS = [".pdf", ".doc", ".docx"];
+export const MAX_CV_SIZE = 10 * 1024 * 1024;
+
+export const validateFullName = (name: string): string => {
+  if (!name.trim()) return "Full name is required";
+  if (name.trim().length < 2) return "Name must be at least 2 characters";
+  if (/[0-9]/.test(name)) return "Name cannot contain numbers";
+  return "";
+};
+
+export const validateEmail = (email: string): string => {
+  if (!email.trim()) return "Email is required";
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!emailRegex.test(email)) return "Please enter a valid email";
+  return "";
+};
+
+export const validatePhone = (phone: string): string => {
+  if (!phone.trim()) return "Phone number is required";
+  const phoneRegex = /^[\d\s\-\+\(\)]+$/.test(phone) && phone.replace(/\D/g, "").length >= 10;
+  if (!phoneRegex) return "Please enter a valid phone number";
+  return "";
+};
+
+export const validateCV = (cv: { name: string; size: number } | null): string => {
+  if (!cv) return "CV/Resume is required";
+  const fileExtension = "." + cv.name.split(".").pop()?.toLowerCase();
+  if (!CV_EXTENSIONS.includes(fileExtension)) return "Only PDF, DOC, DOCX allowed";
+  if (cv.size > MAX_CV_SIZE) return "File size must be less than 10MB";
+  return "";
+};
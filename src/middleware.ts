@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, getUserForToken } from "@/lib/auth";
+import { canOpenPage } from "@/lib/permissions";
+
+// Every page rendered inside DashboardLayout. Keep in sync with the Sidebar nav.
+const PROTECTED_PREFIXES = ["/dashboard", "/jobs", "/applications", "/candidates", "/usage", "/team", "/profile"];
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const user = await getUserForToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (pathname === "/") {
+    return user ? NextResponse.redirect(new URL("/dashboard", request.url)) : NextResponse.next();
+  }
+
+  const isProtected = PROTECTED_PREFIXES.some(
+    (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  if (isProtected && !user) {
+    const loginUrl = new URL("/", request.url);
+    loginUrl.searchParams.set("next", pathname);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+  if (isProtected && user && !canOpenPage(user, pathname)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  runtime: "nodejs",
+  matcher: ["/", "/dashboard/:path*", "/jobs/:path*", "/applications/:path*", "/candidates/:path*", "/usage/:path*", "/team/:path*", "/profile/:path*"],
+};
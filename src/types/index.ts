@@ -0,0 +1,682 @@
+export interface Company {
+  id: string;
+  name: string;
+  email: string;
+  industry: string;
+  website: string;
+  /** The plan the workspace is entitled to, kept in step with its subscription. Missing means free. */
+  planId?: PlanId;
+  /** Random code the workspace puts in a spreadsheet's tab name to prove it may connect it. */
+  sheetsVerification?: string;
+  createdAt: string;
+}
+
+export type CompanyInput = Pick<Company, "name" | "email" | "industry" | "website">;
+
+/** Scheduled jobs are published at their open time; open jobs close at their close time. */
+export type JobStatus = "Scheduled" | "Open" | "Closed";
+
+export type FormQuestionType =
+  | "text"
+  | "long_text"
+  | "number"
+  | "email"
+  | "url"
+  | "date"
+  | "single_select"
+  | "multi_select"
+  | "yes_no"
+  | "scale"
+  | "file";
+
+export interface FormQuestion {
+  id: string;
+  label: string;
+  type: FormQuestionType;
+  required: boolean;
+  /** Choices for single_select and multi_select questions. */
+  options?: string[];
+  /** Word limit for long_text questions. */
+  maxWords?: number;
+  /** Captions for the low and high ends of a scale question. */
+  scaleLabels?: [string, string];
+  /** Answers failing this rule disqualify the candidate before AI screening. */
+  knockout?: KnockoutRule;
+  /** Step the question is shown on; unset questions go on the main questions step. */
+  sectionId?: string;
+  /** Hides the question unless an earlier question's answer matches. */
+  showIf?: QuestionCondition;
+}
+
+/**
+ * Shows a question only when the answer to an earlier yes/no or choice
+ * question matches one of `values` ("yes"/"no" for yes/no questions, option
+ * labels otherwise). Questions hidden this way are skipped in validation.
+ */
+export interface QuestionCondition {
+  questionId: string;
+  values: string[];
+}
+
+export interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * A pass condition on a question's answer: yes/no answers must equal the
+ * value, numbers and ratings must be at least or at most it, single choices
+ * must be one of the listed options and multiple choices must include all of them.
+ */
+export type KnockoutRule =
+  | { operator: "equals"; value: boolean }
+  | { operator: "gte" | "lte"; value: number }
+  | { operator: "one_of" | "includes"; value: string[] };
+
+export interface FormSchema {
+  questions: FormQuestion[];
+  /** Extra steps on the public form, in order. Missing on forms saved before steps existed. */
+  sections?: FormSection[];
+}
+
+export type CriterionImportance = "must_have" | "nice_to_have";
+
+export type SkillLevel = "beginner" | "intermediate" | "advanced" | "expert";
+
+export interface JobCriterion {
+  id: string;
+  skill: string;
+  minYears: number | null;
+  level: SkillLevel | null;
+  importance: CriterionImportance;
+  weight: number;
+}
+
+/** Applications in a hired or rejected stage are done; every other stage is in progress. */
+export type StageKind = "open" | "hired" | "rejected";
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  kind: StageKind;
+}
+
+export interface StageTransition {
+  /** Null for the stage an application entered on submission. */
+  from: string | null;
+  to: string;
+  at: string;
+  /** Null when the move was automatic, e.g. after screening. */
+  actor: { userId: string; email: string } | null;
+}
+
+export interface Job {
+  id: string;
+  companyId: string;
+  title: string;
+  department: string;
+  customDepartment: string;
+  location: string;
+  positions: number;
+  requirements: string;
+  criteria: JobCriterion[];
+  applicationOpenDate: string;
+  applicationOpenTime: string;
+  applicationCloseDate: string;
+  applicationCloseTime: string;
+  /** The recruiter's IANA zone, which the open and close dates and times are in. Missing on older jobs, read in UTC. */
+  timeZone?: string;
+  form: FormSchema;
+  /** Hiring stages in board order. Missing on jobs created before pipelines existed. */
+  pipeline?: PipelineStage[];
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+  /** Who closed the job. Only a job its close time closed reopens when the time is moved later. */
+  closedBy?: "schedule" | "recruiter";
+}
+
+export type JobInput = Omit<
+  Job,
+  "id" | "companyId" | "form" | "pipeline" | "status" | "createdAt" | "updatedAt" | "closedAt" | "closedBy"
+> & {
+  form?: FormSchema;
+};
+
+export type PublicJob = Pick<
+  Job,
+  | "id"
+  | "title"
+  | "department"
+  | "customDepartment"
+  | "location"
+  | "requirements"
+  | "form"
+  | "applicationOpenDate"
+  | "applicationOpenTime"
+  | "applicationCloseDate"
+  | "applicationCloseTime"
+  | "timeZone"
+  | "status"
+> & {
+  company: Pick<Company, "name" | "email">;
+};
+
+export interface JobSummary extends Job {
+  applicationCount: number;
+  qualifiedCount: number;
+  /** Applications waiting for the plan to have room; not part of `applicationCount`. */
+  heldCount: number;
+}
+
+export type ScreeningDecision = "qualified" | "not_qualified" | "pending";
+
+export interface CriterionResult {
+  criterionId: string;
+  skill: string;
+  importance: CriterionImportance;
+  passed: boolean;
+  detail: string;
+}
+
+export interface KnockoutResult {
+  questionId: string;
+  question: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ScreeningResult {
+  decision: Exclude<ScreeningDecision, "pending">;
+  reason: string;
+  missingRequirements: string[];
+  criteria: CriterionResult[];
+  /** Outcome of each knockout question, checked before the provider runs. */
+  knockouts?: KnockoutResult[];
+  /** Weighted share of criteria met, 0-100. */
+  score: number;
+  provider: string;
+  screenedAt: string;
+}
+
+export interface StoredFile {
+  key: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ResumeLink {
+  type: "linkedin" | "github" | "portfolio";
+  url: string;
+}
+
+export interface ResumeExperience {
+  title: string;
+  company: string;
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  description: string;
+}
+
+export interface ResumeEducation {
+  institution: string;
+  degree: string;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ResumeProfile {
+  contact: {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  links: ResumeLink[];
+  skills: string[];
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+}
+
+/**
+ * Typed answer value: numbers for number and scale questions, booleans for
+ * yes/no, string arrays for multi-select and a stored file for uploads.
+ */
+export type AnswerValue = string | number | boolean | string[] | StoredFile;
+
+export interface ApplicationAnswer {
+  questionId: string;
+  question: string;
+  type: FormQuestionType;
+  value: AnswerValue;
+}
+
+export interface Application {
+  id: string;
+  companyId: string;
+  jobId: string;
+  name: string;
+  email: string;
+  phone: string;
+  cv: StoredFile;
+  cvText?: string;
+  resume?: ResumeProfile;
+  answers: ApplicationAnswer[];
+  decision: ScreeningDecision;
+  reason: string;
+  missingRequirements: string[];
+  screening?: ScreeningResult;
+  /** Current pipeline stage; unset on applications from before pipelines, which sit in the first stage. */
+  stageId?: string;
+  stageHistory?: StageTransition[];
+  appliedAt: string;
+  /**
+   * Set when the application arrived after the plan's application reviews for
+   * the period were used up. Held applications are hidden from the team and
+   * not screened until the plan has room for them again.
+   */
+  heldAt?: string;
+}
+
+/** An in-progress application as the form holds it. Uploaded files aren't kept in drafts. */
+export interface DraftData {
+  fullName: string;
+  email: string;
+  phone: string;
+  answers: Record<string, string | string[]>;
+  step: number;
+}
+
+/** A draft saved for "continue later", found again through the emailed magic link. */
+export interface ApplicationDraft {
+  id: string;
+  tokenHash: string;
+  companyId: string;
+  jobId: string;
+  email: string;
+  data: DraftData;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface SheetColumnMapping {
+  /** Id of one of the sync fields in `src/lib/sheets/columns.ts`. */
+  field: string;
+  header: string;
+}
+
+/** A sheet status value and the decision it stands for, e.g. "Interview" for qualified. */
+export interface SheetStatusMapping {
+  value: string;
+  decision: ScreeningDecision;
+}
+
+/** A column hiring managers edit in the sheet, read back on every sync. */
+export interface SheetStatusColumn {
+  header: string;
+  values: SheetStatusMapping[];
+}
+
+/** A candidate whose status changed both in the sheet and in RecruitAI since the last sync. */
+export interface SheetConflict {
+  applicationId: string;
+  candidateName: string;
+  sheetValue: string;
+  appValue: string;
+  detectedAt: string;
+}
+
+export interface SheetSyncRun {
+  at: string;
+  status: "success" | "error";
+  inserted: number;
+  updated: number;
+  /** Decisions changed from the sheet's status column. */
+  imported?: number;
+  conflicts?: number;
+  /** Sheet statuses that aren't mapped to a decision and were left alone. */
+  unmapped?: number;
+  error?: string;
+}
+
+/** A company's link to the spreadsheet its shortlisted candidates are synced to. */
+export interface SheetsConnection {
+  companyId: string;
+  /** Name of the adapter the connection was made with, e.g. "google" or "local". */
+  provider: string;
+  spreadsheetId: string;
+  sheetName: string;
+  columns: SheetColumnMapping[];
+  /** Set for two-way sync; missing on connections made before it existed. */
+  statusColumn?: SheetStatusColumn;
+  /** Status conflicts waiting for the recruiter, from the latest sync. */
+  conflicts?: SheetConflict[];
+  connectedAt: string;
+  lastSync?: SheetSyncRun;
+  /** Failed syncs, newest first. */
+  errorLog: { at: string; message: string }[];
+  /** Fingerprint of each application's last synced row, so unchanged rows are skipped. */
+  syncedRows: Record<string, string>;
+  /** Status value both sides agreed on at the last sync, per application. */
+  syncedStatus?: Record<string, string>;
+}
+
+export type PublicSheetsConnection = Omit<SheetsConnection, "syncedRows" | "syncedStatus"> & {
+  syncedCount: number;
+  spreadsheetUrl: string | null;
+};
+
+export interface SheetsStatus {
+  connection: PublicSheetsConnection | null;
+  /** Tabs in the connected spreadsheet, empty if it couldn't be read. */
+  sheets: string[];
+  /** Account spreadsheets must be shared with, for adapters that need one. */
+  account: string | null;
+  /**
+   * Tab a spreadsheet must have before this workspace can connect it, for
+   * adapters whose account every workspace shares.
+   */
+  verificationTab: string | null;
+}
+
+export type EmailTemplate =
+  | "application_received"
+  | "rejection"
+  | "shortlisted"
+  | "interview_invite"
+  | "interview_scheduled"
+  | "interview_rescheduled"
+  | "interview_cancelled"
+  | "booking_link";
+
+/** Emails that aren't about an application, such as team invitations and links to saved drafts. */
+export type AccountEmail = "team_invitation" | "application_draft";
+
+/** An RFC 5545 calendar object sent with an email, e.g. an interview invite. */
+export interface CalendarAttachment {
+  method: "REQUEST" | "CANCEL";
+  content: string;
+}
+
+export interface EmailDeliveryAttempt {
+  at: string;
+  error?: string;
+}
+
+/**
+ * An email, rendered when it is queued. Failed sends are retried with backoff
+ * until `status` is "sent" or "failed".
+ */
+export interface OutboxMessage {
+  id: string;
+  companyId: string;
+  /** Missing on account emails, which don't appear in any application's log. */
+  applicationId?: string;
+  template: EmailTemplate | AccountEmail;
+  to: string;
+  subject: string;
+  text: string;
+  calendar?: CalendarAttachment;
+  /** "sending" is a lease; a message stuck in it past `nextAttemptAt` is picked up again. */
+  status: "queued" | "sending" | "sent" | "failed";
+  attempts: EmailDeliveryAttempt[];
+  nextAttemptAt: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+export interface InterviewChange {
+  at: string;
+  action: "scheduled" | "rescheduled" | "cancelled";
+  startsAt: string;
+  /** Null when the candidate booked the interview themselves. */
+  actor: { userId: string; email: string } | null;
+}
+
+export interface Interview {
+  id: string;
+  companyId: string;
+  applicationId: string;
+  jobId: string;
+  startsAt: string;
+  durationMinutes: number;
+  /**
+   * IANA zone the interview was scheduled in. Emails show times in it unless
+   * the recipient's own zone is known.
+   */
+  timeZone: string;
+  /** Set when the candidate booked the slot themselves, from their browser. */
+  candidateTimeZone?: string;
+  /** Meeting room, address or video call link. */
+  location: string;
+  interviewers: string[];
+  status: "scheduled" | "cancelled";
+  /** RFC 5545 SEQUENCE, bumped on every change so calendars replace the earlier invite. */
+  sequence: number;
+  history: InterviewChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InterviewSummary extends Interview {
+  candidateName: string;
+  candidateEmail: string;
+  jobTitle: string;
+}
+
+/** A weekly block of time, in the interviewer's own time zone. */
+export interface AvailabilityWindow {
+  /** 0 is Sunday. */
+  weekday: number;
+  /** "HH:MM", 24-hour. */
+  start: string;
+  end: string;
+}
+
+/** When an interviewer can be booked by candidates picking their own slot. */
+export interface InterviewerAvailability {
+  companyId: string;
+  email: string;
+  timeZone: string;
+  windows: AvailabilityWindow[];
+}
+
+/**
+ * A self-scheduling page sent to a candidate, found through the token in
+ * `/schedule/[token]`. Slots are offered where every interviewer is available
+ * and free.
+ */
+export interface BookingLink {
+  id: string;
+  tokenHash: string;
+  companyId: string;
+  applicationId: string;
+  jobId: string;
+  durationMinutes: number;
+  location: string;
+  interviewers: string[];
+  status: "open" | "booked" | "revoked";
+  /** The interview the candidate booked. */
+  interviewId?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type PublicBookingLink = Omit<BookingLink, "tokenHash">;
+
+export type NotificationType =
+  | "application_received"
+  | "screening_complete"
+  | "job_closing_soon"
+  | "sync_failed"
+  | "usage_threshold"
+  | "payment_failed";
+
+export interface Notification {
+  id: string;
+  userId: string;
+  companyId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Dashboard path the notification opens. */
+  link: string;
+  createdAt: string;
+  readAt: string | null;
+  /** Set for events that must only be announced once, e.g. a job closing soon. */
+  dedupeKey?: string;
+  /** The job it concerns, if any; only members who can see the job get it. */
+  jobId?: string;
+}
+
+/** Messages on the notification stream, sent as SSE events named after `kind`. */
+export type NotificationEvent =
+  | { kind: "notification"; notification: Notification; unreadCount: number }
+  | { kind: "unread"; unreadCount: number };
+
+/** What a team member may do; see `src/lib/permissions.ts`. */
+export type Role = "owner" | "admin" | "recruiter" | "hiring_manager" | "read_only";
+
+export interface User {
+  id: string;
+  email: string;
+  companyId: string;
+  passwordHash: string;
+  /** Missing on accounts from before teams, whose users all created their workspace and own it. */
+  role?: Role;
+  /** Jobs a hiring manager works on. Other roles see every job in the workspace. */
+  jobIds?: string[];
+  createdAt: string;
+}
+
+export type PublicUser = Omit<User, "passwordHash" | "role" | "jobIds"> & Required<Pick<User, "role" | "jobIds">>;
+
+/** An emailed invitation to join a workspace, accepted through `/invite/[token]`. */
+export interface Invitation {
+  id: string;
+  tokenHash: string;
+  companyId: string;
+  email: string;
+  role: Role;
+  jobIds: string[];
+  invitedBy: { userId: string; email: string };
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type PublicInvitation = Omit<Invitation, "tokenHash">;
+
+export interface Session {
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface Candidate {
+  id: string;
+  name: string;
+  email: string;
+  jobId: string;
+  jobRole: string;
+  decision: ScreeningDecision;
+  addedDate: string;
+}
+
+export type PlanId = "free" | "standard" | "pro" | "premium";
+
+/** What plans limit. Seats count members and pending invitations; the rest count events per billing period. */
+export type UsageMetric = "job_postings" | "application_reviews" | "ai_screenings" | "seats";
+
+export interface SubscriptionPlan {
+  id: PlanId;
+  name: string;
+  price: number;
+  yearlyPrice: number;
+  description: string;
+  features: string[];
+  /** Per billing period, except seats. Null means unlimited. */
+  limits: Record<UsageMetric, number | null>;
+}
+
+/** A metered action, recorded when it happens. */
+export interface UsageEvent {
+  id: string;
+  companyId: string;
+  metric: Exclude<UsageMetric, "seats">;
+  /** What it was about, e.g. the job title or candidate name. */
+  detail: string;
+  at: string;
+}
+
+export interface UsageSummary {
+  plan: SubscriptionPlan;
+  period: { start: string; end: string };
+  metrics: { metric: UsageMetric; used: number; limit: number | null }[];
+  recent: UsageEvent[];
+}
+
+export type BillingCycle = "monthly" | "yearly";
+
+export type SubscriptionStatus = "trialing" | "active" | "past_due" | "canceled";
+
+export interface PaymentMethod {
+  /** The payment provider's id for it. */
+  id: string;
+  /** How to show it, e.g. "Visa ending 4242". */
+  label: string;
+}
+
+/**
+ * A workspace's paid subscription. Workspaces that never subscribed have none
+ * and are on the free plan; canceled ones are kept so a trial is only given once.
+ */
+export interface Subscription {
+  companyId: string;
+  planId: PlanId;
+  billingCycle: BillingCycle;
+  status: SubscriptionStatus;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  /** Paid periods are whole months or years from here, so one starting on the 31st keeps ending on month ends. */
+  billingAnchor?: string;
+  /** Set when the subscription started with a trial; the trial ends with its first period. */
+  trialEndsAt?: string;
+  /** Ends the subscription instead of renewing it. */
+  cancelAtPeriodEnd: boolean;
+  /** When the renewal payment failed; the plan lapses once the grace period is over. */
+  pastDueSince?: string;
+  paymentMethod: PaymentMethod;
+  /** Credit in cents from downgrades, taken off the next charges. */
+  creditBalance: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Invoice {
+  id: string;
+  companyId: string;
+  description: string;
+  /** In cents. */
+  amount: number;
+  status: "paid" | "failed" | "refunded";
+  /** The provider's id for a successful charge, or why it failed. */
+  chargeId?: string;
+  failureReason?: string;
+  createdAt: string;
+}
+
+export interface BillingSummary {
+  plan: SubscriptionPlan;
+  subscription: Subscription | null;
+  /** Newest first. */
+  invoices: Invoice[];
+  /** Only the first subscription starts with a trial. */
+  trialAvailable: boolean;
+  /** Payment methods to choose from when the provider runs in test mode. */
+  testPaymentMethods: PaymentMethod[];
+}